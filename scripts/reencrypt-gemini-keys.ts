@@ -0,0 +1,23 @@
+// Encrypt Gemini API keys saved before encryption existed, and re-wrap keys after
+// a master key rotation (put the new key first in REMEMBRY_MASTER_KEYS, keep the
+// old one after it until this script has run).
+//
+// Usage: npm run reencrypt-keys
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the env is loaded so the Supabase client sees it.
+  const { reencryptStoredGeminiKeys } = await import("../src/lib/userKey");
+  const summary = await reencryptStoredGeminiKeys();
+
+  console.log(`Encrypted ${summary.encrypted} plaintext key(s)`);
+  console.log(`Re-wrapped ${summary.rewrapped} key(s) with the active master key`);
+  console.log(`${summary.unchanged} key(s) already up to date`);
+}
+
+main().catch((error) => {
+  console.error("Re-encryption failed:", error);
+  process.exit(1);
+});
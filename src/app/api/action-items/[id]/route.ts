@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { deleteActionItem, parseActionItemFields, updateActionItem } from "@/lib/actionItems";
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const parsed = parseActionItemFields(await request.json(), true);
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const actionItem = await updateActionItem(user.id, decodeURIComponent(id), parsed.fields);
+        if (!actionItem) {
+            return NextResponse.json({ error: "Action item not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, actionItem });
+    } catch (error) {
+        console.error("[action-item] Error:", error);
+        return NextResponse.json({ error: "Failed to update action item" }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const deleted = await deleteActionItem(user.id, decodeURIComponent(id));
+        if (!deleted) {
+            return NextResponse.json({ error: "Action item not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[action-item] Error:", error);
+        return NextResponse.json({ error: "Failed to delete action item" }, { status: 500 });
+    }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import {
+    ACTION_ITEM_STATUSES,
+    ActionItemStatus,
+    createActionItem,
+    listActionItems,
+    parseActionItemFields,
+} from "@/lib/actionItems";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const searchParams = request.nextUrl.searchParams;
+        const status = searchParams.get("status");
+        if (status && !ACTION_ITEM_STATUSES.includes(status as ActionItemStatus)) {
+            return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+        }
+
+        const actionItems = await listActionItems(user.id, {
+            status: (status as ActionItemStatus) || undefined,
+            meetingId: searchParams.get("meetingId") || undefined,
+            projectId: searchParams.get("projectId") || undefined,
+        });
+
+        return NextResponse.json({ actionItems });
+    } catch (error) {
+        console.error("[action-items] Error:", error);
+        return NextResponse.json({ error: "Failed to fetch action items" }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const body = await request.json();
+        if (!body?.meetingId || typeof body.meetingId !== "string") {
+            return NextResponse.json({ error: "meetingId is required" }, { status: 400 });
+        }
+
+        const parsed = parseActionItemFields(body, false);
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const actionItem = await createActionItem(user.id, body.meetingId, {
+            ...parsed.fields,
+            description: parsed.fields.description as string,
+        });
+        if (!actionItem) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, actionItem }, { status: 201 });
+    } catch (error) {
+        console.error("[action-items] Error:", error);
+        return NextResponse.json({ error: "Failed to create action item" }, { status: 500 });
+    }
+}
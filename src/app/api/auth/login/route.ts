@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateUser, claimLegacyUserData, setSessionCookie } from "@/lib/auth";
+
+export async function POST(request: NextRequest) {
+    try {
+        const { email, password, legacyUserId } = await request.json();
+
+        if (!email || typeof email !== "string" || !password || typeof password !== "string") {
+            return NextResponse.json({ error: "Email and password are required" }, { status: 400 });
+        }
+
+        const user = await authenticateUser(email, password);
+        if (!user) {
+            return NextResponse.json({ error: "Invalid email or password" }, { status: 401 });
+        }
+
+        const claimedLegacyData = typeof legacyUserId === "string"
+            ? await claimLegacyUserData(legacyUserId, user.id)
+            : false;
+
+        const response = NextResponse.json({ success: true, user, claimedLegacyData });
+        setSessionCookie(response, user.id);
+        return response;
+    } catch (error) {
+        console.error("Failed to log in:", error);
+        return NextResponse.json({ error: "Failed to log in" }, { status: 500 });
+    }
+}
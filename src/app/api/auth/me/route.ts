@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        return NextResponse.json({ user });
+    } catch (error) {
+        console.error("Failed to load current user:", error);
+        return NextResponse.json({ error: "Failed to load current user" }, { status: 500 });
+    }
+}
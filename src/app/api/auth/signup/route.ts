@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+    MIN_PASSWORD_LENGTH,
+    claimLegacyUserData,
+    createUserAccount,
+    isEmailRegistered,
+    setSessionCookie,
+} from "@/lib/auth";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: NextRequest) {
+    try {
+        const { email, password, displayName, legacyUserId } = await request.json();
+
+        if (!email || typeof email !== "string" || !EMAIL_PATTERN.test(email.trim())) {
+            return NextResponse.json({ error: "A valid email is required" }, { status: 400 });
+        }
+
+        if (!password || typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+            return NextResponse.json(
+                { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        if (await isEmailRegistered(email)) {
+            return NextResponse.json({ error: "An account with this email already exists" }, { status: 409 });
+        }
+
+        const user = await createUserAccount(
+            email,
+            password,
+            typeof displayName === "string" ? displayName : undefined
+        );
+
+        const claimedLegacyData = typeof legacyUserId === "string"
+            ? await claimLegacyUserData(legacyUserId, user.id)
+            : false;
+
+        const response = NextResponse.json({ success: true, user, claimedLegacyData });
+        setSessionCookie(response, user.id);
+        return response;
+    } catch (error) {
+        console.error("Failed to sign up:", error);
+        return NextResponse.json({ error: "Failed to create account" }, { status: 500 });
+    }
+}
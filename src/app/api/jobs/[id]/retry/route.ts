@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getProcessingJob, retryProcessingJob, runProcessingJob } from "@/lib/processingJobs";
+import { getSessionUser } from "@/lib/auth";
+import { resolveGeminiApiKeyForRequest } from "@/lib/userKey";
+import { resolveAiProviderSettings, usesGemini } from "@/lib/aiProviders";
+import { getProjectTranscriptionProvider } from "@/lib/fileSearch";
+import { assertWithinUsageLimits, UsageLimitExceededError, usageLimitExceededResponse } from "@/lib/usage";
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        await assertWithinUsageLimits(user.id);
+
+        const { id } = await params;
+        const job = await getProcessingJob(decodeURIComponent(id));
+
+        if (!job || job.userId !== user.id) {
+            return NextResponse.json({ error: "Job not found" }, { status: 404 });
+        }
+
+        if (job.status !== "failed") {
+            return NextResponse.json({ error: `Job is ${job.status} and cannot be retried` }, { status: 409 });
+        }
+
+        const providerSettings = await resolveAiProviderSettings(user.id, await getProjectTranscriptionProvider(job.projectId));
+        const apiKey = await resolveGeminiApiKeyForRequest(request);
+        if (!apiKey && usesGemini(providerSettings, job.input.fileType === "audio" ? ["llm", "transcription"] : ["llm"])) {
+            return NextResponse.json(
+                { error: "Gemini API key not found. Please add your API key in Settings." },
+                { status: 400 }
+            );
+        }
+
+        const queued = await retryProcessingJob(job.id);
+        after(() => runProcessingJob(queued.id, apiKey || undefined));
+
+        return NextResponse.json({
+            success: true,
+            job: {
+                id: queued.id,
+                meetingId: queued.meetingId,
+                status: queued.status,
+                stage: queued.stage,
+                progress: queued.progress,
+                error: queued.error,
+            },
+        }, { status: 202 });
+    } catch (error) {
+        if (error instanceof UsageLimitExceededError) {
+            return usageLimitExceededResponse(error);
+        }
+        console.error("[retry-job] Error:", error);
+        return NextResponse.json({ error: "Failed to retry job" }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProcessingJob } from "@/lib/processingJobs";
+import { getSessionUser } from "@/lib/auth";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const job = await getProcessingJob(decodeURIComponent(id));
+
+        if (!job || job.userId !== user.id) {
+            return NextResponse.json({ error: "Job not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            job: {
+                id: job.id,
+                meetingId: job.meetingId,
+                projectId: job.projectId,
+                status: job.status,
+                stage: job.stage,
+                progress: job.progress,
+                error: job.error,
+                attempts: job.attempts,
+                createdAt: job.createdAt,
+                updatedAt: job.updatedAt,
+            },
+        });
+    } catch (error) {
+        console.error("[get-job] Error:", error);
+        return NextResponse.json({ error: "Failed to fetch job" }, { status: 500 });
+    }
+}
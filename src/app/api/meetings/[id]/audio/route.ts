@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { getMeetingById } from "@/lib/meetingStorage";
+import { getBlobStore } from "@/lib/blobStore";
+
+// Signed URLs only need to outlive one listening session.
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Parse a single-range `Range: bytes=start-end` header. Returns null when the
+ * header is absent or cannot be satisfied, in which case the whole file is sent.
+ */
+function parseRange(header: string | null, size: number): { start: number; end: number } | null {
+    const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) {
+        return null;
+    }
+
+    const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+    const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    return start <= end && start < size ? { start, end } : null;
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
+        if (!meeting || !meeting.audio_path) {
+            return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+        }
+
+        const store = getBlobStore();
+        const signedUrl = await store.getSignedUrl(meeting.audio_path, SIGNED_URL_TTL_SECONDS);
+        if (signedUrl) {
+            return NextResponse.redirect(signedUrl);
+        }
+
+        const data = await store.get(meeting.audio_path);
+        if (!data) {
+            return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+        }
+
+        // Browsers need range requests to seek within the recording.
+        const contentType = meeting.mime_type || "audio/webm";
+        const range = parseRange(request.headers.get("range"), data.length);
+        if (range) {
+            return new NextResponse(new Uint8Array(data.subarray(range.start, range.end + 1)), {
+                status: 206,
+                headers: {
+                    "Content-Type": contentType,
+                    "Content-Length": String(range.end - range.start + 1),
+                    "Content-Range": `bytes ${range.start}-${range.end}/${data.length}`,
+                    "Accept-Ranges": "bytes",
+                },
+            });
+        }
+
+        return new NextResponse(new Uint8Array(data), {
+            headers: {
+                "Content-Type": contentType,
+                "Content-Length": String(data.length),
+                "Accept-Ranges": "bytes",
+            },
+        });
+    } catch (error) {
+        console.error("[meeting-audio] Error:", error);
+        return NextResponse.json({ error: "Failed to load recording" }, { status: 500 });
+    }
+}
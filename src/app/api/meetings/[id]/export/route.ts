@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { getMeetingById } from "@/lib/meetingStorage";
+import { applySpeakerNames } from "@/lib/speakerNames";
+import { SUPPORTED_LANGUAGES } from "@/lib/gemini";
+import { EXPORT_FORMATS, ExportFormat, SUBTITLE_FORMATS, exportMeeting } from "@/lib/meetingExport";
+
+/**
+ * Content-Disposition for a download named after the meeting. The plain
+ * `filename` is an ASCII slug for old clients; `filename*` keeps the title.
+ */
+function attachmentHeader(title: string, extension: string): string {
+    const slug = title
+        .normalize("NFKD")
+        .replace(/[^\w\s-]/g, "")
+        .trim()
+        .replace(/[\s_-]+/g, "-")
+        .toLowerCase()
+        .slice(0, 80) || "meeting";
+    const fullName = `${title.replace(/[\\/:*?"<>|\r\n]+/g, " ").trim() || "meeting"}.${extension}`;
+    return `attachment; filename="${slug}.${extension}"; filename*=UTF-8''${encodeURIComponent(fullName)}`;
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const searchParams = request.nextUrl.searchParams;
+        const format = (searchParams.get("format") || "md") as ExportFormat;
+        if (!EXPORT_FORMATS.includes(format)) {
+            return NextResponse.json(
+                { error: `Unsupported format. Use one of: ${EXPORT_FORMATS.join(", ")}` },
+                { status: 400 }
+            );
+        }
+
+        const { id } = await params;
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
+        if (!meeting) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        const transcription = applySpeakerNames(meeting.transcription, meeting.speaker_names);
+        const segments = transcription.segments || [];
+
+        if (SUBTITLE_FORMATS.includes(format) && !segments.some((segment) => segment.startTime !== undefined)) {
+            return NextResponse.json(
+                { error: "This transcript has no timestamps, so it cannot be exported as subtitles" },
+                { status: 400 }
+            );
+        }
+
+        const language = searchParams.get("language") || meeting.default_language || "en";
+        const notes = meeting.notes_by_language?.[language] || null;
+        if (!notes && !SUBTITLE_FORMATS.includes(format)) {
+            return NextResponse.json(
+                { error: `No notes in language "${language}". Generate them on the meeting page first.` },
+                { status: 404 }
+            );
+        }
+
+        const file = exportMeeting(
+            {
+                title: meeting.title,
+                createdAt: meeting.created_at,
+                languageName: SUPPORTED_LANGUAGES.find((l) => l.code === language)?.name || language,
+                notes,
+                segments,
+                transcriptText: transcription.text || "",
+            },
+            format
+        );
+
+        return new NextResponse(new Uint8Array(file.body), {
+            headers: {
+                "Content-Type": file.contentType,
+                "Content-Length": String(file.body.length),
+                "Content-Disposition": attachmentHeader(meeting.title, file.extension),
+            },
+        });
+    } catch (error) {
+        console.error("[meeting-export] Error:", error);
+        return NextResponse.json({ error: "Failed to export meeting" }, { status: 500 });
+    }
+}
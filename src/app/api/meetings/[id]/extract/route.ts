@@ -1,23 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
-import { extractMeetingNotes } from "@/lib/gemini";
+import { extractMeetingNotes, withProjectGoals } from "@/lib/gemini";
+import { getSessionUser } from "@/lib/auth";
 import { resolveGeminiApiKeyForRequest } from "@/lib/userKey";
-import { getMeetingById, updateMeetingNotesLanguage } from "@/lib/meetingStorage";
+import { assertWithinUsageLimits, UsageLimitExceededError, usageLimitExceededResponse } from "@/lib/usage";
+import { LlmOutputValidationError } from "@/lib/llmOutput";
+import { createAiProviders, resolveAiProviderSettings, usesGemini } from "@/lib/aiProviders";
+import { getMeetingById } from "@/lib/meetingStorage";
+import { getProjectGoals } from "@/lib/fileSearch";
+import { hasManualNotesEdits, saveMeetingNotes } from "@/lib/notesRevisions";
+import { replaceExtractedActionItems } from "@/lib/actionItems";
+import { applySpeakerNames, namedSpeakers } from "@/lib/speakerNames";
 
 export async function POST(
     request: NextRequest,
     context: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const providerSettings = await resolveAiProviderSettings(user.id);
         const apiKey = await resolveGeminiApiKeyForRequest(request);
-        if (!apiKey) {
+        if (!apiKey && usesGemini(providerSettings, ["llm"])) {
             return NextResponse.json(
                 { error: "Gemini API key not found. Please add your API key in Settings." },
                 { status: 400 }
             );
         }
 
+        await assertWithinUsageLimits(user.id);
+
         const { id } = await context.params;
-        const meeting = await getMeetingById(decodeURIComponent(id));
+        const { force } = await request.json().catch(() => ({}));
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
 
         if (!meeting) {
             return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
@@ -28,11 +45,43 @@ export async function POST(
             return NextResponse.json({ error: "No transcription text available" }, { status: 400 });
         }
 
-        const notes = await extractMeetingNotes(transcriptionText, meeting.context || undefined, "en", apiKey);
-        await updateMeetingNotesLanguage(meeting.id, "en", notes);
+        if (force !== true && await hasManualNotesEdits(meeting.id, "en")) {
+            return NextResponse.json(
+                {
+                    error: "These notes were edited by hand. Regenerating replaces the edits (they stay in the revision history).",
+                    code: "notes_edited",
+                },
+                { status: 409 }
+            );
+        }
+
+        const transcription = applySpeakerNames(meeting.transcription, meeting.speaker_names);
+        const notesContext = withProjectGoals(meeting.context || undefined, await getProjectGoals(meeting.project_id));
+        const { llm } = createAiProviders(providerSettings, apiKey || undefined, {
+            userId: user.id,
+            meetingId: meeting.id,
+            projectId: meeting.project_id,
+        });
+        const notes = await extractMeetingNotes(transcription.text, llm, notesContext, "en",
+            transcription.segments, namedSpeakers(meeting.transcription.speakers || [], meeting.speaker_names));
+        await saveMeetingNotes(meeting.id, user.id, "en", notes, { source: "generated", authorId: user.id });
+
+        if ("en" === (meeting.default_language || "en") && notes.actionItemDetails) {
+            await replaceExtractedActionItems(
+                { id: meeting.id, projectId: meeting.project_id, ownerId: user.id },
+                notes.actionItemDetails
+            );
+        }
 
         return NextResponse.json({ success: true, notes });
     } catch (error) {
+        if (error instanceof UsageLimitExceededError) {
+            return usageLimitExceededResponse(error);
+        }
+        if (error instanceof LlmOutputValidationError) {
+            // Nothing was saved; the notes stay as they were.
+            return NextResponse.json({ error: error.message, code: "invalid_model_output" }, { status: 502 });
+        }
         console.error("Error generating notes:", error);
         return NextResponse.json({ error: "Failed to generate notes" }, { status: 500 });
     }
@@ -43,8 +92,13 @@ export async function GET(
     context: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
         const { id } = await context.params;
-        const meeting = await getMeetingById(decodeURIComponent(id));
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
 
         if (!meeting) {
             return NextResponse.json({ error: "Notes not found" }, { status: 404 });
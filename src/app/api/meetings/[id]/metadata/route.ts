@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
 import { getMeetingMetadata } from "@/lib/meetingStorage";
 
 export async function GET(
@@ -6,8 +7,13 @@ export async function GET(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
         const { id } = await params;
-        const metadata = await getMeetingMetadata(decodeURIComponent(id));
+        const metadata = await getMeetingMetadata(decodeURIComponent(id), user.id);
 
         if (!metadata) {
             return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
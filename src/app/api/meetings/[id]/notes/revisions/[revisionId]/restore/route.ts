@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { restoreNotesRevision } from "@/lib/notesRevisions";
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id, revisionId } = await params;
+        const parsedRevisionId = Number(revisionId);
+        if (!Number.isInteger(parsedRevisionId) || parsedRevisionId <= 0) {
+            return NextResponse.json({ error: "Invalid revision id" }, { status: 400 });
+        }
+
+        const revision = await restoreNotesRevision(decodeURIComponent(id), user.id, parsedRevisionId, user.id);
+        if (!revision) {
+            return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, notes: revision.notes, revision });
+    } catch (error) {
+        console.error("[restore-notes] Error:", error);
+        return NextResponse.json({ error: "Failed to restore notes" }, { status: 500 });
+    }
+}
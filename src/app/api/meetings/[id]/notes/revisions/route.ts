@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { listNotesRevisions } from "@/lib/notesRevisions";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const language = request.nextUrl.searchParams.get("language") || "en";
+
+        const revisions = await listNotesRevisions(decodeURIComponent(id), user.id, language);
+        if (!revisions) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ revisions, language });
+    } catch (error) {
+        console.error("[notes-revisions] Error:", error);
+        return NextResponse.json({ error: "Failed to fetch notes revisions" }, { status: 500 });
+    }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { getMeetingById } from "@/lib/meetingStorage";
+import { normalizeMeetingNotes, saveMeetingNotes } from "@/lib/notesRevisions";
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { language, notes } = await request.json();
+
+        if (!language || typeof language !== "string") {
+            return NextResponse.json({ error: "language is required" }, { status: 400 });
+        }
+
+        const normalized = normalizeMeetingNotes(notes);
+        if (!normalized) {
+            return NextResponse.json({ error: "Notes must include summary, keyTopics, actionItems, decisions, assumptions and qa" }, { status: 400 });
+        }
+
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
+        if (!meeting) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        if (!meeting.notes_by_language?.[language]) {
+            return NextResponse.json({ error: "No notes in this language to edit" }, { status: 404 });
+        }
+
+        const revision = await saveMeetingNotes(meeting.id, user.id, language, normalized, {
+            source: "manual",
+            authorId: user.id,
+        });
+
+        return NextResponse.json({ success: true, notes: revision.notes, revision });
+    } catch (error) {
+        console.error("[update-notes] Error:", error);
+        return NextResponse.json({ error: "Failed to save notes" }, { status: 500 });
+    }
+}
@@ -1,29 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
-import { extractMeetingNotes, SUPPORTED_LANGUAGES } from "@/lib/gemini";
+import { extractMeetingNotes, withProjectGoals, SUPPORTED_LANGUAGES } from "@/lib/gemini";
+import { getSessionUser } from "@/lib/auth";
 import { resolveGeminiApiKeyForRequest } from "@/lib/userKey";
-import { getMeetingById, getMeetingNotes, updateMeetingNotesLanguage } from "@/lib/meetingStorage";
+import { assertWithinUsageLimits, UsageLimitExceededError, usageLimitExceededResponse } from "@/lib/usage";
+import { LlmOutputValidationError } from "@/lib/llmOutput";
+import { createAiProviders, resolveAiProviderSettings, usesGemini } from "@/lib/aiProviders";
+import { getMeetingById, getMeetingNotes } from "@/lib/meetingStorage";
+import { getProjectGoals } from "@/lib/fileSearch";
+import { hasManualNotesEdits, saveMeetingNotes } from "@/lib/notesRevisions";
+import { replaceExtractedActionItems } from "@/lib/actionItems";
+import { applySpeakerNames, namedSpeakers } from "@/lib/speakerNames";
 
 export async function POST(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const providerSettings = await resolveAiProviderSettings(user.id);
         const apiKey = await resolveGeminiApiKeyForRequest(request);
-        if (!apiKey) {
+        if (!apiKey && usesGemini(providerSettings, ["llm"])) {
             return NextResponse.json(
                 { error: "Gemini API key not found. Please add your API key in Settings." },
                 { status: 400 }
             );
         }
 
+        await assertWithinUsageLimits(user.id);
+
         const { id } = await params;
-        const { language } = await request.json();
+        const { language, force } = await request.json();
 
         if (!language || !SUPPORTED_LANGUAGES.some((l) => l.code === language)) {
             return NextResponse.json({ error: "Invalid language code" }, { status: 400 });
         }
 
-        const meeting = await getMeetingById(decodeURIComponent(id));
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
         if (!meeting) {
             return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
         }
@@ -33,11 +49,43 @@ export async function POST(
             return NextResponse.json({ error: "No transcription text found" }, { status: 400 });
         }
 
-        const notes = await extractMeetingNotes(transcriptionText, meeting.context || undefined, language, apiKey);
-        await updateMeetingNotesLanguage(meeting.id, language, notes);
+        if (force !== true && await hasManualNotesEdits(meeting.id, language)) {
+            return NextResponse.json(
+                {
+                    error: "These notes were edited by hand. Regenerating replaces the edits (they stay in the revision history).",
+                    code: "notes_edited",
+                },
+                { status: 409 }
+            );
+        }
+
+        const transcription = applySpeakerNames(meeting.transcription, meeting.speaker_names);
+        const notesContext = withProjectGoals(meeting.context || undefined, await getProjectGoals(meeting.project_id));
+        const { llm } = createAiProviders(providerSettings, apiKey || undefined, {
+            userId: user.id,
+            meetingId: meeting.id,
+            projectId: meeting.project_id,
+        });
+        const notes = await extractMeetingNotes(transcription.text, llm, notesContext, language,
+            transcription.segments, namedSpeakers(meeting.transcription.speakers || [], meeting.speaker_names));
+        await saveMeetingNotes(meeting.id, user.id, language, notes, { source: "generated", authorId: user.id });
+
+        if (language === (meeting.default_language || "en") && notes.actionItemDetails) {
+            await replaceExtractedActionItems(
+                { id: meeting.id, projectId: meeting.project_id, ownerId: user.id },
+                notes.actionItemDetails
+            );
+        }
 
         return NextResponse.json({ success: true, notes, language });
     } catch (error) {
+        if (error instanceof UsageLimitExceededError) {
+            return usageLimitExceededResponse(error);
+        }
+        if (error instanceof LlmOutputValidationError) {
+            // Nothing was saved; the notes stay as they were.
+            return NextResponse.json({ error: error.message, code: "invalid_model_output" }, { status: 502 });
+        }
         console.error("[regenerate-notes] Error:", error);
         return NextResponse.json({ error: "Failed to regenerate notes" }, { status: 500 });
     }
@@ -48,16 +96,21 @@ export async function GET(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
         const { id } = await params;
         const { searchParams } = new URL(request.url);
         const language = searchParams.get("language") || "en";
 
-        const meeting = await getMeetingById(decodeURIComponent(id));
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
         if (!meeting) {
             return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
         }
 
-        const { notes, needsRegeneration } = await getMeetingNotes(meeting.id, language);
+        const { notes, needsRegeneration } = await getMeetingNotes(meeting.id, user.id, language);
 
         return NextResponse.json({ notes, language, needsRegeneration });
     } catch (error) {
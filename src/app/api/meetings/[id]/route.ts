@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { deleteMeeting, getMeetingById, parseMeetingFields, updateMeeting } from "@/lib/meetingStorage";
+import { isProjectOwnedBy } from "@/lib/fileSearch";
+import { moveMeetingActionItems } from "@/lib/actionItems";
+import { linkMeetingSpeakers } from "@/lib/participants";
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const parsed = parseMeetingFields(await request.json().catch(() => ({})));
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
+        if (!meeting) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        const { fields } = parsed;
+        const newProjectId = fields.projectId !== meeting.project_id ? fields.projectId : undefined;
+        if (newProjectId && !(await isProjectOwnedBy(newProjectId, user.id))) {
+            return NextResponse.json({ error: "Project not found" }, { status: 404 });
+        }
+
+        const updated = await updateMeeting(meeting.id, user.id, fields);
+        if (!updated) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        if (newProjectId) {
+            // Action items and participants are per project, so they follow the meeting.
+            await moveMeetingActionItems(meeting.id, user.id, newProjectId);
+            await linkMeetingSpeakers(
+                { id: meeting.id, projectId: newProjectId, ownerId: user.id },
+                meeting.speaker_names || {}
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            meeting: {
+                id: updated.id,
+                title: updated.title,
+                context: updated.context,
+                projectId: updated.project_id,
+            },
+        });
+    } catch (error) {
+        console.error("[update-meeting] Error:", error);
+        return NextResponse.json({ error: "Failed to update meeting" }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const deleted = await deleteMeeting(decodeURIComponent(id), user.id);
+        if (!deleted) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[delete-meeting] Error:", error);
+        return NextResponse.json({ error: "Failed to delete meeting" }, { status: 500 });
+    }
+}
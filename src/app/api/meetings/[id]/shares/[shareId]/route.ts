@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { deleteMeetingShare } from "@/lib/meetingShares";
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id, shareId } = await params;
+        const deleted = await deleteMeetingShare(decodeURIComponent(shareId), decodeURIComponent(id), user.id);
+        if (!deleted) {
+            return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[meeting-share] Error:", error);
+        return NextResponse.json({ error: "Failed to revoke share link" }, { status: 500 });
+    }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { getMeetingById } from "@/lib/meetingStorage";
+import { createMeetingShare, listMeetingShares, parseMeetingShareFields } from "@/lib/meetingShares";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const shares = await listMeetingShares(decodeURIComponent(id), user.id);
+
+        return NextResponse.json({ shares });
+    } catch (error) {
+        console.error("[meeting-shares] Error:", error);
+        return NextResponse.json({ error: "Failed to fetch share links" }, { status: 500 });
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const parsed = parseMeetingShareFields(await request.json().catch(() => ({})));
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
+        if (!meeting) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        const share = await createMeetingShare(meeting.id, user.id, parsed.fields);
+
+        return NextResponse.json({ success: true, share }, { status: 201 });
+    } catch (error) {
+        console.error("[meeting-shares] Error:", error);
+        return NextResponse.json({ error: "Failed to create share link" }, { status: 500 });
+    }
+}
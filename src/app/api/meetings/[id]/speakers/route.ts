@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { getMeetingById, updateMeetingSpeakerNames } from "@/lib/meetingStorage";
+import { applySpeakerNames, parseSpeakerNames, speakerLabels } from "@/lib/speakerNames";
+import { linkMeetingSpeakers, listParticipants, suggestSpeakerMatches } from "@/lib/participants";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
+        if (!meeting) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        const speakers = speakerLabels(meeting.transcription);
+        const speakerNames = meeting.speaker_names || {};
+        const participants = await listParticipants(user.id, meeting.project_id);
+
+        return NextResponse.json({
+            speakers,
+            speakerNames,
+            participants,
+            suggestions: suggestSpeakerMatches(participants, speakers, speakerNames),
+        });
+    } catch (error) {
+        console.error("[get-speakers] Error:", error);
+        return NextResponse.json({ error: "Failed to fetch speakers" }, { status: 500 });
+    }
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const meeting = await getMeetingById(decodeURIComponent(id), user.id);
+        if (!meeting) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        const parsed = parseSpeakerNames(body.speakerNames, speakerLabels(meeting.transcription));
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        await updateMeetingSpeakerNames(meeting.id, user.id, parsed.speakerNames);
+        await linkMeetingSpeakers(
+            { id: meeting.id, projectId: meeting.project_id, ownerId: user.id },
+            parsed.speakerNames
+        );
+
+        return NextResponse.json({
+            success: true,
+            speakerNames: parsed.speakerNames,
+            transcription: applySpeakerNames(meeting.transcription, parsed.speakerNames),
+        });
+    } catch (error) {
+        console.error("[update-speakers] Error:", error);
+        return NextResponse.json({ error: "Failed to save speaker names" }, { status: 500 });
+    }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { initialize, analyzeMeeting } from '@/lib/fileSearch';
+import { getSessionUser } from '@/lib/auth';
 import { resolveGeminiApiKeyForRequest } from '@/lib/userKey';
+import { resolveAiProviderSettings, usesGemini } from '@/lib/aiProviders';
+import { assertWithinUsageLimits, UsageLimitExceededError, usageLimitExceededResponse } from '@/lib/usage';
 
 // Initialize AI on module load
 initialize();
@@ -9,14 +12,21 @@ export async function GET(
     request: NextRequest
 ) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
         const apiKey = await resolveGeminiApiKeyForRequest(request);
-        if (!apiKey) {
+        if (!apiKey && usesGemini(await resolveAiProviderSettings(user.id), ['llm'])) {
             return NextResponse.json(
                 { error: "Gemini API key not found. Please add your API key in Settings." },
                 { status: 400 }
             );
         }
 
+        await assertWithinUsageLimits(user.id);
+
         const searchParams = request.nextUrl.searchParams;
         const documentName = searchParams.get('documentName');
         
@@ -29,7 +39,7 @@ export async function GET(
             );
         }
 
-        const analysis = await analyzeMeeting(documentName, apiKey);
+        const analysis = await analyzeMeeting(documentName, user.id, apiKey || undefined);
 
         if (!analysis) {
             return NextResponse.json(
@@ -43,6 +53,9 @@ export async function GET(
             meeting: analysis,
         });
     } catch (error) {
+        if (error instanceof UsageLimitExceededError) {
+            return usageLimitExceededResponse(error);
+        }
         console.error('Error analyzing meeting:', error);
         return NextResponse.json(
             { error: 'Failed to analyze meeting' },
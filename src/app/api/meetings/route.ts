@@ -1,5 +1,7 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
 import { getSupabaseServerClient } from '@/lib/supabase';
+import { MIN_TRANSCRIPT_COVERAGE } from '@/lib/audioDuration';
 
 interface MeetingWithProject {
     id: string;
@@ -9,10 +11,17 @@ interface MeetingWithProject {
     projectDisplayName: string;
     uploadTime?: string;
     mimeType?: string;
+    durationSeconds: number | null;
+    lowCoverage: boolean; // Transcript misses a large part of the recording
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
         const supabase = getSupabaseServerClient();
 
         // Fetch meetings with project info
@@ -24,8 +33,11 @@ export async function GET() {
                 title,
                 created_at,
                 mime_type,
-                file_type
+                file_type,
+                duration_seconds,
+                transcript_coverage
             `)
+            .eq("owner_id", user.id)
             .order("created_at", { ascending: false });
 
         if (error) {
@@ -35,7 +47,8 @@ export async function GET() {
         // Fetch projects to get display names
         const { data: projects } = await supabase
             .from("projects")
-            .select("id, display_name");
+            .select("id, display_name")
+            .eq("owner_id", user.id);
 
         const projectMap = new Map(
             (projects || []).map(p => [p.id, p.display_name])
@@ -52,6 +65,8 @@ export async function GET() {
             projectDisplayName: projectMap.get(m.project_id) || "Unknown Project",
             uploadTime: m.created_at,
             mimeType: m.mime_type,
+            durationSeconds: m.duration_seconds ?? null,
+            lowCoverage: m.transcript_coverage !== null && m.transcript_coverage < MIN_TRANSCRIPT_COVERAGE,
         }));
 
         return NextResponse.json({
@@ -1,26 +1,54 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { initialize, uploadToRagStore } from '@/lib/fileSearch';
-import { transcribeAudio, extractMeetingNotes, TranscriptionResult } from '@/lib/gemini';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getProjectTranscriptionProvider, initialize, isProjectOwnedBy } from '@/lib/fileSearch';
+import { getSessionUser } from '@/lib/auth';
 import { resolveGeminiApiKeyForRequest } from '@/lib/userKey';
-import { upsertMeeting, MeetingNotes } from '@/lib/meetingStorage';
-import { writeFile, mkdtemp, rm } from 'fs/promises';
+import { assertWithinUsageLimits, UsageLimitExceededError, usageLimitExceededResponse } from '@/lib/usage';
+import { createProcessingJob, ensureJobDir, runProcessingJob } from '@/lib/processingJobs';
+import { readAudioDuration } from '@/lib/audioDuration';
+import { SUPPORTED_LANGUAGES } from '@/lib/gemini';
+import { resolveAiProviderSettings, usesGemini } from '@/lib/aiProviders';
+import { writeFile } from 'fs/promises';
 import path from 'path';
-import os from 'os';
 
 initialize();
 
-export async function POST(request: NextRequest) {
-    let tempDir: string | null = null;
+/**
+ * The `notesLanguages` form field: a JSON array of supported language codes,
+ * English when left out.
+ */
+function parseNotesLanguages(raw: string | null): { languages: string[] } | { error: string } {
+    if (!raw) {
+        return { languages: ['en'] };
+    }
 
+    let value: unknown;
     try {
-        const apiKey = await resolveGeminiApiKeyForRequest(request);
-        if (!apiKey) {
-            return NextResponse.json(
-                { error: 'Gemini API key not found. Please add your API key in Settings.' },
-                { status: 400 }
-            );
+        value = JSON.parse(raw);
+    } catch {
+        return { error: 'notesLanguages must be a JSON array of language codes' };
+    }
+
+    if (!Array.isArray(value) || value.length === 0) {
+        return { error: 'notesLanguages must be a non-empty array of language codes' };
+    }
+
+    const unsupported = value.filter((code) => !SUPPORTED_LANGUAGES.some((l) => l.code === code));
+    if (unsupported.length > 0) {
+        return { error: `Unsupported notes language: ${unsupported.map(String).join(', ')}` };
+    }
+
+    return { languages: Array.from(new Set(value as string[])) };
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
         }
 
+        await assertWithinUsageLimits(user.id);
+
         const formData = await request.formData();
 
         const file = formData.get('file') as File;
@@ -29,166 +57,84 @@ export async function POST(request: NextRequest) {
         const projectName = formData.get('projectName') as string;
         const displayName = formData.get('displayName') as string;
         const fileType = formData.get('fileType') as string;
-        const notesLanguagesRaw = formData.get('notesLanguages') as string;
-        const notesLanguages: string[] = notesLanguagesRaw ? JSON.parse(notesLanguagesRaw) : ['en'];
+        const parsedLanguages = parseNotesLanguages(formData.get('notesLanguages') as string | null);
 
         if (!file) {
             return NextResponse.json({ error: 'File is required' }, { status: 400 });
         }
 
-        // Note: For very large files, processing time increases significantly.
-        // Gemini API has internal timeout limits; very long recordings may fail.
+        if ('error' in parsedLanguages) {
+            return NextResponse.json({ error: parsedLanguages.error }, { status: 400 });
+        }
+        const notesLanguages = parsedLanguages.languages;
 
         if (!projectName) {
             return NextResponse.json({ error: 'Project name is required' }, { status: 400 });
         }
 
+        if (!(await isProjectOwnedBy(projectName, user.id))) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
         const meetingId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
         const fileExtension = path.extname(file.name) || (fileType === 'text' ? '.txt' : '.webm');
         const fileName = `${meetingId}${fileExtension}`;
+        const resolvedFileType = fileType === 'text' || (!fileType && file.type === 'text/plain') ? 'text' : 'audio';
 
-        tempDir = await mkdtemp(path.join(os.tmpdir(), 'remembry-upload-'));
-
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        const sourcePath = path.join(tempDir, `source${fileExtension}`);
-        await writeFile(sourcePath, buffer);
-
-        let transcription: TranscriptionResult;
-        const notesByLanguage: Record<string, MeetingNotes> = {};
-        let transcriptText = '';
-
-        if (fileType === 'text') {
-            transcriptText = buffer.toString('utf-8');
-
-            transcription = {
-                text: transcriptText,
-                segments: [
-                    {
-                        startTime: 0,
-                        endTime: 0,
-                        text: transcriptText,
-                        speaker: 'Unknown',
-                    },
-                ],
-                speakers: ['Unknown'],
-                duration: 0,
-                language: 'en',
-            };
-
-            const generatedNotes = await extractMeetingNotes(transcriptText, notes || undefined, 'en', apiKey);
-            notesByLanguage.en = generatedNotes;
-        } else {
-            let mimeType = file.type || 'audio/webm';
-            if (mimeType === 'video/webm') {
-                mimeType = 'audio/webm';
-            } else if (mimeType === 'video/mp4') {
-                mimeType = 'audio/mp4';
-            }
-
-            transcription = await transcribeAudio(sourcePath, mimeType, notes || undefined, apiKey);
-            transcriptText = transcription.text;
-
-            for (const lang of notesLanguages) {
-                notesByLanguage[lang] = await extractMeetingNotes(transcriptText, notes || undefined, lang, apiKey);
-            }
-        }
-
-        if (!notesByLanguage.en) {
-            notesByLanguage.en = await extractMeetingNotes(transcriptText, notes || undefined, 'en', apiKey);
+        // Only the providers this upload will use need a Gemini key.
+        const providerSettings = await resolveAiProviderSettings(user.id, await getProjectTranscriptionProvider(projectName));
+        const apiKey = await resolveGeminiApiKeyForRequest(request);
+        if (!apiKey && usesGemini(providerSettings, resolvedFileType === 'audio' ? ['llm', 'transcription'] : ['llm'])) {
+            return NextResponse.json(
+                { error: 'Gemini API key not found. Please add your API key in Settings.' },
+                { status: 400 }
+            );
         }
 
-        const transcriptPath = path.join(tempDir, 'transcript.txt');
-        const transcriptContent = `Title: ${title || file.name}\nDate: ${new Date().toISOString()}\n\n${transcriptText}`;
-        await writeFile(transcriptPath, transcriptContent);
-
-        await upsertMeeting({
-            id: meetingId,
-            project_id: projectName,
-            title: title || file.name,
-            context: notes || '',
-            file_name: fileName,
-            file_size: file.size,
-            mime_type: file.type,
-            file_type: fileType || (file.type === 'text/plain' ? 'text' : 'audio'),
-            created_at: new Date().toISOString(),
-            transcription,
-            notes_by_language: notesByLanguage,
-            default_language: notesLanguages[0] || 'en',
-            available_languages: Array.from(new Set(Object.keys(notesByLanguage))),
-        });
+        // The file is kept on disk until the job finishes so failed stages can be retried.
+        const jobDir = await ensureJobDir(meetingId);
+        const sourcePath = path.join(jobDir, `source${fileExtension}`);
+        const fileData = Buffer.from(await file.arrayBuffer());
+        await writeFile(sourcePath, fileData);
 
-        const customMetadata = [
-            ...(displayName ? [{ key: 'displayName', stringValue: displayName }] : []),
-            { key: 'projectName', stringValue: projectName },
-            { key: 'meetingId', stringValue: meetingId },
-            { key: 'title', stringValue: title || file.name },
-            { key: 'date', stringValue: new Date().toISOString() },
-        ];
-
-        let ragUploadStatus = 'skipped';
-        try {
-            await uploadToRagStore(projectName, transcriptPath, 'text/plain', `${title || file.name} - Transcript`, customMetadata);
-            ragUploadStatus = 'success';
-        } catch (error) {
-            console.error('Failed to upload transcript document:', error);
-            ragUploadStatus = 'failed';
-        }
-
-        return NextResponse.json({
-            success: true,
+        const job = await createProcessingJob({
             meetingId,
-            meeting: {
-                id: meetingId,
+            userId: user.id,
+            input: {
+                title: title || file.name,
+                context: notes || '',
+                projectName,
+                displayName: displayName || undefined,
+                fileType: resolvedFileType,
                 fileName,
                 fileSize: file.size,
                 mimeType: file.type,
-                fileType: fileType || (file.type === 'text/plain' ? 'text' : 'audio'),
-                title: title || file.name,
-                notes: notes || '',
-                projectName,
-                displayName,
-                ragUploadStatus,
+                sourcePath,
+                notesLanguages,
                 uploadedAt: new Date().toISOString(),
-                transcription,
-                generatedNotes: notesByLanguage[notesLanguages[0] || 'en'] || notesByLanguage.en,
+                duration: resolvedFileType === 'audio' ? readAudioDuration(fileData) : null,
             },
-            message: fileType === 'text' ? 'Text transcript uploaded successfully' : 'Meeting uploaded and processed successfully',
         });
-    } catch (error) {
-        console.error('Error uploading meeting:', error);
 
-        let errorMessage = 'Failed to upload meeting';
-        let statusCode = 500;
-
-        if (error instanceof Error) {
-            const msg = error.message.toLowerCase();
-
-            if (msg.includes('fetch failed') || msg.includes('network')) {
-                errorMessage = 'Network error: Unable to connect to Gemini API. Please check your internet connection and try again.';
-                statusCode = 503;
-            } else if (msg.includes('api key') || msg.includes('unauthorized')) {
-                errorMessage = 'API authentication error. Please check your API key configuration.';
-                statusCode = 401;
-            } else if (msg.includes('rate limit') || msg.includes('quota')) {
-                errorMessage = 'API rate limit exceeded. Please try again later.';
-                statusCode = 429;
-            } else if (msg.includes('timeout')) {
-                errorMessage = 'Request timed out. Please try again with a smaller file.';
-                statusCode = 504;
-            } else {
-                errorMessage = `Failed to upload meeting: ${error.message}`;
-            }
-        }
+        // Transcription and note extraction run after the response is sent.
+        after(() => runProcessingJob(job.id, apiKey || undefined));
 
-        return NextResponse.json({ error: errorMessage }, { status: statusCode });
-    } finally {
-        if (tempDir) {
-            try {
-                await rm(tempDir, { recursive: true, force: true });
-            } catch {
-                // ignore cleanup errors
-            }
+        return NextResponse.json({
+            success: true,
+            jobId: job.id,
+            meetingId,
+            status: job.status,
+            stage: job.stage,
+            message: 'Meeting uploaded. Processing has started.',
+        }, { status: 202 });
+    } catch (error) {
+        if (error instanceof UsageLimitExceededError) {
+            return usageLimitExceededResponse(error);
         }
+        console.error('Error uploading meeting:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? `Failed to upload meeting: ${error.message}` : 'Failed to upload meeting' },
+            { status: 500 }
+        );
     }
 }
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import {
+    deleteParticipant,
+    getParticipant,
+    getParticipantActivity,
+    listParticipants,
+    parseParticipantFields,
+    participantHasName,
+    updateParticipant,
+} from "@/lib/participants";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const activity = await getParticipantActivity(user.id, decodeURIComponent(id));
+        if (!activity) {
+            return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+        }
+
+        return NextResponse.json(activity);
+    } catch (error) {
+        console.error("[participant] Error:", error);
+        return NextResponse.json({ error: "Failed to fetch participant" }, { status: 500 });
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const parsed = parseParticipantFields(await request.json().catch(() => ({})), true);
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const current = await getParticipant(user.id, decodeURIComponent(id));
+        if (!current) {
+            return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+        }
+
+        const newName = parsed.fields.name;
+        if (newName) {
+            const others = (await listParticipants(user.id, current.projectId)).filter((participant) => participant.id !== current.id);
+            if (others.some((participant) => participantHasName(participant, newName))) {
+                return NextResponse.json(
+                    { error: "A participant with this name already exists in the project" },
+                    { status: 409 }
+                );
+            }
+        }
+
+        const participant = await updateParticipant(user.id, current.id, parsed.fields);
+        if (!participant) {
+            return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, participant });
+    } catch (error) {
+        console.error("[participant] Error:", error);
+        return NextResponse.json({ error: "Failed to update participant" }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const deleted = await deleteParticipant(user.id, decodeURIComponent(id));
+        if (!deleted) {
+            return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[participant] Error:", error);
+        return NextResponse.json({ error: "Failed to delete participant" }, { status: 500 });
+    }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initialize, isProjectOwnedBy, queryRagStore } from '@/lib/fileSearch';
+import { getSessionUser } from '@/lib/auth';
+import { resolveGeminiApiKeyForRequest } from '@/lib/userKey';
+import { assertWithinUsageLimits, UsageLimitExceededError, usageLimitExceededResponse } from '@/lib/usage';
+import { createAiProviders, resolveAiProviderSettings, usesGemini } from '@/lib/aiProviders';
+import { ChatMessage } from '@/types';
+
+// Initialize AI on module load
+initialize();
+
+export async function POST(
+    request: NextRequest,
+    context: { params: Promise<{ projectId: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
+        const providerSettings = await resolveAiProviderSettings(user.id);
+        const apiKey = await resolveGeminiApiKeyForRequest(request);
+        if (!apiKey && usesGemini(providerSettings, ['llm'])) {
+            return NextResponse.json(
+                { error: 'Gemini API key not found. Please add your API key in Settings.' },
+                { status: 400 }
+            );
+        }
+
+        await assertWithinUsageLimits(user.id);
+
+        const { projectId } = await context.params;
+        const projectName = decodeURIComponent(projectId);
+        if (!(await isProjectOwnedBy(projectName, user.id))) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        const { message, history, documentName } = await request.json();
+
+        if (!message || typeof message !== 'string' || !message.trim()) {
+            return NextResponse.json(
+                { error: 'Message is required' },
+                { status: 400 }
+            );
+        }
+
+        const chatHistory: ChatMessage[] = Array.isArray(history)
+            ? history.filter((item: ChatMessage) =>
+                (item?.role === 'user' || item?.role === 'model') && Array.isArray(item.parts))
+            : [];
+
+        const usage = { userId: user.id, projectId: projectName };
+        const { llm, embedder } = createAiProviders(providerSettings, apiKey || undefined, usage);
+        const result = await queryRagStore(projectName, message.trim(), chatHistory, {
+            documentName: typeof documentName === 'string' && documentName ? documentName : undefined,
+            apiKey: apiKey || undefined,
+            embedder,
+            llm,
+            usage,
+        });
+
+        return NextResponse.json({
+            success: true,
+            text: result.text,
+            groundingChunks: result.groundingChunks,
+        });
+    } catch (error) {
+        if (error instanceof UsageLimitExceededError) {
+            return usageLimitExceededResponse(error);
+        }
+        console.error('Error answering project question:', error);
+        return NextResponse.json(
+            { error: 'Failed to answer question' },
+            { status: 500 }
+        );
+    }
+}
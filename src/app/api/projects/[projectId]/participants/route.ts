@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { isProjectOwnedBy } from '@/lib/fileSearch';
+import {
+    createParticipant,
+    listParticipants,
+    parseParticipantFields,
+    participantHasName,
+    ParticipantFields,
+} from '@/lib/participants';
+
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ projectId: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
+        const { projectId } = await context.params;
+        const projectName = decodeURIComponent(projectId);
+        if (!(await isProjectOwnedBy(projectName, user.id))) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const participants = await listParticipants(user.id, projectName);
+        return NextResponse.json({ participants });
+    } catch (error) {
+        console.error('Error fetching participants:', error);
+        return NextResponse.json({ error: 'Failed to fetch participants' }, { status: 500 });
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    context: { params: Promise<{ projectId: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
+        const { projectId } = await context.params;
+        const projectName = decodeURIComponent(projectId);
+        if (!(await isProjectOwnedBy(projectName, user.id))) {
+            return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const parsed = parseParticipantFields(body, false);
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const fields = parsed.fields as Partial<ParticipantFields> & { name: string };
+        const existing = await listParticipants(user.id, projectName);
+        if (existing.some((participant) => participantHasName(participant, fields.name))) {
+            return NextResponse.json(
+                { error: 'A participant with this name already exists in the project' },
+                { status: 409 }
+            );
+        }
+
+        const participant = await createParticipant(user.id, projectName, fields);
+        return NextResponse.json({ success: true, participant }, { status: 201 });
+    } catch (error) {
+        console.error('Error creating participant:', error);
+        return NextResponse.json({ error: 'Failed to create participant' }, { status: 500 });
+    }
+}
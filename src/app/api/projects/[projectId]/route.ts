@@ -1,14 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { initialize, deleteRagStore } from '@/lib/fileSearch';
+import { getSessionUser } from '@/lib/auth';
+import { initialize, deleteRagStore, parseProjectFields, updateProject } from '@/lib/fileSearch';
 
 // Initialize AI on module load
 initialize();
 
+export async function PATCH(
+    request: NextRequest,
+    context: { params: Promise<{ projectId: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
+        const { projectId } = await context.params;
+        const parsed = parseProjectFields(await request.json().catch(() => ({})), true);
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+        if (Object.keys(parsed.fields).length === 0) {
+            return NextResponse.json(
+                { error: 'Nothing to update: send name, color, description, goals or transcriptionProvider' },
+                { status: 400 }
+            );
+        }
+
+        const project = await updateProject(decodeURIComponent(projectId), user.id, parsed.fields);
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            project,
+        });
+    } catch (error) {
+        console.error('Error updating project:', error);
+        return NextResponse.json(
+            { error: 'Failed to update project' },
+            { status: 500 }
+        );
+    }
+}
+
 export async function DELETE(
     request: NextRequest,
     context: { params: Promise<{ projectId: string }> }
 ) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
         const params = await context.params;
         const projectName = params.projectId; // Note: URL param is still projectId for backwards compatibility
 
@@ -20,7 +69,13 @@ export async function DELETE(
         }
 
         // The projectName is the Supabase project resource name
-        await deleteRagStore(projectName);
+        const deleted = await deleteRagStore(projectName, user.id);
+        if (!deleted) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
 
         return NextResponse.json({
             success: true,
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { initialize, getProjectRagStore, listAllProjects } from '@/lib/fileSearch';
+import { getSessionUser } from '@/lib/auth';
+import { initialize, getProjectRagStore, listAllProjects, parseProjectFields } from '@/lib/fileSearch';
 
 // Initialize AI on module load
 initialize();
 
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
+
         // Fetch all projects from RAG file search stores
-        const projects = await listAllProjects();
+        const projects = await listAllProjects(user.id);
 
         return NextResponse.json({
             success: true,
@@ -25,21 +31,21 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { name, description, color, goals } = body;
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+        }
 
-        // Validate required fields
-        if (!name || typeof name !== 'string' || name.trim().length === 0) {
-            return NextResponse.json(
-                { error: 'Project name is required' },
-                { status: 400 }
-            );
+        const parsed = parseProjectFields(await request.json().catch(() => ({})), false);
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
         }
+        const { displayName, color, description, goals, transcriptionProvider } = parsed.fields;
 
         // Create a dedicated Supabase project namespace (returns the project resource name)
         let projectName: string;
         try {
-            projectName = await getProjectRagStore(undefined, name.trim(), color);
+            projectName = await getProjectRagStore(user.id, undefined, displayName, color, { description, goals, transcriptionProvider });
         } catch (error) {
             console.error('Failed to create project in Supabase:', error);
             return NextResponse.json(
@@ -51,10 +57,11 @@ export async function POST(request: NextRequest) {
         // Create project data
         const project = {
             name: projectName,         // Supabase project resource name (acts as primary key)
-            displayName: name.trim(),  // User-entered project name
-            description: description?.trim() || '',
+            displayName,               // User-entered project name
+            description: description || '',
             color: color || 'bg-blue-500',
-            goals: goals?.trim() || '',
+            goals: goals || '',
+            transcriptionProvider: transcriptionProvider || null,
             createdAt: new Date().toISOString(),
         };
 
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { parseSearchParams, searchMeetings } from "@/lib/meetingSearch";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const parsed = parseSearchParams(request.nextUrl.searchParams);
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const results = await searchMeetings(user.id, parsed.query, parsed.filters, parsed.limit);
+
+        return NextResponse.json({ results });
+    } catch (error) {
+        console.error("[search] Error:", error);
+        return NextResponse.json({ error: "Failed to search meetings" }, { status: 500 });
+    }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import {
+    getAiProviderSettings,
+    listAiProviderOptions,
+    parseAiProviderSettings,
+    saveAiProviderSettings,
+} from "@/lib/aiProviders";
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const settings = await getAiProviderSettings(user.id);
+
+        return NextResponse.json({ settings, providers: listAiProviderOptions() });
+    } catch (error) {
+        console.error("Failed to fetch AI provider settings:", error);
+        return NextResponse.json({ error: "Failed to fetch AI provider settings" }, { status: 500 });
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const parsed = parseAiProviderSettings(await request.json().catch(() => null));
+        if ("error" in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        await saveAiProviderSettings(user.id, parsed.settings);
+
+        return NextResponse.json({ success: true, settings: parsed.settings, providers: listAiProviderOptions() });
+    } catch (error) {
+        console.error("Failed to save AI provider settings:", error);
+        return NextResponse.json({ error: "Failed to save AI provider settings" }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { recordGeminiKeyValidation, resolveGeminiApiKeyForRequest } from "@/lib/userKey";
+import { getGeminiKeyValidator } from "@/lib/keyValidation";
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const apiKey = await resolveGeminiApiKeyForRequest(request);
+        if (!apiKey) {
+            return NextResponse.json({ error: "No Gemini API key saved" }, { status: 404 });
+        }
+
+        const validation = await getGeminiKeyValidator().validate(apiKey);
+        await recordGeminiKeyValidation(user.id, validation);
+
+        return NextResponse.json({ validation });
+    } catch (error) {
+        console.error("Failed to check Gemini key:", error);
+        return NextResponse.json({ error: "Failed to check Gemini key" }, { status: 500 });
+    }
+}
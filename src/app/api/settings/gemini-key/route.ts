@@ -1,20 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
 import {
     getStoredGeminiKeyStatus,
-    getUserIdFromRequest,
     saveGeminiApiKey,
     deleteGeminiApiKey,
+    recordGeminiKeyValidation,
 } from "@/lib/userKey";
+import { getGeminiKeyValidator } from "@/lib/keyValidation";
 
 export async function GET(request: NextRequest) {
     try {
-        const userId = getUserIdFromRequest(request);
-
-        if (!userId) {
-            return NextResponse.json({ error: "Missing user id" }, { status: 400 });
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
         }
 
-        const status = await getStoredGeminiKeyStatus(userId);
+        const status = await getStoredGeminiKeyStatus(user.id);
 
         return NextResponse.json(status);
     } catch (error) {
@@ -25,10 +26,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
     try {
-        const userId = getUserIdFromRequest(request);
-
-        if (!userId) {
-            return NextResponse.json({ error: "Missing user id" }, { status: 400 });
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
         }
 
         const { apiKey } = await request.json();
@@ -41,9 +41,20 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Invalid Gemini API key format" }, { status: 400 });
         }
 
-        await saveGeminiApiKey(userId, apiKey.trim());
+        // A rejected or unverifiable key is not saved; a key that is only out of
+        // quota is genuine and will work again once the quota resets.
+        const validation = await getGeminiKeyValidator().validate(apiKey.trim());
+        if (validation.status === "invalid") {
+            return NextResponse.json({ error: validation.message, validation }, { status: 400 });
+        }
+        if (validation.status !== "valid" && validation.status !== "quota_exhausted") {
+            return NextResponse.json({ error: validation.message, validation }, { status: 503 });
+        }
 
-        return NextResponse.json({ success: true });
+        await saveGeminiApiKey(user.id, apiKey.trim());
+        await recordGeminiKeyValidation(user.id, validation);
+
+        return NextResponse.json({ success: true, validation });
     } catch (error) {
         console.error("Failed to save Gemini key:", error);
         return NextResponse.json({ error: "Failed to save Gemini key" }, { status: 500 });
@@ -52,13 +63,12 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
     try {
-        const userId = getUserIdFromRequest(request);
-
-        if (!userId) {
-            return NextResponse.json({ error: "Missing user id" }, { status: 400 });
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
         }
 
-        await deleteGeminiApiKey(userId);
+        await deleteGeminiApiKey(user.id);
 
         return NextResponse.json({ success: true });
     } catch (error) {
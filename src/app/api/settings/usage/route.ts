@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { getUsageSummary, saveUsageLimits, UsageLimits } from "@/lib/usage";
+
+// Largest value each limit column holds: request limits are Postgres integers,
+// token limits are bigints, capped where JavaScript numbers stay exact.
+const LIMIT_MAXIMUMS: Record<keyof UsageLimits, number> = {
+    dailyRequestLimit: 2147483647,
+    monthlyRequestLimit: 2147483647,
+    dailyTokenLimit: Number.MAX_SAFE_INTEGER,
+    monthlyTokenLimit: Number.MAX_SAFE_INTEGER,
+};
+
+const LIMIT_FIELDS = Object.keys(LIMIT_MAXIMUMS) as Array<keyof UsageLimits>;
+
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const summary = await getUsageSummary(user.id);
+
+        return NextResponse.json(summary);
+    } catch (error) {
+        console.error("Failed to fetch usage:", error);
+        return NextResponse.json({ error: "Failed to fetch usage" }, { status: 500 });
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) {
+            return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const limits = {} as UsageLimits;
+
+        // Each limit is a positive whole number up to its maximum, or null/empty for no limit.
+        for (const field of LIMIT_FIELDS) {
+            const value = body?.[field];
+            if (value === null || value === undefined || value === "") {
+                limits[field] = null;
+                continue;
+            }
+
+            const limit = Number(value);
+            if (!Number.isInteger(limit) || limit <= 0) {
+                return NextResponse.json({ error: `${field} must be a positive whole number` }, { status: 400 });
+            }
+            if (limit > LIMIT_MAXIMUMS[field]) {
+                return NextResponse.json({ error: `${field} must be at most ${LIMIT_MAXIMUMS[field]}` }, { status: 400 });
+            }
+            limits[field] = limit;
+        }
+
+        await saveUsageLimits(user.id, limits);
+        const summary = await getUsageSummary(user.id);
+
+        return NextResponse.json({ success: true, ...summary });
+    } catch (error) {
+        console.error("Failed to save usage limits:", error);
+        return NextResponse.json({ error: "Failed to save usage limits" }, { status: 500 });
+    }
+}
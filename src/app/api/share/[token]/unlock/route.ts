@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { shareAccessCookieName, verifySharePassword } from "@/lib/meetingShares";
+import { SHARE_ACCESS_MAX_AGE_SECONDS, createShareAccessToken } from "@/lib/session";
+
+// Public: the share token is the credential, so no session is required.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { token } = await params;
+        const body = await request.json().catch(() => ({}));
+        if (typeof body.password !== "string" || !body.password) {
+            return NextResponse.json({ error: "Password is required" }, { status: 400 });
+        }
+
+        const share = await verifySharePassword(decodeURIComponent(token), body.password);
+        if (!share) {
+            return NextResponse.json({ error: "Incorrect password" }, { status: 401 });
+        }
+
+        const response = NextResponse.json({ success: true });
+        response.cookies.set(shareAccessCookieName(share.id), createShareAccessToken(share.id), {
+            httpOnly: true,
+            sameSite: "lax",
+            secure: process.env.NODE_ENV === "production",
+            path: `/share/${share.token}`,
+            maxAge: SHARE_ACCESS_MAX_AGE_SECONDS,
+        });
+        return response;
+    } catch (error) {
+        console.error("[share-unlock] Error:", error);
+        return NextResponse.json({ error: "Failed to open share link" }, { status: 500 });
+    }
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Loader2, MessageCircleQuestion, Send, FileText, AlertCircle } from "lucide-react";
+import { toast } from "sonner";
+import { AppStatus, ChatMessage, GroundingChunk } from "@/types";
+
+function formatTimestamp(seconds?: number): string {
+    if (seconds === undefined) return "";
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function SourceList({ chunks }: { chunks: GroundingChunk[] }) {
+    if (chunks.length === 0) return null;
+
+    return (
+        <div className="mt-3 space-y-2">
+            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Sources</p>
+            <ol className="space-y-2">
+                {chunks.map((chunk, index) => {
+                    const context = chunk.retrievedContext;
+                    if (!context) return null;
+
+                    const label = (
+                        <span className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs font-mono">{index + 1}</Badge>
+                            <span className="font-medium line-clamp-1">{context.title || "Transcript"}</span>
+                            {context.startTime !== undefined && (
+                                <span className="text-xs text-muted-foreground font-mono">{formatTimestamp(context.startTime)}</span>
+                            )}
+                        </span>
+                    );
+
+                    return (
+                        <li key={index} className="rounded-lg border bg-background p-3 text-sm">
+                            {context.uri ? (
+                                <Link href={context.uri} className="hover:text-primary transition-colors">
+                                    {label}
+                                </Link>
+                            ) : (
+                                label
+                            )}
+                            {context.text && (
+                                <p className="mt-1 text-xs text-muted-foreground line-clamp-3">{context.text}</p>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+}
+
+function AskView() {
+    const searchParams = useSearchParams();
+    const projectName = searchParams.get("projectName") || "";
+    const displayName = searchParams.get("displayName") || "";
+    const isMeetingScope = searchParams.get("type") === "meeting";
+    const documentName = isMeetingScope ? searchParams.get("id") || "" : "";
+    const meetingName = isMeetingScope ? searchParams.get("name") || "" : "";
+
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [input, setInput] = useState("");
+    const [status, setStatus] = useState<AppStatus>(AppStatus.Welcome);
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, [messages, status]);
+
+    const handleSend = async () => {
+        const question = input.trim();
+        if (!question || !projectName || status === AppStatus.Chatting) return;
+
+        const history = messages;
+        const userMessage: ChatMessage = { role: "user", parts: [{ text: question }] };
+        setMessages([...history, userMessage]);
+        setInput("");
+        setStatus(AppStatus.Chatting);
+
+        try {
+            const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/chat`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    message: question,
+                    history: history.map(({ role, parts }) => ({ role, parts })),
+                    documentName: documentName || undefined,
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || "Failed to get an answer");
+            }
+
+            const data = await response.json();
+            setMessages((prev) => [
+                ...prev,
+                { role: "model", parts: [{ text: data.text }], groundingChunks: data.groundingChunks || [] },
+            ]);
+            setStatus(AppStatus.Welcome);
+        } catch (error) {
+            console.error("Error asking question:", error);
+            toast.error(error instanceof Error ? error.message : "Failed to get an answer");
+            setStatus(AppStatus.Error);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            handleSend();
+        }
+    };
+
+    const scopeLabel = meetingName || displayName || "Project";
+
+    return (
+        <DashboardLayout
+            breadcrumbs={[
+                { label: "Projects", href: "/projects" },
+                ...(projectName ? [{ label: displayName || "Project", href: `/projects/${encodeURIComponent(projectName)}` }] : []),
+                { label: "Ask Questions" },
+            ]}
+            title="Ask Questions"
+        >
+            <div className="max-w-3xl mx-auto space-y-6">
+                <Button variant="outline" size="sm" asChild>
+                    <Link href={projectName ? `/projects/${encodeURIComponent(projectName)}` : "/projects"}>
+                        <ArrowLeft className="size-4 mr-2" />
+                        {projectName ? "Back to Project" : "Back to Projects"}
+                    </Link>
+                </Button>
+
+                {!projectName ? (
+                    <Card className="py-12">
+                        <CardContent className="text-center">
+                            <AlertCircle className="size-12 text-muted-foreground mx-auto mb-4" />
+                            <h3 className="text-lg font-semibold mb-2">No project selected</h3>
+                            <p className="text-muted-foreground">Open a project and choose Ask Questions to chat with its meetings.</p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <MessageCircleQuestion className="size-5 text-primary" />
+                                {scopeLabel}
+                            </CardTitle>
+                            <CardDescription>
+                                {isMeetingScope
+                                    ? "Answers are grounded in this meeting's transcript."
+                                    : "Answers are grounded in the transcripts of every meeting in this project."}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-4 max-h-150 overflow-y-auto pr-2">
+                                {messages.length === 0 && (
+                                    <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+                                        <FileText className="size-10 mb-3" />
+                                        <p className="text-sm">Ask something like &quot;When did we decide on the launch date?&quot;</p>
+                                    </div>
+                                )}
+                                {messages.map((message, index) => (
+                                    <div
+                                        key={index}
+                                        className={message.role === "user" ? "flex justify-end" : "flex justify-start"}
+                                    >
+                                        <div
+                                            className={
+                                                message.role === "user"
+                                                    ? "max-w-[85%] rounded-xl bg-primary px-4 py-2 text-sm text-primary-foreground"
+                                                    : "max-w-[85%] rounded-xl bg-muted/50 border px-4 py-3 text-sm"
+                                            }
+                                        >
+                                            <p className="whitespace-pre-wrap leading-relaxed">
+                                                {message.parts.map((part) => part.text).join("\n")}
+                                            </p>
+                                            {message.role === "model" && (
+                                                <SourceList chunks={message.groundingChunks || []} />
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                                {status === AppStatus.Chatting && (
+                                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                        <Loader2 className="size-4 animate-spin" />
+                                        Searching transcripts...
+                                    </div>
+                                )}
+                                <div ref={bottomRef} />
+                            </div>
+
+                            <div className="flex gap-2 items-end">
+                                <Textarea
+                                    placeholder="Ask a question about your meetings..."
+                                    value={input}
+                                    onChange={(e) => setInput(e.target.value)}
+                                    onKeyDown={handleKeyDown}
+                                    rows={2}
+                                    className="resize-none"
+                                />
+                                <Button
+                                    onClick={handleSend}
+                                    disabled={!input.trim() || status === AppStatus.Chatting}
+                                    size="icon"
+                                >
+                                    {status === AppStatus.Chatting ? (
+                                        <Loader2 className="size-4 animate-spin" />
+                                    ) : (
+                                        <Send className="size-4" />
+                                    )}
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+        </DashboardLayout>
+    );
+}
+
+export default function AskPage() {
+    return (
+        <Suspense fallback={null}>
+            <AskView />
+        </Suspense>
+    );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { clearLegacyRemembryUserId, getLegacyRemembryUserId } from "@/lib/clientUser";
+
+type AuthMode = "login" | "signup";
+
+// Only same-origin paths are accepted so the login page cannot be used as an open redirect.
+function resolveNextPath(next: string | null): string {
+    if (next && next.startsWith("/") && !next.startsWith("//")) {
+        return next;
+    }
+    return "/dashboard";
+}
+
+function LoginView() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const nextPath = resolveNextPath(searchParams.get("next"));
+
+    const [mode, setMode] = useState<AuthMode>("login");
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [displayName, setDisplayName] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setIsSubmitting(true);
+
+        try {
+            const response = await fetch(`/api/auth/${mode}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    email,
+                    password,
+                    displayName: mode === "signup" ? displayName : undefined,
+                    legacyUserId: getLegacyRemembryUserId() || undefined,
+                }),
+            });
+
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                throw new Error(data.error || "Something went wrong");
+            }
+
+            // The anonymous id has either been claimed now or belongs to someone else.
+            clearLegacyRemembryUserId();
+            if (data.claimedLegacyData) {
+                toast.success("Your saved settings were moved to this account.");
+            }
+
+            router.replace(nextPath);
+            router.refresh();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Something went wrong");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader className="text-center">
+                    <div className="mx-auto mb-2 flex size-10 items-center justify-center rounded-xl bg-primary text-primary-foreground shadow-lg shadow-primary/25">
+                        <Sparkles className="size-5" />
+                    </div>
+                    <CardTitle className="text-2xl">Remembry</CardTitle>
+                    <CardDescription>
+                        {mode === "login" ? "Sign in to your account" : "Create an account to get started"}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+                        <TabsList className="grid w-full grid-cols-2 mb-6">
+                            <TabsTrigger value="login">Sign In</TabsTrigger>
+                            <TabsTrigger value="signup">Sign Up</TabsTrigger>
+                        </TabsList>
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <TabsContent value="signup" className="space-y-2">
+                                <label htmlFor="displayName" className="text-sm font-medium">Name</label>
+                                <Input
+                                    id="displayName"
+                                    value={displayName}
+                                    onChange={(e) => setDisplayName(e.target.value)}
+                                    placeholder="Your name"
+                                    autoComplete="name"
+                                />
+                            </TabsContent>
+
+                            <div className="space-y-2">
+                                <label htmlFor="email" className="text-sm font-medium">Email</label>
+                                <Input
+                                    id="email"
+                                    type="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    placeholder="you@example.com"
+                                    autoComplete="email"
+                                    required
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label htmlFor="password" className="text-sm font-medium">Password</label>
+                                <Input
+                                    id="password"
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    autoComplete={mode === "login" ? "current-password" : "new-password"}
+                                    minLength={mode === "signup" ? 8 : undefined}
+                                    required
+                                />
+                            </div>
+
+                            <Button type="submit" className="w-full" disabled={isSubmitting}>
+                                {isSubmitting && <Loader2 className="size-4 mr-2 animate-spin" />}
+                                {mode === "login" ? "Sign In" : "Create Account"}
+                            </Button>
+                        </form>
+                    </Tabs>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+export default function LoginPage() {
+    return (
+        <Suspense fallback={null}>
+            <LoginView />
+        </Suspense>
+    );
+}
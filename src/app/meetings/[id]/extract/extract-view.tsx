@@ -7,7 +7,14 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Loader2, CheckCircle2, ListTodo, Gavel, HelpCircle, FileText, ArrowLeft, Lightbulb, Hash } from "lucide-react";
 import { toast } from "sonner";
 import Link from "next/link";
-import { buildUserHeaders } from "@/lib/clientUser";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
 
 interface MeetingNotes {
     summary: string;
@@ -27,15 +34,24 @@ export function ExtractView({
 }) {
     const [notes, setNotes] = useState<MeetingNotes | null>(initialNotes);
     const [isLoading, setIsLoading] = useState(false);
+    const [confirmOverwrite, setConfirmOverwrite] = useState(false);
     const router = useRouter();
 
-    const handleExtract = async () => {
+    const handleExtract = async (force = false) => {
+        setConfirmOverwrite(false);
         setIsLoading(true);
         try {
             const res = await fetch(`/api/meetings/${meetingId}/extract`, {
                 method: "POST",
-                headers: buildUserHeaders(),
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ force }),
             });
+
+            // Notes edited by hand are only replaced once the user confirms.
+            if (res.status === 409) {
+                setConfirmOverwrite(true);
+                return;
+            }
             
             if (!res.ok) {
                 throw new Error("Failed to extract notes");
@@ -65,7 +81,7 @@ export function ExtractView({
                         Use AI to analyze the transcription and extract a summary, key topics, action items, decisions, assumptions, and Q&A.
                     </p>
                 </div>
-                <Button size="lg" onClick={handleExtract}>
+                <Button size="lg" onClick={() => handleExtract()}>
                     Start Extraction
                 </Button>
             </div>
@@ -90,11 +106,31 @@ export function ExtractView({
     return (
         <div className="space-y-6">
             <div className="flex justify-end">
-                <Button variant="outline" size="sm" onClick={handleExtract}>
+                <Button variant="outline" size="sm" onClick={() => handleExtract()}>
                     Regenerate Notes
                 </Button>
             </div>
 
+            <Dialog open={confirmOverwrite} onOpenChange={setConfirmOverwrite}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Replace edited notes?</DialogTitle>
+                        <DialogDescription>
+                            These notes were edited by hand. Regenerating replaces your edits with new AI-generated notes.
+                            Your edited version stays in the revision history and can be restored from the meeting page.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setConfirmOverwrite(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={() => handleExtract(true)}>
+                            Regenerate Anyway
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
             {/* Summary */}
             <Card>
                 <CardHeader>
@@ -1,27 +1,29 @@
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { ExtractView } from "./extract-view";
 import { notFound } from "next/navigation";
-import { getMeetingById } from "@/lib/meetingStorage";
+import { getMeetingById, StoredMeeting } from "@/lib/meetingStorage";
+import { getCurrentUser } from "@/lib/auth";
 
 interface MeetingData {
     id: string;
     title: string;
 }
 
-async function getMeetingData(id: string): Promise<MeetingData | null> {
-    const meeting = await getMeetingById(decodeURIComponent(id));
-    if (!meeting) return null;
+async function getOwnedMeeting(id: string): Promise<StoredMeeting | null> {
+    const user = await getCurrentUser();
+    if (!user) return null;
 
+    return getMeetingById(decodeURIComponent(id), user.id);
+}
+
+function getMeetingData(meeting: StoredMeeting): MeetingData {
     return {
         id: meeting.id,
         title: meeting.title,
     };
 }
 
-async function getNotes(id: string) {
-    const meeting = await getMeetingById(decodeURIComponent(id));
-    if (!meeting) return null;
-
+function getNotes(meeting: StoredMeeting) {
     return meeting.notes_by_language?.[meeting.default_language || "en"] || null;
 }
 
@@ -31,13 +33,14 @@ export default async function ExtractPage({
     params: Promise<{ id: string }>;
 }) {
     const { id } = await params;
-    const meeting = await getMeetingData(id);
+    const storedMeeting = await getOwnedMeeting(id);
 
-    if (!meeting) {
+    if (!storedMeeting) {
         notFound();
     }
 
-    const notes = await getNotes(id);
+    const meeting = getMeetingData(storedMeeting);
+    const notes = getNotes(storedMeeting);
 
     return (
         <DashboardLayout
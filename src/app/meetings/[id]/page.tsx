@@ -1,23 +1,30 @@
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MeetingNotesDisplay } from "@/components/ui/meeting-notes-display";
+import { SpeakerNamesEditor } from "@/components/ui/speaker-names-editor";
+import { TranscriptPlayer } from "@/components/ui/transcript-player";
+import { MeetingExportMenu } from "@/components/ui/meeting-export-menu";
+import { MeetingShareDialog } from "@/components/ui/meeting-share-dialog";
+import { MeetingActionsMenu } from "@/components/ui/meeting-actions-menu";
 import {
     Mic,
     Clock,
     FileText,
-    Download,
-    Share2,
     CheckCircle2,
     MessageSquare,
     ArrowLeft,
     FolderKanban,
+    AlertTriangle,
 } from "lucide-react";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { getMeetingById } from "@/lib/meetingStorage";
+import { getCurrentUser } from "@/lib/auth";
+import { applySpeakerNames, speakerLabels } from "@/lib/speakerNames";
+import { measureTranscriptCoverage, type TranscriptCoverage } from "@/lib/audioDuration";
+import type { TranscriptIssue } from "@/lib/transcriptQuality";
 
 interface TranscriptionSegment {
     speaker: string;
@@ -38,6 +45,8 @@ interface MeetingNotes {
 interface MeetingData {
     id: string;
     title: string;
+    context: string | null;
+    projectId: string;
     participants: string[];
     createdAt: string;
     status: string;
@@ -52,12 +61,24 @@ interface MeetingData {
             response: string;
         };
     };
-    audioPath: string;
+    audioPath: string | null; // URL the recording plays from
+    durationSeconds: number | null; // Read from the audio container on upload
+    coverage: TranscriptCoverage | null;
+    qualityIssues: TranscriptIssue[]; // Left after automatic cleanup
     notes?: MeetingNotes;
+    notesLanguage: string;
+    notesLanguages: string[]; // Languages the notes have been generated in
+    speakerLabels: string[];
+    speakerNames: Record<string, string>;
 }
 
 async function getMeetingData(id: string): Promise<MeetingData | null> {
-    const meeting = await getMeetingById(decodeURIComponent(id));
+    const user = await getCurrentUser();
+    if (!user) {
+        return null;
+    }
+
+    const meeting = await getMeetingById(decodeURIComponent(id), user.id);
     if (!meeting) {
         return null;
     }
@@ -65,12 +86,21 @@ async function getMeetingData(id: string): Promise<MeetingData | null> {
     return {
         id: meeting.id,
         title: meeting.title,
+        context: meeting.context,
+        projectId: meeting.project_id,
         participants: [],
         createdAt: meeting.created_at,
         status: "completed",
-        audioPath: "",
-        transcription: meeting.transcription,
+        audioPath: meeting.audio_path ? `/api/meetings/${encodeURIComponent(meeting.id)}/audio` : null,
+        durationSeconds: meeting.duration_seconds ?? null,
+        coverage: measureTranscriptCoverage(meeting.transcription.segments, meeting.duration_seconds),
+        qualityIssues: meeting.quality_report?.issues || [],
+        transcription: applySpeakerNames(meeting.transcription, meeting.speaker_names),
         notes: meeting.notes_by_language?.[meeting.default_language || "en"],
+        notesLanguage: meeting.default_language || "en",
+        notesLanguages: Object.keys(meeting.notes_by_language || {}),
+        speakerLabels: speakerLabels(meeting.transcription),
+        speakerNames: meeting.speaker_names || {},
     };
 }
 
@@ -85,13 +115,6 @@ function formatDuration(seconds: number): string {
     return `${mins}m ${secs}s`;
 }
 
-function formatTimestamp(seconds?: number): string {
-    if (seconds === undefined) return "";
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
-
 export default async function MeetingDetailPage({
     params,
     searchParams,
@@ -100,7 +123,7 @@ export default async function MeetingDetailPage({
     searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
 }) {
     const { id } = await params;
-    const { projectName, displayName } = await searchParams;
+    const { projectName, displayName, tab, t } = await searchParams;
 
     const meeting = await getMeetingData(id);
 
@@ -112,8 +135,12 @@ export default async function MeetingDetailPage({
 
     const pName = Array.isArray(projectName) ? projectName[0] : projectName;
     const pDisplayName = Array.isArray(displayName) ? displayName[0] : displayName;
+    const startAt = Number(Array.isArray(t) ? t[0] : t);
 
     const calculateDuration = () => {
+        if (meeting.durationSeconds) {
+            return meeting.durationSeconds;
+        }
         if (transcription.segments.length > 0) {
             const lastSegment = transcription.segments[transcription.segments.length - 1];
             if (lastSegment.endTime && lastSegment.endTime > 0) {
@@ -177,14 +204,19 @@ export default async function MeetingDetailPage({
                         </div>
                     </div>
                     <div className="flex gap-2 shrink-0">
-                        <Button variant="outline" size="sm" className="gap-2">
-                            <Download className="size-4" />
-                            Export
-                        </Button>
-                        <Button variant="outline" size="sm" className="gap-2">
-                            <Share2 className="size-4" />
-                            Share
-                        </Button>
+                        <MeetingExportMenu
+                            meetingId={meeting.id}
+                            languages={meeting.notesLanguages}
+                            defaultLanguage={meeting.notesLanguage}
+                            hasTimestamps={transcription.segments.some((segment) => segment.startTime !== undefined)}
+                        />
+                        <MeetingShareDialog meetingId={meeting.id} />
+                        <MeetingActionsMenu
+                            meetingId={meeting.id}
+                            title={meeting.title}
+                            context={meeting.context}
+                            projectId={meeting.projectId}
+                        />
                     </div>
                 </div>
 
@@ -224,7 +256,7 @@ export default async function MeetingDetailPage({
                     </Card>
                 </div>
 
-                <Tabs defaultValue="notes" className="space-y-6">
+                <Tabs defaultValue={tab === "transcript" ? "transcript" : "notes"} className="space-y-6">
                     <TabsList>
                         <TabsTrigger value="notes" className="gap-2">
                             <FileText className="size-4" />
@@ -237,55 +269,49 @@ export default async function MeetingDetailPage({
                     </TabsList>
 
                     <TabsContent value="notes" className="space-y-6">
-                        <MeetingNotesDisplay meetingId={meeting.id} initialNotes={notes || null} initialLanguage={transcription.language || "en"} />
+                        <MeetingNotesDisplay meetingId={meeting.id} initialNotes={notes || null} initialLanguage={meeting.notesLanguage} />
                     </TabsContent>
 
                     <TabsContent value="transcript" className="space-y-6">
-                        {transcription.speakers.length > 0 && (
-                            <Card>
-                                <CardHeader className="pb-3">
-                                    <CardTitle className="text-lg">Speakers Identified</CardTitle>
-                                </CardHeader>
-                                <CardContent>
-                                    <div className="flex flex-wrap gap-2">
-                                        {transcription.speakers.map((speaker, idx) => (
-                                            <Badge key={idx} variant="secondary" className="text-sm py-1 px-3">
-                                                {speaker}
-                                            </Badge>
-                                        ))}
-                                    </div>
-                                </CardContent>
-                            </Card>
+                        {meeting.coverage?.flagged && meeting.durationSeconds && (
+                            <div className="flex items-start gap-3 rounded-lg border border-warning/20 bg-warning/10 p-4 text-sm">
+                                <AlertTriangle className="size-4 text-warning mt-0.5 shrink-0" />
+                                <p>
+                                    The transcript covers only {Math.round(meeting.coverage.ratio * 100)}% of the{" "}
+                                    {formatDuration(meeting.durationSeconds)} recording. Parts of the audio may be missing;
+                                    check the recording before relying on the notes.
+                                </p>
+                            </div>
                         )}
 
-                        <Card>
-                            <CardHeader>
-                                <CardTitle className="text-lg flex items-center gap-2">
-                                    <CheckCircle2 className="size-5 text-green-500" />
-                                    Transcript
-                                </CardTitle>
-                                <CardDescription>Full transcription with speaker identification</CardDescription>
-                            </CardHeader>
-                            <CardContent>
-                                <div className="space-y-4 max-h-150 overflow-y-auto pr-4">
-                                    {transcription.segments.map((segment, idx) => (
-                                        <div key={idx} className="flex gap-4 group">
-                                            {segment.startTime !== undefined && (
-                                                <span className="text-xs text-muted-foreground font-mono w-12 shrink-0 pt-1">
-                                                    {formatTimestamp(segment.startTime)}
-                                                </span>
-                                            )}
-                                            <div className="flex-1">
-                                                <div className="flex items-center gap-2 mb-1">
-                                                    <span className="font-medium text-sm text-primary">{segment.speaker}</span>
-                                                </div>
-                                                <p className="text-sm text-foreground leading-relaxed">{segment.text}</p>
-                                            </div>
-                                        </div>
-                                    ))}
+                        {meeting.qualityIssues.length > 0 && (
+                            <div className="flex items-start gap-3 rounded-lg border border-warning/20 bg-warning/10 p-4 text-sm">
+                                <AlertTriangle className="size-4 text-warning mt-0.5 shrink-0" />
+                                <div>
+                                    <p>The transcript check found problems it could not fix automatically:</p>
+                                    <ul className="mt-1 list-disc pl-4 text-muted-foreground">
+                                        {meeting.qualityIssues.slice(0, 5).map((issue, index) => (
+                                            <li key={index}>{issue.detail}</li>
+                                        ))}
+                                        {meeting.qualityIssues.length > 5 && <li>and {meeting.qualityIssues.length - 5} more</li>}
+                                    </ul>
                                 </div>
-                            </CardContent>
-                        </Card>
+                            </div>
+                        )}
+
+                        {meeting.speakerLabels.length > 0 && (
+                            <SpeakerNamesEditor
+                                meetingId={meeting.id}
+                                speakers={meeting.speakerLabels}
+                                initialSpeakerNames={meeting.speakerNames}
+                            />
+                        )}
+
+                        <TranscriptPlayer
+                            audioUrl={meeting.audioPath}
+                            segments={transcription.segments}
+                            startAt={Number.isFinite(startAt) && startAt >= 0 ? startAt : undefined}
+                        />
 
                         <Card>
                             <CardHeader>
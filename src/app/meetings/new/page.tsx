@@ -8,7 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { AudioRecorder } from "@/components/ui/audio-recorder";
-import { Upload, Mic, FileAudio, FileText, X, Loader2, FolderKanban, Plus, Download } from "lucide-react";
+import { Upload, Mic, FileAudio, FileText, X, Loader2, FolderKanban, Plus, Download, RotateCcw } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
     DropdownMenu,
@@ -18,7 +18,6 @@ import {
 } from "@/components/ui/dropdown-menu";
 import Link from "next/link";
 import { toast } from "sonner";
-import { buildUserHeaders } from "@/lib/clientUser";
 
 interface Project {
     name: string;          // RAG store resource name - acts as primary key
@@ -28,6 +27,25 @@ interface Project {
     meetingCount: number;
 }
 
+interface ProcessingJobStatus {
+    id: string;
+    meetingId: string;
+    status: "queued" | "running" | "failed" | "completed";
+    stage: "transcribe" | "notes" | "save" | "index" | "done";
+    progress: number;
+    error: string | null;
+}
+
+const JOB_POLL_INTERVAL_MS = 3000;
+
+const STAGE_LABELS: Record<ProcessingJobStatus["stage"], string> = {
+    transcribe: "Transcribing audio...",
+    notes: "Generating meeting notes...",
+    save: "Saving meeting...",
+    index: "Indexing transcript...",
+    done: "Finishing up...",
+};
+
 type InputMode = "upload" | "record";
 type FileType = "audio" | "text";
 
@@ -63,6 +81,7 @@ export default function NewMeetingPage() {
     const [isDragging, setIsDragging] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
     const [processingStatus, setProcessingStatus] = useState<string>("");
+    const [failedJobId, setFailedJobId] = useState<string | null>(null);
 
     // Form state
     const [title, setTitle] = useState("");
@@ -184,6 +203,64 @@ export default function NewMeetingPage() {
         setUploadedFile(null);
     };
 
+    // Poll the background processing job until the meeting is ready or the job fails.
+    const waitForJob = useCallback(async (jobId: string, project: Project) => {
+        while (true) {
+            await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+
+            const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({}));
+                throw new Error(error.error || 'Failed to check processing status');
+            }
+
+            const { job } = await response.json() as { job: ProcessingJobStatus };
+            setProcessingStatus(`${STAGE_LABELS[job.stage] || 'Processing...'} (${job.progress}%)`);
+
+            if (job.status === 'failed') {
+                setFailedJobId(job.id);
+                throw new Error(job.error || 'Processing failed');
+            }
+
+            if (job.status === 'completed') {
+                setFailedJobId(null);
+                toast.success("Meeting uploaded successfully!");
+                // Pass project info as query params for breadcrumb navigation
+                const queryParams = new URLSearchParams({
+                    projectName: project.name,
+                    displayName: project.displayName
+                });
+                router.push(`/meetings/${job.meetingId}?${queryParams.toString()}`);
+                return;
+            }
+        }
+    }, [router]);
+
+    const handleRetry = async () => {
+        if (!failedJobId || !selectedProject) return;
+
+        setIsProcessing(true);
+        setProcessingStatus("Retrying...");
+        try {
+            const response = await fetch(`/api/jobs/${encodeURIComponent(failedJobId)}/retry`, {
+                method: 'POST',
+            });
+
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({}));
+                throw new Error(error.error || 'Failed to retry processing');
+            }
+
+            await waitForJob(failedJobId, selectedProject);
+        } catch (error) {
+            console.error('Error retrying meeting processing:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to retry processing');
+        } finally {
+            setIsProcessing(false);
+            setProcessingStatus("");
+        }
+    };
+
     const handleSubmit = useCallback(async () => {
         if (!uploadedFile || !selectedProject) {
             toast.error('Please select a project');
@@ -191,7 +268,8 @@ export default function NewMeetingPage() {
         }
 
         setIsProcessing(true);
-        setProcessingStatus("Preparing file...");
+        setFailedJobId(null);
+        setProcessingStatus("Uploading file...");
 
         try {
             // Create FormData for file upload
@@ -210,7 +288,6 @@ export default function NewMeetingPage() {
 
             const response = await fetch('/api/meetings/upload', {
                 method: 'POST',
-                headers: buildUserHeaders(),
                 body: formData,
             });
 
@@ -220,28 +297,17 @@ export default function NewMeetingPage() {
             }
 
             const data = await response.json();
-            console.log('Meeting uploaded successfully:', data);
-            
-            toast.success("Meeting uploaded successfully!");
+            console.log('Meeting uploaded, processing job started:', data.jobId);
 
-            // Navigate to meeting detail page if ID exists, otherwise meetings list
-            if (data.meetingId) {
-                // Pass project info as query params for breadcrumb navigation
-                const queryParams = new URLSearchParams({
-                    projectName: selectedProject.name,
-                    displayName: selectedProject.displayName
-                });
-                router.push(`/meetings/${data.meetingId}?${queryParams.toString()}`);
-            } else {
-                router.push('/meetings');
-            }
+            await waitForJob(data.jobId, selectedProject);
         } catch (error) {
             console.error('Error uploading meeting:', error);
             toast.error(error instanceof Error ? error.message : 'Failed to upload meeting');
         } finally {
             setIsProcessing(false);
+            setProcessingStatus("");
         }
-    }, [uploadedFile, selectedProject, title, notes, router]);
+    }, [uploadedFile, selectedProject, title, notes, waitForJob]);
 
     // Auto-submit effect for recordings
     useEffect(() => {
@@ -485,6 +551,12 @@ export default function NewMeetingPage() {
                     <Button variant="outline" asChild>
                         <Link href="/meetings">Cancel</Link>
                     </Button>
+                    {failedJobId && !isProcessing && (
+                        <Button variant="outline" onClick={handleRetry} className="gap-2">
+                            <RotateCcw className="size-4" />
+                            Retry Processing
+                        </Button>
+                    )}
                     <Button
                         onClick={handleSubmit}
                         disabled={!uploadedFile || !selectedProject || isProcessing}
@@ -493,7 +565,7 @@ export default function NewMeetingPage() {
                         {isProcessing ? (
                             <>
                                 <Loader2 className="size-4 animate-spin" />
-                                Uploading...
+                                {processingStatus || "Uploading..."}
                             </>
                         ) : (
                             <>
@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { MeetingSearchResults } from "@/components/ui/meeting-search-results";
+import { MeetingDeleteDialog } from "@/components/ui/meeting-delete-dialog";
 import { Mic, Upload, Search, MoreVertical, Clock, CheckCircle2, Loader2, AlertCircle, Calendar, FolderKanban } from "lucide-react";
 import Link from "next/link";
 import {
@@ -20,6 +22,8 @@ interface Meeting {
     displayName: string;
     uploadTime?: string;
     mimeType?: string;
+    durationSeconds?: number | null;
+    lowCoverage?: boolean;  // Transcript misses a large part of the recording
 }
 
 interface Project {
@@ -34,6 +38,15 @@ interface MeetingWithProject extends Meeting {
     projectDisplayName: string;  // User-entered project name
 }
 
+interface SearchFilters {
+    projectId: string;
+    from: string;
+    to: string;
+    speaker: string;
+}
+
+const SELECT_CLASS_NAME = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
 function getStatusInfo(status: string) {
     switch (status) {
         case "completed":
@@ -67,6 +80,8 @@ export default function MeetingsPage() {
     const [meetings, setMeetings] = useState<MeetingWithProject[]>([]);
     const [loading, setLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState("");
+    const [filters, setFilters] = useState<SearchFilters>({ projectId: "", from: "", to: "", speaker: "" });
+    const [meetingToDelete, setMeetingToDelete] = useState<{ id: string; title: string } | null>(null);
 
     useEffect(() => {
         fetchMeetings();
@@ -92,10 +107,8 @@ export default function MeetingsPage() {
         }
     };
 
-    const filteredMeetings = meetings.filter(meeting =>
-        meeting.displayName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        meeting.projectDisplayName?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+    const isSearching = searchQuery.trim().length > 0;
+    const projects = Array.from(new Map(meetings.map(meeting => [meeting.projectName, meeting.projectDisplayName])).entries());
 
     const formatDate = (dateString?: string) => {
         if (!dateString) return 'Unknown date';
@@ -113,6 +126,15 @@ export default function MeetingsPage() {
             minute: '2-digit'
         });
     };
+
+    const formatDuration = (seconds?: number | null) => {
+        if (!seconds) return '';
+        const mins = Math.floor(seconds / 60);
+        if (mins >= 60) {
+            return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+        }
+        return `${mins}m ${Math.floor(seconds % 60)}s`;
+    };
     return (
         <DashboardLayout breadcrumbs={[{ label: "Meetings" }]} title="Meetings">
             <div className="space-y-6">
@@ -121,7 +143,7 @@ export default function MeetingsPage() {
                     <div className="relative flex-1 max-w-md">
                         <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
                         <Input 
-                            placeholder="Search meetings..." 
+                            placeholder="Search titles, notes and transcripts..." 
                             className="pl-10"
                             value={searchQuery}
                             onChange={(e) => setSearchQuery(e.target.value)}
@@ -135,12 +157,52 @@ export default function MeetingsPage() {
                     </Button>
                 </div>
 
-                {/* Loading State */}
-                {loading ? (
+                {isSearching && (
+                    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                        <select
+                            aria-label="Project"
+                            className={SELECT_CLASS_NAME}
+                            value={filters.projectId}
+                            onChange={(e) => setFilters({ ...filters, projectId: e.target.value })}
+                        >
+                            <option value="">All projects</option>
+                            {projects.map(([id, displayName]) => (
+                                <option key={id} value={id}>{displayName}</option>
+                            ))}
+                        </select>
+                        <Input
+                            type="date"
+                            aria-label="From date"
+                            value={filters.from}
+                            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                        />
+                        <Input
+                            type="date"
+                            aria-label="To date"
+                            value={filters.to}
+                            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                        />
+                        <Input
+                            placeholder="Speaker"
+                            value={filters.speaker}
+                            onChange={(e) => setFilters({ ...filters, speaker: e.target.value })}
+                        />
+                    </div>
+                )}
+
+                {isSearching ? (
+                    <MeetingSearchResults
+                        query={searchQuery.trim()}
+                        projectId={filters.projectId || undefined}
+                        from={filters.from || undefined}
+                        to={filters.to || undefined}
+                        speaker={filters.speaker.trim() || undefined}
+                    />
+                ) : loading ? (
                     <div className="flex items-center justify-center py-12">
                         <p className="text-muted-foreground">Loading meetings...</p>
                     </div>
-                ) : filteredMeetings.length === 0 ? (
+                ) : meetings.length === 0 ? (
                     /* Empty State */
                     <Card className="border-dashed">
                         <CardContent className="flex flex-col items-center justify-center py-16">
@@ -148,28 +210,23 @@ export default function MeetingsPage() {
                                 <Mic className="size-8 text-muted-foreground" />
                             </div>
                             <h3 className="text-lg font-medium mb-2">
-                                {searchQuery ? "No meetings found" : "No meetings yet"}
+                                No meetings yet
                             </h3>
                             <p className="text-muted-foreground text-center max-w-sm mb-4">
-                                {searchQuery 
-                                    ? "Try adjusting your search query"
-                                    : "Upload your first meeting recording to get started with AI-powered transcription and note extraction."
-                                }
+                                Upload your first meeting recording to get started with AI-powered transcription and note extraction.
                             </p>
-                            {!searchQuery && (
-                                <Button asChild>
-                                    <Link href="/meetings/new">
-                                        <Upload className="size-4 mr-2" />
-                                        Upload Recording
-                                    </Link>
-                                </Button>
-                            )}
+                            <Button asChild>
+                                <Link href="/meetings/new">
+                                    <Upload className="size-4 mr-2" />
+                                    Upload Recording
+                                </Link>
+                            </Button>
                         </CardContent>
                     </Card>
                 ) : (
                     /* Meetings Grid */
                     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                        {filteredMeetings.map((meeting, index) => {
+                        {meetings.map((meeting, index) => {
                             const statusInfo = getStatusInfo("completed");
                             const encodedDocName = encodeURIComponent(meeting.name);
                             return (
@@ -186,6 +243,7 @@ export default function MeetingsPage() {
                                                     </CardTitle>
                                                     <CardDescription className="break-words">
                                                         {formatDate(meeting.uploadTime)} · {formatTime(meeting.uploadTime)}
+                                                        {meeting.durationSeconds ? ` · ${formatDuration(meeting.durationSeconds)}` : ''}
                                                     </CardDescription>
                                                 </div>
                                             </div>
@@ -204,7 +262,12 @@ export default function MeetingsPage() {
                                                             View Transcript
                                                         </Link>
                                                     </DropdownMenuItem>
-                                                    <DropdownMenuItem className="text-destructive">Delete</DropdownMenuItem>
+                                                    <DropdownMenuItem
+                                                        className="text-destructive"
+                                                        onClick={() => setMeetingToDelete({ id: meeting.name, title: meeting.displayName || 'Untitled Meeting' })}
+                                                    >
+                                                        Delete
+                                                    </DropdownMenuItem>
                                                 </DropdownMenuContent>
                                             </DropdownMenu>
                                         </div>
@@ -224,6 +287,15 @@ export default function MeetingsPage() {
                                                         {meeting.mimeType.split('/')[1]?.toUpperCase() || 'FILE'}
                                                     </Badge>
                                                 )}
+                                                {meeting.lowCoverage && (
+                                                    <Badge
+                                                        variant="outline"
+                                                        className="text-xs bg-warning/10 text-warning border-warning/20"
+                                                        title="The transcript covers much less than the length of the recording"
+                                                    >
+                                                        Partial transcript
+                                                    </Badge>
+                                                )}
                                             </div>
                                             {statusInfo.badge}
                                         </div>
@@ -240,6 +312,12 @@ export default function MeetingsPage() {
                     </div>
                 )}
             </div>
+
+            <MeetingDeleteDialog
+                meeting={meetingToDelete}
+                onOpenChange={(open) => !open && setMeetingToDelete(null)}
+                onDeleted={(meetingId) => setMeetings((current) => current.filter((item) => item.name !== meetingId))}
+            />
         </DashboardLayout>
     );
 }
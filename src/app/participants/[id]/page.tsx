@@ -0,0 +1,174 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CalendarDays, ListTodo, Mic, UserRound } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getCurrentUser } from "@/lib/auth";
+import { getParticipantActivity } from "@/lib/participants";
+
+const STATUS_LABELS: Record<string, string> = {
+    open: "Open",
+    in_progress: "In Progress",
+    done: "Done",
+};
+
+function formatTimestamp(seconds?: number): string {
+    if (seconds === undefined) return "";
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export default async function ParticipantPage({
+    params,
+}: {
+    params: Promise<{ id: string }>;
+}) {
+    const { id } = await params;
+    const user = await getCurrentUser();
+    const activity = user ? await getParticipantActivity(user.id, decodeURIComponent(id)) : null;
+
+    if (!activity) {
+        notFound();
+    }
+
+    const { participant, meetings, actionItems } = activity;
+    const projectHref = `/projects/${encodeURIComponent(participant.projectId)}`;
+    const projectQuery = `projectName=${encodeURIComponent(participant.projectId)}&displayName=${encodeURIComponent(participant.projectDisplayName || "")}`;
+
+    return (
+        <DashboardLayout
+            breadcrumbs={[
+                { label: "Projects", href: "/projects" },
+                { label: participant.projectDisplayName || "Project", href: projectHref },
+                { label: participant.name },
+            ]}
+            title={participant.name}
+        >
+            <div className="space-y-6">
+                <Button variant="outline" size="sm" asChild>
+                    <Link href={projectHref}>
+                        <ArrowLeft className="size-4 mr-2" />
+                        Back to Project
+                    </Link>
+                </Button>
+
+                <div className="flex items-center gap-4">
+                    <div className="flex size-12 items-center justify-center rounded-full bg-primary/10 shrink-0">
+                        <UserRound className="size-6 text-primary" />
+                    </div>
+                    <div className="space-y-1">
+                        <h1 className="text-2xl font-bold">{participant.name}</h1>
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                            {participant.role && <span>{participant.role}</span>}
+                            {participant.aliases.map((alias) => (
+                                <Badge key={alias} variant="outline">{alias}</Badge>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                            <ListTodo className="size-5" />
+                            Action Items
+                        </CardTitle>
+                        <CardDescription>Tasks in this project assigned to {participant.name}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {actionItems.length === 0 ? (
+                            <p className="text-sm text-muted-foreground italic">No action items assigned.</p>
+                        ) : (
+                            <ul className="space-y-3">
+                                {actionItems.map((item) => (
+                                    <li key={item.id} className="flex items-start justify-between gap-4">
+                                        <div className="space-y-1">
+                                            <p className="text-sm">{item.description}</p>
+                                            <Link
+                                                href={`/meetings/${encodeURIComponent(item.meetingId)}?tab=transcript${item.sourceSegmentIndex !== null ? `#segment-${item.sourceSegmentIndex}` : ""}`}
+                                                className="text-xs text-muted-foreground hover:text-primary"
+                                            >
+                                                {item.meetingTitle || "Meeting"}
+                                            </Link>
+                                        </div>
+                                        <div className="flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+                                            {item.dueDate && (
+                                                <span className="flex items-center gap-1">
+                                                    <CalendarDays className="size-3" />
+                                                    {item.dueDate}
+                                                </span>
+                                            )}
+                                            <Badge variant={item.status === "done" ? "secondary" : "outline"}>
+                                                {STATUS_LABELS[item.status] || item.status}
+                                            </Badge>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <div className="space-y-4">
+                    <h2 className="text-xl font-semibold">Meetings</h2>
+                    {meetings.length === 0 ? (
+                        <Card className="py-12">
+                            <CardContent className="text-center">
+                                <Mic className="size-12 text-muted-foreground mx-auto mb-4" />
+                                <p className="text-muted-foreground">
+                                    {participant.name} has not been named as a speaker in any meeting yet.
+                                </p>
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        meetings.map((meeting) => (
+                            <Card key={meeting.id}>
+                                <CardHeader>
+                                    <CardTitle className="text-base">
+                                        <Link
+                                            href={`/meetings/${encodeURIComponent(meeting.id)}?${projectQuery}`}
+                                            className="hover:text-primary"
+                                        >
+                                            {meeting.title}
+                                        </Link>
+                                    </CardTitle>
+                                    <CardDescription>
+                                        {new Date(meeting.createdAt).toLocaleDateString("en-US", {
+                                            year: "numeric",
+                                            month: "long",
+                                            day: "numeric",
+                                        })}
+                                        {" · "}
+                                        {meeting.segments.length} segment{meeting.segments.length === 1 ? "" : "s"}
+                                    </CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <ul className="space-y-2 max-h-80 overflow-y-auto pr-2">
+                                        {meeting.segments.map((segment) => (
+                                            <li key={segment.index}>
+                                                <Link
+                                                    href={`/meetings/${encodeURIComponent(meeting.id)}?tab=transcript&${projectQuery}#segment-${segment.index}`}
+                                                    className="flex gap-4 rounded-md p-1 hover:bg-muted"
+                                                >
+                                                    {segment.startTime !== undefined && (
+                                                        <span className="text-xs text-muted-foreground font-mono w-12 shrink-0 pt-0.5">
+                                                            {formatTimestamp(segment.startTime)}
+                                                        </span>
+                                                    )}
+                                                    <span className="text-sm line-clamp-3">{segment.text}</span>
+                                                </Link>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </CardContent>
+                            </Card>
+                        ))
+                    )}
+                </div>
+            </div>
+        </DashboardLayout>
+    );
+}
@@ -19,9 +19,16 @@ import {
     Upload,
     MessageCircleQuestion,
     Trash2,
-    Loader2
+    Loader2,
+    Pencil,
+    Target,
+    ShieldCheck
 } from "lucide-react";
 import Link from "next/link";
+import { ProjectParticipants } from "@/components/ui/project-participants";
+import { MeetingSearchResults } from "@/components/ui/meeting-search-results";
+import { MeetingDeleteDialog } from "@/components/ui/meeting-delete-dialog";
+import { ProjectEditDialog } from "@/components/ui/project-edit-dialog";
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -42,11 +49,16 @@ interface Meeting {
     displayName: string;
     uploadTime?: string;
     mimeType?: string;
+    durationSeconds?: number;
 }
 
 interface Project {
     name: string;          // RAG store resource name - acts as primary key  
     displayName: string;   // User-entered project name
+    color?: string;
+    description: string;
+    goals: string;
+    transcriptionProvider: string | null;
     createdAt: string;
     meetings: Meeting[];
     meetingCount: number;
@@ -61,7 +73,9 @@ export default function ProjectDetailsPage() {
     const [loading, setLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState("");
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showEditDialog, setShowEditDialog] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
+    const [meetingToDelete, setMeetingToDelete] = useState<{ id: string; title: string } | null>(null);
 
     useEffect(() => {
         const initializeParams = async () => {
@@ -103,9 +117,7 @@ export default function ProjectDetailsPage() {
         }
     };
 
-    const filteredMeetings = project?.meetings.filter(meeting =>
-        meeting.displayName.toLowerCase().includes(searchQuery.toLowerCase())
-    ) || [];
+    const meetings = project?.meetings || [];
 
     const handleDeleteProject = async () => {
         if (!project) return;
@@ -143,6 +155,14 @@ export default function ProjectDetailsPage() {
         });
     };
 
+    const formatDuration = (seconds: number) => {
+        const mins = Math.floor(seconds / 60);
+        if (mins >= 60) {
+            return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+        }
+        return `${mins}m ${Math.floor(seconds % 60)}s`;
+    };
+
     if (loading) {
         return (
             <DashboardLayout
@@ -224,6 +244,10 @@ export default function ProjectDetailsPage() {
                                 </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => setShowEditDialog(true)}>
+                                    <Pencil className="size-4 mr-2" />
+                                    Edit Project
+                                </DropdownMenuItem>
                                 <DropdownMenuItem onClick={() => setShowDeleteDialog(true)} className="text-destructive">
                                     <Trash2 className="size-4 mr-2" />
                                     Delete Project
@@ -287,6 +311,37 @@ export default function ProjectDetailsPage() {
                     </Card>
                 </div>
 
+                {(project.description || project.goals) && (
+                    <Card>
+                        <CardContent className="grid gap-4 md:grid-cols-2">
+                            {project.description && (
+                                <div className="space-y-1">
+                                    <h3 className="text-sm font-medium text-muted-foreground">Description</h3>
+                                    <p className="text-sm whitespace-pre-wrap">{project.description}</p>
+                                </div>
+                            )}
+                            {project.goals && (
+                                <div className="space-y-1">
+                                    <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+                                        <Target className="size-3" />
+                                        Goals
+                                    </h3>
+                                    <p className="text-sm whitespace-pre-wrap">{project.goals}</p>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+
+                {project.transcriptionProvider === "whisper_server" && (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <ShieldCheck className="size-4 text-emerald-500" />
+                        Recordings in this project are transcribed on the local Whisper server and never sent to Google.
+                    </p>
+                )}
+
+                <ProjectParticipants projectName={project.name} />
+
                 {/* Meetings Section */}
                 <div className="space-y-4">
                     <div className="flex items-center justify-between gap-4">
@@ -295,7 +350,7 @@ export default function ProjectDetailsPage() {
                             <div className="relative">
                                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
                                 <Input
-                                    placeholder="Search meetings..."
+                                    placeholder="Search notes and transcripts..."
                                     className="pl-9"
                                     value={searchQuery}
                                     onChange={(e) => setSearchQuery(e.target.value)}
@@ -304,32 +359,27 @@ export default function ProjectDetailsPage() {
                         </div>
                     </div>
 
-                    {filteredMeetings.length === 0 ? (
+                    {searchQuery.trim() ? (
+                        <MeetingSearchResults query={searchQuery.trim()} projectId={project.name} showProject={false} />
+                    ) : meetings.length === 0 ? (
                         <Card className="py-12">
                             <CardContent className="text-center">
                                 <Mic className="size-12 text-muted-foreground mx-auto mb-4" />
-                                <h3 className="text-lg font-semibold mb-2">
-                                    {searchQuery ? "No meetings found" : "No meetings yet"}
-                                </h3>
+                                <h3 className="text-lg font-semibold mb-2">No meetings yet</h3>
                                 <p className="text-muted-foreground mb-4">
-                                    {searchQuery 
-                                        ? "Try adjusting your search query"
-                                        : "Upload your first meeting recording to get started"
-                                    }
+                                    Upload your first meeting recording to get started
                                 </p>
-                                {!searchQuery && (
-                                    <Button asChild>
-                                        <Link href={`/meetings/new?projectName=${encodeURIComponent(project.name)}&displayName=${encodeURIComponent(project.displayName)}`}>
-                                            <Plus className="size-4 mr-2" />
-                                            Upload Meeting
-                                        </Link>
-                                    </Button>
-                                )}
+                                <Button asChild>
+                                    <Link href={`/meetings/new?projectName=${encodeURIComponent(project.name)}&displayName=${encodeURIComponent(project.displayName)}`}>
+                                        <Plus className="size-4 mr-2" />
+                                        Upload Meeting
+                                    </Link>
+                                </Button>
                             </CardContent>
                         </Card>
                     ) : (
                         <div className="grid gap-4">
-                            {filteredMeetings.map((meeting, index) => {
+                            {meetings.map((meeting, index) => {
                                 const encodedDocName = encodeURIComponent(meeting.name);
                                 return (
                                     <Card key={meeting.name || index} className="group hover:shadow-md transition-shadow relative">
@@ -346,6 +396,12 @@ export default function ProjectDetailsPage() {
                                                         <CardDescription className="flex items-center gap-2 mt-1">
                                                             <Calendar className="size-3" />
                                                             {formatDate(meeting.uploadTime)}
+                                                            {meeting.durationSeconds && (
+                                                                <>
+                                                                    <span className="text-muted-foreground">·</span>
+                                                                    {formatDuration(meeting.durationSeconds)}
+                                                                </>
+                                                            )}
                                                             {meeting.mimeType && (
                                                                 <>
                                                                     <span className="text-muted-foreground">·</span>
@@ -379,7 +435,10 @@ export default function ProjectDetailsPage() {
                                                             </Link>
                                                         </DropdownMenuItem>
                                                         <DropdownMenuItem>Download</DropdownMenuItem>
-                                                        <DropdownMenuItem className="text-destructive">
+                                                        <DropdownMenuItem
+                                                            className="text-destructive"
+                                                            onClick={() => setMeetingToDelete({ id: meeting.name, title: meeting.displayName || 'Untitled Meeting' })}
+                                                        >
                                                             Delete Meeting
                                                         </DropdownMenuItem>
                                                     </DropdownMenuContent>
@@ -400,6 +459,21 @@ export default function ProjectDetailsPage() {
                 </div>
             </div>
 
+            <MeetingDeleteDialog
+                meeting={meetingToDelete}
+                onOpenChange={(open) => !open && setMeetingToDelete(null)}
+                onDeleted={() => fetchProjectDetails()}
+            />
+
+            {project && (
+                <ProjectEditDialog
+                    project={project}
+                    open={showEditDialog}
+                    onOpenChange={setShowEditDialog}
+                    onSaved={(details) => setProject({ ...project, ...details })}
+                />
+            )}
+
             {/* Delete Project Confirmation Dialog */}
             <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
                 <DialogContent>
@@ -34,6 +34,7 @@ interface Project {
     name: string;          // RAG store resource name - acts as primary key
     displayName: string;   // User-entered project name
     color?: string;
+    description: string;
     createdAt: string;
     meetings: Meeting[];
     meetingCount: number;
@@ -235,7 +236,7 @@ export default function ProjectsPage() {
                                     <CardHeader>
                                         <div className="flex items-start justify-between">
                                             <div className="flex items-center gap-3">
-                                                <div className="size-10 rounded-lg bg-blue-500 flex items-center justify-center text-white">
+                                                <div className={`size-10 rounded-lg ${project.color || 'bg-blue-500'} flex items-center justify-center text-white`}>
                                                     <FolderKanban className="size-5" />
                                                 </div>
                                                 <div>
@@ -262,8 +263,8 @@ export default function ProjectsPage() {
                                                 </DropdownMenuContent>
                                             </DropdownMenu>
                                         </div>
-                                        <CardDescription className="mt-2">
-                                            {project.meetingCount} {project.meetingCount === 1 ? 'meeting' : 'meetings'} in this project
+                                        <CardDescription className="mt-2 line-clamp-2">
+                                            {project.description || `${project.meetingCount} ${project.meetingCount === 1 ? 'meeting' : 'meetings'} in this project`}
                                         </CardDescription>
                                     </CardHeader>
                                     <CardContent>
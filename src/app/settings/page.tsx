@@ -4,10 +4,9 @@ import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Palette, Moon, Sun, Monitor, KeyRound, Loader2, CheckCircle2, AlertCircle, ExternalLink, Copy, Trash2, Eye, EyeOff } from "lucide-react";
+import { Palette, Moon, Sun, Monitor, KeyRound, Loader2, CheckCircle2, AlertCircle, ExternalLink, Copy, Trash2, Eye, EyeOff, RefreshCw, Gauge, Cpu } from "lucide-react";
 import { useTheme } from "next-themes";
 import { useEffect, useState } from "react";
-import { buildUserHeaders, getOrCreateRemembryUserId } from "@/lib/clientUser";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 
@@ -19,8 +18,87 @@ interface ApiKeyStatus {
     createdAt: string | null;
     lastUsed: string | null;
     usageCount: number;
+    lastValidatedAt: string | null;
+    validationStatus: KeyValidationStatus | null;
 }
 
+type KeyValidationStatus = "valid" | "invalid" | "quota_exhausted" | "not_found" | "rejected" | "unreachable";
+
+interface KeyValidationResult {
+    status: KeyValidationStatus;
+    message: string;
+    checkedAt: string;
+}
+
+const VALIDATION_LABELS: Record<KeyValidationStatus, string> = {
+    valid: "Working",
+    invalid: "Rejected",
+    quota_exhausted: "Quota exhausted",
+    not_found: "Could not check",
+    rejected: "Refused by Gemini",
+    unreachable: "Could not check",
+};
+
+interface UsageLimits {
+    dailyRequestLimit: number | null;
+    monthlyRequestLimit: number | null;
+    dailyTokenLimit: number | null;
+    monthlyTokenLimit: number | null;
+}
+
+interface UsageSummary {
+    today: { requests: number; tokens: number };
+    thisMonth: { requests: number; tokens: number };
+    limits: UsageLimits;
+}
+
+type LimitInputs = Record<keyof UsageLimits, string>;
+
+const LIMIT_FIELDS: Array<{ key: keyof UsageLimits; label: string }> = [
+    { key: "dailyRequestLimit", label: "Requests per day" },
+    { key: "monthlyRequestLimit", label: "Requests per month" },
+    { key: "dailyTokenLimit", label: "Tokens per day" },
+    { key: "monthlyTokenLimit", label: "Tokens per month" },
+];
+
+function toLimitInputs(limits: UsageLimits): LimitInputs {
+    return {
+        dailyRequestLimit: limits.dailyRequestLimit?.toString() || "",
+        monthlyRequestLimit: limits.monthlyRequestLimit?.toString() || "",
+        dailyTokenLimit: limits.dailyTokenLimit?.toString() || "",
+        monthlyTokenLimit: limits.monthlyTokenLimit?.toString() || "",
+    };
+}
+
+function formatUsage(used: number, limit: number | null): string {
+    return limit ? `${used.toLocaleString()} / ${limit.toLocaleString()}` : used.toLocaleString();
+}
+
+type AiProviderId = "gemini" | "openai_compatible" | "whisper_server";
+
+interface AiProviderSettings {
+    llmProvider: AiProviderId;
+    llmModel: string | null;
+    transcriptionProvider: AiProviderId;
+    transcriptionModel: string | null;
+}
+
+interface AiProviderOption {
+    id: AiProviderId;
+    label: string;
+    uses: Array<"llm" | "transcription">;
+    available: boolean;
+    defaultLlmModel: string | null;
+    defaultTranscriptionModel: string | null;
+}
+
+const AI_PROVIDER_USES: Array<{ use: "llm" | "transcription"; label: string; description: string }> = [
+    { use: "llm", label: "Notes and chat", description: "Writes meeting notes and answers project chat" },
+    { use: "transcription", label: "Transcription", description: "Turns recordings into transcripts" },
+];
+
+const SELECT_CLASS_NAME = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
 export default function SettingsPage() {
     const { theme, setTheme } = useTheme();
     const [mounted, setMounted] = useState(false);
@@ -30,6 +108,23 @@ export default function SettingsPage() {
     const [isLoadingKeyStatus, setIsLoadingKeyStatus] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
     const [showApiKey, setShowApiKey] = useState(false);
+    const [isCheckingKey, setIsCheckingKey] = useState(false);
+    const [usage, setUsage] = useState<UsageSummary | null>(null);
+    const [limitInputs, setLimitInputs] = useState<LimitInputs>(toLimitInputs({
+        dailyRequestLimit: null,
+        monthlyRequestLimit: null,
+        dailyTokenLimit: null,
+        monthlyTokenLimit: null,
+    }));
+    const [isSavingLimits, setIsSavingLimits] = useState(false);
+    const [aiSettings, setAiSettings] = useState<AiProviderSettings>({
+        llmProvider: "gemini",
+        llmModel: null,
+        transcriptionProvider: "gemini",
+        transcriptionModel: null,
+    });
+    const [aiProviders, setAiProviders] = useState<AiProviderOption[]>([]);
+    const [isSavingAiSettings, setIsSavingAiSettings] = useState(false);
 
     useEffect(() => {
         setMounted(true);
@@ -39,10 +134,7 @@ export default function SettingsPage() {
         const loadGeminiKeyStatus = async () => {
             setIsLoadingKeyStatus(true);
             try {
-                getOrCreateRemembryUserId();
-                const response = await fetch("/api/settings/gemini-key", {
-                    headers: buildUserHeaders(),
-                });
+                const response = await fetch("/api/settings/gemini-key");
 
                 if (!response.ok) {
                     throw new Error("Failed to load Gemini API key status");
@@ -60,6 +152,46 @@ export default function SettingsPage() {
         loadGeminiKeyStatus();
     }, []);
 
+    useEffect(() => {
+        const loadUsage = async () => {
+            try {
+                const response = await fetch("/api/settings/usage");
+
+                if (!response.ok) {
+                    throw new Error("Failed to load usage");
+                }
+
+                const data: UsageSummary = await response.json();
+                setUsage(data);
+                setLimitInputs(toLimitInputs(data.limits));
+            } catch (error) {
+                console.error("Failed to load usage:", error);
+            }
+        };
+
+        loadUsage();
+    }, []);
+
+    useEffect(() => {
+        const loadAiSettings = async () => {
+            try {
+                const response = await fetch("/api/settings/ai-providers");
+
+                if (!response.ok) {
+                    throw new Error("Failed to load AI provider settings");
+                }
+
+                const data = await response.json();
+                setAiSettings(data.settings);
+                setAiProviders(data.providers);
+            } catch (error) {
+                console.error("Failed to load AI provider settings:", error);
+            }
+        };
+
+        loadAiSettings();
+    }, []);
+
     const handleSaveApiKey = async () => {
         if (!apiKey.trim()) {
             toast.error("Please enter a Gemini API key.");
@@ -75,7 +207,7 @@ export default function SettingsPage() {
         try {
             const response = await fetch("/api/settings/gemini-key", {
                 method: "POST",
-                headers: buildUserHeaders({ "Content-Type": "application/json" }),
+                headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ apiKey: apiKey.trim() }),
             });
 
@@ -84,13 +216,16 @@ export default function SettingsPage() {
                 throw new Error(data.error || "Failed to save Gemini API key");
             }
 
-            const statusResponse = await fetch("/api/settings/gemini-key", {
-                headers: buildUserHeaders(),
-            });
+            const data = await response.json();
+            const statusResponse = await fetch("/api/settings/gemini-key");
             const statusData = await statusResponse.json();
             setApiKeyStatus(statusData);
             setApiKey("");
-            toast.success("Gemini API key saved successfully.");
+            if (data.validation?.status === "quota_exhausted") {
+                toast.warning(`Gemini API key saved. ${data.validation.message}`);
+            } else {
+                toast.success("Gemini API key saved successfully.");
+            }
         } catch (error) {
             const message = error instanceof Error ? error.message : "Failed to save key";
             toast.error(message);
@@ -104,7 +239,6 @@ export default function SettingsPage() {
         try {
             const response = await fetch("/api/settings/gemini-key", {
                 method: "DELETE",
-                headers: buildUserHeaders(),
             });
 
             if (!response.ok) {
@@ -119,6 +253,8 @@ export default function SettingsPage() {
                 createdAt: null,
                 lastUsed: null,
                 usageCount: 0,
+                lastValidatedAt: null,
+                validationStatus: null,
             });
             toast.success("Gemini API key deleted.");
         } catch (error) {
@@ -128,6 +264,83 @@ export default function SettingsPage() {
         }
     };
 
+    const handleCheckApiKey = async () => {
+        setIsCheckingKey(true);
+        try {
+            const response = await fetch("/api/settings/gemini-key/check", { method: "POST" });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to check Gemini API key");
+            }
+
+            const validation = data.validation as KeyValidationResult;
+            setApiKeyStatus((current) => current && {
+                ...current,
+                lastValidatedAt: validation.checkedAt,
+                validationStatus: validation.status,
+            });
+
+            if (validation.status === "valid") {
+                toast.success(validation.message);
+            } else {
+                toast.error(validation.message);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to check key");
+        } finally {
+            setIsCheckingKey(false);
+        }
+    };
+
+    const handleSaveLimits = async () => {
+        setIsSavingLimits(true);
+        try {
+            const response = await fetch("/api/settings/usage", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(limitInputs),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save usage limits");
+            }
+
+            setUsage(data);
+            setLimitInputs(toLimitInputs(data.limits));
+            toast.success("Usage limits saved.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save usage limits");
+        } finally {
+            setIsSavingLimits(false);
+        }
+    };
+
+    const handleSaveAiSettings = async () => {
+        setIsSavingAiSettings(true);
+        try {
+            const response = await fetch("/api/settings/ai-providers", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(aiSettings),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save AI provider settings");
+            }
+
+            setAiSettings(data.settings);
+            setAiProviders(data.providers);
+            toast.success("AI providers saved.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save AI provider settings");
+        } finally {
+            setIsSavingAiSettings(false);
+        }
+    };
+
     const copyApiKey = () => {
         if (apiKeyStatus?.maskedKey) {
             navigator.clipboard.writeText(apiKeyStatus.maskedKey);
@@ -240,6 +453,14 @@ export default function SettingsPage() {
                                 <div className="flex items-center justify-between">
                                     <span className="text-sm font-medium">Current API Key</span>
                                     <div className="flex items-center gap-2">
+                                        <Button variant="ghost" size="sm" onClick={handleCheckApiKey} disabled={isCheckingKey} className="h-8 px-2">
+                                            {isCheckingKey ? (
+                                                <Loader2 className="size-3 mr-1 animate-spin" />
+                                            ) : (
+                                                <RefreshCw className="size-3 mr-1" />
+                                            )}
+                                            Check Key
+                                        </Button>
                                         <Button variant="ghost" size="sm" onClick={copyApiKey} className="h-8 px-2">
                                             <Copy className="size-3 mr-1" />
                                             Copy
@@ -251,6 +472,16 @@ export default function SettingsPage() {
                                         {apiKeyStatus.maskedKey || `${apiKeyStatus.keyPrefix}...${apiKeyStatus.keySuffix}`}
                                     </code>
                                 </div>
+                                {apiKeyStatus.validationStatus && (
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <Badge variant={apiKeyStatus.validationStatus === "valid" ? "outline" : "destructive"}>
+                                            {VALIDATION_LABELS[apiKeyStatus.validationStatus]}
+                                        </Badge>
+                                        <span className="text-muted-foreground">
+                                            Last checked {formatDate(apiKeyStatus.lastValidatedAt)}
+                                        </span>
+                                    </div>
+                                )}
                                 <div className="grid grid-cols-3 gap-4 pt-2 text-xs text-muted-foreground">
                                     <div>
                                         <span className="font-medium">Created</span>
@@ -304,7 +535,7 @@ export default function SettingsPage() {
                                     {isSavingKey ? (
                                         <>
                                             <Loader2 className="size-4 mr-2 animate-spin" />
-                                            Saving...
+                                            Verifying...
                                         </>
                                     ) : (
                                         <>
@@ -345,6 +576,154 @@ export default function SettingsPage() {
                     </CardContent>
                 </Card>
 
+                {/* Gemini Usage and Limits */}
+                <Card className="border-none shadow-sm bg-card/50 backdrop-blur-xl">
+                    <CardHeader>
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 rounded-lg bg-primary/10 text-primary">
+                                <Gauge className="size-5" />
+                            </div>
+                            <div>
+                                <CardTitle>Usage</CardTitle>
+                                <CardDescription>
+                                    Gemini requests and tokens used, with optional limits (UTC days and months)
+                                </CardDescription>
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid grid-cols-2 gap-4 p-4 rounded-xl bg-muted/50 border text-sm">
+                            <div className="space-y-1">
+                                <p className="font-medium">Today</p>
+                                <p className="text-muted-foreground">
+                                    {formatUsage(usage?.today.requests || 0, usage?.limits.dailyRequestLimit ?? null)} requests
+                                </p>
+                                <p className="text-muted-foreground">
+                                    {formatUsage(usage?.today.tokens || 0, usage?.limits.dailyTokenLimit ?? null)} tokens
+                                </p>
+                            </div>
+                            <div className="space-y-1">
+                                <p className="font-medium">This month</p>
+                                <p className="text-muted-foreground">
+                                    {formatUsage(usage?.thisMonth.requests || 0, usage?.limits.monthlyRequestLimit ?? null)} requests
+                                </p>
+                                <p className="text-muted-foreground">
+                                    {formatUsage(usage?.thisMonth.tokens || 0, usage?.limits.monthlyTokenLimit ?? null)} tokens
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-2 gap-4">
+                                {LIMIT_FIELDS.map(({ key, label }) => (
+                                    <div key={key} className="space-y-2">
+                                        <label htmlFor={key} className="text-sm font-medium">{label}</label>
+                                        <Input
+                                            id={key}
+                                            type="number"
+                                            min={1}
+                                            step={1}
+                                            placeholder="No limit"
+                                            value={limitInputs[key]}
+                                            onChange={(e) => setLimitInputs((current) => ({ ...current, [key]: e.target.value }))}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                Once a limit is reached, new uploads, note generation and chat are refused until the period resets. Leave a field empty for no limit.
+                            </p>
+                            <Button onClick={handleSaveLimits} disabled={isSavingLimits} className="w-full">
+                                {isSavingLimits ? (
+                                    <>
+                                        <Loader2 className="size-4 mr-2 animate-spin" />
+                                        Saving...
+                                    </>
+                                ) : (
+                                    "Save Limits"
+                                )}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {/* AI Providers */}
+                <Card className="border-none shadow-sm bg-card/50 backdrop-blur-xl">
+                    <CardHeader>
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 rounded-lg bg-primary/10 text-primary">
+                                <Cpu className="size-5" />
+                            </div>
+                            <div>
+                                <CardTitle>AI Providers</CardTitle>
+                                <CardDescription>
+                                    Choose which service and model handle your meetings
+                                </CardDescription>
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        {AI_PROVIDER_USES.map(({ use, label, description }) => {
+                            const providerField = use === "llm" ? "llmProvider" : "transcriptionProvider";
+                            const modelField = use === "llm" ? "llmModel" : "transcriptionModel";
+                            const selected = aiProviders.find((provider) => provider.id === aiSettings[providerField]);
+                            const defaultModel = use === "llm" ? selected?.defaultLlmModel : selected?.defaultTranscriptionModel;
+
+                            return (
+                                <div key={use} className="space-y-3">
+                                    <div>
+                                        <p className="text-sm font-medium">{label}</p>
+                                        <p className="text-xs text-muted-foreground">{description}</p>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div className="space-y-2">
+                                            <label htmlFor={`${use}-provider`} className="text-sm font-medium">Provider</label>
+                                            <select
+                                                id={`${use}-provider`}
+                                                className={SELECT_CLASS_NAME}
+                                                value={aiSettings[providerField]}
+                                                onChange={(e) => setAiSettings((current) => ({
+                                                    ...current,
+                                                    [providerField]: e.target.value as AiProviderId,
+                                                    [modelField]: null,
+                                                }))}
+                                            >
+                                                {aiProviders.filter((provider) => provider.uses.includes(use)).map((provider) => (
+                                                    <option key={provider.id} value={provider.id} disabled={!provider.available}>
+                                                        {provider.available ? provider.label : `${provider.label} (not configured)`}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <label htmlFor={`${use}-model`} className="text-sm font-medium">Model</label>
+                                            <Input
+                                                id={`${use}-model`}
+                                                placeholder={defaultModel || "Model name"}
+                                                value={aiSettings[modelField] || ""}
+                                                onChange={(e) => setAiSettings((current) => ({ ...current, [modelField]: e.target.value }))}
+                                            />
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        <p className="text-xs text-muted-foreground">
+                            Leave the model empty to use the provider&apos;s default. An OpenAI-compatible server (such as Ollama) is set up by the administrator with OPENAI_COMPATIBLE_BASE_URL, and a local whisper.cpp or faster-whisper server with WHISPER_SERVER_URL. A project can require its own transcription provider in Edit Project. Project search uses the embeddings of the notes and chat provider, or keyword matching when it has none.
+                        </p>
+                        <Button onClick={handleSaveAiSettings} disabled={isSavingAiSettings} className="w-full">
+                            {isSavingAiSettings ? (
+                                <>
+                                    <Loader2 className="size-4 mr-2 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Providers"
+                            )}
+                        </Button>
+                    </CardContent>
+                </Card>
+
                 {/* Database Info */}
                 <Card className="border-none shadow-sm bg-card/50 backdrop-blur-xl">
                     <CardHeader>
@@ -0,0 +1,174 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TranscriptPlayer } from "@/components/ui/transcript-player";
+import { SharePasswordForm } from "@/components/ui/share-password-form";
+import { FileText, HelpCircle, Link2Off, Lock, Sparkles } from "lucide-react";
+import { getSharedMeeting, shareAccessCookieName } from "@/lib/meetingShares";
+import { verifyShareAccessToken } from "@/lib/session";
+import { applySpeakerNames } from "@/lib/speakerNames";
+import { NOTES_SECTION_LABELS } from "@/lib/notesDiff";
+
+// Shared links are unlisted; keep them out of search engines.
+export const metadata: Metadata = {
+    title: "Shared meeting - Remembry",
+    robots: { index: false, follow: false },
+};
+
+const LIST_SECTIONS = ["keyTopics", "actionItems", "decisions", "assumptions"] as const;
+
+function SharePageShell({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="min-h-screen bg-muted/30">
+            <header className="border-b bg-background">
+                <div className="mx-auto flex max-w-4xl items-center gap-2 px-4 py-3">
+                    <div className="flex size-8 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                        <Sparkles className="size-4" />
+                    </div>
+                    <span className="font-semibold">Remembry</span>
+                    <span className="text-sm text-muted-foreground">· Shared meeting</span>
+                </div>
+            </header>
+            <main className="mx-auto max-w-4xl space-y-6 px-4 py-8">{children}</main>
+        </div>
+    );
+}
+
+export default async function SharedMeetingPage({
+    params,
+}: {
+    params: Promise<{ token: string }>;
+}) {
+    const { token } = await params;
+    const shared = await getSharedMeeting(decodeURIComponent(token));
+
+    if (!shared) {
+        return (
+            <SharePageShell>
+                <Card className="mx-auto max-w-md text-center">
+                    <CardHeader>
+                        <Link2Off className="mx-auto size-8 text-muted-foreground" />
+                        <CardTitle>Link unavailable</CardTitle>
+                        <CardDescription>This share link has expired or was revoked.</CardDescription>
+                    </CardHeader>
+                </Card>
+            </SharePageShell>
+        );
+    }
+
+    const { share, meeting } = shared;
+
+    if (share.hasPassword) {
+        const cookieStore = await cookies();
+        if (!verifyShareAccessToken(cookieStore.get(shareAccessCookieName(share.id))?.value, share.id)) {
+            return (
+                <SharePageShell>
+                    <Card className="mx-auto max-w-md">
+                        <CardHeader className="text-center">
+                            <Lock className="mx-auto size-8 text-muted-foreground" />
+                            <CardTitle>Password required</CardTitle>
+                            <CardDescription>Enter the password you were given to view this meeting.</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <SharePasswordForm token={share.token} />
+                        </CardContent>
+                    </Card>
+                </SharePageShell>
+            );
+        }
+    }
+
+    const notes = meeting.notes_by_language?.[meeting.default_language || "en"] || null;
+    const transcription = applySpeakerNames(meeting.transcription, meeting.speaker_names);
+
+    return (
+        <SharePageShell>
+            <div className="space-y-1">
+                <h1 className="text-2xl font-bold">{meeting.title}</h1>
+                <p className="text-sm text-muted-foreground">
+                    {new Date(meeting.created_at).toLocaleDateString("en-US", {
+                        weekday: "long",
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                    })}
+                </p>
+            </div>
+
+            {notes ? (
+                <>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <FileText className="size-5 text-blue-500" />
+                                {NOTES_SECTION_LABELS.summary}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <p className="text-sm whitespace-pre-wrap leading-relaxed">{notes.summary}</p>
+                        </CardContent>
+                    </Card>
+
+                    <div className="grid gap-6 md:grid-cols-2">
+                        {LIST_SECTIONS.filter((section) => notes[section]?.length > 0).map((section) => (
+                            <Card key={section}>
+                                <CardHeader>
+                                    <CardTitle>{NOTES_SECTION_LABELS[section]}</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <ul className="space-y-2">
+                                        {notes[section].map((item, i) => (
+                                            <li key={i} className="flex gap-3 text-sm">
+                                                <div className="mt-1.5 size-1.5 rounded-full bg-primary shrink-0" />
+                                                <span>{item}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+
+                    {notes.qa?.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <HelpCircle className="size-5 text-purple-500" />
+                                    {NOTES_SECTION_LABELS.qa}
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                {notes.qa.map((item, i) => (
+                                    <div key={i} className="space-y-1">
+                                        <p className="text-sm font-medium">{item.question}</p>
+                                        <p className="text-sm text-muted-foreground">{item.answer}</p>
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
+                </>
+            ) : (
+                <Card>
+                    <CardContent className="p-6">
+                        <p className="text-sm text-muted-foreground italic">No notes have been generated for this meeting yet.</p>
+                    </CardContent>
+                </Card>
+            )}
+
+            {share.includeTranscript && transcription.segments.length > 0 && (
+                <TranscriptPlayer audioUrl={null} segments={transcription.segments} />
+            )}
+            {share.includeTranscript && transcription.segments.length === 0 && transcription.text && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-lg">Transcript</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <p className="text-sm whitespace-pre-wrap">{transcription.text}</p>
+                    </CardContent>
+                </Card>
+            )}
+        </SharePageShell>
+    );
+}
@@ -0,0 +1,436 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CalendarDays, ListTodo, Loader2, MoreVertical, Mic, Plus, Search, User } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+type ActionItemStatus = "open" | "in_progress" | "done";
+type ActionItemPriority = "low" | "medium" | "high";
+
+interface ActionItem {
+    id: string;
+    meetingId: string;
+    meetingTitle: string | null;
+    projectId: string;
+    projectDisplayName: string | null;
+    description: string;
+    assignee: string | null;
+    dueDate: string | null;
+    priority: ActionItemPriority;
+    status: ActionItemStatus;
+    sourceSegmentIndex: number | null;
+}
+
+interface MeetingOption {
+    id: string;
+    title: string;
+    projectDisplayName: string;
+}
+
+interface TaskForm {
+    id?: string;
+    meetingId: string;
+    description: string;
+    assignee: string;
+    dueDate: string;
+    priority: ActionItemPriority;
+}
+
+const COLUMNS: Array<{ status: ActionItemStatus; label: string }> = [
+    { status: "open", label: "Open" },
+    { status: "in_progress", label: "In Progress" },
+    { status: "done", label: "Done" },
+];
+
+const PRIORITY_STYLES: Record<ActionItemPriority, string> = {
+    high: "bg-red-500/10 text-red-600 border-red-500/20",
+    medium: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20",
+    low: "bg-muted text-muted-foreground",
+};
+
+const EMPTY_FORM: TaskForm = {
+    meetingId: "",
+    description: "",
+    assignee: "",
+    dueDate: "",
+    priority: "medium",
+};
+
+function meetingHref(item: ActionItem): string {
+    const base = `/meetings/${encodeURIComponent(item.meetingId)}`;
+    return item.sourceSegmentIndex !== null
+        ? `${base}?tab=transcript#segment-${item.sourceSegmentIndex}`
+        : base;
+}
+
+function isOverdue(item: ActionItem): boolean {
+    return item.status !== "done" && item.dueDate !== null && item.dueDate < new Date().toISOString().slice(0, 10);
+}
+
+export default function TasksPage() {
+    const [items, setItems] = useState<ActionItem[]>([]);
+    const [meetings, setMeetings] = useState<MeetingOption[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [form, setForm] = useState<TaskForm | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const loadTasks = async () => {
+            try {
+                const [itemsResponse, meetingsResponse] = await Promise.all([
+                    fetch("/api/action-items"),
+                    fetch("/api/meetings"),
+                ]);
+
+                if (!itemsResponse.ok) {
+                    throw new Error("Failed to fetch action items");
+                }
+
+                const itemsData = await itemsResponse.json();
+                setItems(itemsData.actionItems || []);
+
+                if (meetingsResponse.ok) {
+                    const meetingsData = await meetingsResponse.json();
+                    setMeetings(meetingsData.meetings || []);
+                }
+            } catch (error) {
+                console.error("Error fetching tasks:", error);
+                toast.error("Failed to load tasks.");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadTasks();
+    }, []);
+
+    const replaceItem = (updated: ActionItem) => {
+        setItems((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+    };
+
+    const updateItem = async (id: string, changes: Partial<ActionItem>) => {
+        try {
+            const response = await fetch(`/api/action-items/${encodeURIComponent(id)}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(changes),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to update task");
+            }
+
+            replaceItem(data.actionItem);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update task");
+        }
+    };
+
+    const deleteItem = async (id: string) => {
+        try {
+            const response = await fetch(`/api/action-items/${encodeURIComponent(id)}`, { method: "DELETE" });
+            if (!response.ok) {
+                throw new Error("Failed to delete task");
+            }
+
+            setItems((current) => current.filter((item) => item.id !== id));
+            toast.success("Task deleted.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to delete task");
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (!form) return;
+
+        if (!form.description.trim()) {
+            toast.error("Please describe the task.");
+            return;
+        }
+        if (!form.id && !form.meetingId) {
+            toast.error("Please choose the meeting this task belongs to.");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const payload = {
+                description: form.description,
+                assignee: form.assignee || null,
+                dueDate: form.dueDate || null,
+                priority: form.priority,
+            };
+            const response = form.id
+                ? await fetch(`/api/action-items/${encodeURIComponent(form.id)}`, {
+                    method: "PATCH",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(payload),
+                })
+                : await fetch("/api/action-items", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ ...payload, meetingId: form.meetingId }),
+                });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save task");
+            }
+
+            if (form.id) {
+                replaceItem(data.actionItem);
+            } else {
+                setItems((current) => [data.actionItem, ...current]);
+            }
+            setForm(null);
+            toast.success("Task saved.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save task");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const query = searchQuery.toLowerCase();
+    const filteredItems = items.filter((item) =>
+        item.description.toLowerCase().includes(query) ||
+        item.assignee?.toLowerCase().includes(query) ||
+        item.meetingTitle?.toLowerCase().includes(query)
+    );
+
+    return (
+        <DashboardLayout breadcrumbs={[{ label: "Tasks" }]} title="Tasks">
+            <div className="space-y-6">
+                <div className="flex flex-col sm:flex-row gap-4 justify-between">
+                    <div className="relative flex-1 max-w-md">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Search tasks..."
+                            className="pl-10"
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                    </div>
+                    <Button className="gap-2" onClick={() => setForm({ ...EMPTY_FORM })}>
+                        <Plus className="size-4" />
+                        New Task
+                    </Button>
+                </div>
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-12">
+                        <p className="text-muted-foreground">Loading tasks...</p>
+                    </div>
+                ) : items.length === 0 ? (
+                    <Card className="border-dashed">
+                        <CardContent className="flex flex-col items-center justify-center py-16">
+                            <div className="flex size-16 items-center justify-center rounded-full bg-muted mb-4">
+                                <ListTodo className="size-8 text-muted-foreground" />
+                            </div>
+                            <h3 className="text-lg font-medium mb-2">No tasks yet</h3>
+                            <p className="text-muted-foreground text-center max-w-sm">
+                                Action items found in your meetings show up here. You can also add tasks by hand.
+                            </p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <div className="grid gap-4 md:grid-cols-3">
+                        {COLUMNS.map((column) => {
+                            const columnItems = filteredItems.filter((item) => item.status === column.status);
+                            return (
+                                <div key={column.status} className="space-y-3 rounded-xl bg-muted/40 p-3">
+                                    <div className="flex items-center justify-between px-1">
+                                        <h2 className="text-sm font-semibold">{column.label}</h2>
+                                        <Badge variant="secondary">{columnItems.length}</Badge>
+                                    </div>
+
+                                    {columnItems.map((item) => (
+                                        <Card key={item.id} className="shadow-sm">
+                                            <CardContent className="space-y-2 p-3">
+                                                <div className="flex items-start justify-between gap-2">
+                                                    <p className={cn("text-sm", item.status === "done" && "line-through text-muted-foreground")}>
+                                                        {item.description}
+                                                    </p>
+                                                    <DropdownMenu>
+                                                        <DropdownMenuTrigger asChild>
+                                                            <Button variant="ghost" size="icon" className="size-7 shrink-0">
+                                                                <MoreVertical className="size-4" />
+                                                            </Button>
+                                                        </DropdownMenuTrigger>
+                                                        <DropdownMenuContent align="end">
+                                                            {COLUMNS.filter((target) => target.status !== item.status).map((target) => (
+                                                                <DropdownMenuItem
+                                                                    key={target.status}
+                                                                    onClick={() => updateItem(item.id, { status: target.status })}
+                                                                >
+                                                                    Move to {target.label}
+                                                                </DropdownMenuItem>
+                                                            ))}
+                                                            <DropdownMenuSeparator />
+                                                            <DropdownMenuItem
+                                                                onClick={() => setForm({
+                                                                    id: item.id,
+                                                                    meetingId: item.meetingId,
+                                                                    description: item.description,
+                                                                    assignee: item.assignee || "",
+                                                                    dueDate: item.dueDate || "",
+                                                                    priority: item.priority,
+                                                                })}
+                                                            >
+                                                                Edit
+                                                            </DropdownMenuItem>
+                                                            <DropdownMenuItem className="text-destructive" onClick={() => deleteItem(item.id)}>
+                                                                Delete
+                                                            </DropdownMenuItem>
+                                                        </DropdownMenuContent>
+                                                    </DropdownMenu>
+                                                </div>
+
+                                                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                                    <Badge variant="outline" className={PRIORITY_STYLES[item.priority]}>
+                                                        {item.priority}
+                                                    </Badge>
+                                                    {item.assignee && (
+                                                        <span className="flex items-center gap-1">
+                                                            <User className="size-3" />
+                                                            {item.assignee}
+                                                        </span>
+                                                    )}
+                                                    {item.dueDate && (
+                                                        <span className={cn("flex items-center gap-1", isOverdue(item) && "text-destructive")}>
+                                                            <CalendarDays className="size-3" />
+                                                            {item.dueDate}
+                                                        </span>
+                                                    )}
+                                                </div>
+
+                                                <Link
+                                                    href={meetingHref(item)}
+                                                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary"
+                                                >
+                                                    <Mic className="size-3 shrink-0" />
+                                                    <span className="truncate">
+                                                        {item.meetingTitle || "Meeting"}
+                                                        {item.projectDisplayName ? ` · ${item.projectDisplayName}` : ""}
+                                                    </span>
+                                                </Link>
+                                            </CardContent>
+                                        </Card>
+                                    ))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{form?.id ? "Edit Task" : "New Task"}</DialogTitle>
+                        <DialogDescription>
+                            {form?.id ? "Update the details of this task." : "Add a task to one of your meetings."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {form && (
+                        <div className="space-y-4">
+                            {!form.id && (
+                                <div className="space-y-2">
+                                    <label htmlFor="task-meeting" className="text-sm font-medium">Meeting</label>
+                                    <select
+                                        id="task-meeting"
+                                        value={form.meetingId}
+                                        onChange={(e) => setForm({ ...form, meetingId: e.target.value })}
+                                        className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                                    >
+                                        <option value="">Choose a meeting...</option>
+                                        {meetings.map((meeting) => (
+                                            <option key={meeting.id} value={meeting.id}>
+                                                {meeting.title} · {meeting.projectDisplayName}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            <div className="space-y-2">
+                                <label htmlFor="task-description" className="text-sm font-medium">Task</label>
+                                <Input
+                                    id="task-description"
+                                    value={form.description}
+                                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                />
+                            </div>
+                            <div className="grid grid-cols-3 gap-3">
+                                <div className="space-y-2">
+                                    <label htmlFor="task-assignee" className="text-sm font-medium">Assignee</label>
+                                    <Input
+                                        id="task-assignee"
+                                        value={form.assignee}
+                                        onChange={(e) => setForm({ ...form, assignee: e.target.value })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <label htmlFor="task-due-date" className="text-sm font-medium">Due date</label>
+                                    <Input
+                                        id="task-due-date"
+                                        type="date"
+                                        value={form.dueDate}
+                                        onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <label htmlFor="task-priority" className="text-sm font-medium">Priority</label>
+                                    <select
+                                        id="task-priority"
+                                        value={form.priority}
+                                        onChange={(e) => setForm({ ...form, priority: e.target.value as ActionItemPriority })}
+                                        className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                                    >
+                                        <option value="high">High</option>
+                                        <option value="medium">Medium</option>
+                                        <option value="low">Low</option>
+                                    </select>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setForm(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSubmit} disabled={isSaving}>
+                            {isSaving && <Loader2 className="size-4 mr-2 animate-spin" />}
+                            Save Task
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </DashboardLayout>
+    );
+}
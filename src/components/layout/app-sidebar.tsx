@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import {
     Sidebar,
     SidebarContent,
@@ -31,8 +31,16 @@ import {
     ChevronUp,
     Sparkles,
     FolderKanban,
+    LogOut,
+    ListTodo,
 } from "lucide-react";
 
+interface CurrentUser {
+    id: string;
+    email: string;
+    displayName: string | null;
+}
+
 const navItems = [
     {
         title: "Dashboard",
@@ -49,6 +57,11 @@ const navItems = [
         url: "/meetings",
         icon: Mic,
     },
+    {
+        title: "Tasks",
+        url: "/tasks",
+        icon: ListTodo,
+    },
 ];
 
 const settingsItems = [
@@ -59,8 +72,33 @@ const settingsItems = [
     },
 ];
 
+function getInitials(user: CurrentUser): string {
+    const source = user.displayName || user.email;
+    return source
+        .split(/[\s@._-]+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((part) => part[0].toUpperCase())
+        .join("");
+}
+
 export function AppSidebar() {
     const pathname = usePathname();
+    const router = useRouter();
+    const [user, setUser] = React.useState<CurrentUser | null>(null);
+
+    React.useEffect(() => {
+        fetch("/api/auth/me")
+            .then((response) => (response.ok ? response.json() : null))
+            .then((data) => setUser(data?.user || null))
+            .catch(() => setUser(null));
+    }, []);
+
+    const handleSignOut = async () => {
+        await fetch("/api/auth/logout", { method: "POST" });
+        router.replace("/login");
+        router.refresh();
+    };
 
     return (
         <Sidebar collapsible="icon" variant="floating" className="z-50">
@@ -129,6 +167,45 @@ export function AppSidebar() {
                     </SidebarGroupContent>
                 </SidebarGroup>
             </SidebarContent>
+
+            {user && (
+                <SidebarFooter>
+                    <SidebarMenu>
+                        <SidebarMenuItem>
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <SidebarMenuButton size="lg" tooltip={user.displayName || user.email}>
+                                        <Avatar className="size-8 rounded-lg">
+                                            <AvatarImage alt={user.displayName || user.email} />
+                                            <AvatarFallback className="rounded-lg text-xs">{getInitials(user)}</AvatarFallback>
+                                        </Avatar>
+                                        <div className="flex flex-col gap-0.5 leading-none min-w-0">
+                                            <span className="font-medium truncate">{user.displayName || user.email}</span>
+                                            {user.displayName && (
+                                                <span className="text-xs text-muted-foreground truncate">{user.email}</span>
+                                            )}
+                                        </div>
+                                        <ChevronUp className="ml-auto size-4" />
+                                    </SidebarMenuButton>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent side="top" align="start" className="w-(--radix-dropdown-menu-trigger-width) min-w-48">
+                                    <DropdownMenuItem asChild>
+                                        <Link href="/settings">
+                                            <Settings className="size-4" />
+                                            Settings
+                                        </Link>
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onClick={handleSignOut}>
+                                        <LogOut className="size-4" />
+                                        Sign out
+                                    </DropdownMenuItem>
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                        </SidebarMenuItem>
+                    </SidebarMenu>
+                </SidebarFooter>
+            )}
             <SidebarRail />
         </Sidebar>
     );
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { MeetingDeleteDialog } from "@/components/ui/meeting-delete-dialog";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Loader2, MoreVertical, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface Project {
+    name: string;
+    displayName: string;
+}
+
+interface MeetingDetails {
+    title: string;
+    context: string;
+    projectId: string;
+}
+
+interface MeetingActionsMenuProps {
+    meetingId: string;
+    title: string;
+    context: string | null;
+    projectId: string;
+}
+
+const SELECT_CLASS_NAME = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+export function MeetingActionsMenu({ meetingId, title, context, projectId }: MeetingActionsMenuProps) {
+    const router = useRouter();
+    const [editOpen, setEditOpen] = useState(false);
+    const [deleteOpen, setDeleteOpen] = useState(false);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [form, setForm] = useState<MeetingDetails>({ title, context: context || "", projectId });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadProjects = async () => {
+        try {
+            const response = await fetch("/api/projects");
+            if (!response.ok) {
+                throw new Error("Failed to fetch projects");
+            }
+
+            const data = await response.json();
+            setProjects(data.projects || []);
+        } catch (error) {
+            console.error("Error fetching projects:", error);
+        }
+    };
+
+    const openEdit = () => {
+        setForm({ title, context: context || "", projectId });
+        setEditOpen(true);
+        loadProjects();
+    };
+
+    const projectHref = (id: string, displayName: string) =>
+        `/meetings/${encodeURIComponent(meetingId)}?projectName=${encodeURIComponent(id)}&displayName=${encodeURIComponent(displayName)}`;
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    title: form.title,
+                    context: form.context || null,
+                    projectId: form.projectId,
+                }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to update meeting");
+            }
+
+            toast.success("Meeting updated.");
+            setEditOpen(false);
+
+            if (data.meeting.projectId !== projectId) {
+                // The breadcrumbs and back link follow the project in the URL.
+                const project = projects.find((item) => item.name === data.meeting.projectId);
+                router.replace(projectHref(data.meeting.projectId, project?.displayName || ""));
+            }
+            router.refresh();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update meeting");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="icon" className="size-8" title="More actions">
+                        <MoreVertical className="size-4" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={openEdit}>
+                        <Pencil className="size-4 mr-2" />
+                        Edit Details
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setDeleteOpen(true)} className="text-destructive">
+                        <Trash2 className="size-4 mr-2" />
+                        Delete Meeting
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Dialog open={editOpen} onOpenChange={(open) => !isSaving && setEditOpen(open)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Edit Meeting</DialogTitle>
+                        <DialogDescription>
+                            Rename the meeting, change its context or move it to another project. Action items
+                            and participants move with it.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <label htmlFor="meeting-title" className="text-sm font-medium">Title</label>
+                            <Input
+                                id="meeting-title"
+                                value={form.title}
+                                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label htmlFor="meeting-project" className="text-sm font-medium">Project</label>
+                            <select
+                                id="meeting-project"
+                                className={SELECT_CLASS_NAME}
+                                value={form.projectId}
+                                onChange={(e) => setForm({ ...form, projectId: e.target.value })}
+                            >
+                                {projects.length === 0 && <option value={projectId}>Current project</option>}
+                                {projects.map((project) => (
+                                    <option key={project.name} value={project.name}>{project.displayName}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <label htmlFor="meeting-context" className="text-sm font-medium">Context (optional)</label>
+                            <Textarea
+                                id="meeting-context"
+                                rows={3}
+                                placeholder="What the meeting was about, who attended..."
+                                value={form.context}
+                                onChange={(e) => setForm({ ...form, context: e.target.value })}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditOpen(false)} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={isSaving || !form.title.trim()}>
+                            {isSaving && <Loader2 className="size-4 mr-2 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <MeetingDeleteDialog
+                meeting={deleteOpen ? { id: meetingId, title } : null}
+                onOpenChange={setDeleteOpen}
+                onDeleted={() => router.push(`/projects/${encodeURIComponent(projectId)}`)}
+            />
+        </>
+    );
+}
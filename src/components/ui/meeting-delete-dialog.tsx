@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface MeetingDeleteDialogProps {
+    meeting: { id: string; title: string } | null; // Open while a meeting is set
+    onOpenChange: (open: boolean) => void;
+    onDeleted: (meetingId: string) => void;
+}
+
+export function MeetingDeleteDialog({ meeting, onOpenChange, onDeleted }: MeetingDeleteDialogProps) {
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const handleDelete = async () => {
+        if (!meeting) return;
+
+        setIsDeleting(true);
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meeting.id)}`, { method: "DELETE" });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to delete meeting");
+            }
+
+            toast.success("Meeting deleted.");
+            onOpenChange(false);
+            onDeleted(meeting.id);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to delete meeting");
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <Dialog open={meeting !== null} onOpenChange={(open) => !isDeleting && onOpenChange(open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Delete Meeting</DialogTitle>
+                    <DialogDescription>
+                        Are you sure you want to delete &quot;{meeting?.title}&quot;? Its recording, transcript, notes,
+                        action items and share links are deleted too. This action cannot be undone.
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isDeleting}>
+                        Cancel
+                    </Button>
+                    <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+                        {isDeleting ? (
+                            <>
+                                <Loader2 className="size-4 mr-2 animate-spin" />
+                                Deleting...
+                            </>
+                        ) : (
+                            <>
+                                <Trash2 className="size-4 mr-2" />
+                                Delete Meeting
+                            </>
+                        )}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+const SUPPORTED_LANGUAGES = [
+    { code: 'en', name: 'English' },
+    { code: 'zh', name: '中文 (Chinese)' },
+    { code: 'ms', name: 'Bahasa Melayu' },
+    { code: 'ja', name: '日本語 (Japanese)' },
+    { code: 'ko', name: '한국어 (Korean)' },
+    { code: 'es', name: 'Español (Spanish)' },
+    { code: 'fr', name: 'Français (French)' },
+    { code: 'de', name: 'Deutsch (German)' },
+    { code: 'pt', name: 'Português (Portuguese)' },
+    { code: 'it', name: 'Italiano (Italian)' },
+    { code: 'th', name: 'ไทย (Thai)' },
+    { code: 'vi', name: 'Tiếng Việt (Vietnamese)' },
+    { code: 'id', name: 'Bahasa Indonesia' },
+];
+
+const DOCUMENT_FORMATS = [
+    { format: "md", label: "Markdown (.md)" },
+    { format: "docx", label: "Word (.docx)" },
+    { format: "pdf", label: "PDF (.pdf)" },
+    { format: "txt", label: "Plain text (.txt)" },
+];
+
+const SUBTITLE_FORMATS = [
+    { format: "srt", label: "SubRip subtitles (.srt)" },
+    { format: "vtt", label: "WebVTT subtitles (.vtt)" },
+];
+
+interface MeetingExportMenuProps {
+    meetingId: string;
+    languages: string[]; // Languages the notes exist in
+    defaultLanguage: string;
+    hasTimestamps: boolean;
+}
+
+export function MeetingExportMenu({ meetingId, languages: initialLanguages, defaultLanguage, hasTimestamps }: MeetingExportMenuProps) {
+    const [languages, setLanguages] = useState(initialLanguages);
+    const [language, setLanguage] = useState(defaultLanguage);
+
+    // Notes may have been translated since the page loaded.
+    const refreshLanguages = async () => {
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/metadata`);
+            if (response.ok) {
+                const data = await response.json();
+                if (data.availableLanguages?.length > 0) {
+                    setLanguages(data.availableLanguages);
+                }
+            }
+        } catch (error) {
+            console.error("Error fetching metadata:", error);
+        }
+    };
+
+    const exportUrl = (format: string) => {
+        const query = new URLSearchParams({ format });
+        if (!SUBTITLE_FORMATS.some((item) => item.format === format)) {
+            query.set("language", language);
+        }
+        return `/api/meetings/${encodeURIComponent(meetingId)}/export?${query.toString()}`;
+    };
+
+    return (
+        <DropdownMenu onOpenChange={(open) => open && refreshLanguages()}>
+            <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                    <Download className="size-4" />
+                    Export
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+                {languages.length > 1 && (
+                    <>
+                        <DropdownMenuLabel>Notes language</DropdownMenuLabel>
+                        <DropdownMenuRadioGroup value={language} onValueChange={setLanguage}>
+                            {languages.map((code) => (
+                                <DropdownMenuRadioItem
+                                    key={code}
+                                    value={code}
+                                    onSelect={(e) => e.preventDefault()}
+                                >
+                                    {SUPPORTED_LANGUAGES.find((l) => l.code === code)?.name || code}
+                                </DropdownMenuRadioItem>
+                            ))}
+                        </DropdownMenuRadioGroup>
+                        <DropdownMenuSeparator />
+                    </>
+                )}
+                <DropdownMenuLabel>Notes and transcript</DropdownMenuLabel>
+                {DOCUMENT_FORMATS.map(({ format, label }) =>
+                    languages.includes(language) ? (
+                        <DropdownMenuItem key={format} asChild>
+                            <a href={exportUrl(format)} download>{label}</a>
+                        </DropdownMenuItem>
+                    ) : (
+                        <DropdownMenuItem key={format} disabled>
+                            {label}
+                        </DropdownMenuItem>
+                    )
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Transcript only</DropdownMenuLabel>
+                {SUBTITLE_FORMATS.map(({ format, label }) =>
+                    hasTimestamps ? (
+                        <DropdownMenuItem key={format} asChild>
+                            <a href={exportUrl(format)} download>{label}</a>
+                        </DropdownMenuItem>
+                    ) : (
+                        <DropdownMenuItem key={format} disabled>
+                            {label}
+                        </DropdownMenuItem>
+                    )
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
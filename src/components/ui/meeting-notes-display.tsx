@@ -3,7 +3,10 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { NotesLanguageSwitcher } from "@/components/ui/notes-language-switcher";
+import { NotesRevisionHistory } from "@/components/ui/notes-revision-history";
 import { 
     FileText, 
     Hash, 
@@ -11,9 +14,15 @@ import {
     Gavel, 
     Lightbulb, 
     HelpCircle,
-    ChevronRight
+    ChevronRight,
+    Pencil,
+    History,
+    Loader2,
+    Plus,
+    Trash2,
 } from "lucide-react";
 import Link from "next/link";
+import { toast } from "sonner";
 
 interface MeetingNotes {
     summary: string;
@@ -24,6 +33,48 @@ interface MeetingNotes {
     qa: Array<{ question: string; answer: string }>;
 }
 
+type ListSection = "keyTopics" | "actionItems" | "decisions" | "assumptions";
+
+// List sections are edited as one item per line.
+interface NotesDraft {
+    summary: string;
+    lists: Record<ListSection, string>;
+    qa: Array<{ question: string; answer: string }>;
+}
+
+const LIST_SECTIONS: Array<{ key: ListSection; label: string }> = [
+    { key: "keyTopics", label: "Key Topics" },
+    { key: "actionItems", label: "Action Items" },
+    { key: "decisions", label: "Key Decisions" },
+    { key: "assumptions", label: "Assumptions" },
+];
+
+function toDraft(notes: MeetingNotes): NotesDraft {
+    return {
+        summary: notes.summary || "",
+        lists: {
+            keyTopics: (notes.keyTopics || []).join("\n"),
+            actionItems: (notes.actionItems || []).join("\n"),
+            decisions: (notes.decisions || []).join("\n"),
+            assumptions: (notes.assumptions || []).join("\n"),
+        },
+        qa: (notes.qa || []).map((item) => ({ ...item })),
+    };
+}
+
+function fromDraft(draft: NotesDraft): MeetingNotes {
+    const splitLines = (text: string) => text.split("\n").map((line) => line.trim()).filter((line) => line.length > 0);
+
+    return {
+        summary: draft.summary.trim(),
+        keyTopics: splitLines(draft.lists.keyTopics),
+        actionItems: splitLines(draft.lists.actionItems),
+        decisions: splitLines(draft.lists.decisions),
+        assumptions: splitLines(draft.lists.assumptions),
+        qa: draft.qa.filter((item) => item.question.trim() || item.answer.trim()),
+    };
+}
+
 interface MeetingNotesDisplayProps {
     meetingId: string;
     initialNotes: MeetingNotes | null;
@@ -36,7 +87,11 @@ export function MeetingNotesDisplay({
     initialLanguage = 'en'
 }: MeetingNotesDisplayProps) {
     const [notes, setNotes] = useState<MeetingNotes | null>(initialNotes);
+    const [language, setLanguage] = useState(initialLanguage);
     const [availableLanguages, setAvailableLanguages] = useState<string[]>([initialLanguage]);
+    const [draft, setDraft] = useState<NotesDraft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
     useEffect(() => {
         // Fetch available languages for this meeting
@@ -54,22 +109,168 @@ export function MeetingNotesDisplay({
         fetchMetadata();
     }, [meetingId, initialLanguage]);
 
-    const handleNotesChange = (newNotes: MeetingNotes, language: string) => {
+    const handleNotesChange = (newNotes: MeetingNotes, newLanguage: string) => {
         setNotes(newNotes);
+        setLanguage(newLanguage);
+        setDraft(null);
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/notes`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ language, notes: fromDraft(draft) }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save notes");
+            }
+
+            setNotes(data.notes);
+            setDraft(null);
+            toast.success("Notes saved.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save notes");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const updateQa = (index: number, field: "question" | "answer", value: string) => {
+        setDraft((current) => current && {
+            ...current,
+            qa: current.qa.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+        });
     };
 
     return (
         <div className="space-y-6">
-            {/* Language Switcher */}
-            <div className="flex justify-end">
-                <NotesLanguageSwitcher 
-                    meetingId={meetingId}
-                    availableLanguages={availableLanguages}
-                    currentLanguage={initialLanguage}
-                    onNotesChange={handleNotesChange}
-                />
+            {/* Edit, History and Language Switcher */}
+            <div className="flex items-center justify-end gap-2">
+                {notes && !draft && (
+                    <>
+                        <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsHistoryOpen(true)}>
+                            <History className="size-4" />
+                            History
+                        </Button>
+                        <Button variant="outline" size="sm" className="gap-2" onClick={() => setDraft(toDraft(notes))}>
+                            <Pencil className="size-4" />
+                            Edit
+                        </Button>
+                    </>
+                )}
+                {draft && (
+                    <>
+                        <Button variant="outline" size="sm" onClick={() => setDraft(null)} disabled={isSaving}>
+                            Cancel
+                        </Button>
+                        <Button size="sm" onClick={handleSave} disabled={isSaving} className="gap-2">
+                            {isSaving && <Loader2 className="size-4 animate-spin" />}
+                            Save Notes
+                        </Button>
+                    </>
+                )}
+                {!draft && (
+                    <NotesLanguageSwitcher 
+                        meetingId={meetingId}
+                        availableLanguages={availableLanguages}
+                        currentLanguage={initialLanguage}
+                        onNotesChange={handleNotesChange}
+                    />
+                )}
             </div>
-            {notes ? (
+            <NotesRevisionHistory
+                meetingId={meetingId}
+                language={language}
+                open={isHistoryOpen}
+                onOpenChange={setIsHistoryOpen}
+                onRestore={(restored) => setNotes(restored)}
+            />
+            {draft ? (
+                <div className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <FileText className="size-5 text-blue-500" />
+                                Executive Summary
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <Textarea
+                                value={draft.summary}
+                                onChange={(e) => setDraft({ ...draft, summary: e.target.value })}
+                                className="min-h-40"
+                            />
+                        </CardContent>
+                    </Card>
+
+                    <div className="grid gap-6 md:grid-cols-2">
+                        {LIST_SECTIONS.map(({ key, label }) => (
+                            <Card key={key}>
+                                <CardHeader>
+                                    <CardTitle>{label}</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    <Textarea
+                                        value={draft.lists[key]}
+                                        onChange={(e) => setDraft({ ...draft, lists: { ...draft.lists, [key]: e.target.value } })}
+                                        className="min-h-32"
+                                    />
+                                    <p className="text-xs text-muted-foreground">One item per line.</p>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <HelpCircle className="size-5 text-purple-500" />
+                                Q&A
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {draft.qa.map((item, i) => (
+                                <div key={i} className="flex gap-2">
+                                    <div className="flex-1 space-y-2">
+                                        <Input
+                                            value={item.question}
+                                            placeholder="Question"
+                                            onChange={(e) => updateQa(i, "question", e.target.value)}
+                                        />
+                                        <Textarea
+                                            value={item.answer}
+                                            placeholder="Answer"
+                                            onChange={(e) => updateQa(i, "answer", e.target.value)}
+                                        />
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setDraft({ ...draft, qa: draft.qa.filter((_, index) => index !== i) })}
+                                    >
+                                        <Trash2 className="size-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-2"
+                                onClick={() => setDraft({ ...draft, qa: [...draft.qa, { question: "", answer: "" }] })}
+                            >
+                                <Plus className="size-4" />
+                                Add Question
+                            </Button>
+                        </CardContent>
+                    </Card>
+                </div>
+            ) : notes ? (
                 <>
                     {/* Summary */}
                     <Card>
@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { FolderKanban, Loader2, Mic, SearchX } from "lucide-react";
+
+type HighlightedText = Array<{ text: string; highlight: boolean }>;
+
+interface SegmentMatch {
+    index: number;
+    speaker: string;
+    startTime: number | null;
+    snippet: HighlightedText;
+    href: string;
+}
+
+interface MeetingSearchResult {
+    meetingId: string;
+    title: string;
+    projectDisplayName: string;
+    createdAt: string;
+    titleSnippet: HighlightedText | null;
+    notesSnippet: HighlightedText | null;
+    segmentMatchCount: number;
+    segments: SegmentMatch[];
+    href: string;
+}
+
+interface MeetingSearchResultsProps {
+    query: string;
+    projectId?: string;
+    from?: string;
+    to?: string;
+    speaker?: string;
+    showProject?: boolean;
+}
+
+// Wait for typing to pause before querying the server.
+const SEARCH_DEBOUNCE_MS = 300;
+
+function formatTimestamp(seconds: number | null): string {
+    if (seconds === null) return "";
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function Highlighted({ parts }: { parts: HighlightedText }) {
+    return (
+        <>
+            {parts.map((part, i) =>
+                part.highlight ? (
+                    <mark key={i} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-foreground rounded-sm px-0.5">
+                        {part.text}
+                    </mark>
+                ) : (
+                    <span key={i}>{part.text}</span>
+                )
+            )}
+        </>
+    );
+}
+
+export function MeetingSearchResults({ query, projectId, from, to, speaker, showProject = true }: MeetingSearchResultsProps) {
+    const [results, setResults] = useState<MeetingSearchResult[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const params = new URLSearchParams({ q: query });
+        if (projectId) params.set("projectId", projectId);
+        if (from) params.set("from", from);
+        if (to) params.set("to", to);
+        if (speaker) params.set("speaker", speaker);
+
+        setLoading(true);
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`/api/search?${params.toString()}`, { signal: controller.signal });
+                const data = await response.json().catch(() => ({}));
+                if (!response.ok) {
+                    throw new Error(data.error || "Failed to search meetings");
+                }
+
+                setResults(data.results || []);
+                setError(null);
+            } catch (err) {
+                if (controller.signal.aborted) return;
+                setError(err instanceof Error ? err.message : "Failed to search meetings");
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [query, projectId, from, to, speaker]);
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+                <Loader2 className="size-4 animate-spin" />
+                Searching...
+            </div>
+        );
+    }
+
+    if (error || results.length === 0) {
+        return (
+            <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-16">
+                    <div className="flex size-16 items-center justify-center rounded-full bg-muted mb-4">
+                        <SearchX className="size-8 text-muted-foreground" />
+                    </div>
+                    <h3 className="text-lg font-medium mb-2">{error ? "Search failed" : "No matches"}</h3>
+                    <p className="text-muted-foreground text-center max-w-sm">
+                        {error || "No titles, notes or transcripts match your search. Try other words or fewer filters."}
+                    </p>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {results.map((result) => (
+                <Card key={result.meetingId}>
+                    <CardHeader className="pb-3">
+                        <div className="flex items-start gap-3">
+                            <div className="flex size-10 items-center justify-center rounded-lg bg-primary/10 shrink-0">
+                                <Mic className="size-5 text-primary" />
+                            </div>
+                            <div className="min-w-0 flex-1 space-y-1">
+                                <CardTitle className="text-base">
+                                    <Link href={result.href} className="hover:text-primary">
+                                        {result.titleSnippet ? <Highlighted parts={result.titleSnippet} /> : result.title}
+                                    </Link>
+                                </CardTitle>
+                                <CardDescription className="flex flex-wrap items-center gap-2">
+                                    <span>
+                                        {new Date(result.createdAt).toLocaleDateString("en-US", {
+                                            month: "short",
+                                            day: "numeric",
+                                            year: "numeric",
+                                        })}
+                                    </span>
+                                    {showProject && (
+                                        <span className="flex items-center gap-1">
+                                            <FolderKanban className="size-3" />
+                                            {result.projectDisplayName}
+                                        </span>
+                                    )}
+                                </CardDescription>
+                            </div>
+                        </div>
+                    </CardHeader>
+                    {(result.notesSnippet || result.segments.length > 0) && (
+                        <CardContent className="space-y-3 pt-0">
+                            {result.notesSnippet && (
+                                <p className="text-sm text-muted-foreground">
+                                    <span className="font-medium text-foreground">Notes: </span>
+                                    <Highlighted parts={result.notesSnippet} />
+                                </p>
+                            )}
+                            {result.segments.map((segment) => (
+                                <Link
+                                    key={segment.index}
+                                    href={segment.href}
+                                    className="flex gap-3 rounded-md p-2 -mx-2 hover:bg-muted/50 transition-colors"
+                                >
+                                    <span className="text-xs text-muted-foreground font-mono w-12 shrink-0 pt-0.5">
+                                        {formatTimestamp(segment.startTime)}
+                                    </span>
+                                    <span className="text-sm">
+                                        <span className="font-medium text-primary">{segment.speaker}: </span>
+                                        <Highlighted parts={segment.snippet} />
+                                    </span>
+                                </Link>
+                            ))}
+                            {result.segmentMatchCount > result.segments.length && (
+                                <p className="text-xs text-muted-foreground">
+                                    {result.segmentMatchCount - result.segments.length} more matching segments in this transcript
+                                </p>
+                            )}
+                        </CardContent>
+                    )}
+                </Card>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Link2, Loader2, Share2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface MeetingShare {
+    id: string;
+    token: string;
+    includeTranscript: boolean;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    createdAt: string;
+}
+
+interface ShareForm {
+    includeTranscript: boolean;
+    expiresInDays: string; // "" for never
+    password: string;
+}
+
+const EXPIRY_OPTIONS = [
+    { value: "", label: "Never" },
+    { value: "1", label: "In 1 day" },
+    { value: "7", label: "In 7 days" },
+    { value: "30", label: "In 30 days" },
+];
+
+const SELECT_CLASS_NAME = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+const EMPTY_FORM: ShareForm = { includeTranscript: false, expiresInDays: "7", password: "" };
+
+interface MeetingShareDialogProps {
+    meetingId: string;
+}
+
+function shareUrl(share: MeetingShare): string {
+    return `${window.location.origin}/share/${share.token}`;
+}
+
+export function MeetingShareDialog({ meetingId }: MeetingShareDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [shares, setShares] = useState<MeetingShare[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [form, setForm] = useState<ShareForm>(EMPTY_FORM);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const loadShares = async () => {
+        setLoading(true);
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/shares`);
+            if (!response.ok) {
+                throw new Error("Failed to fetch share links");
+            }
+
+            const data = await response.json();
+            setShares(data.shares || []);
+        } catch (error) {
+            console.error("Error fetching share links:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleOpenChange = (nextOpen: boolean) => {
+        setOpen(nextOpen);
+        if (nextOpen) {
+            setForm(EMPTY_FORM);
+            loadShares();
+        }
+    };
+
+    const copyLink = async (share: MeetingShare) => {
+        try {
+            await navigator.clipboard.writeText(shareUrl(share));
+            toast.success("Link copied to clipboard.");
+        } catch {
+            toast.error("Could not copy the link.");
+        }
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/shares`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    includeTranscript: form.includeTranscript,
+                    expiresInDays: form.expiresInDays ? Number(form.expiresInDays) : null,
+                    password: form.password || null,
+                }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to create share link");
+            }
+
+            setShares((current) => [data.share, ...current]);
+            setForm(EMPTY_FORM);
+            await copyLink(data.share);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to create share link");
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRevoke = async (share: MeetingShare) => {
+        try {
+            const response = await fetch(
+                `/api/meetings/${encodeURIComponent(meetingId)}/shares/${encodeURIComponent(share.id)}`,
+                { method: "DELETE" }
+            );
+            if (!response.ok) {
+                throw new Error("Failed to revoke share link");
+            }
+
+            setShares((current) => current.filter((item) => item.id !== share.id));
+            toast.success("Share link revoked.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to revoke share link");
+        }
+    };
+
+    return (
+        <>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => handleOpenChange(true)}>
+                <Share2 className="size-4" />
+                Share
+            </Button>
+
+            <Dialog open={open} onOpenChange={handleOpenChange}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Share Meeting</DialogTitle>
+                        <DialogDescription>
+                            Anyone with a link can view this meeting without signing in. Revoke a link to turn it off.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4 rounded-md border p-4">
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <label htmlFor="share-content" className="text-sm font-medium">Include</label>
+                                <select
+                                    id="share-content"
+                                    className={SELECT_CLASS_NAME}
+                                    value={form.includeTranscript ? "transcript" : "notes"}
+                                    onChange={(e) => setForm({ ...form, includeTranscript: e.target.value === "transcript" })}
+                                >
+                                    <option value="notes">Notes only</option>
+                                    <option value="transcript">Notes and transcript</option>
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <label htmlFor="share-expiry" className="text-sm font-medium">Expires</label>
+                                <select
+                                    id="share-expiry"
+                                    className={SELECT_CLASS_NAME}
+                                    value={form.expiresInDays}
+                                    onChange={(e) => setForm({ ...form, expiresInDays: e.target.value })}
+                                >
+                                    {EXPIRY_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <label htmlFor="share-password" className="text-sm font-medium">Password (optional)</label>
+                            <Input
+                                id="share-password"
+                                type="password"
+                                placeholder="At least 8 characters"
+                                value={form.password}
+                                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                            />
+                        </div>
+                        <Button onClick={handleCreate} disabled={isCreating} className="w-full gap-2">
+                            {isCreating ? <Loader2 className="size-4 animate-spin" /> : <Link2 className="size-4" />}
+                            Create and Copy Link
+                        </Button>
+                    </div>
+
+                    <div className="space-y-2">
+                        <h3 className="text-sm font-medium">Share links</h3>
+                        {loading ? (
+                            <p className="text-sm text-muted-foreground">Loading share links...</p>
+                        ) : shares.length === 0 ? (
+                            <p className="text-sm text-muted-foreground italic">This meeting has not been shared.</p>
+                        ) : (
+                            <ul className="space-y-2 max-h-60 overflow-y-auto">
+                                {shares.map((share) => {
+                                    const expired = share.expiresAt !== null && new Date(share.expiresAt).getTime() <= Date.now();
+                                    return (
+                                        <li key={share.id} className="flex items-center gap-2 rounded-md border p-2">
+                                            <div className="flex-1 min-w-0 space-y-1">
+                                                <p className="text-xs font-mono truncate">/share/{share.token}</p>
+                                                <div className="flex flex-wrap gap-1">
+                                                    <Badge variant="secondary" className="text-xs">
+                                                        {share.includeTranscript ? "Notes + transcript" : "Notes only"}
+                                                    </Badge>
+                                                    {share.hasPassword && <Badge variant="outline" className="text-xs">Password</Badge>}
+                                                    <Badge variant={expired ? "destructive" : "outline"} className="text-xs">
+                                                        {share.expiresAt
+                                                            ? `${expired ? "Expired" : "Expires"} ${new Date(share.expiresAt).toLocaleDateString()}`
+                                                            : "No expiry"}
+                                                    </Badge>
+                                                </div>
+                                            </div>
+                                            {!expired && (
+                                                <Button variant="ghost" size="icon" className="size-8" onClick={() => copyLink(share)} title="Copy link">
+                                                    <Copy className="size-4" />
+                                                </Button>
+                                            )}
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="size-8 text-destructive"
+                                                onClick={() => handleRevoke(share)}
+                                                title="Revoke link"
+                                            >
+                                                <Trash2 className="size-4" />
+                                            </Button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { diffMeetingNotes } from "@/lib/notesDiff";
+
+interface MeetingNotes {
+    summary: string;
+    keyTopics: string[];
+    actionItems: string[];
+    decisions: string[];
+    assumptions: string[];
+    qa: Array<{ question: string; answer: string }>;
+}
+
+type NotesRevisionSource = "generated" | "manual" | "restore";
+
+interface NotesRevision {
+    id: number;
+    language: string;
+    notes: MeetingNotes;
+    source: NotesRevisionSource;
+    author: { id: string; email: string; displayName: string | null } | null;
+    restoredFrom: number | null;
+    createdAt: string;
+}
+
+const SOURCE_LABELS: Record<NotesRevisionSource, string> = {
+    generated: "Generated",
+    manual: "Edited",
+    restore: "Restored",
+};
+
+interface NotesRevisionHistoryProps {
+    meetingId: string;
+    language: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onRestore: (notes: MeetingNotes) => void;
+}
+
+function formatRevisionDate(dateString: string): string {
+    return new Date(dateString).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+function describeAuthor(revision: NotesRevision): string {
+    if (revision.source === "generated") {
+        return revision.author ? `AI, requested by ${revision.author.displayName || revision.author.email}` : "AI";
+    }
+    return revision.author?.displayName || revision.author?.email || "Unknown user";
+}
+
+export function NotesRevisionHistory({
+    meetingId,
+    language,
+    open,
+    onOpenChange,
+    onRestore,
+}: NotesRevisionHistoryProps) {
+    const [revisions, setRevisions] = useState<NotesRevision[]>([]);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        if (!open) return;
+
+        const loadRevisions = async () => {
+            setIsLoading(true);
+            try {
+                const response = await fetch(
+                    `/api/meetings/${encodeURIComponent(meetingId)}/notes/revisions?language=${encodeURIComponent(language)}`
+                );
+                if (!response.ok) {
+                    throw new Error("Failed to load revisions");
+                }
+
+                const data = await response.json();
+                setRevisions(data.revisions || []);
+                setSelectedId(data.revisions?.[0]?.id ?? null);
+            } catch (error) {
+                console.error("Error loading revisions:", error);
+                toast.error("Failed to load revision history.");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadRevisions();
+    }, [open, meetingId, language]);
+
+    const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId);
+    const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+    // Revisions are newest first, so the one before the selection is the next entry.
+    const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] || null : null;
+    const changes = selected ? diffMeetingNotes(previous?.notes || null, selected.notes) : [];
+
+    const handleRestore = async () => {
+        if (!selected) return;
+
+        setIsRestoring(true);
+        try {
+            const response = await fetch(
+                `/api/meetings/${encodeURIComponent(meetingId)}/notes/revisions/${selected.id}/restore`,
+                { method: "POST" }
+            );
+            if (!response.ok) {
+                throw new Error("Failed to restore revision");
+            }
+
+            const data = await response.json();
+            onRestore(data.notes);
+            onOpenChange(false);
+            toast.success("Notes restored.");
+        } catch (error) {
+            console.error("Error restoring revision:", error);
+            toast.error("Failed to restore notes. Please try again.");
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <History className="size-5" />
+                        Revision History
+                    </DialogTitle>
+                    <DialogDescription>
+                        Every saved version of these notes. Select one to see what changed from the version before it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : revisions.length === 0 ? (
+                    <p className="py-12 text-center text-sm text-muted-foreground">
+                        No revisions yet. A revision is added every time the notes are edited, restored or regenerated.
+                    </p>
+                ) : (
+                    <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+                        <ul className="space-y-1 max-h-[60vh] overflow-y-auto pr-1">
+                            {revisions.map((revision, index) => (
+                                <li key={revision.id}>
+                                    <button
+                                        type="button"
+                                        onClick={() => setSelectedId(revision.id)}
+                                        className={cn(
+                                            "w-full rounded-md px-3 py-2 text-left text-sm hover:bg-muted",
+                                            revision.id === selectedId && "bg-primary/10"
+                                        )}
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            <Badge variant={revision.source === "generated" ? "secondary" : "outline"}>
+                                                {SOURCE_LABELS[revision.source]}
+                                            </Badge>
+                                            {index === 0 && <span className="text-xs text-muted-foreground">Current</span>}
+                                        </div>
+                                        <p className="mt-1 text-xs text-muted-foreground">{formatRevisionDate(revision.createdAt)}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{describeAuthor(revision)}</p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+
+                        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                            {selected && (
+                                <div className="flex items-center justify-between gap-2">
+                                    <p className="text-sm text-muted-foreground">
+                                        {previous ? "Changes from the previous version" : "First version"}
+                                    </p>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={handleRestore}
+                                        disabled={isRestoring || selectedIndex === 0}
+                                        className="gap-2"
+                                    >
+                                        {isRestoring ? <Loader2 className="size-4 animate-spin" /> : <RotateCcw className="size-4" />}
+                                        Restore this version
+                                    </Button>
+                                </div>
+                            )}
+
+                            {selected && changes.length === 0 && (
+                                <p className="text-sm text-muted-foreground italic">No changes.</p>
+                            )}
+
+                            {changes.map((change) => (
+                                <div key={change.section} className="space-y-2">
+                                    <p className="text-sm font-medium">{change.label}</p>
+                                    <ul className="space-y-1 text-sm">
+                                        {change.removed.map((item, i) => (
+                                            <li key={`removed-${i}`} className="whitespace-pre-wrap rounded bg-red-500/10 px-2 py-1 text-red-700 line-through dark:text-red-400">
+                                                {item}
+                                            </li>
+                                        ))}
+                                        {change.added.map((item, i) => (
+                                            <li key={`added-${i}`} className="whitespace-pre-wrap rounded bg-green-500/10 px-2 py-1 text-green-700 dark:text-green-400">
+                                                {item}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ProjectDetails {
+    name: string;
+    displayName: string;
+    color?: string;
+    description: string;
+    goals: string;
+    transcriptionProvider: string | null;
+}
+
+interface AiProviderOption {
+    id: string;
+    label: string;
+    uses: string[];
+    available: boolean;
+}
+
+interface ProjectEditDialogProps {
+    project: ProjectDetails;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSaved: (project: ProjectDetails) => void;
+}
+
+// Kept in sync with PROJECT_COLORS in src/lib/fileSearch.ts.
+const PROJECT_COLORS = [
+    "bg-blue-500",
+    "bg-violet-500",
+    "bg-emerald-500",
+    "bg-amber-500",
+    "bg-rose-500",
+    "bg-cyan-500",
+    "bg-slate-500",
+];
+
+const SELECT_CLASS_NAME = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+export function ProjectEditDialog({ project, open, onOpenChange, onSaved }: ProjectEditDialogProps) {
+    const [form, setForm] = useState({ name: "", color: "", description: "", goals: "", transcriptionProvider: "" });
+    const [transcriptionProviders, setTranscriptionProviders] = useState<AiProviderOption[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (open) {
+            setForm({
+                name: project.displayName,
+                color: project.color || PROJECT_COLORS[0],
+                description: project.description,
+                goals: project.goals,
+                transcriptionProvider: project.transcriptionProvider || "",
+            });
+        }
+    }, [open, project]);
+
+    useEffect(() => {
+        if (!open) return;
+
+        fetch("/api/settings/ai-providers")
+            .then((response) => (response.ok ? response.json() : Promise.reject(new Error("Failed to load providers"))))
+            .then((data) => setTranscriptionProviders(
+                (data.providers as AiProviderOption[]).filter((provider) => provider.uses.includes("transcription"))
+            ))
+            .catch((error) => console.error("Failed to load AI providers:", error));
+    }, [open]);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/projects/${encodeURIComponent(project.name)}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    name: form.name,
+                    color: form.color,
+                    description: form.description,
+                    goals: form.goals,
+                    // Only sent when changed, so a provider that is no longer configured does not block other edits.
+                    ...((form.transcriptionProvider || null) !== project.transcriptionProvider
+                        ? { transcriptionProvider: form.transcriptionProvider || null }
+                        : {}),
+                }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to update project");
+            }
+
+            toast.success("Project updated.");
+            onSaved(data.project);
+            onOpenChange(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update project");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(nextOpen) => !isSaving && onOpenChange(nextOpen)}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Edit Project</DialogTitle>
+                    <DialogDescription>
+                        Goals are given to the AI as context when meetings in this project are transcribed and
+                        their notes are generated.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <label htmlFor="project-name" className="text-sm font-medium">Name</label>
+                        <Input
+                            id="project-name"
+                            value={form.name}
+                            onChange={(e) => setForm({ ...form, name: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <span className="text-sm font-medium">Color</span>
+                        <div className="flex flex-wrap gap-2">
+                            {PROJECT_COLORS.map((color) => (
+                                <button
+                                    key={color}
+                                    type="button"
+                                    aria-label={color.replace("bg-", "").replace("-500", "")}
+                                    className={`size-8 rounded-full ${color} flex items-center justify-center text-white`}
+                                    onClick={() => setForm({ ...form, color })}
+                                >
+                                    {form.color === color && <Check className="size-4" />}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="project-description" className="text-sm font-medium">Description</label>
+                        <Textarea
+                            id="project-description"
+                            rows={3}
+                            placeholder="Brief description of the project..."
+                            value={form.description}
+                            onChange={(e) => setForm({ ...form, description: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="project-goals" className="text-sm font-medium">Goals</label>
+                        <Textarea
+                            id="project-goals"
+                            rows={4}
+                            placeholder="List your project goals and objectives..."
+                            value={form.goals}
+                            onChange={(e) => setForm({ ...form, goals: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="project-transcription" className="text-sm font-medium">Transcription</label>
+                        <select
+                            id="project-transcription"
+                            className={SELECT_CLASS_NAME}
+                            value={form.transcriptionProvider}
+                            onChange={(e) => setForm({ ...form, transcriptionProvider: e.target.value })}
+                        >
+                            <option value="">Use my setting</option>
+                            {transcriptionProviders.map((provider) => (
+                                <option
+                                    key={provider.id}
+                                    value={provider.id}
+                                    disabled={!provider.available && provider.id !== form.transcriptionProvider}
+                                >
+                                    {provider.available ? provider.label : `${provider.label} (not configured)`}
+                                </option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                            Recordings in this project are always transcribed with this provider. Choose the local
+                            Whisper server to keep confidential audio from being sent to Google.
+                        </p>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+                        {isSaving && <Loader2 className="size-4 mr-2 animate-spin" />}
+                        Save
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
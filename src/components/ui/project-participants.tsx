@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Loader2, MoreVertical, Plus, UsersRound } from "lucide-react";
+import { toast } from "sonner";
+
+interface Participant {
+    id: string;
+    name: string;
+    role: string | null;
+    aliases: string[];
+}
+
+interface ParticipantForm {
+    id?: string;
+    name: string;
+    role: string;
+    aliases: string; // Comma-separated
+}
+
+interface ProjectParticipantsProps {
+    projectName: string;
+}
+
+export function ProjectParticipants({ projectName }: ProjectParticipantsProps) {
+    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [form, setForm] = useState<ParticipantForm | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const loadParticipants = async () => {
+            try {
+                const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/participants`);
+                if (!response.ok) {
+                    throw new Error("Failed to fetch participants");
+                }
+
+                const data = await response.json();
+                setParticipants(data.participants || []);
+            } catch (error) {
+                console.error("Error fetching participants:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadParticipants();
+    }, [projectName]);
+
+    const handleSubmit = async () => {
+        if (!form) return;
+
+        if (!form.name.trim()) {
+            toast.error("Please enter a name.");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const payload = {
+                name: form.name,
+                role: form.role || null,
+                aliases: form.aliases.split(",").map((alias) => alias.trim()).filter(Boolean),
+            };
+            const response = form.id
+                ? await fetch(`/api/participants/${encodeURIComponent(form.id)}`, {
+                    method: "PATCH",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(payload),
+                })
+                : await fetch(`/api/projects/${encodeURIComponent(projectName)}/participants`, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(payload),
+                });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save participant");
+            }
+
+            setParticipants((current) =>
+                [...current.filter((participant) => participant.id !== data.participant.id), data.participant]
+                    .sort((a, b) => a.name.localeCompare(b.name))
+            );
+            setForm(null);
+            toast.success("Participant saved.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save participant");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (participant: Participant) => {
+        try {
+            const response = await fetch(`/api/participants/${encodeURIComponent(participant.id)}`, { method: "DELETE" });
+            if (!response.ok) {
+                throw new Error("Failed to delete participant");
+            }
+
+            setParticipants((current) => current.filter((item) => item.id !== participant.id));
+            toast.success(`${participant.name} removed.`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to delete participant");
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                        <UsersRound className="size-5" />
+                        Participants
+                    </CardTitle>
+                    <CardDescription>
+                        People in this project&apos;s meetings. Speakers you name on a meeting are added here automatically.
+                    </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => setForm({ name: "", role: "", aliases: "" })}>
+                    <Plus className="size-4" />
+                    Add
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <p className="text-sm text-muted-foreground">Loading participants...</p>
+                ) : participants.length === 0 ? (
+                    <p className="text-sm text-muted-foreground italic">No participants yet.</p>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        {participants.map((participant) => (
+                            <div key={participant.id} className="flex items-center gap-1 rounded-full border pl-3 pr-1 py-1">
+                                <Link href={`/participants/${encodeURIComponent(participant.id)}`} className="text-sm hover:text-primary">
+                                    {participant.name}
+                                </Link>
+                                {participant.role && (
+                                    <Badge variant="secondary" className="text-xs">{participant.role}</Badge>
+                                )}
+                                <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                        <Button variant="ghost" size="icon" className="size-6 rounded-full">
+                                            <MoreVertical className="size-3" />
+                                        </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                        <DropdownMenuItem
+                                            onClick={() => setForm({
+                                                id: participant.id,
+                                                name: participant.name,
+                                                role: participant.role || "",
+                                                aliases: participant.aliases.join(", "),
+                                            })}
+                                        >
+                                            Edit
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(participant)}>
+                                            Delete
+                                        </DropdownMenuItem>
+                                    </DropdownMenuContent>
+                                </DropdownMenu>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{form?.id ? "Edit Participant" : "Add Participant"}</DialogTitle>
+                        <DialogDescription>
+                            Aliases are other names the person goes by, such as nicknames or initials.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {form && (
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <label htmlFor="participant-name" className="text-sm font-medium">Name</label>
+                                <Input
+                                    id="participant-name"
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label htmlFor="participant-role" className="text-sm font-medium">Role</label>
+                                <Input
+                                    id="participant-role"
+                                    placeholder="e.g. Product Manager"
+                                    value={form.role}
+                                    onChange={(e) => setForm({ ...form, role: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label htmlFor="participant-aliases" className="text-sm font-medium">Aliases</label>
+                                <Input
+                                    id="participant-aliases"
+                                    placeholder="Comma-separated, e.g. Liz, E.B."
+                                    value={form.aliases}
+                                    onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setForm(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSubmit} disabled={isSaving}>
+                            {isSaving && <Loader2 className="size-4 mr-2 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
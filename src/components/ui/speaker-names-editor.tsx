@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Sparkles, UserPen } from "lucide-react";
+import { toast } from "sonner";
+
+interface Participant {
+    id: string;
+    name: string;
+    role: string | null;
+}
+
+interface SpeakerMatchSuggestion {
+    participantId: string;
+    name: string;
+    score: number;
+}
+
+interface SpeakerNamesEditorProps {
+    meetingId: string;
+    speakers: string[]; // Speaker labels as produced by the transcription
+    initialSpeakerNames: Record<string, string>;
+}
+
+export function SpeakerNamesEditor({ meetingId, speakers, initialSpeakerNames }: SpeakerNamesEditorProps) {
+    const router = useRouter();
+    const [speakerNames, setSpeakerNames] = useState<Record<string, string>>(initialSpeakerNames);
+    const [draft, setDraft] = useState<Record<string, string>>({});
+    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [suggestions, setSuggestions] = useState<Record<string, SpeakerMatchSuggestion>>({});
+    const [isOpen, setIsOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const openEditor = async () => {
+        setDraft({ ...speakerNames });
+        setIsOpen(true);
+
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/speakers`);
+            if (!response.ok) {
+                throw new Error("Failed to load participants");
+            }
+
+            const data = await response.json();
+            setParticipants(data.participants || []);
+            setSuggestions(data.suggestions || {});
+        } catch (error) {
+            // Suggestions are optional; names can still be typed in.
+            console.error("Error loading participants:", error);
+        }
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/meetings/${encodeURIComponent(meetingId)}/speakers`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ speakerNames: draft }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save speaker names");
+            }
+
+            setSpeakerNames(data.speakerNames);
+            setIsOpen(false);
+            toast.success("Speaker names saved. Regenerate the notes to use them there too.");
+            router.refresh();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save speaker names");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="pb-3 flex flex-row items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                    <CardTitle className="text-lg">Speakers Identified</CardTitle>
+                    <CardDescription>Name the speakers to show who said what in the transcript and notes.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" className="gap-2" onClick={openEditor}>
+                    <UserPen className="size-4" />
+                    Rename
+                </Button>
+            </CardHeader>
+            <CardContent>
+                <div className="flex flex-wrap gap-2">
+                    {speakers.map((label) => (
+                        <Badge key={label} variant="secondary" className="text-sm py-1 px-3" title={label}>
+                            {speakerNames[label] || label}
+                        </Badge>
+                    ))}
+                </div>
+            </CardContent>
+
+            <Dialog open={isOpen} onOpenChange={setIsOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Rename Speakers</DialogTitle>
+                        <DialogDescription>
+                            Enter the real name of each speaker. Give two speakers the same name if they are the same person.
+                            Named speakers are added to the project&apos;s participants and suggested in later meetings.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                        {speakers.map((label, index) => (
+                            <div key={label} className="space-y-2">
+                                <label htmlFor={`speaker-${index}`} className="text-sm text-muted-foreground">
+                                    {label}
+                                </label>
+                                <Input
+                                    id={`speaker-${index}`}
+                                    placeholder="Name"
+                                    list="speaker-participants"
+                                    value={draft[label] || ""}
+                                    onChange={(e) => setDraft({ ...draft, [label]: e.target.value })}
+                                />
+                                {suggestions[label] && !draft[label] && (
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        className="gap-2 h-7 px-2 text-xs"
+                                        onClick={() => setDraft({ ...draft, [label]: suggestions[label].name })}
+                                    >
+                                        <Sparkles className="size-3" />
+                                        Sounds like {suggestions[label].name}
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <datalist id="speaker-participants">
+                        {participants.map((participant) => (
+                            <option key={participant.id} value={participant.name}>
+                                {participant.role || undefined}
+                            </option>
+                        ))}
+                    </datalist>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={isSaving}>
+                            {isSaving && <Loader2 className="size-4 mr-2 animate-spin" />}
+                            Save Names
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TranscriptionSegment {
+    speaker: string;
+    text: string;
+    startTime?: number;
+    endTime?: number;
+}
+
+interface TranscriptPlayerProps {
+    audioUrl: string | null;
+    segments: TranscriptionSegment[];
+    startAt?: number; // Seconds to cue the recording to, e.g. from a search result link
+}
+
+function formatTimestamp(seconds?: number): string {
+    if (seconds === undefined) return "";
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Index of the segment playing at `time`. A segment without an end time lasts
+ * until the next one starts.
+ */
+function findActiveSegment(segments: TranscriptionSegment[], time: number): number {
+    let active = -1;
+    segments.forEach((segment, index) => {
+        if (segment.startTime === undefined || segment.startTime > time) return;
+        if (segment.endTime !== undefined && segment.endTime > segment.startTime && time >= segment.endTime) return;
+        active = index;
+    });
+    return active;
+}
+
+export function TranscriptPlayer({ audioUrl, segments, startAt }: TranscriptPlayerProps) {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const segmentRefs = useRef<Array<HTMLDivElement | null>>([]);
+    const [activeIndex, setActiveIndex] = useState(() => (startAt !== undefined ? findActiveSegment(segments, startAt) : -1));
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    // Follow playback, but leave the scroll position alone while paused so
+    // reading ahead is not interrupted.
+    useEffect(() => {
+        if (isPlaying && activeIndex >= 0) {
+            segmentRefs.current[activeIndex]?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+        }
+    }, [activeIndex, isPlaying]);
+
+    const seekTo = (segment: TranscriptionSegment) => {
+        const audio = audioRef.current;
+        if (!audio || segment.startTime === undefined) return;
+
+        audio.currentTime = segment.startTime;
+        audio.play().catch(() => undefined);
+    };
+
+    const canSeek = Boolean(audioUrl);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                    <CheckCircle2 className="size-5 text-green-500" />
+                    Transcript
+                </CardTitle>
+                <CardDescription>
+                    {canSeek
+                        ? "Full transcription with speaker identification. Click a timestamp to play from there."
+                        : "Full transcription with speaker identification"}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {audioUrl && (
+                    <audio
+                        ref={audioRef}
+                        src={audioUrl}
+                        controls
+                        preload="metadata"
+                        className="w-full"
+                        onLoadedMetadata={(e) => {
+                            if (startAt !== undefined) e.currentTarget.currentTime = startAt;
+                        }}
+                        onTimeUpdate={(e) => setActiveIndex(findActiveSegment(segments, e.currentTarget.currentTime))}
+                        onPlay={() => setIsPlaying(true)}
+                        onPause={() => setIsPlaying(false)}
+                    />
+                )}
+
+                <div className="space-y-4 max-h-150 overflow-y-auto pr-4">
+                    {segments.map((segment, idx) => (
+                        <div
+                            key={idx}
+                            id={`segment-${idx}`}
+                            ref={(element) => {
+                                segmentRefs.current[idx] = element;
+                            }}
+                            className={cn(
+                                "flex gap-4 group scroll-mt-24 target:bg-primary/5 rounded-md transition-colors",
+                                idx === activeIndex && "bg-primary/10"
+                            )}
+                        >
+                            {segment.startTime !== undefined && (
+                                canSeek ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => seekTo(segment)}
+                                        className="text-xs text-muted-foreground font-mono w-12 shrink-0 pt-1 text-left hover:text-primary hover:underline"
+                                        title="Play from here"
+                                    >
+                                        {formatTimestamp(segment.startTime)}
+                                    </button>
+                                ) : (
+                                    <span className="text-xs text-muted-foreground font-mono w-12 shrink-0 pt-1">
+                                        {formatTimestamp(segment.startTime)}
+                                    </span>
+                                )
+                            )}
+                            <div className="flex-1">
+                                <div className="flex items-center gap-2 mb-1">
+                                    <span className="font-medium text-sm text-primary">{segment.speaker}</span>
+                                </div>
+                                <p className="text-sm text-foreground leading-relaxed">{segment.text}</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
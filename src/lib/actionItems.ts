@@ -0,0 +1,320 @@
+import { randomUUID } from "crypto";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { getMeetingById } from "@/lib/meetingStorage";
+import type { ActionItemPriority, ExtractedActionItem } from "@/lib/gemini";
+
+export type ActionItemStatus = "open" | "in_progress" | "done";
+export type ActionItemOrigin = "extracted" | "manual";
+
+export const ACTION_ITEM_STATUSES: ActionItemStatus[] = ["open", "in_progress", "done"];
+export const ACTION_ITEM_PRIORITIES: ActionItemPriority[] = ["low", "medium", "high"];
+
+export interface ActionItem {
+    id: string;
+    meetingId: string;
+    meetingTitle: string | null;
+    projectId: string;
+    projectDisplayName: string | null;
+    description: string;
+    assignee: string | null;
+    dueDate: string | null;
+    priority: ActionItemPriority;
+    status: ActionItemStatus;
+    sourceSegmentIndex: number | null;
+    origin: ActionItemOrigin;
+    createdAt: string;
+    updatedAt: string;
+    completedAt: string | null;
+}
+
+export interface ActionItemFields {
+    description: string;
+    assignee: string | null;
+    dueDate: string | null;
+    priority: ActionItemPriority;
+    status: ActionItemStatus;
+}
+
+export interface ActionItemFilters {
+    status?: ActionItemStatus;
+    meetingId?: string;
+    projectId?: string;
+}
+
+type ActionItemRow = {
+    id: string;
+    meeting_id: string;
+    project_id: string;
+    description: string;
+    assignee: string | null;
+    due_date: string | null;
+    priority: ActionItemPriority;
+    status: ActionItemStatus;
+    source_segment_index: number | null;
+    origin: ActionItemOrigin;
+    created_at: string;
+    updated_at: string;
+    completed_at: string | null;
+    meeting: { title: string } | null;
+    project: { display_name: string } | null;
+};
+
+const ACTION_ITEM_COLUMNS = "id, meeting_id, project_id, description, assignee, due_date, priority, status, source_segment_index, origin, created_at, updated_at, completed_at, meeting:meetings(title), project:projects(display_name)";
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+function rowToActionItem(row: ActionItemRow): ActionItem {
+    return {
+        id: row.id,
+        meetingId: row.meeting_id,
+        meetingTitle: row.meeting?.title || null,
+        projectId: row.project_id,
+        projectDisplayName: row.project?.display_name || null,
+        description: row.description,
+        assignee: row.assignee,
+        dueDate: row.due_date,
+        priority: row.priority,
+        status: row.status,
+        sourceSegmentIndex: row.source_segment_index,
+        origin: row.origin,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        completedAt: row.completed_at,
+    };
+}
+
+/**
+ * Validate action item fields sent by a client. With `partial`, fields that
+ * are absent are left out of the result instead of being required.
+ */
+export function parseActionItemFields(
+    body: unknown,
+    partial: boolean
+): { fields: Partial<ActionItemFields> } | { error: string } {
+    const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+    const fields: Partial<ActionItemFields> = {};
+
+    if (input.description !== undefined || !partial) {
+        if (typeof input.description !== "string" || !input.description.trim()) {
+            return { error: "description is required" };
+        }
+        if (input.description.length > MAX_DESCRIPTION_LENGTH) {
+            return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+        }
+        fields.description = input.description.trim();
+    }
+
+    if (input.assignee !== undefined) {
+        if (input.assignee !== null && typeof input.assignee !== "string") {
+            return { error: "assignee must be a string or null" };
+        }
+        fields.assignee = input.assignee?.trim() || null;
+    }
+
+    if (input.dueDate !== undefined) {
+        if (input.dueDate !== null && input.dueDate !== "" && (typeof input.dueDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(input.dueDate))) {
+            return { error: "dueDate must be a YYYY-MM-DD date or null" };
+        }
+        fields.dueDate = input.dueDate || null;
+    }
+
+    if (input.priority !== undefined) {
+        if (!ACTION_ITEM_PRIORITIES.includes(input.priority as ActionItemPriority)) {
+            return { error: `priority must be one of ${ACTION_ITEM_PRIORITIES.join(", ")}` };
+        }
+        fields.priority = input.priority as ActionItemPriority;
+    }
+
+    if (input.status !== undefined) {
+        if (!ACTION_ITEM_STATUSES.includes(input.status as ActionItemStatus)) {
+            return { error: `status must be one of ${ACTION_ITEM_STATUSES.join(", ")}` };
+        }
+        fields.status = input.status as ActionItemStatus;
+    }
+
+    return { fields };
+}
+
+export async function listActionItems(ownerId: string, filters: ActionItemFilters = {}): Promise<ActionItem[]> {
+    const supabase = getSupabaseServerClient();
+
+    let query = supabase
+        .from("action_items")
+        .select(ACTION_ITEM_COLUMNS)
+        .eq("owner_id", ownerId);
+
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.meetingId) query = query.eq("meeting_id", filters.meetingId);
+    if (filters.projectId) query = query.eq("project_id", filters.projectId);
+
+    const { data, error } = await query
+        .order("due_date", { ascending: true, nullsFirst: false })
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to load action items: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as ActionItemRow[]).map(rowToActionItem);
+}
+
+/**
+ * Add an action item to a meeting by hand. Returns null when the meeting does
+ * not belong to `ownerId`.
+ */
+export async function createActionItem(
+    ownerId: string,
+    meetingId: string,
+    fields: Partial<ActionItemFields> & { description: string }
+): Promise<ActionItem | null> {
+    const meeting = await getMeetingById(meetingId, ownerId);
+    if (!meeting) {
+        return null;
+    }
+
+    const supabase = getSupabaseServerClient();
+    const status = fields.status || "open";
+
+    const { data, error } = await supabase
+        .from("action_items")
+        .insert({
+            id: `action_${randomUUID()}`,
+            owner_id: ownerId,
+            meeting_id: meeting.id,
+            project_id: meeting.project_id,
+            description: fields.description,
+            assignee: fields.assignee ?? null,
+            due_date: fields.dueDate ?? null,
+            priority: fields.priority || "medium",
+            status,
+            origin: "manual",
+            completed_at: status === "done" ? new Date().toISOString() : null,
+        })
+        .select(ACTION_ITEM_COLUMNS)
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to create action item: ${error.message}`);
+    }
+
+    return rowToActionItem(data as unknown as ActionItemRow);
+}
+
+/**
+ * Update an action item. Edited items are no longer replaced when the notes of
+ * their meeting are regenerated. Returns null when the item does not exist.
+ */
+export async function updateActionItem(
+    ownerId: string,
+    actionItemId: string,
+    fields: Partial<ActionItemFields>
+): Promise<ActionItem | null> {
+    const supabase = getSupabaseServerClient();
+    const changes: Record<string, unknown> = {
+        edited: true,
+        updated_at: new Date().toISOString(),
+    };
+
+    if (fields.description !== undefined) changes.description = fields.description;
+    if (fields.assignee !== undefined) changes.assignee = fields.assignee;
+    if (fields.dueDate !== undefined) changes.due_date = fields.dueDate;
+    if (fields.priority !== undefined) changes.priority = fields.priority;
+    if (fields.status !== undefined) {
+        changes.status = fields.status;
+        changes.completed_at = fields.status === "done" ? new Date().toISOString() : null;
+    }
+
+    const { data, error } = await supabase
+        .from("action_items")
+        .update(changes)
+        .eq("id", actionItemId)
+        .eq("owner_id", ownerId)
+        .select(ACTION_ITEM_COLUMNS)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to update action item: ${error.message}`);
+    }
+
+    return data ? rowToActionItem(data as unknown as ActionItemRow) : null;
+}
+
+export async function deleteActionItem(ownerId: string, actionItemId: string): Promise<boolean> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("action_items")
+        .delete()
+        .eq("id", actionItemId)
+        .eq("owner_id", ownerId)
+        .select("id");
+
+    if (error) {
+        throw new Error(`Failed to delete action item: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+}
+
+/**
+ * Store the action items extracted from a meeting's notes. Extracted items the
+ * user has not touched are replaced; edited and manually added items are kept,
+ * so regenerating notes or retrying a job never loses work on the task board.
+ */
+export async function replaceExtractedActionItems(
+    meeting: { id: string; projectId: string; ownerId: string },
+    items: ExtractedActionItem[]
+): Promise<void> {
+    const supabase = getSupabaseServerClient();
+
+    const { error: deleteError } = await supabase
+        .from("action_items")
+        .delete()
+        .eq("meeting_id", meeting.id)
+        .eq("owner_id", meeting.ownerId)
+        .eq("origin", "extracted")
+        .eq("edited", false);
+
+    if (deleteError) {
+        throw new Error(`Failed to replace action items: ${deleteError.message}`);
+    }
+
+    if (items.length === 0) {
+        return;
+    }
+
+    const { error } = await supabase.from("action_items").insert(
+        items.map((item) => ({
+            id: `action_${randomUUID()}`,
+            owner_id: meeting.ownerId,
+            meeting_id: meeting.id,
+            project_id: meeting.projectId,
+            description: item.description,
+            assignee: item.assignee,
+            due_date: item.dueDate,
+            priority: item.priority,
+            source_segment_index: item.sourceSegmentIndex,
+            origin: "extracted",
+        }))
+    );
+
+    if (error) {
+        throw new Error(`Failed to save action items: ${error.message}`);
+    }
+}
+
+/**
+ * Move the action items of a meeting to the project the meeting moved to.
+ */
+export async function moveMeetingActionItems(meetingId: string, ownerId: string, projectId: string): Promise<void> {
+    const supabase = getSupabaseServerClient();
+
+    const { error } = await supabase
+        .from("action_items")
+        .update({ project_id: projectId })
+        .eq("meeting_id", meetingId)
+        .eq("owner_id", ownerId);
+
+    if (error) {
+        throw new Error(`Failed to move action items: ${error.message}`);
+    }
+}
@@ -0,0 +1,428 @@
+import { Type, type Schema } from "@google/genai";
+import * as path from "path";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import type { GeminiOperation, UsageContext } from "@/lib/usage";
+import {
+    createGeminiLlmProvider,
+    createGeminiTranscriptionProvider,
+    ANALYSIS_MODEL,
+    TRANSCRIPTION_MODEL,
+    type TranscriptionChunkContext,
+    type TranscriptionResult,
+} from "@/lib/gemini";
+import {
+    createOpenAiCompatibleEmbedder,
+    createOpenAiCompatibleLlmProvider,
+    createOpenAiCompatibleTranscriptionProvider,
+    getOpenAiCompatibleConfig,
+} from "@/lib/openaiCompatible";
+import { createGeminiEmbedder, type Embedder } from "@/lib/embeddings";
+import { createWhisperServerTranscriptionProvider, getWhisperServerConfig } from "@/lib/whisperServer";
+
+// "fake" is only created in code (tests, offline development); users choose
+// between the others in Settings.
+export type AiProviderKind = "gemini" | "openai_compatible" | "whisper_server" | "fake";
+export type SelectableAiProvider = Exclude<AiProviderKind, "fake">;
+export type AiProviderUse = "llm" | "transcription";
+
+export const SELECTABLE_AI_PROVIDERS: SelectableAiProvider[] = ["gemini", "openai_compatible", "whisper_server"];
+
+const USE_LABELS: Record<AiProviderUse, string> = {
+    llm: "notes and chat",
+    transcription: "transcription",
+};
+
+const MAX_MODEL_NAME_LENGTH = 200;
+const MODEL_NAME_PATTERN = /^[\w.:/@-]+$/;
+
+export interface LlmMessage {
+    role: "user" | "model";
+    text: string;
+}
+
+export interface LlmRequest {
+    operation: GeminiOperation; // What the call is for; Gemini calls are metered under it
+    messages: LlmMessage[];
+    systemInstruction?: string;
+    responseSchema?: Schema; // Ask for a JSON response of this shape
+    temperature?: number;
+}
+
+/**
+ * A text model: meeting notes, project chat and meeting analysis.
+ */
+export interface LlmProvider {
+    kind: AiProviderKind;
+    model: string;
+    generate(request: LlmRequest): Promise<string>;
+}
+
+export interface TranscriptionRequest {
+    filePath: string;
+    mimeType: string;
+    context?: string;
+    knownParticipants?: string; // People from earlier meetings of the project
+    chunk?: TranscriptionChunkContext; // Set when the file is one chunk of a long recording
+}
+
+/**
+ * A speech-to-text backend. It transcribes one file; splitting long
+ * recordings and stitching the chunks is done by transcribeAudio, which also
+ * fills in the duration.
+ */
+export interface TranscriptionProvider {
+    kind: AiProviderKind;
+    model: string;
+    transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export interface AiProviders {
+    llm: LlmProvider;
+    transcription: TranscriptionProvider;
+    embedder: Embedder | null; // Indexes and searches project transcripts; null means keyword search only
+}
+
+export interface AiProviderSettings {
+    llmProvider: SelectableAiProvider;
+    llmModel: string | null; // Null uses the provider's default model
+    transcriptionProvider: SelectableAiProvider;
+    transcriptionModel: string | null;
+}
+
+export interface AiProviderOption {
+    id: SelectableAiProvider;
+    label: string;
+    uses: AiProviderUse[];
+    available: boolean;
+    defaultLlmModel: string | null;
+    defaultTranscriptionModel: string | null;
+}
+
+type UserAiSettingsRow = {
+    llm_provider: SelectableAiProvider;
+    llm_model: string | null;
+    transcription_provider: SelectableAiProvider;
+    transcription_model: string | null;
+};
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AiProviderSettings = {
+    llmProvider: "gemini",
+    llmModel: null,
+    transcriptionProvider: "gemini",
+    transcriptionModel: null,
+};
+
+/**
+ * The providers a user can pick from. The OpenAI-compatible and Whisper ones
+ * are only available when the server has been configured with their URL.
+ */
+export function listAiProviderOptions(): AiProviderOption[] {
+    const openAiCompatible = getOpenAiCompatibleConfig();
+    const whisperServer = getWhisperServerConfig();
+    return [
+        {
+            id: "gemini",
+            label: "Google Gemini",
+            uses: ["llm", "transcription"],
+            available: true,
+            defaultLlmModel: ANALYSIS_MODEL,
+            defaultTranscriptionModel: TRANSCRIPTION_MODEL,
+        },
+        {
+            id: "openai_compatible",
+            label: "OpenAI-compatible server",
+            uses: ["llm", "transcription"],
+            available: openAiCompatible !== null,
+            defaultLlmModel: openAiCompatible?.llmModel || null,
+            defaultTranscriptionModel: openAiCompatible?.transcriptionModel || null,
+        },
+        {
+            id: "whisper_server",
+            label: "Local Whisper server",
+            uses: ["transcription"],
+            available: whisperServer !== null,
+            defaultLlmModel: null,
+            defaultTranscriptionModel: whisperServer?.model || "server default",
+        },
+    ];
+}
+
+/**
+ * Check that `provider` can be used for `use` on this server. Returns the
+ * option, or an error message for the client.
+ */
+export function findAiProviderOption(
+    provider: unknown,
+    use: AiProviderUse,
+    field: string
+): { option: AiProviderOption } | { error: string } {
+    const option = listAiProviderOptions().find((candidate) => candidate.id === provider);
+    if (!option) {
+        return { error: `${field} must be one of: ${SELECTABLE_AI_PROVIDERS.join(", ")}` };
+    }
+    if (!option.uses.includes(use)) {
+        return { error: `${option.label} cannot be used for ${USE_LABELS[use]}` };
+    }
+    if (!option.available) {
+        return { error: `${option.label} is not configured on this server` };
+    }
+    return { option };
+}
+
+function parseModelName(value: unknown, field: string): { model: string | null } | { error: string } {
+    if (value === undefined || value === null || value === "") {
+        return { model: null };
+    }
+    if (typeof value !== "string") {
+        return { error: `${field} must be a string or null` };
+    }
+
+    const model = value.trim();
+    if (!model) {
+        return { model: null };
+    }
+    if (model.length > MAX_MODEL_NAME_LENGTH || !MODEL_NAME_PATTERN.test(model)) {
+        return { error: `${field} is not a valid model name` };
+    }
+    return { model };
+}
+
+/**
+ * Validate provider settings sent by a client. A provider that is not
+ * configured on this server, or that has no model to fall back on, is rejected.
+ */
+export function parseAiProviderSettings(body: unknown): { settings: AiProviderSettings } | { error: string } {
+    const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+    const settings = { ...DEFAULT_AI_PROVIDER_SETTINGS };
+
+    for (const use of ["llm", "transcription"] as const) {
+        const providerField = `${use}Provider` as const;
+        const modelField = `${use}Model` as const;
+
+        const found = findAiProviderOption(input[providerField] ?? DEFAULT_AI_PROVIDER_SETTINGS[providerField], use, providerField);
+        if ("error" in found) {
+            return found;
+        }
+        const { option } = found;
+
+        const parsed = parseModelName(input[modelField], modelField);
+        if ("error" in parsed) {
+            return parsed;
+        }
+
+        const defaultModel = use === "llm" ? option.defaultLlmModel : option.defaultTranscriptionModel;
+        if (!parsed.model && !defaultModel) {
+            return { error: `${modelField} is required for ${option.label}` };
+        }
+
+        settings[providerField] = option.id;
+        settings[modelField] = parsed.model;
+    }
+
+    return { settings };
+}
+
+export async function getAiProviderSettings(userId: string): Promise<AiProviderSettings> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("user_ai_settings")
+        .select("llm_provider, llm_model, transcription_provider, transcription_model")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load AI provider settings: ${error.message}`);
+    }
+
+    const row = data as UserAiSettingsRow | null;
+    if (!row) {
+        return DEFAULT_AI_PROVIDER_SETTINGS;
+    }
+
+    return {
+        llmProvider: row.llm_provider,
+        llmModel: row.llm_model,
+        transcriptionProvider: row.transcription_provider,
+        transcriptionModel: row.transcription_model,
+    };
+}
+
+export async function saveAiProviderSettings(userId: string, settings: AiProviderSettings): Promise<void> {
+    const supabase = getSupabaseServerClient();
+
+    const { error } = await supabase.from("user_ai_settings").upsert({
+        user_id: userId,
+        llm_provider: settings.llmProvider,
+        llm_model: settings.llmModel,
+        transcription_provider: settings.transcriptionProvider,
+        transcription_model: settings.transcriptionModel,
+        updated_at: new Date().toISOString(),
+    }, { onConflict: "user_id" });
+
+    if (error) {
+        throw new Error(`Failed to save AI provider settings: ${error.message}`);
+    }
+}
+
+/**
+ * Create the providers described by `settings`. Gemini calls use `apiKey`
+ * (falling back to the server key) and are recorded against `usage`. Each
+ * provider is created when first read, so a request that only needs the text
+ * model does not fail on a transcription provider it never calls.
+ */
+export function createAiProviders(settings: AiProviderSettings, apiKey?: string, usage?: UsageContext): AiProviders {
+    let llm: LlmProvider | undefined;
+    let transcription: TranscriptionProvider | undefined;
+    let embedder: Embedder | null | undefined;
+
+    return {
+        get llm() {
+            return (llm ||= settings.llmProvider === "openai_compatible"
+                ? createOpenAiCompatibleLlmProvider(settings.llmModel || undefined)
+                : createGeminiLlmProvider(apiKey, usage, settings.llmModel || undefined));
+        },
+        get transcription() {
+            return (transcription ||= createTranscriptionProvider(settings, apiKey, usage));
+        },
+        get embedder() {
+            if (embedder === undefined) {
+                embedder = createEmbedder(settings, apiKey, usage);
+            }
+            return embedder;
+        },
+    };
+}
+
+// Embeddings go to the notes and chat provider, so transcripts are indexed by
+// the same server that reads them.
+function createEmbedder(settings: AiProviderSettings, apiKey?: string, usage?: UsageContext): Embedder | null {
+    if (settings.llmProvider === "openai_compatible") {
+        return getOpenAiCompatibleConfig()?.embeddingModel ? createOpenAiCompatibleEmbedder() : null;
+    }
+    if (!apiKey && !process.env.GEMINI_API_KEY && !process.env.API_KEY) {
+        return null;
+    }
+    return createGeminiEmbedder(apiKey, usage);
+}
+
+function createTranscriptionProvider(settings: AiProviderSettings, apiKey?: string, usage?: UsageContext): TranscriptionProvider {
+    const model = settings.transcriptionModel || undefined;
+    switch (settings.transcriptionProvider) {
+        case "whisper_server":
+            return createWhisperServerTranscriptionProvider(model);
+        case "openai_compatible":
+            return createOpenAiCompatibleTranscriptionProvider(model);
+        default:
+            return createGeminiTranscriptionProvider(apiKey, usage, model);
+    }
+}
+
+/**
+ * The settings chosen by `userId` in Settings, or the defaults when there is no
+ * user. A project's `projectTranscriptionProvider` takes precedence over the
+ * user's transcription provider.
+ */
+export async function resolveAiProviderSettings(
+    userId: string | null | undefined,
+    projectTranscriptionProvider?: SelectableAiProvider | null
+): Promise<AiProviderSettings> {
+    const settings = userId ? await getAiProviderSettings(userId) : DEFAULT_AI_PROVIDER_SETTINGS;
+    if (projectTranscriptionProvider && projectTranscriptionProvider !== settings.transcriptionProvider) {
+        // The user's model belongs to another provider, so use this one's default.
+        return { ...settings, transcriptionProvider: projectTranscriptionProvider, transcriptionModel: null };
+    }
+    return settings;
+}
+
+/**
+ * Whether `settings` send any of `uses` to Gemini, i.e. whether the request
+ * needs a Gemini API key.
+ */
+export function usesGemini(settings: AiProviderSettings, uses: AiProviderUse[] = ["llm", "transcription"]): boolean {
+    return uses.some((use) => settings[`${use}Provider`] === "gemini");
+}
+
+/**
+ * The providers chosen by `userId` in Settings, or Gemini when there is no user.
+ * A project's `projectTranscriptionProvider` takes precedence over the user's
+ * choice and is never replaced by another provider: when it cannot be
+ * created, reading `transcription` throws rather than sending the audio elsewhere.
+ */
+export async function resolveAiProviders(
+    userId: string | null | undefined,
+    apiKey?: string,
+    usage?: UsageContext,
+    projectTranscriptionProvider?: SelectableAiProvider | null
+): Promise<AiProviders> {
+    return createAiProviders(await resolveAiProviderSettings(userId, projectTranscriptionProvider), apiKey, usage);
+}
+
+function fakeValue(schema: Schema, name: string): unknown {
+    if (schema.nullable) {
+        return null;
+    }
+    if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[0];
+    }
+
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(
+                Object.entries(schema.properties || {}).map(([key, property]) => [key, fakeValue(property, key)])
+            );
+        case Type.ARRAY:
+            return schema.items ? [fakeValue(schema.items, name)] : [];
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 0;
+        case Type.BOOLEAN:
+            return false;
+        default:
+            return `Fake ${name}`;
+    }
+}
+
+/**
+ * Deterministic offline text model. With a response schema it returns the
+ * smallest JSON value of that shape (strings read "Fake <field>"); otherwise
+ * it echoes the start of the last message. `respond` overrides both.
+ */
+export function createFakeLlmProvider(respond?: (request: LlmRequest) => string): LlmProvider {
+    return {
+        kind: "fake",
+        model: "fake",
+        async generate(request) {
+            if (respond) {
+                return respond(request);
+            }
+            if (request.responseSchema) {
+                return JSON.stringify(fakeValue(request.responseSchema, "value"));
+            }
+            const lastMessage = request.messages[request.messages.length - 1]?.text || "";
+            return `Fake response to: ${lastMessage.slice(0, 200)}`;
+        },
+    };
+}
+
+/**
+ * Deterministic offline transcription: every file becomes one segment by a
+ * single speaker, with `text` or a sentence naming the file.
+ */
+export function createFakeTranscriptionProvider(text?: string): TranscriptionProvider {
+    return {
+        kind: "fake",
+        model: "fake",
+        async transcribe(request) {
+            const transcript = text || `Fake transcript of ${path.basename(request.filePath)}.`;
+            const endTime = request.chunk ? request.chunk.window.end - request.chunk.window.start : 0;
+            return {
+                text: transcript,
+                segments: [{ speaker: "Speaker 1", text: transcript, startTime: 0, endTime }],
+                speakers: ["Speaker 1"],
+                duration: 0,
+                language: "en",
+            };
+        },
+    };
+}
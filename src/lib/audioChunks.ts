@@ -0,0 +1,83 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Chunks are re-encoded to mono 16 kHz FLAC: lossless, small, supported by
+// Gemini, and always available in ffmpeg builds (no external encoder needed).
+export const AUDIO_CHUNK_EXTENSION = ".flac";
+export const AUDIO_CHUNK_MIME_TYPE = "audio/flac";
+
+const FFMPEG_BIN = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_BIN = process.env.FFPROBE_PATH || "ffprobe";
+
+/**
+ * ffmpeg is not installed (or FFMPEG_PATH points nowhere), so recordings
+ * cannot be cut into windows.
+ */
+export class FfmpegNotFoundError extends Error {
+    constructor() {
+        super("ffmpeg is required to split long recordings but was not found");
+        this.name = "FfmpegNotFoundError";
+    }
+}
+
+function isMissingBinary(error: unknown): boolean {
+    return typeof error === "object" && error !== null && (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+/**
+ * Read the duration of an audio file in seconds using ffprobe.
+ * Returns null when ffprobe is not installed or the duration is unknown.
+ */
+export async function probeAudioDuration(filePath: string): Promise<number | null> {
+    try {
+        const { stdout } = await execFileAsync(FFPROBE_BIN, [
+            "-v", "error",
+            "-show_entries", "format=duration",
+            "-of", "default=noprint_wrappers=1:nokey=1",
+            filePath,
+        ]);
+
+        const duration = parseFloat(stdout.trim());
+        return Number.isFinite(duration) && duration > 0 ? duration : null;
+    } catch (error) {
+        if (isMissingBinary(error)) {
+            console.warn("ffprobe not found; falling back to the duration read on upload");
+            return null;
+        }
+        const err = error instanceof Error ? error : new Error(String(error));
+        console.warn(`ffprobe failed for ${filePath}:`, err.message);
+        return null;
+    }
+}
+
+/**
+ * Cut [startSeconds, startSeconds + durationSeconds) out of an audio file with ffmpeg.
+ */
+export async function extractAudioWindow(
+    filePath: string,
+    startSeconds: number,
+    durationSeconds: number,
+    outputPath: string
+): Promise<void> {
+    try {
+        await execFileAsync(FFMPEG_BIN, [
+            "-v", "error",
+            "-y",
+            "-ss", startSeconds.toFixed(3),
+            "-t", durationSeconds.toFixed(3),
+            "-i", filePath,
+            "-vn",
+            "-ac", "1",
+            "-ar", "16000",
+            "-c:a", "flac",
+            outputPath,
+        ]);
+    } catch (error) {
+        if (isMissingBinary(error)) {
+            throw new FfmpegNotFoundError();
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,485 @@
+import type { TranscriptionSegment } from "@/lib/gemini";
+
+// Reads the duration of an uploaded recording from its container metadata,
+// without ffprobe: WAV, MP3, MP4/M4A, Ogg (Vorbis and Opus) and WebM/Matroska.
+
+// Below this share of the recording covered by timed segments, a transcript is
+// flagged as probably missing parts of the audio.
+export const MIN_TRANSCRIPT_COVERAGE = 0.8;
+
+export type AudioContainer = "wav" | "mp3" | "mp4" | "ogg" | "webm";
+
+export interface TranscriptCoverage {
+    coveredSeconds: number;
+    ratio: number; // coveredSeconds / duration, at most 1
+    flagged: boolean; // ratio < MIN_TRANSCRIPT_COVERAGE
+}
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+const CLUSTER_ID = 0x1f43b675;
+const CLUSTER_TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+const BLOCK_DURATION_ID = 0x9b;
+// Children of a Cluster; any other ID ends a Cluster whose size is unknown.
+const CLUSTER_CHILD_IDS = new Set([CLUSTER_TIMECODE_ID, SIMPLE_BLOCK_ID, BLOCK_GROUP_ID, 0xa7, 0xab, 0xec]);
+
+// kbps by [version group][layer]; index 0 and 15 are invalid.
+const MP3_BITRATES: Record<string, number[]> = {
+    "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+    3: [44100, 48000, 32000], // MPEG 1
+    2: [22050, 24000, 16000], // MPEG 2
+    0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+function validDuration(seconds: number): number | null {
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+}
+
+function ascii(data: Buffer, offset: number, length: number): string {
+    return offset + length <= data.length ? data.toString("latin1", offset, offset + length) : "";
+}
+
+/**
+ * Recognise the container from its first bytes.
+ */
+export function detectAudioContainer(data: Buffer): AudioContainer | null {
+    if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 4) === "WAVE") return "wav";
+    if (ascii(data, 0, 4) === "OggS") return "ogg";
+    if (ascii(data, 4, 4) === "ftyp") return "mp4";
+    if (data.length >= 4 && data.readUInt32BE(0) === EBML_ID) return "webm";
+    // Without an ID3 tag, an MP3 file must start with two consecutive frames.
+    if (ascii(data, 0, 3) === "ID3" || parseConfirmedMp3Frame(data, 0) !== null) return "mp3";
+    return null;
+}
+
+/**
+ * Duration in seconds of a WAV, MP3, MP4/M4A, Ogg or WebM recording, read from
+ * its container. Returns null for other formats and for files whose
+ * metadata does not give a duration.
+ */
+export function readAudioDuration(data: Buffer): number | null {
+    try {
+        switch (detectAudioContainer(data)) {
+            case "wav":
+                return readWavDuration(data);
+            case "mp3":
+                return readMp3Duration(data);
+            case "mp4":
+                return readMp4Duration(data);
+            case "ogg":
+                return readOggDuration(data);
+            case "webm":
+                return readWebmDuration(data);
+            default:
+                return null;
+        }
+    } catch (error) {
+        // A truncated or corrupt file; the duration is simply unknown.
+        console.warn("Could not read the recording's duration:", error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+function readWavDuration(data: Buffer): number | null {
+    let byteRate = 0;
+    let offset = 12;
+
+    while (offset + 8 <= data.length) {
+        const id = ascii(data, offset, 4);
+        const size = data.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (id === "fmt " && body + 12 <= data.length) {
+            byteRate = data.readUInt32LE(body + 8);
+        } else if (id === "data") {
+            // Streamed recorders leave the size at 0 or 0xFFFFFFFF; use what is there.
+            const available = data.length - body;
+            const dataSize = size === 0 || size > available ? available : size;
+            return byteRate > 0 ? validDuration(dataSize / byteRate) : null;
+        }
+
+        offset = body + size + (size % 2);
+    }
+
+    return null;
+}
+
+interface Mp3Frame {
+    offset: number;
+    version: number; // 3 = MPEG 1, 2 = MPEG 2, 0 = MPEG 2.5
+    layer: number; // 1, 2 or 3
+    bitrate: number; // bits per second
+    sampleRate: number;
+    samplesPerFrame: number;
+    mono: boolean;
+    length: number; // bytes, header included
+}
+
+function parseMp3Header(data: Buffer, offset: number): Mp3Frame | null {
+    if (offset + 4 > data.length || data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) {
+        return null;
+    }
+
+    const version = (data[offset + 1] >> 3) & 0x03;
+    const layer = 4 - ((data[offset + 1] >> 1) & 0x03);
+    const bitrateIndex = data[offset + 2] >> 4;
+    const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+    if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+        return null;
+    }
+
+    const group = version === 3 ? 1 : 2;
+    const bitrate = MP3_BITRATES[`${group}-${layer}`][bitrateIndex] * 1000;
+    const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 3 ? 576 : 1152;
+    const padding = (data[offset + 2] >> 1) & 0x01;
+    return {
+        offset,
+        version,
+        layer,
+        bitrate,
+        sampleRate,
+        samplesPerFrame,
+        mono: data[offset + 3] >> 6 === 3,
+        length: Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding * (layer === 1 ? 4 : 1),
+    };
+}
+
+/**
+ * The frame at `offset` if it is followed by another frame of the same stream
+ * (or by the end of the file). A lone sync word is common in other binary
+ * formats, so it is not enough on its own.
+ */
+function parseConfirmedMp3Frame(data: Buffer, offset: number): Mp3Frame | null {
+    const frame = parseMp3Header(data, offset);
+    if (!frame) {
+        return null;
+    }
+
+    const nextOffset = offset + frame.length;
+    if (nextOffset === data.length) {
+        return frame;
+    }
+    const next = parseMp3Header(data, nextOffset);
+    return next && next.version === frame.version && next.layer === frame.layer && next.sampleRate === frame.sampleRate
+        ? frame
+        : null;
+}
+
+function findMp3Frame(data: Buffer, start: number): Mp3Frame | null {
+    // Only look near the start; a sync word further in is more likely noise.
+    const end = Math.min(data.length - 4, start + 64 * 1024);
+    for (let offset = start; offset <= end; offset++) {
+        const frame = parseConfirmedMp3Frame(data, offset);
+        if (frame) return frame;
+    }
+    return null;
+}
+
+function readMp3Duration(data: Buffer): number | null {
+    let start = 0;
+    if (ascii(data, 0, 3) === "ID3" && data.length >= 10) {
+        const tagSize = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+        start = 10 + tagSize + (data[5] & 0x10 ? 10 : 0);
+    }
+
+    const frame = findMp3Frame(data, start);
+    if (!frame) {
+        return null;
+    }
+
+    // VBR files carry the frame count in a Xing/Info or VBRI header in the first frame.
+    const sideInfo = frame.version === 3 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+    const xing = frame.offset + 4 + sideInfo;
+    const xingTag = ascii(data, xing, 4);
+    if ((xingTag === "Xing" || xingTag === "Info") && xing + 12 <= data.length && data.readUInt32BE(xing + 4) & 0x01) {
+        return validDuration((data.readUInt32BE(xing + 8) * frame.samplesPerFrame) / frame.sampleRate);
+    }
+    const vbri = frame.offset + 4 + 32;
+    if (ascii(data, vbri, 4) === "VBRI" && vbri + 18 <= data.length) {
+        return validDuration((data.readUInt32BE(vbri + 14) * frame.samplesPerFrame) / frame.sampleRate);
+    }
+
+    // Constant bitrate: the audio bytes divided by the bitrate, minus a trailing ID3v1 tag.
+    const end = ascii(data, data.length - 128, 3) === "TAG" ? data.length - 128 : data.length;
+    return validDuration(((end - frame.offset) * 8) / frame.bitrate);
+}
+
+function readMp4Box(data: Buffer, offset: number, end: number): { type: string; body: number; end: number } | null {
+    if (offset + 8 > end) {
+        return null;
+    }
+
+    let size = data.readUInt32BE(offset);
+    const type = ascii(data, offset + 4, 4);
+    let body = offset + 8;
+    if (size === 1) {
+        if (offset + 16 > end) return null;
+        size = Number(data.readBigUInt64BE(offset + 8));
+        body = offset + 16;
+    } else if (size === 0) {
+        size = end - offset;
+    }
+    if (size < body - offset) {
+        return null;
+    }
+
+    return { type, body, end: Math.min(offset + size, end) };
+}
+
+function findMp4Box(data: Buffer, start: number, end: number, type: string): { body: number; end: number } | null {
+    let offset = start;
+    while (offset < end) {
+        const box = readMp4Box(data, offset, end);
+        if (!box) return null;
+        if (box.type === type) return box;
+        offset = box.end;
+    }
+    return null;
+}
+
+function readMp4Duration(data: Buffer): number | null {
+    const moov = findMp4Box(data, 0, data.length, "moov");
+    const mvhd = moov ? findMp4Box(data, moov.body, moov.end, "mvhd") : null;
+    if (!mvhd || mvhd.body + 4 > data.length) {
+        return null;
+    }
+
+    const version = data[mvhd.body];
+    if (version === 1) {
+        if (mvhd.body + 32 > data.length) return null;
+        const timescale = data.readUInt32BE(mvhd.body + 20);
+        const duration = Number(data.readBigUInt64BE(mvhd.body + 24));
+        return timescale > 0 ? validDuration(duration / timescale) : null;
+    }
+
+    if (mvhd.body + 20 > data.length) return null;
+    const timescale = data.readUInt32BE(mvhd.body + 12);
+    const duration = data.readUInt32BE(mvhd.body + 16);
+    return timescale > 0 ? validDuration(duration / timescale) : null;
+}
+
+function readOggDuration(data: Buffer): number | null {
+    // The first page holds the codec header, which gives the sample rate.
+    const segmentCount = data[26];
+    const packet = 27 + segmentCount;
+    const serial = data.readUInt32LE(14);
+
+    let sampleRate = 0;
+    let preSkip = 0;
+    if (ascii(data, packet, 8) === "OpusHead" && packet + 12 <= data.length) {
+        sampleRate = 48000; // Opus granule positions always count 48 kHz samples
+        preSkip = data.readUInt16LE(packet + 10);
+    } else if (data[packet] === 0x01 && ascii(data, packet + 1, 6) === "vorbis" && packet + 16 <= data.length) {
+        sampleRate = data.readUInt32LE(packet + 12);
+    }
+    if (!sampleRate) {
+        return null;
+    }
+
+    // The last page of the stream carries the position of its final sample.
+    for (let offset = data.lastIndexOf("OggS", data.length - 27, "latin1"); offset >= 0; offset = data.lastIndexOf("OggS", offset - 1, "latin1")) {
+        if (offset + 27 > data.length || data.readUInt32LE(offset + 14) !== serial) continue;
+        const granule = data.readBigInt64LE(offset + 6);
+        if (granule >= BigInt(0)) {
+            return validDuration((Number(granule) - preSkip) / sampleRate);
+        }
+        if (offset === 0) break;
+    }
+
+    return null;
+}
+
+interface EbmlElement {
+    id: number;
+    size: number | null; // null = unknown size (live recordings)
+    body: number;
+}
+
+function readVint(data: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+    if (offset >= data.length) {
+        return null;
+    }
+
+    const first = data[offset];
+    let length = 1;
+    while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+    if (length > 8 || offset + length > data.length) {
+        return null;
+    }
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === (0xff >> length);
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + data[offset + i];
+        if (data[offset + i] !== 0xff) allOnes = false;
+    }
+
+    return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readEbmlElement(data: Buffer, offset: number): EbmlElement | null {
+    const id = readVint(data, offset, true);
+    if (!id) return null;
+    const size = readVint(data, offset + id.length, false);
+    if (!size) return null;
+
+    return {
+        id: id.value,
+        size: size.unknown ? null : size.value,
+        body: offset + id.length + size.length,
+    };
+}
+
+function readEbmlUint(data: Buffer, element: EbmlElement): number {
+    let value = 0;
+    for (let i = 0; i < (element.size || 0) && element.body + i < data.length; i++) {
+        value = value * 256 + data[element.body + i];
+    }
+    return value;
+}
+
+function readEbmlFloat(data: Buffer, element: EbmlElement): number | null {
+    if (element.size === 4 && element.body + 4 <= data.length) return data.readFloatBE(element.body);
+    if (element.size === 8 && element.body + 8 <= data.length) return data.readDoubleBE(element.body);
+    return null;
+}
+
+function readBlockTimecode(data: Buffer, element: EbmlElement): number | null {
+    // Block header: track number (vint), then a signed 16-bit timecode relative to the cluster.
+    const track = readVint(data, element.body, false);
+    if (!track || element.body + track.length + 2 > data.length) {
+        return null;
+    }
+    return data.readInt16BE(element.body + track.length);
+}
+
+function readWebmDuration(data: Buffer): number | null {
+    const header = readEbmlElement(data, 0);
+    if (!header || header.size === null) {
+        return null;
+    }
+
+    const segment = readEbmlElement(data, header.body + header.size);
+    if (!segment || segment.id !== SEGMENT_ID) {
+        return null;
+    }
+    const segmentEnd = segment.size === null ? data.length : Math.min(data.length, segment.body + segment.size);
+
+    let timecodeScale = 1_000_000; // nanoseconds per timecode unit
+    let declaredDuration: number | null = null;
+    let lastTimecode = 0; // end of the last block seen, in timecode units
+
+    let offset = segment.body;
+    while (offset < segmentEnd) {
+        const element = readEbmlElement(data, offset);
+        if (!element) break;
+
+        if (element.id === INFO_ID && element.size !== null) {
+            const infoEnd = Math.min(element.body + element.size, segmentEnd);
+            for (let child = readEbmlElement(data, element.body); child && child.size !== null && child.body <= infoEnd; child = readEbmlElement(data, child.body + child.size)) {
+                if (child.id === TIMECODE_SCALE_ID) timecodeScale = readEbmlUint(data, child) || timecodeScale;
+                if (child.id === DURATION_ID) declaredDuration = readEbmlFloat(data, child);
+                if (child.body + child.size >= infoEnd) break;
+            }
+            offset = element.body + element.size;
+            continue;
+        }
+
+        if (element.id === CLUSTER_ID) {
+            // Browser recordings (MediaRecorder) have no Duration and write
+            // clusters of unknown size, so the last block's time is the duration.
+            const clusterEnd = element.size === null ? segmentEnd : Math.min(element.body + element.size, segmentEnd);
+            let clusterTimecode = 0;
+            let child = element.body;
+
+            while (child < clusterEnd) {
+                const childElement = readEbmlElement(data, child);
+                if (!childElement || childElement.size === null || !CLUSTER_CHILD_IDS.has(childElement.id)) break;
+
+                if (childElement.id === CLUSTER_TIMECODE_ID) {
+                    clusterTimecode = readEbmlUint(data, childElement);
+                } else if (childElement.id === SIMPLE_BLOCK_ID) {
+                    const relative = readBlockTimecode(data, childElement);
+                    if (relative !== null) lastTimecode = Math.max(lastTimecode, clusterTimecode + relative);
+                } else if (childElement.id === BLOCK_GROUP_ID) {
+                    let relative: number | null = null;
+                    let blockDuration = 0;
+                    const groupEnd = childElement.body + childElement.size;
+                    for (let inner = childElement.body; inner < groupEnd;) {
+                        const innerElement = readEbmlElement(data, inner);
+                        if (!innerElement || innerElement.size === null) break;
+                        if (innerElement.id === BLOCK_ID) relative = readBlockTimecode(data, innerElement);
+                        if (innerElement.id === BLOCK_DURATION_ID) blockDuration = readEbmlUint(data, innerElement);
+                        inner = innerElement.body + innerElement.size;
+                    }
+                    if (relative !== null) lastTimecode = Math.max(lastTimecode, clusterTimecode + relative + blockDuration);
+                }
+
+                child = childElement.body + childElement.size;
+            }
+
+            offset = element.size === null ? child : element.body + element.size;
+            continue;
+        }
+
+        if (element.size === null) break;
+        offset = element.body + element.size;
+    }
+
+    if (declaredDuration !== null) {
+        return validDuration((declaredDuration * timecodeScale) / 1e9);
+    }
+    return validDuration((lastTimecode * timecodeScale) / 1e9);
+}
+
+/**
+ * How much of a `duration`-second recording the timed transcript segments
+ * cover, counting overlapping segments once. Returns null when the duration
+ * is unknown or no segment has times.
+ */
+export function measureTranscriptCoverage(
+    segments: TranscriptionSegment[],
+    duration: number | null | undefined
+): TranscriptCoverage | null {
+    if (!duration || duration <= 0) {
+        return null;
+    }
+
+    const intervals = segments
+        .filter((segment) => typeof segment.startTime === "number" && typeof segment.endTime === "number" && segment.endTime > segment.startTime)
+        .map((segment) => [Math.max(0, segment.startTime as number), Math.min(duration, segment.endTime as number)])
+        .filter(([start, end]) => end > start)
+        .sort((a, b) => a[0] - b[0]);
+    if (intervals.length === 0) {
+        return null;
+    }
+
+    let coveredSeconds = 0;
+    let [currentStart, currentEnd] = intervals[0];
+    for (const [start, end] of intervals.slice(1)) {
+        if (start > currentEnd) {
+            coveredSeconds += currentEnd - currentStart;
+            [currentStart, currentEnd] = [start, end];
+        } else {
+            currentEnd = Math.max(currentEnd, end);
+        }
+    }
+    coveredSeconds += currentEnd - currentStart;
+
+    const ratio = Math.min(1, coveredSeconds / duration);
+    return { coveredSeconds, ratio, flagged: ratio < MIN_TRANSCRIPT_COVERAGE };
+}
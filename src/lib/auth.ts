@@ -0,0 +1,250 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import {
+    SESSION_COOKIE_NAME,
+    SESSION_MAX_AGE_SECONDS,
+    createSessionToken,
+    verifySessionToken,
+} from "@/lib/session";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const PASSWORD_KEY_LENGTH = 64;
+const PASSWORD_SALT_BYTES = 16;
+const LEGACY_USER_ID_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+interface AppUserRow {
+    id: string;
+    email: string;
+    password_hash: string;
+    display_name: string | null;
+}
+
+export interface SessionUser {
+    id: string;
+    email: string;
+    displayName: string | null;
+}
+
+function toSessionUser(row: AppUserRow): SessionUser {
+    return {
+        id: row.id,
+        email: row.email,
+        displayName: row.display_name,
+    };
+}
+
+export function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * Hash a password as `scrypt$<salt>$<hash>` (both base64url).
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(PASSWORD_SALT_BYTES);
+    const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+    return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split("$");
+    if (scheme !== "scrypt" || !salt || !hash) {
+        return false;
+    }
+
+    const expected = Buffer.from(hash, "base64url");
+    const actual = await scryptAsync(password, Buffer.from(salt, "base64url"), expected.length);
+    return timingSafeEqual(expected, actual);
+}
+
+async function getUserRowById(userId: string): Promise<AppUserRow | null> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("app_users")
+        .select("id, email, password_hash, display_name")
+        .eq("id", userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load user: ${error.message}`);
+    }
+
+    return data as AppUserRow | null;
+}
+
+async function getUserRowByEmail(email: string): Promise<AppUserRow | null> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("app_users")
+        .select("id, email, password_hash, display_name")
+        .eq("email", normalizeEmail(email))
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load user: ${error.message}`);
+    }
+
+    return data as AppUserRow | null;
+}
+
+export async function isEmailRegistered(email: string): Promise<boolean> {
+    return (await getUserRowByEmail(email)) !== null;
+}
+
+export async function createUserAccount(email: string, password: string, displayName?: string): Promise<SessionUser> {
+    const supabase = getSupabaseServerClient();
+
+    const row: AppUserRow = {
+        id: `user_${randomUUID()}`,
+        email: normalizeEmail(email),
+        password_hash: await hashPassword(password),
+        display_name: displayName?.trim() || null,
+    };
+
+    const { error } = await supabase.from("app_users").insert({
+        ...row,
+        last_login_at: new Date().toISOString(),
+    });
+
+    if (error) {
+        throw new Error(`Failed to create account: ${error.message}`);
+    }
+
+    return toSessionUser(row);
+}
+
+/**
+ * Check an email/password pair. Returns null when either is wrong.
+ */
+export async function authenticateUser(email: string, password: string): Promise<SessionUser | null> {
+    const row = await getUserRowByEmail(email);
+    if (!row || !(await verifyPassword(password, row.password_hash))) {
+        return null;
+    }
+
+    const supabase = getSupabaseServerClient();
+    await supabase
+        .from("app_users")
+        .update({ last_login_at: new Date().toISOString() })
+        .eq("id", row.id);
+
+    return toSessionUser(row);
+}
+
+async function getUserForToken(token: string | undefined): Promise<SessionUser | null> {
+    const payload = verifySessionToken(token);
+    if (!payload) {
+        return null;
+    }
+
+    const row = await getUserRowById(payload.sub);
+    return row ? toSessionUser(row) : null;
+}
+
+// Lookups are cached per request so helpers that need the user (such as
+// resolveGeminiApiKeyForRequest) do not hit the database again.
+const sessionUserCache = new WeakMap<NextRequest, Promise<SessionUser | null>>();
+
+/**
+ * The signed-in user for an API request, or null. Every API route resolves its
+ * user through this helper.
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+    let user = sessionUserCache.get(request);
+    if (!user) {
+        user = getUserForToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+        sessionUserCache.set(request, user);
+    }
+    return user;
+}
+
+/**
+ * The signed-in user for a server component or server action, or null.
+ */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+    const cookieStore = await cookies();
+    return getUserForToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+}
+
+export function setSessionCookie(response: NextResponse, userId: string): void {
+    response.cookies.set(SESSION_COOKIE_NAME, createSessionToken(userId), {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+    response.cookies.set(SESSION_COOKIE_NAME, "", {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: 0,
+    });
+}
+
+/**
+ * Move data stored under an anonymous browser id (from before accounts existed)
+ * to `userId`. Each anonymous id can be claimed once; returns false when it was
+ * already claimed or is not a valid id.
+ */
+export async function claimLegacyUserData(legacyUserId: string, userId: string): Promise<boolean> {
+    if (!LEGACY_USER_ID_PATTERN.test(legacyUserId)) {
+        return false;
+    }
+
+    const supabase = getSupabaseServerClient();
+
+    const { error: claimError } = await supabase
+        .from("legacy_user_claims")
+        .insert({ legacy_user_id: legacyUserId, user_id: userId });
+
+    if (claimError) {
+        // 23505: unique violation, the id belongs to another account already.
+        if (claimError.code === "23505") {
+            return false;
+        }
+        throw new Error(`Failed to claim anonymous data: ${claimError.message}`);
+    }
+
+    const { data: existingKey, error: keyError } = await supabase
+        .from("user_gemini_keys")
+        .select("user_id")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (keyError) {
+        throw new Error(`Failed to load Gemini API key: ${keyError.message}`);
+    }
+
+    // A key saved on the account wins over the one from the anonymous browser.
+    const { error: moveError } = existingKey
+        ? await supabase.from("user_gemini_keys").delete().eq("user_id", legacyUserId)
+        : await supabase.from("user_gemini_keys").update({ user_id: userId }).eq("user_id", legacyUserId);
+
+    if (moveError) {
+        throw new Error(`Failed to move Gemini API key: ${moveError.message}`);
+    }
+
+    const { error: jobsError } = await supabase
+        .from("processing_jobs")
+        .update({ user_id: userId })
+        .eq("user_id", legacyUserId);
+
+    if (jobsError) {
+        throw new Error(`Failed to move processing jobs: ${jobsError.message}`);
+    }
+
+    return true;
+}
@@ -0,0 +1,144 @@
+import { mkdir, readFile, rm, rmdir, writeFile } from "fs/promises";
+import path from "path";
+import { getSupabaseServerClient } from "@/lib/supabase";
+
+// Bucket created by supabase/migrations/013_recordings.sql.
+const DEFAULT_BUCKET = "recordings";
+
+export interface BlobStore {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<Buffer | null>;
+    // A URL the browser can load directly, or null when the store has none and
+    // the blob must be served by the app.
+    getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+    // Keys that do not exist are ignored.
+    delete(keys: string[]): Promise<void>;
+}
+
+/**
+ * Blob store backed by a private Supabase Storage bucket. Playback uses
+ * short-lived signed URLs so the bucket never has to be public.
+ */
+export function createSupabaseBlobStore(bucket: string = DEFAULT_BUCKET): BlobStore {
+    const storage = () => getSupabaseServerClient().storage.from(bucket);
+
+    return {
+        async put(key, data, contentType) {
+            const { error } = await storage().upload(key, data, { contentType, upsert: true });
+            if (error) {
+                throw new Error(`Failed to store ${key}: ${error.message}`);
+            }
+        },
+
+        async get(key) {
+            const { data, error } = await storage().download(key);
+            if (error || !data) {
+                return null;
+            }
+            return Buffer.from(await data.arrayBuffer());
+        },
+
+        async getSignedUrl(key, expiresInSeconds) {
+            const { data, error } = await storage().createSignedUrl(key, expiresInSeconds);
+            if (error) {
+                throw new Error(`Failed to sign URL for ${key}: ${error.message}`);
+            }
+            return data.signedUrl;
+        },
+
+        async delete(keys) {
+            if (keys.length === 0) return;
+
+            const { error } = await storage().remove(keys);
+            if (error) {
+                throw new Error(`Failed to delete ${keys.join(", ")}: ${error.message}`);
+            }
+        },
+    };
+}
+
+/**
+ * Blob store that keeps files under a local directory, for development
+ * without Supabase Storage. It has no signed URLs; the app serves the files.
+ */
+export function createLocalBlobStore(rootDir: string): BlobStore {
+    const root = path.resolve(rootDir);
+    const resolveKey = (key: string) => {
+        const filePath = path.resolve(root, key);
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error(`Invalid blob key: ${key}`);
+        }
+        return filePath;
+    };
+
+    return {
+        async put(key, data) {
+            const filePath = resolveKey(key);
+            await mkdir(path.dirname(filePath), { recursive: true });
+            await writeFile(filePath, data);
+        },
+
+        async get(key) {
+            try {
+                return await readFile(resolveKey(key));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                    return null;
+                }
+                throw error;
+            }
+        },
+
+        async getSignedUrl() {
+            return null;
+        },
+
+        async delete(keys) {
+            for (const key of keys) {
+                const filePath = resolveKey(key);
+                await rm(filePath, { force: true });
+                // Drop the meeting directory once it is empty; rmdir refuses otherwise.
+                await rmdir(path.dirname(filePath)).catch(() => undefined);
+            }
+        },
+    };
+}
+
+let blobStore: BlobStore | null = null;
+
+/**
+ * The blob store selected by `REMEMBRY_BLOB_STORE` ("supabase", the default,
+ * or "local").
+ */
+export function getBlobStore(): BlobStore {
+    if (blobStore) {
+        return blobStore;
+    }
+
+    blobStore = process.env.REMEMBRY_BLOB_STORE === "local"
+        ? createLocalBlobStore(process.env.REMEMBRY_BLOB_DIR || path.join(process.cwd(), "storage"))
+        : createSupabaseBlobStore(process.env.REMEMBRY_STORAGE_BUCKET || DEFAULT_BUCKET);
+
+    return blobStore;
+}
+
+/**
+ * Key of the original recording of a meeting.
+ */
+export function recordingKey(meetingId: string, fileName: string): string {
+    return `meetings/${meetingId}/recording${path.extname(fileName)}`;
+}
+
+/**
+ * Key of the transcript file a text meeting was uploaded as.
+ */
+export function transcriptKey(meetingId: string): string {
+    return `meetings/${meetingId}/transcript.txt`;
+}
+
+/**
+ * Keys of every blob stored for a meeting.
+ */
+export function meetingBlobKeys(meeting: { audio_path?: string | null; transcript_path?: string | null }): string[] {
+    return [meeting.audio_path, meeting.transcript_path].filter((key): key is string => Boolean(key));
+}
@@ -1,36 +1,20 @@
-export const REMEMBRY_USER_ID_STORAGE_KEY = "remembry_user_id";
-export const REMEMBRY_USER_ID_HEADER = "x-remembry-user-id";
+// Before accounts existed, each browser kept an anonymous id in localStorage and
+// sent it with every request. On login or signup the id is handed to the server
+// once so data saved under it moves to the account, then it is removed.
+export const LEGACY_USER_ID_STORAGE_KEY = "remembry_user_id";
 
-function generateUserId(): string {
-    if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
-        return crypto.randomUUID();
-    }
-
-    return `user_${Math.random().toString(36).slice(2)}_${Date.now()}`;
-}
-
-export function getOrCreateRemembryUserId(): string {
+export function getLegacyRemembryUserId(): string | null {
     if (typeof window === "undefined") {
-        return "";
+        return null;
     }
 
-    const existing = localStorage.getItem(REMEMBRY_USER_ID_STORAGE_KEY);
-    if (existing) {
-        return existing;
-    }
-
-    const created = generateUserId();
-    localStorage.setItem(REMEMBRY_USER_ID_STORAGE_KEY, created);
-    return created;
+    return localStorage.getItem(LEGACY_USER_ID_STORAGE_KEY);
 }
 
-export function buildUserHeaders(baseHeaders?: HeadersInit): HeadersInit {
-    const headers = new Headers(baseHeaders || {});
-    const userId = getOrCreateRemembryUserId();
-
-    if (userId) {
-        headers.set(REMEMBRY_USER_ID_HEADER, userId);
+export function clearLegacyRemembryUserId(): void {
+    if (typeof window === "undefined") {
+        return;
     }
 
-    return headers;
+    localStorage.removeItem(LEGACY_USER_ID_STORAGE_KEY);
 }
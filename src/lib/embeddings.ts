@@ -0,0 +1,97 @@
+import { GoogleGenAI } from "@google/genai";
+import { createHash } from "crypto";
+import { recordGeminiUsage, UsageContext } from "@/lib/usage";
+
+// Embedding model used for the project RAG store. The dimension must match the
+// vector column in supabase/migrations/002_document_chunks.sql.
+export const EMBEDDING_MODEL = "gemini-embedding-001";
+export const EMBEDDING_DIMENSIONS = 768;
+
+export const EMBEDDING_BATCH_SIZE = 100;
+
+export type EmbeddingTaskType = "RETRIEVAL_DOCUMENT" | "RETRIEVAL_QUERY";
+
+export interface Embedder {
+    embed(texts: string[], taskType: EmbeddingTaskType): Promise<number[][]>;
+}
+
+/**
+ * Scale `vector` to unit length so cosine and inner-product rankings agree.
+ */
+export function normalizeEmbedding(vector: number[]): number[] {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (length === 0) {
+        return vector;
+    }
+    return vector.map((value) => value / length);
+}
+
+/**
+ * Embedder backed by the Gemini embedding API. Texts are sent in batches and the
+ * resulting vectors are normalized. Each batch is recorded against `usage` when
+ * given.
+ */
+export function createGeminiEmbedder(apiKey?: string, usage?: UsageContext): Embedder {
+    const resolvedApiKey = apiKey || process.env.GEMINI_API_KEY || process.env.API_KEY;
+    if (!resolvedApiKey) {
+        throw new Error("Gemini API key is not set");
+    }
+    const genAI = new GoogleGenAI({ apiKey: resolvedApiKey });
+
+    return {
+        async embed(texts, taskType) {
+            const vectors: number[][] = [];
+
+            for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+                const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+                const response = await genAI.models.embedContent({
+                    model: EMBEDDING_MODEL,
+                    contents: batch,
+                    config: {
+                        taskType,
+                        outputDimensionality: EMBEDDING_DIMENSIONS,
+                    },
+                });
+                await recordGeminiUsage(
+                    usage,
+                    EMBEDDING_MODEL,
+                    taskType === "RETRIEVAL_QUERY" ? "embed_query" : "embed_documents"
+                );
+
+                const embeddings = response.embeddings || [];
+                if (embeddings.length !== batch.length) {
+                    throw new Error(`Expected ${batch.length} embeddings but received ${embeddings.length}`);
+                }
+
+                for (const embedding of embeddings) {
+                    vectors.push(normalizeEmbedding(embedding.values || []));
+                }
+            }
+
+            return vectors;
+        },
+    };
+}
+
+/**
+ * Deterministic offline embedder that hashes word tokens into a fixed number of
+ * buckets. Texts sharing words end up close together, which is enough for tests
+ * and local development without network access.
+ */
+export function createStubEmbedder(dimensions: number = EMBEDDING_DIMENSIONS): Embedder {
+    return {
+        async embed(texts) {
+            return texts.map((text) => {
+                const vector = new Array<number>(dimensions).fill(0);
+                const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+                for (const token of tokens) {
+                    const bucket = createHash("sha256").update(token).digest().readUInt32BE(0) % dimensions;
+                    vector[bucket] += 1;
+                }
+
+                return normalizeEmbedding(vector);
+            });
+        },
+    };
+}
@@ -1,14 +1,22 @@
-import { GoogleGenAI } from "@google/genai";
 import { SupabaseClient } from "@supabase/supabase-js";
-import { RagStore, CustomMetadata } from "../types";
+import { RagStore, CustomMetadata, ChatMessage, GroundingChunk, QueryResult } from "../types";
 import { readFile } from "fs/promises";
 import { randomUUID } from "crypto";
 import { getSupabaseServerClient } from "@/lib/supabase";
+import type { Embedder } from "@/lib/embeddings";
+import type { TranscriptionSegment } from "@/lib/gemini";
+import type { UsageContext } from "@/lib/usage";
+import { createGeminiLlmProvider } from "@/lib/gemini";
+import { findAiProviderOption, resolveAiProviders, type LlmProvider, type SelectableAiProvider } from "@/lib/aiProviders";
+import { getBlobStore, meetingBlobKeys } from "@/lib/blobStore";
 
 type ProjectRow = {
     id: string;
     display_name: string;
     color: string | null;
+    description: string | null;
+    goals: string | null;
+    transcription_provider: SelectableAiProvider | null;
     created_at: string;
 };
 
@@ -27,30 +35,122 @@ export interface Meeting {
     displayName: string;
     uploadTime?: string;
     mimeType?: string;
+    durationSeconds?: number; // Length of the recording, when known
 }
 
 export interface Project {
     name: string;
     displayName: string;
     color?: string;
+    description: string;
+    goals: string;
+    transcriptionProvider: SelectableAiProvider | null; // Null uses the owner's setting
     createdAt: string;
     meetings: Meeting[];
     meetingCount: number;
 }
 
-let supabase: SupabaseClient | null = null;
+export type ProjectDetails = Omit<Project, "meetings" | "meetingCount">;
 
-const GENERATION_MODEL = "gemini-3-flash-preview"; // Analysis/generation tasks
-const DEFAULT_PROJECT_COLOR = "bg-blue-500";
+export interface ProjectFields {
+    displayName: string;
+    color: string;
+    description: string;
+    goals: string;
+    transcriptionProvider: SelectableAiProvider | null;
+}
 
-function getGeminiClient(apiKey?: string): GoogleGenAI {
-    const resolvedApiKey = apiKey || process.env.GEMINI_API_KEY || process.env.API_KEY;
-    if (!resolvedApiKey) {
-        throw new Error("Gemini API key is not set");
-    }
-    return new GoogleGenAI({ apiKey: resolvedApiKey });
+type MeetingTranscriptRow = {
+    id: string;
+    title: string;
+    transcription: {
+        segments?: Array<{ speaker: string; text: string; startTime?: number; endTime?: number }>;
+    } | null;
+};
+
+interface RetrievedPassage {
+    documentId: string;
+    meetingId?: string;
+    title: string;
+    segmentIndex?: number;
+    speaker?: string;
+    text: string;
+    startTime?: number;
+    score: number;
+}
+
+type ChunkMatchRow = {
+    id: string;
+    document_id: string;
+    chunk_index: number;
+    content: string;
+    metadata: Record<string, unknown> | null;
+    similarity: number;
+};
+
+export interface TranscriptChunk {
+    content: string;
+    segmentIndex: number;
+    startTime?: number;
+    endTime?: number;
+    speakers: string[];
 }
 
+export interface RagSearchResult {
+    id: string;
+    documentId: string;
+    content: string;
+    score: number;
+    metadata: {
+        meetingId?: string;
+        title?: string;
+        segmentIndex?: number;
+        startTime?: number;
+        endTime?: number;
+        speakers?: string[];
+    };
+}
+
+export interface UploadToRagStoreOptions {
+    segments?: TranscriptionSegment[];
+    ownerId?: string | null;
+    embedder?: Embedder | null; // Without one the document is only found by keyword search
+}
+
+export interface SearchRagStoreOptions {
+    documentName?: string;
+    embedder: Embedder;
+}
+
+export interface QueryRagStoreOptions {
+    documentName?: string;
+    apiKey?: string;
+    embedder?: Embedder | null; // Without one passages are found by keyword search
+    llm?: LlmProvider; // Writes the answer; Gemini when not given
+    usage?: UsageContext;
+}
+
+let supabase: SupabaseClient | null = null;
+
+const DEFAULT_PROJECT_COLOR = "bg-blue-500";
+const PROJECT_COLUMNS = "id, display_name, color, description, goals, transcription_provider, created_at";
+const MAX_PROJECT_NAME_LENGTH = 100;
+const MAX_PROJECT_TEXT_LENGTH = 2000;
+const CHAT_MAX_SOURCES = 8;
+const CHUNK_MAX_CHARS = 1500;
+const CHAT_MAX_HISTORY_MESSAGES = 12;
+
+// Colors are Tailwind classes rendered as they are, so only these are accepted.
+export const PROJECT_COLORS = [
+    "bg-blue-500",
+    "bg-violet-500",
+    "bg-emerald-500",
+    "bg-amber-500",
+    "bg-rose-500",
+    "bg-cyan-500",
+    "bg-slate-500",
+];
+
 export function initialize() {
     if (!supabase) {
         supabase = getSupabaseServerClient();
@@ -127,7 +227,403 @@ async function getDocumentsForProject(projectId: string): Promise<DocumentRow[]>
     return (data || []) as DocumentRow[];
 }
 
-export async function createRagStore(displayName: string): Promise<string> {
+function splitLongText(text: string, maxChars: number): string[] {
+    const sentences = text.match(/[^.!?。！？\n]+[.!?。！？]*\s*/g) || [text];
+    const parts: string[] = [];
+    let current = "";
+
+    for (const sentence of sentences) {
+        if (current && current.length + sentence.length > maxChars) {
+            parts.push(current.trim());
+            current = "";
+        }
+        current += sentence;
+    }
+
+    if (current.trim()) {
+        parts.push(current.trim());
+    }
+
+    return parts;
+}
+
+/**
+ * Group consecutive transcript segments into chunks of at most `maxChars`
+ * characters. Segments are never merged across a chunk boundary; a single
+ * segment longer than the limit is split on sentence boundaries instead.
+ */
+export function chunkTranscriptSegments(
+    segments: TranscriptionSegment[],
+    maxChars: number = CHUNK_MAX_CHARS
+): TranscriptChunk[] {
+    const chunks: TranscriptChunk[] = [];
+    let current: TranscriptChunk | null = null;
+
+    const flush = () => {
+        if (current && current.content.trim()) {
+            chunks.push({ ...current, content: current.content.trim() });
+        }
+        current = null;
+    };
+
+    segments.forEach((segment, index) => {
+        const text = segment.text?.trim();
+        if (!text) return;
+
+        const line = segment.speaker ? `${segment.speaker}: ${text}` : text;
+
+        if (line.length > maxChars) {
+            flush();
+            for (const part of splitLongText(line, maxChars)) {
+                chunks.push({
+                    content: part,
+                    segmentIndex: index,
+                    startTime: segment.startTime,
+                    endTime: segment.endTime,
+                    speakers: segment.speaker ? [segment.speaker] : [],
+                });
+            }
+            return;
+        }
+
+        if (current && current.content.length + line.length + 1 > maxChars) {
+            flush();
+        }
+
+        if (!current) {
+            current = {
+                content: "",
+                segmentIndex: index,
+                startTime: segment.startTime,
+                endTime: segment.endTime,
+                speakers: [],
+            };
+        }
+
+        current.content += `${line}\n`;
+        current.endTime = segment.endTime ?? current.endTime;
+        if (segment.speaker && !current.speakers.includes(segment.speaker)) {
+            current.speakers.push(segment.speaker);
+        }
+    });
+
+    flush();
+    return chunks;
+}
+
+async function indexDocumentChunks(
+    documentId: string,
+    projectId: string,
+    chunks: TranscriptChunk[],
+    metadata: Record<string, unknown>,
+    embeddings: number[][]
+): Promise<void> {
+    if (chunks.length === 0) {
+        return;
+    }
+
+    const rows = chunks.map((chunk, index) => ({
+        id: `${documentId}/chunks/${index}`,
+        document_id: documentId,
+        project_id: projectId,
+        chunk_index: index,
+        content: chunk.content,
+        metadata: {
+            meetingId: metadata.meetingId,
+            title: metadata.title,
+            segmentIndex: chunk.segmentIndex,
+            startTime: chunk.startTime,
+            endTime: chunk.endTime,
+            speakers: chunk.speakers,
+        },
+        embedding: embeddings[index],
+    }));
+
+    const { error } = await getSupabase().from("project_document_chunks").insert(rows);
+    if (error) {
+        throw new Error(`Failed to save document chunks: ${error.message}`);
+    }
+}
+
+function toNumber(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Rank the embedded transcript chunks of a project against a query.
+ */
+export async function searchRagStore(
+    projectId: string,
+    query: string,
+    topK: number,
+    options: SearchRagStoreOptions
+): Promise<RagSearchResult[]> {
+    const [queryEmbedding] = await options.embedder.embed([query], "RETRIEVAL_QUERY");
+
+    const { data, error } = await getSupabase().rpc("match_project_document_chunks", {
+        p_project_id: projectId,
+        p_query_embedding: queryEmbedding,
+        p_match_count: topK,
+        p_document_id: options.documentName || null,
+    });
+
+    if (error) {
+        throw new Error(`Failed to search project documents: ${error.message}`);
+    }
+
+    return ((data || []) as ChunkMatchRow[]).map((row) => {
+        const metadata = row.metadata || {};
+        return {
+            id: row.id,
+            documentId: row.document_id,
+            content: row.content,
+            score: row.similarity,
+            metadata: {
+                meetingId: typeof metadata.meetingId === "string" ? metadata.meetingId : undefined,
+                title: typeof metadata.title === "string" ? metadata.title : undefined,
+                segmentIndex: toNumber(metadata.segmentIndex),
+                startTime: toNumber(metadata.startTime),
+                endTime: toNumber(metadata.endTime),
+                speakers: Array.isArray(metadata.speakers) ? metadata.speakers.map(String) : undefined,
+            },
+        };
+    });
+}
+
+function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((token) => token.length > 1);
+}
+
+function scorePassage(queryTokens: Set<string>, text: string): number {
+    if (queryTokens.size === 0) return 0;
+
+    let score = 0;
+    for (const token of tokenize(text)) {
+        if (queryTokens.has(token)) {
+            score += 1;
+        }
+    }
+
+    return score;
+}
+
+async function getMeetingTranscripts(meetingIds: string[]): Promise<Map<string, MeetingTranscriptRow>> {
+    const transcripts = new Map<string, MeetingTranscriptRow>();
+    if (meetingIds.length === 0) {
+        return transcripts;
+    }
+
+    const client = getSupabase();
+    const { data, error } = await client
+        .from("meetings")
+        .select("id, title, transcription")
+        .in("id", meetingIds);
+
+    if (error) {
+        throw new Error(`Failed to load meeting transcripts: ${error.message}`);
+    }
+
+    for (const row of (data || []) as MeetingTranscriptRow[]) {
+        transcripts.set(row.id, row);
+    }
+
+    return transcripts;
+}
+
+/**
+ * Collect the transcript passages of a project (or a single document) ranked by
+ * keyword overlap with the query. Passages are transcript segments when the
+ * source meeting is known, otherwise paragraphs of the stored document.
+ * Used for documents stored without chunk embeddings and when the query
+ * cannot be embedded.
+ */
+async function retrievePassagesByKeyword(ragStoreName: string, query: string, documentName?: string): Promise<RetrievedPassage[]> {
+    const documents = (await getDocumentsForProject(ragStoreName))
+        .filter((doc) => !documentName || doc.id === documentName);
+
+    const meetingIds = documents
+        .map((doc) => doc.metadata?.meetingId)
+        .filter((id): id is string => typeof id === "string" && id.length > 0);
+    const transcripts = await getMeetingTranscripts(Array.from(new Set(meetingIds)));
+
+    const queryTokens = new Set(tokenize(query));
+    const passages: RetrievedPassage[] = [];
+
+    for (const doc of documents) {
+        const meetingId = typeof doc.metadata?.meetingId === "string" ? doc.metadata.meetingId : undefined;
+        const transcript = meetingId ? transcripts.get(meetingId) : undefined;
+        const segments = transcript?.transcription?.segments || [];
+
+        if (transcript && segments.length > 0) {
+            segments.forEach((segment, index) => {
+                passages.push({
+                    documentId: doc.id,
+                    meetingId,
+                    title: transcript.title,
+                    segmentIndex: index,
+                    speaker: segment.speaker,
+                    text: segment.text,
+                    startTime: segment.startTime,
+                    score: scorePassage(queryTokens, segment.text),
+                });
+            });
+            continue;
+        }
+
+        doc.content
+            .split(/\n\s*\n/)
+            .map((paragraph) => paragraph.trim())
+            .filter((paragraph) => paragraph.length > 0)
+            .forEach((paragraph) => {
+                passages.push({
+                    documentId: doc.id,
+                    meetingId,
+                    title: doc.display_name,
+                    text: paragraph,
+                    score: scorePassage(queryTokens, paragraph),
+                });
+            });
+    }
+
+    return passages
+        .filter((passage) => passage.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CHAT_MAX_SOURCES);
+}
+
+async function retrievePassages(
+    ragStoreName: string,
+    query: string,
+    options: QueryRagStoreOptions
+): Promise<RetrievedPassage[]> {
+    if (!options.embedder) {
+        return retrievePassagesByKeyword(ragStoreName, query, options.documentName);
+    }
+
+    let results: RagSearchResult[];
+    try {
+        results = await searchRagStore(ragStoreName, query, CHAT_MAX_SOURCES, {
+            documentName: options.documentName,
+            embedder: options.embedder,
+        });
+    } catch (error) {
+        // An exhausted quota or embedding outage should not take chat down.
+        console.warn("Embedding search failed, falling back to keyword search:", error);
+        return retrievePassagesByKeyword(ragStoreName, query, options.documentName);
+    }
+
+    if (results.length === 0) {
+        return retrievePassagesByKeyword(ragStoreName, query, options.documentName);
+    }
+
+    return results.map((result) => ({
+        documentId: result.documentId,
+        meetingId: result.metadata.meetingId,
+        title: result.metadata.title || "Transcript",
+        segmentIndex: result.metadata.segmentIndex,
+        speaker: result.metadata.speakers?.join(", "),
+        text: result.content,
+        startTime: result.metadata.startTime,
+        score: result.score,
+    }));
+}
+
+function formatPassageTime(seconds?: number): string {
+    if (seconds === undefined) return "";
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return ` @ ${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function passageToGroundingChunk(passage: RetrievedPassage): GroundingChunk {
+    const anchor = passage.segmentIndex !== undefined ? `#segment-${passage.segmentIndex}` : "";
+
+    return {
+        retrievedContext: {
+            text: passage.text,
+            title: passage.title,
+            documentName: passage.documentId,
+            uri: passage.meetingId
+                ? `/meetings/${encodeURIComponent(passage.meetingId)}?tab=transcript${anchor}`
+                : undefined,
+            meetingId: passage.meetingId,
+            segmentIndex: passage.segmentIndex,
+            startTime: passage.startTime,
+        },
+    };
+}
+
+/**
+ * Answer a question about a project using only its stored meeting transcripts.
+ * The returned grounding chunks are ordered so that chunk N backs citation [N+1].
+ */
+export async function queryRagStore(
+    ragStoreName: string,
+    query: string,
+    history: ChatMessage[] = [],
+    options: QueryRagStoreOptions = {}
+): Promise<QueryResult> {
+    const passages = await retrievePassages(ragStoreName, query, options);
+
+    if (passages.length === 0) {
+        return {
+            text: "I couldn't find anything in this project's meeting transcripts that answers that question.",
+            groundingChunks: [],
+        };
+    }
+
+    const sources = passages
+        .map((passage, index) => {
+            const speaker = passage.speaker ? ` - ${passage.speaker}` : "";
+            return `[${index + 1}] ${passage.title}${formatPassageTime(passage.startTime)}${speaker}\n${passage.text}`;
+        })
+        .join("\n\n");
+
+    const systemInstruction = `You answer questions about a team's meetings using ONLY the numbered transcript excerpts provided with each question.
+- Cite every claim with the excerpt number in square brackets, e.g. [1] or [2][3].
+- If the excerpts do not contain the answer, say so plainly instead of guessing.
+- Answer in the language of the question.`;
+
+    const llm = options.llm || createGeminiLlmProvider(options.apiKey, options.usage);
+    const text = await llm.generate({
+        operation: "chat",
+        systemInstruction,
+        messages: [
+            ...history.slice(-CHAT_MAX_HISTORY_MESSAGES).map((message) => ({
+                role: message.role,
+                text: message.parts.map((part) => part.text).join(""),
+            })),
+            { role: "user", text: `Transcript excerpts:\n\n${sources}\n\nQuestion: ${query}` },
+        ],
+    });
+
+    return {
+        text,
+        groundingChunks: passages.map(passageToGroundingChunk),
+    };
+}
+
+/**
+ * Whether `projectId` exists and belongs to `ownerId`. API routes check this before
+ * reading or writing anything inside a project.
+ */
+export async function isProjectOwnedBy(projectId: string, ownerId: string): Promise<boolean> {
+    const client = getSupabase();
+    const { data, error } = await client
+        .from("projects")
+        .select("id")
+        .eq("id", projectId)
+        .eq("owner_id", ownerId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load project: ${error.message}`);
+    }
+
+    return Boolean(data);
+}
+
+export async function createRagStore(displayName: string, ownerId: string): Promise<string> {
     const client = getSupabase();
     const projectId = `project_${randomUUID()}`;
 
@@ -135,6 +631,7 @@ export async function createRagStore(displayName: string): Promise<string> {
         id: projectId,
         display_name: displayName,
         color: DEFAULT_PROJECT_COLOR,
+        owner_id: ownerId,
     });
 
     if (error) {
@@ -149,8 +646,9 @@ export async function uploadToRagStore(
     filePath: string,
     mimeType: string,
     displayName?: string,
-    customMetadata?: CustomMetadata[]
-): Promise<void> {
+    customMetadata?: CustomMetadata[],
+    options: UploadToRagStoreOptions = {}
+): Promise<string> {
     const client = getSupabase();
     const content = await readFile(filePath, "utf-8");
     const metadata = normalizeMetadata(customMetadata);
@@ -163,11 +661,158 @@ export async function uploadToRagStore(
         mime_type: mimeType,
         content,
         metadata,
+        owner_id: options.ownerId ?? null,
     });
 
     if (error) {
         throw new Error(`Failed to save document to Supabase: ${error.message}`);
     }
+
+    if (!options.embedder) {
+        // No embedding model for the user's provider; chat finds the document by keyword.
+        return documentId;
+    }
+
+    const chunks = options.segments && options.segments.length > 0
+        ? chunkTranscriptSegments(options.segments)
+        : chunkTranscriptSegments([{ speaker: "", text: content }]);
+
+    let embeddings: number[][];
+    try {
+        embeddings = chunks.length > 0
+            ? await options.embedder.embed(chunks.map((chunk) => chunk.content), "RETRIEVAL_DOCUMENT")
+            : [];
+    } catch (error) {
+        // The document is kept without chunks; chat still finds it by keyword.
+        console.warn(`Failed to embed ${documentId}, it will only be found by keyword search:`, error);
+        return documentId;
+    }
+    await indexDocumentChunks(documentId, ragStoreName, chunks, metadata, embeddings);
+
+    return documentId;
+}
+
+export async function deleteMeetingDocuments(ragStoreName: string, meetingId: string): Promise<void> {
+    const client = getSupabase();
+
+    const { error } = await client
+        .from("project_documents")
+        .delete()
+        .eq("project_id", ragStoreName)
+        .eq("metadata->>meetingId", meetingId);
+
+    if (error) {
+        throw new Error(`Failed to delete meeting documents: ${error.message}`);
+    }
+}
+
+/**
+ * Carry a meeting rename or move over to its transcript documents and their
+ * chunks, so search results cite the new title and stay in the meeting's
+ * project. The embeddings do not depend on either and are kept.
+ */
+export async function updateMeetingDocuments(
+    ragStoreName: string,
+    meetingId: string,
+    changes: { title?: string; projectId?: string }
+): Promise<void> {
+    const client = getSupabase();
+
+    const { data, error } = await client
+        .from("project_documents")
+        .select("id, content, metadata")
+        .eq("project_id", ragStoreName)
+        .eq("metadata->>meetingId", meetingId);
+
+    if (error) {
+        throw new Error(`Failed to load meeting documents: ${error.message}`);
+    }
+
+    const documents = (data || []) as Array<{ id: string; content: string; metadata: Record<string, unknown> | null }>;
+    if (documents.length === 0) {
+        return;
+    }
+
+    let projectDisplayName: string | undefined;
+    if (changes.projectId) {
+        const { data: project, error: projectError } = await client
+            .from("projects")
+            .select("display_name")
+            .eq("id", changes.projectId)
+            .maybeSingle();
+
+        if (projectError) {
+            throw new Error(`Failed to load project: ${projectError.message}`);
+        }
+        projectDisplayName = project?.display_name || undefined;
+    }
+
+    for (const document of documents) {
+        const metadata: Record<string, unknown> = { ...(document.metadata || {}) };
+        const update: Record<string, unknown> = {};
+
+        if (changes.title !== undefined) {
+            metadata.title = changes.title;
+            update.display_name = `${changes.title} - Transcript`;
+            update.content = document.content.replace(/^Title: .*$/m, `Title: ${changes.title}`);
+        }
+        if (changes.projectId !== undefined) {
+            metadata.projectName = changes.projectId;
+            if (projectDisplayName) metadata.displayName = projectDisplayName;
+            update.project_id = changes.projectId;
+        }
+        update.metadata = metadata;
+
+        const { error: updateError } = await client
+            .from("project_documents")
+            .update(update)
+            .eq("id", document.id);
+
+        if (updateError) {
+            throw new Error(`Failed to update meeting document: ${updateError.message}`);
+        }
+
+        await updateDocumentChunks(document.id, changes);
+    }
+}
+
+async function updateDocumentChunks(documentId: string, changes: { title?: string; projectId?: string }): Promise<void> {
+    const client = getSupabase();
+
+    if (changes.projectId !== undefined) {
+        const { error } = await client
+            .from("project_document_chunks")
+            .update({ project_id: changes.projectId })
+            .eq("document_id", documentId);
+
+        if (error) {
+            throw new Error(`Failed to update document chunks: ${error.message}`);
+        }
+    }
+
+    if (changes.title === undefined) {
+        return;
+    }
+
+    const { data, error } = await client
+        .from("project_document_chunks")
+        .select("id, metadata")
+        .eq("document_id", documentId);
+
+    if (error) {
+        throw new Error(`Failed to load document chunks: ${error.message}`);
+    }
+
+    for (const chunk of (data || []) as Array<{ id: string; metadata: Record<string, unknown> | null }>) {
+        const { error: updateError } = await client
+            .from("project_document_chunks")
+            .update({ metadata: { ...(chunk.metadata || {}), title: changes.title } })
+            .eq("id", chunk.id);
+
+        if (updateError) {
+            throw new Error(`Failed to update document chunks: ${updateError.message}`);
+        }
+    }
 }
 
 export async function saveProjectMetadata(
@@ -183,6 +828,7 @@ export async function saveProjectMetadata(
 
 export async function analyzeMeeting(
     documentName: string,
+    ownerId: string,
     apiKey?: string
 ): Promise<{ summary: string; actionItems: string[]; metadata: unknown } | null> {
     const client = getSupabase();
@@ -192,6 +838,7 @@ export async function analyzeMeeting(
         .from("project_documents")
         .select("id, project_id, display_name, mime_type, content, metadata, created_at")
         .eq("id", decodedDocumentName)
+        .eq("owner_id", ownerId)
         .maybeSingle();
 
     if (error) {
@@ -205,12 +852,15 @@ export async function analyzeMeeting(
     const doc = data as DocumentRow;
     const prompt = `Analyze the following meeting transcript and provide:\n\n1. A concise summary (2-3 paragraphs) covering the main topics discussed, key decisions made, and overall meeting outcome.\n\n2. A list of action items extracted from the meeting. Each action item should be clear and actionable.\n\nFormat your response exactly as:\n\nSUMMARY:\n[Your summary here]\n\nACTION ITEMS:\n- [Action item 1]\n- [Action item 2]\n- [etc.]\n\nIf there are no action items, write \"ACTION ITEMS:\\n- No action items identified\"\n\nTRANSCRIPT:\n${doc.content}`;
 
-    const response = await getGeminiClient(apiKey).models.generateContent({
-        model: GENERATION_MODEL,
-        contents: prompt,
+    const { llm } = await resolveAiProviders(ownerId, apiKey, {
+        userId: ownerId,
+        meetingId: typeof doc.metadata?.meetingId === "string" ? doc.metadata.meetingId : undefined,
+        projectId: doc.project_id,
+    });
+    const analysisText = await llm.generate({
+        operation: "analyze_meeting",
+        messages: [{ role: "user", text: prompt }],
     });
-
-    const analysisText = response.text || "";
     const summaryMatch = analysisText.match(/SUMMARY:\s*([\s\S]*?)(?=ACTION ITEMS:|$)/i);
     const actionItemsMatch = analysisText.match(/ACTION ITEMS:\s*([\s\S]*?)$/i);
 
@@ -237,11 +887,12 @@ export async function analyzeMeeting(
     };
 }
 
-export async function listAllRagStores(): Promise<RagStore[]> {
+export async function listAllRagStores(ownerId: string): Promise<RagStore[]> {
     const client = getSupabase();
     const { data, error } = await client
         .from("projects")
         .select("id, display_name, created_at")
+        .eq("owner_id", ownerId)
         .order("created_at", { ascending: false });
 
     if (error) {
@@ -255,14 +906,28 @@ export async function listAllRagStores(): Promise<RagStore[]> {
     }));
 }
 
-export async function listAllProjects(): Promise<Project[]> {
+export async function listAllProjects(ownerId: string): Promise<Project[]> {
     const client = getSupabase();
-    const [{ data: projectData, error: projectError }, { data: docsData, error: docsError }] = await Promise.all([
-        client.from("projects").select("id, display_name, color, created_at").order("created_at", { ascending: false }),
+    const [
+        { data: projectData, error: projectError },
+        { data: docsData, error: docsError },
+        { data: durationData, error: durationError },
+    ] = await Promise.all([
+        client
+            .from("projects")
+            .select(PROJECT_COLUMNS)
+            .eq("owner_id", ownerId)
+            .order("created_at", { ascending: false }),
         client
             .from("project_documents")
-            .select("id, project_id, display_name, mime_type, created_at")
+            .select("id, project_id, display_name, mime_type, metadata, created_at")
+            .eq("owner_id", ownerId)
             .order("created_at", { ascending: false }),
+        client
+            .from("meetings")
+            .select("id, duration_seconds")
+            .eq("owner_id", ownerId)
+            .not("duration_seconds", "is", null),
     ]);
 
     if (projectError) {
@@ -273,15 +938,24 @@ export async function listAllProjects(): Promise<Project[]> {
         throw new Error(`Failed to list project documents: ${docsError.message}`);
     }
 
+    if (durationError) {
+        throw new Error(`Failed to list meeting durations: ${durationError.message}`);
+    }
+
+    const durations = new Map(
+        ((durationData || []) as Array<{ id: string; duration_seconds: number }>).map((row) => [row.id, row.duration_seconds])
+    );
     const meetingsByProject = new Map<string, Meeting[]>();
 
-    for (const doc of ((docsData || []) as Array<Pick<DocumentRow, "id" | "project_id" | "display_name" | "mime_type" | "created_at">>)) {
+    for (const doc of ((docsData || []) as Array<Pick<DocumentRow, "id" | "project_id" | "display_name" | "mime_type" | "metadata" | "created_at">>)) {
         const existing = meetingsByProject.get(doc.project_id) || [];
+        const meetingId = typeof doc.metadata?.meetingId === "string" ? doc.metadata.meetingId : undefined;
         existing.push({
             name: doc.id,
             displayName: doc.display_name,
             uploadTime: doc.created_at,
             mimeType: doc.mime_type || undefined,
+            durationSeconds: (meetingId && durations.get(meetingId)) || undefined,
         });
         meetingsByProject.set(doc.project_id, existing);
     }
@@ -290,18 +964,163 @@ export async function listAllProjects(): Promise<Project[]> {
         const meetings = meetingsByProject.get(project.id) || [];
 
         return {
-            name: project.id,
-            displayName: project.display_name,
-            color: project.color || DEFAULT_PROJECT_COLOR,
-            createdAt: project.created_at,
+            ...rowToProjectDetails(project),
             meetings,
             meetingCount: meetings.length,
         };
     });
 }
 
-export async function getProjectRagStore(projectName?: string, displayName?: string, color?: string): Promise<string> {
+function rowToProjectDetails(row: ProjectRow): ProjectDetails {
+    return {
+        name: row.id,
+        displayName: row.display_name,
+        color: row.color || DEFAULT_PROJECT_COLOR,
+        description: row.description || "",
+        goals: row.goals || "",
+        transcriptionProvider: row.transcription_provider || null,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * Validate project fields sent by a client. With `partial`, fields that are
+ * absent are left out of the result instead of being required. The display
+ * name is sent as `name`.
+ */
+export function parseProjectFields(
+    body: unknown,
+    partial: boolean
+): { fields: Partial<ProjectFields> } | { error: string } {
+    const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+    const fields: Partial<ProjectFields> = {};
+
+    if (input.name !== undefined || !partial) {
+        if (typeof input.name !== "string" || !input.name.trim()) {
+            return { error: "Project name is required" };
+        }
+        if (input.name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+            return { error: `Project name must be at most ${MAX_PROJECT_NAME_LENGTH} characters` };
+        }
+        fields.displayName = input.name.trim();
+    }
+
+    if (input.color !== undefined) {
+        if (!PROJECT_COLORS.includes(input.color as string)) {
+            return { error: `color must be one of ${PROJECT_COLORS.join(", ")}` };
+        }
+        fields.color = input.color as string;
+    }
+
+    for (const key of ["description", "goals"] as const) {
+        const value = input[key];
+        if (value === undefined || value === null) continue;
+        if (typeof value !== "string") {
+            return { error: `${key} must be a string` };
+        }
+        if (value.length > MAX_PROJECT_TEXT_LENGTH) {
+            return { error: `${key} must be at most ${MAX_PROJECT_TEXT_LENGTH} characters` };
+        }
+        fields[key] = value.trim();
+    }
+
+    if (input.transcriptionProvider !== undefined) {
+        if (input.transcriptionProvider === null || input.transcriptionProvider === "") {
+            fields.transcriptionProvider = null;
+        } else {
+            const found = findAiProviderOption(input.transcriptionProvider, "transcription", "transcriptionProvider");
+            if ("error" in found) {
+                return found;
+            }
+            fields.transcriptionProvider = found.option.id;
+        }
+    }
+
+    return { fields };
+}
+
+/**
+ * Rename, recolor or edit the description, goals and transcription provider
+ * of a project. Returns null when the project does not belong to `ownerId`.
+ */
+export async function updateProject(
+    projectId: string,
+    ownerId: string,
+    fields: Partial<ProjectFields>
+): Promise<ProjectDetails | null> {
+    const client = getSupabase();
+    const changes: Record<string, unknown> = {};
+
+    if (fields.displayName !== undefined) changes.display_name = fields.displayName;
+    if (fields.color !== undefined) changes.color = fields.color;
+    if (fields.description !== undefined) changes.description = fields.description;
+    if (fields.goals !== undefined) changes.goals = fields.goals;
+    if (fields.transcriptionProvider !== undefined) changes.transcription_provider = fields.transcriptionProvider;
+
+    const { data, error } = await client
+        .from("projects")
+        .update(changes)
+        .eq("id", projectId)
+        .eq("owner_id", ownerId)
+        .select(PROJECT_COLUMNS)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to update project: ${error.message}`);
+    }
+
+    return data ? rowToProjectDetails(data as ProjectRow) : null;
+}
+
+/**
+ * The goals of a project, given to the model as context for the project's
+ * meetings. Empty when none are set.
+ */
+export async function getProjectGoals(projectId: string): Promise<string> {
+    const client = getSupabase();
+    const { data, error } = await client
+        .from("projects")
+        .select("goals")
+        .eq("id", projectId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load project: ${error.message}`);
+    }
+
+    return data?.goals || "";
+}
+
+/**
+ * The transcription provider a project requires for its recordings, or null
+ * when the owner's setting applies.
+ */
+export async function getProjectTranscriptionProvider(projectId: string): Promise<SelectableAiProvider | null> {
+    const client = getSupabase();
+    const { data, error } = await client
+        .from("projects")
+        .select("transcription_provider")
+        .eq("id", projectId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load project: ${error.message}`);
+    }
+
+    return data?.transcription_provider || null;
+}
+
+export async function getProjectRagStore(
+    ownerId: string,
+    projectName?: string,
+    displayName?: string,
+    color?: string,
+    details: { description?: string; goals?: string; transcriptionProvider?: SelectableAiProvider | null } = {}
+): Promise<string> {
     if (projectName && projectName.trim()) {
+        if (!(await isProjectOwnedBy(projectName.trim(), ownerId))) {
+            throw new Error("Project not found");
+        }
         return projectName.trim();
     }
 
@@ -316,6 +1135,10 @@ export async function getProjectRagStore(projectName?: string, displayName?: str
         id: projectId,
         display_name: displayName.trim(),
         color: color || DEFAULT_PROJECT_COLOR,
+        description: details.description || "",
+        goals: details.goals || "",
+        transcription_provider: details.transcriptionProvider || null,
+        owner_id: ownerId,
     });
 
     if (error) {
@@ -333,6 +1156,7 @@ export async function getUserRagStore(userId: string): Promise<string> {
         .from("projects")
         .select("id")
         .eq("display_name", displayName)
+        .eq("owner_id", userId)
         .maybeSingle();
 
     if (existingError) {
@@ -348,6 +1172,7 @@ export async function getUserRagStore(userId: string): Promise<string> {
         id: projectId,
         display_name: displayName,
         color: DEFAULT_PROJECT_COLOR,
+        owner_id: userId,
     });
 
     if (insertError) {
@@ -358,11 +1183,11 @@ export async function getUserRagStore(userId: string): Promise<string> {
 }
 
 export async function userHasProjects(userId: string): Promise<boolean> {
-    void userId;
     const client = getSupabase();
     const { data, error } = await client
         .from("projects")
         .select("id")
+        .eq("owner_id", userId)
         .not("display_name", "like", "User_%")
         .not("display_name", "like", "System_%")
         .limit(1);
@@ -374,16 +1199,47 @@ export async function userHasProjects(userId: string): Promise<boolean> {
     return (data || []).length > 0;
 }
 
-export async function deleteRagStore(ragStoreName: string): Promise<void> {
+/**
+ * Delete a project, its documents and the stored files of its meetings.
+ * Returns false when the project does not exist or belongs to someone else.
+ */
+export async function deleteRagStore(ragStoreName: string, ownerId: string): Promise<boolean> {
     const client = getSupabase();
 
-    const { error: docsError } = await client.from("project_documents").delete().eq("project_id", ragStoreName);
+    if (!(await isProjectOwnedBy(ragStoreName, ownerId))) {
+        return false;
+    }
+
+    const { data: meetings, error: meetingsError } = await client
+        .from("meetings")
+        .select("audio_path, transcript_path")
+        .eq("project_id", ragStoreName)
+        .eq("owner_id", ownerId);
+    if (meetingsError) {
+        throw new Error(`Failed to load project meetings: ${meetingsError.message}`);
+    }
+
+    const { error: docsError } = await client
+        .from("project_documents")
+        .delete()
+        .eq("project_id", ragStoreName)
+        .eq("owner_id", ownerId);
     if (docsError) {
         throw new Error(`Failed to delete project documents: ${docsError.message}`);
     }
 
-    const { error: projectError } = await client.from("projects").delete().eq("id", ragStoreName);
+    const { error: projectError } = await client
+        .from("projects")
+        .delete()
+        .eq("id", ragStoreName)
+        .eq("owner_id", ownerId);
     if (projectError) {
         throw new Error(`Failed to delete project: ${projectError.message}`);
     }
+
+    // Meetings were removed with the project; their blobs go last so a failure
+    // leaves only unreferenced files behind.
+    await getBlobStore().delete((meetings || []).flatMap(meetingBlobKeys));
+
+    return true;
 }
@@ -1,8 +1,27 @@
 import { GoogleGenAI } from "@google/genai";
-import { createWriteStream, createReadStream } from "fs";
 import * as path from "path";
 import * as os from "os";
-import { mkdtemp, rm, readFile } from "fs/promises";
+import { mkdtemp, rm } from "fs/promises";
+import { probeAudioDuration, extractAudioWindow, FfmpegNotFoundError, AUDIO_CHUNK_EXTENSION, AUDIO_CHUNK_MIME_TYPE } from "@/lib/audioChunks";
+import { planChunkWindows, stitchTranscriptionChunks, ChunkWindow, TranscribedChunk } from "@/lib/transcriptStitching";
+import {
+    checkTranscriptQuality,
+    cleanTranscript,
+    mergeRetranscribedWindow,
+    planRetranscriptionWindows,
+    RetranscribedWindow,
+    TranscriptIssueKind,
+    TranscriptQualityReport,
+} from "@/lib/transcriptQuality";
+import { recordGeminiUsage, UsageContext } from "@/lib/usage";
+import type { LlmProvider, TranscriptionProvider, TranscriptionRequest } from "@/lib/aiProviders";
+import {
+    generateValidated,
+    validateMeetingNotesOutput,
+    validateTranscriptionOutput,
+    MEETING_NOTES_RESPONSE_SCHEMA,
+    TRANSCRIPTION_RESPONSE_SCHEMA,
+} from "@/lib/llmOutput";
 
 function createGeminiClient(apiKey?: string): GoogleGenAI {
     const resolvedApiKey = apiKey || process.env.GEMINI_API_KEY || process.env.API_KEY;
@@ -22,6 +41,14 @@ export const TRANSCRIPTION_MODEL = "gemini-3.1-flash-lite-preview";
 // Analysis model - more powerful model for final synthesis
 export const ANALYSIS_MODEL = "gemini-3-flash-preview";
 
+// Chunked transcription: recordings longer than the threshold are split into
+// overlapping windows that are transcribed one after another and stitched back.
+export const TRANSCRIPTION_CHUNK_THRESHOLD_SECONDS = 15 * 60;
+export const TRANSCRIPTION_CHUNK_SECONDS = 10 * 60;
+export const TRANSCRIPTION_CHUNK_OVERLAP_SECONDS = 20;
+// Gaps left in a transcript are transcribed again, in at most this many windows.
+export const MAX_RETRANSCRIPTION_WINDOWS = 3;
+
 export interface TranscriptionResult {
     text: string;
     segments: TranscriptionSegment[];
@@ -32,6 +59,7 @@ export interface TranscriptionResult {
         prompt: string;
         response: string;
     };
+    quality?: TranscriptQualityReport; // Set by transcribeAudio
 }
 
 export interface TranscriptionSegment {
@@ -51,7 +79,7 @@ function sleep(ms: number): Promise<void> {
 /**
  * Retry a function with exponential backoff
  */
-async function retryWithBackoff<T>(
+export async function retryWithBackoff<T>(
     fn: () => Promise<T>,
     maxRetries: number = 5,
     initialDelay: number = 5000
@@ -113,17 +141,232 @@ async function retryWithBackoff<T>(
     throw lastError || new Error("Max retries exceeded");
 }
 
+export interface TranscriptionChunkContext {
+    window: ChunkWindow;
+    chunkCount: number;
+    knownSpeakers: string[];
+}
+
+function formatClock(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function buildChunkContext(chunk: TranscriptionChunkContext): string {
+    const lines = [
+        "",
+        "CHUNK INFORMATION:",
+        `- This audio is chunk ${chunk.window.index + 1} of ${chunk.chunkCount}, covering ${formatClock(chunk.window.start)}-${formatClock(chunk.window.end)} of the full recording.`,
+        "- startTime and endTime must be relative to the start of THIS chunk (the chunk starts at 0.0).",
+        "- The first and last seconds overlap with the neighbouring chunks; transcribe them normally.",
+    ];
+
+    if (chunk.knownSpeakers.length > 0) {
+        lines.push("- Speakers identified in earlier chunks (reuse these labels EXACTLY when the voice matches):");
+        lines.push(...chunk.knownSpeakers.map((speaker) => `  - ${speaker}`));
+    }
+
+    return `${lines.join("\n")}\n`;
+}
+
 /**
- * Transcribe audio using the lighter model for speed
- * Uses gemini-2.0-flash for fast, reliable transcription
+ * Transcribe audio with `provider`.
+ * Long recordings are split into overlapping chunks and the chunk transcripts
+ * are stitched into a single result; without ffmpeg they are sent in a single
+ * request. `knownParticipants` describes people from earlier meetings so their
+ * speakers can be recognised. `knownDuration` (e.g. read from the container on
+ * upload) is used when ffprobe cannot measure the file. The result is checked
+ * and cleaned up by checkAndRepairTranscript, which attaches its quality report.
+ * @throws LlmOutputValidationError when the provider keeps returning an invalid transcript
  */
 export async function transcribeAudio(
     filePath: string,
     mimeType: string,
+    provider: TranscriptionProvider,
+    context?: string,
+    knownParticipants?: string,
+    knownDuration?: number | null
+): Promise<TranscriptionResult> {
+    const duration = (await probeAudioDuration(filePath)) || knownDuration || null;
+
+    let result: TranscriptionResult;
+    if (!duration || duration <= TRANSCRIPTION_CHUNK_THRESHOLD_SECONDS) {
+        result = await provider.transcribe({ filePath, mimeType, context, knownParticipants });
+        result = { ...result, duration: duration || result.duration };
+    } else {
+        try {
+            result = await transcribeInChunks(filePath, provider, duration, context, knownParticipants);
+        } catch (error) {
+            if (!(error instanceof FfmpegNotFoundError)) {
+                throw error;
+            }
+            // Nothing has been sent yet: the first window is cut before the first request.
+            console.warn("ffmpeg not found; transcribing the whole recording in a single request");
+            result = await provider.transcribe({ filePath, mimeType, context, knownParticipants });
+            result = { ...result, duration };
+        }
+    }
+
+    return checkAndRepairTranscript(result, filePath, provider, context, knownParticipants);
+}
+
+async function transcribeInChunks(
+    filePath: string,
+    provider: TranscriptionProvider,
+    duration: number,
+    context?: string,
+    knownParticipants?: string
+): Promise<TranscriptionResult> {
+    const windows = planChunkWindows(duration, TRANSCRIPTION_CHUNK_SECONDS, TRANSCRIPTION_CHUNK_OVERLAP_SECONDS);
+    console.log(`Recording is ${Math.round(duration)}s long; transcribing in ${windows.length} chunks`);
+
+    const chunkDir = await mkdtemp(path.join(os.tmpdir(), "remembry-chunks-"));
+    try {
+        const chunks: TranscribedChunk[] = [];
+        const knownSpeakers: string[] = [];
+
+        for (const window of windows) {
+            const chunkPath = path.join(chunkDir, `chunk-${window.index}${AUDIO_CHUNK_EXTENSION}`);
+            await extractAudioWindow(filePath, window.start, window.end - window.start, chunkPath);
+
+            const result = await provider.transcribe({
+                filePath: chunkPath,
+                mimeType: AUDIO_CHUNK_MIME_TYPE,
+                context,
+                knownParticipants,
+                chunk: {
+                    window,
+                    chunkCount: windows.length,
+                    knownSpeakers: [...knownSpeakers],
+                },
+            });
+            chunks.push({ window, result });
+
+            for (const speaker of result.speakers) {
+                if (!knownSpeakers.includes(speaker)) knownSpeakers.push(speaker);
+            }
+        }
+
+        return stitchTranscriptionChunks(chunks, duration);
+    } finally {
+        await rm(chunkDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+}
+
+function addFixes(
+    total: Partial<Record<TranscriptIssueKind, number>>,
+    fixes: Partial<Record<TranscriptIssueKind, number>>
+): void {
+    for (const [kind, count] of Object.entries(fixes) as Array<[TranscriptIssueKind, number]>) {
+        total[kind] = (total[kind] || 0) + count;
+    }
+}
+
+/**
+ * Clean up repeats, empty segments and bad timestamps, then transcribe the
+ * largest gaps again (requires ffmpeg) and merge what is found into the
+ * transcript. A failed re-transcription is recorded in the report instead of
+ * failing the whole transcription.
+ */
+async function checkAndRepairTranscript(
+    result: TranscriptionResult,
+    filePath: string,
+    provider: TranscriptionProvider,
     context?: string,
-    apiKey?: string
+    knownParticipants?: string
 ): Promise<TranscriptionResult> {
+    const duration = result.duration || null;
+    const fixes: Partial<Record<TranscriptIssueKind, number>> = {};
+    const retranscribed: RetranscribedWindow[] = [];
+
+    const cleaned = cleanTranscript(result);
+    let transcript = cleaned.result;
+    addFixes(fixes, cleaned.fixes);
+
+    const windows = planRetranscriptionWindows(
+        checkTranscriptQuality(transcript.segments, duration),
+        duration,
+        MAX_RETRANSCRIPTION_WINDOWS,
+        TRANSCRIPTION_CHUNK_SECONDS
+    );
+
+    if (windows.length > 0) {
+        console.log(`Transcript has ${windows.length} uncovered stretch(es); transcribing them again`);
+        const windowDir = await mkdtemp(path.join(os.tmpdir(), "remembry-gaps-"));
+        try {
+            for (const window of windows) {
+                try {
+                    const windowPath = path.join(windowDir, `gap-${window.index}${AUDIO_CHUNK_EXTENSION}`);
+                    await extractAudioWindow(filePath, window.start, window.end - window.start, windowPath);
+                    const windowResult = await provider.transcribe({
+                        filePath: windowPath,
+                        mimeType: AUDIO_CHUNK_MIME_TYPE,
+                        context,
+                        knownParticipants,
+                        chunk: { window, chunkCount: windows.length, knownSpeakers: [...transcript.speakers] },
+                    });
+
+                    const merged = cleanTranscript(mergeRetranscribedWindow(transcript, window, windowResult));
+                    transcript = merged.result;
+                    addFixes(fixes, merged.fixes);
+
+                    const stillUncovered = checkTranscriptQuality(transcript.segments, duration).some((issue) =>
+                        issue.kind === "gap" && (issue.start ?? 0) < window.gapEnd && (issue.end ?? 0) > window.gapStart
+                    );
+                    retranscribed.push({ start: window.gapStart, end: window.gapEnd, resolved: !stillUncovered });
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    console.warn(`Re-transcribing ${Math.round(window.gapStart)}s-${Math.round(window.gapEnd)}s failed:`, message);
+                    retranscribed.push({ start: window.gapStart, end: window.gapEnd, resolved: false, error: message });
+                }
+            }
+        } finally {
+            await rm(windowDir, { recursive: true, force: true }).catch(() => undefined);
+        }
+    }
+
+    const issues = checkTranscriptQuality(transcript.segments, duration);
+    if (issues.length > 0) {
+        console.warn(`Transcript still has ${issues.length} quality issue(s): ${issues.map((issue) => issue.detail).join("; ")}`);
+    }
+
+    return {
+        ...transcript,
+        quality: {
+            checkedAt: new Date().toISOString(),
+            passed: issues.length === 0,
+            fixes,
+            issues,
+            retranscribed,
+        },
+    };
+}
+
+/**
+ * Transcription with Gemini: the file is uploaded and the model returns
+ * segments with speakers labelled by voice. Each call is recorded against
+ * `usage` when given; responses that fail validation are requested again.
+ */
+export function createGeminiTranscriptionProvider(
+    apiKey?: string,
+    usage?: UsageContext,
+    model: string = TRANSCRIPTION_MODEL
+): TranscriptionProvider {
     const genAI = createGeminiClient(apiKey);
+    return {
+        kind: "gemini",
+        model,
+        transcribe: (request) => transcribeAudioFile(genAI, model, request, usage),
+    };
+}
+
+async function transcribeAudioFile(
+    genAI: GoogleGenAI,
+    model: string,
+    { filePath, mimeType, context, knownParticipants, chunk }: TranscriptionRequest,
+    usage?: UsageContext
+): Promise<TranscriptionResult> {
     console.log(`Uploading file for transcription: ${filePath}`);
 
     // Upload the file to Gemini
@@ -174,6 +417,9 @@ export async function transcribeAudio(
         ? `\nContext provided by user: "${context}". Use this to improve accuracy of technical terms and names.`
         : "";
 
+    const chunkContext = chunk ? buildChunkContext(chunk) : "";
+    const participantContext = knownParticipants ? `\n${knownParticipants}\n` : "";
+
     const prompt = `You are an expert transcription assistant. Your job is to produce ACCURATE, NON-REPETITIVE transcriptions.
 
 CRITICAL: PREVENT REPETITION
@@ -232,92 +478,139 @@ OUTPUT FORMAT (MUST follow exactly):
 }
 
 IMPORTANT: If this audio is part of a larger chunked file, match the speaker voice descriptions from previous chunks EXACTLY. Do not describe the same speaker differently.
-
+${additionalContext}${participantContext}${chunkContext}
 Return ONLY the JSON object, no additional text.`;
 
-    // Use lighter model for transcription (fast and reliable)
-    const model = TRANSCRIPTION_MODEL;
     console.log(`Transcribing with model: ${model}`);
 
     try {
-        const response = await retryWithBackoff(async () => {
-            return await genAI.models.generateContent({
-                model: model,
-                contents: [
-                    {
-                        role: "user",
-                        parts: [
+        const { value, text } = await generateValidated(
+            "transcription",
+            async () => {
+                const response = await retryWithBackoff(async () => {
+                    return await genAI.models.generateContent({
+                        model: model,
+                        contents: [
                             {
-                                fileData: {
-                                    mimeType: file.mimeType,
-                                    fileUri: file.uri
-                                }
+                                role: "user",
+                                parts: [
+                                    {
+                                        fileData: {
+                                            mimeType: file.mimeType,
+                                            fileUri: file.uri
+                                        }
+                                    },
+                                    { text: prompt }
+                                ],
                             },
-                            { text: prompt }
                         ],
-                    },
-                ],
-                config: {
-                    temperature: 1.0,
-                },
-            });
-        });
-
-        const responseText = response.text || "";
+                        config: {
+                            temperature: 1.0,
+                            responseMimeType: "application/json",
+                            responseSchema: TRANSCRIPTION_RESPONSE_SCHEMA,
+                        },
+                    });
+                });
+                await recordGeminiUsage(usage, model, "transcribe", response.usageMetadata);
+                return response.text || "";
+            },
+            validateTranscriptionOutput
+        );
 
-        // Parse the JSON response
-        try {
-            let jsonStr = responseText;
-            const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-            if (jsonMatch) {
-                jsonStr = jsonMatch[1].trim();
+        return {
+            ...value,
+            duration: 0,
+            debug: {
+                prompt,
+                response: text
             }
-
-            const result = JSON.parse(jsonStr);
-
-            return {
-                text: result.text || "",
-                segments: result.segments || [],
-                speakers: result.speakers || [],
-                duration: 0,
-                language: result.language,
-                debug: {
-                    prompt,
-                    response: responseText
-                }
-            };
-        } catch {
-            console.error("Failed to parse transcription JSON, returning raw text");
-            return {
-                text: responseText,
-                segments: [{ speaker: "Unknown", text: responseText }],
-                speakers: ["Unknown"],
-                duration: 0,
-                language: "en",
-                debug: {
-                    prompt,
-                    response: responseText
-                }
-            };
-        }
+        };
     } catch (error) {
-        // Transcription failed with the lighter model
         const err = error instanceof Error ? error : new Error(String(error));
         console.error(`Transcription failed with model ${model}:`, err.message);
         throw err;
     }
 }
 
+export type ActionItemPriority = "low" | "medium" | "high";
+
+export interface ExtractedActionItem {
+    description: string;
+    assignee: string | null;
+    dueDate: string | null; // YYYY-MM-DD
+    priority: ActionItemPriority;
+    sourceSegmentIndex: number | null; // Index into the transcription segments
+}
+
 export interface MeetingNotes {
     summary: string;
     keyTopics: string[];
-    actionItems: string[];
+    actionItems: string[]; // Display text of each action item
+    actionItemDetails?: ExtractedActionItem[];
     decisions: string[];
     assumptions: string[];
     qa: Array<{ question: string; answer: string }>;
     language?: string; // Language code of the notes
 }
 
+/**
+ * Text generation with Gemini. Each call is recorded against `usage` when
+ * given; rate limits and server errors are retried with backoff.
+ */
+export function createGeminiLlmProvider(
+    apiKey?: string,
+    usage?: UsageContext,
+    model: string = ANALYSIS_MODEL
+): LlmProvider {
+    const genAI = createGeminiClient(apiKey);
+    return {
+        kind: "gemini",
+        model,
+        async generate(request) {
+            const response = await retryWithBackoff(async () => {
+                return await genAI.models.generateContent({
+                    model,
+                    contents: request.messages.map((message) => ({
+                        role: message.role,
+                        parts: [{ text: message.text }],
+                    })),
+                    config: {
+                        systemInstruction: request.systemInstruction,
+                        temperature: request.temperature,
+                        ...(request.responseSchema
+                            ? { responseMimeType: "application/json", responseSchema: request.responseSchema }
+                            : {}),
+                    },
+                });
+            });
+            await recordGeminiUsage(usage, model, request.operation, response.usageMetadata);
+            return response.text || "";
+        },
+    };
+}
+
+/**
+ * The context given to the model for a meeting: what the user wrote about the
+ * meeting, followed by the goals of its project.
+ */
+export function withProjectGoals(context: string | undefined, projectGoals: string | undefined): string | undefined {
+    const parts = [context?.trim(), projectGoals?.trim() ? `Project goals: ${projectGoals.trim()}` : ""].filter(Boolean);
+    return parts.length > 0 ? parts.join("\n") : undefined;
+}
+
+/**
+ * Number transcript segments so the model can point at the segment an action
+ * item came from.
+ */
+function formatTranscriptForNotes(transcriptionText: string, segments?: TranscriptionSegment[]): string {
+    if (!segments || segments.length < 2) {
+        return transcriptionText;
+    }
+    return segments
+        .map((segment, index) => `[${index}] ${segment.speaker}: ${segment.text}`)
+        .join("\n");
+}
+
 // Supported languages for meeting notes
 export const SUPPORTED_LANGUAGES = [
     { code: 'en', name: 'English' },
@@ -345,7 +638,8 @@ export async function analyzeAudioDirect(
     mimeType: string,
     context?: string,
     targetLanguage: string = 'en',
-    apiKey?: string
+    apiKey?: string,
+    usage?: UsageContext
 ): Promise<MeetingNotes> {
     const genAI = createGeminiClient(apiKey);
     console.log(`Uploading audio for direct analysis: ${filePath}`);
@@ -407,7 +701,7 @@ CRITICAL OUTPUT RULES:
 STRUCTURE YOUR RESPONSE AS:
 1. summary: 2-3 paragraphs summarizing the meeting
 2. keyTopics: 5-8 main topics discussed
-3. actionItems: Tasks with assignees if mentioned
+3. actionItems: Tasks, each with its assignee, due date (YYYY-MM-DD) and priority ("high", "medium" or "low"); use null for an assignee or date that is not mentioned, and null for sourceSegment
 4. decisions: Key decisions made
 5. assumptions: Explicit or implicit assumptions
 6. qa: Important Q&A pairs
@@ -416,7 +710,7 @@ OUTPUT FORMAT (MUST be valid JSON):
 {
     "summary": "...",
     "keyTopics": ["..."],
-    "actionItems": ["..."],
+    "actionItems": [{"description": "...", "assignee": null, "dueDate": null, "priority": "medium", "sourceSegment": null}],
     "decisions": ["..."],
     "assumptions": ["..."],
     "qa": [{"question": "...", "answer": "..."}]
@@ -425,54 +719,43 @@ OUTPUT FORMAT (MUST be valid JSON):
 Return ONLY the JSON object, no additional text.`;
 
     try {
-        const response = await retryWithBackoff(async () => {
-            return await genAI.models.generateContent({
-                model: TRANSCRIPTION_MODEL,  // Use fast model for analysis
-                contents: [
-                    {
-                        role: "user",
-                        parts: [
+        const { value } = await generateValidated(
+            "meeting_notes",
+            async () => {
+                const response = await retryWithBackoff(async () => {
+                    return await genAI.models.generateContent({
+                        model: TRANSCRIPTION_MODEL,  // Use fast model for analysis
+                        contents: [
                             {
-                                fileData: {
-                                    mimeType: file.mimeType,
-                                    fileUri: file.uri
-                                }
+                                role: "user",
+                                parts: [
+                                    {
+                                        fileData: {
+                                            mimeType: file.mimeType,
+                                            fileUri: file.uri
+                                        }
+                                    },
+                                    { text: prompt }
+                                ],
                             },
-                            { text: prompt }
                         ],
-                    },
-                ],
-                config: {
-                    temperature: 1.0,
-                },
-            });
-        });
-
-        const responseText = response.text || "";
+                        config: {
+                            temperature: 1.0,
+                            responseMimeType: "application/json",
+                            responseSchema: MEETING_NOTES_RESPONSE_SCHEMA,
+                        },
+                    });
+                });
+                await recordGeminiUsage(usage, TRANSCRIPTION_MODEL, "analyze_audio", response.usageMetadata);
+                return response.text || "";
+            },
+            (text) => validateMeetingNotesOutput(text)
+        );
 
-        try {
-            let jsonStr = responseText;
-            const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-            if (jsonMatch) {
-                jsonStr = jsonMatch[1].trim();
-            }
-            const parsed = JSON.parse(jsonStr);
-            return {
-                ...parsed,
-                language: targetLanguage
-            };
-        } catch {
-            console.error("Failed to parse analysis JSON");
-            return {
-                summary: "Failed to generate summary from audio.",
-                keyTopics: [],
-                actionItems: [],
-                decisions: [],
-                assumptions: [],
-                qa: [],
-                language: targetLanguage
-            };
-        }
+        return {
+            ...value,
+            language: targetLanguage
+        };
     } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         console.error(`Direct audio analysis failed:`, err.message);
@@ -483,19 +766,26 @@ Return ONLY the JSON object, no additional text.`;
 /**
  * Extract meeting notes (summary, action items, decisions, Q&A) from transcription
  * @param transcriptionText - The transcription text to analyze
+ * @param llm - The text model that writes the notes
  * @param context - Additional context about the meeting
  * @param targetLanguage - Target language code for the notes output (default: 'en')
+ * @param segments - Transcript segments, used to link action items to where they were agreed
+ * @throws LlmOutputValidationError when the model keeps returning notes that fail validation
  */
 export async function extractMeetingNotes(
     transcriptionText: string,
+    llm: LlmProvider,
     context?: string,
     targetLanguage: string = 'en',
-    apiKey?: string
+    segments?: TranscriptionSegment[],
+    participants?: string[]
 ): Promise<MeetingNotes> {
-    const genAI = createGeminiClient(apiKey);
     const additionalContext = context 
         ? `\nAdditional Context: "${context}"` 
         : "";
+    const participantContext = participants && participants.length > 0
+        ? `\nParticipants: ${participants.join(", ")}. Speakers in the transcription are labelled with these names; use them when naming people and assigning action items.`
+        : "";
 
     const languageName = SUPPORTED_LANGUAGES.find(l => l.code === targetLanguage)?.name || 'English';
 
@@ -506,14 +796,19 @@ export async function extractMeetingNotes(
 - EXCEPTION: Keep technical terms, product names, code snippets, proper nouns, and domain-specific jargon in their ORIGINAL language.
 - For example: "GitHub", "API", "database", "React", etc. should remain unchanged.
 
-Transcription:
-"${transcriptionText}"
-${additionalContext}
+Transcription${segments && segments.length > 1 ? " (each segment starts with its [number])" : ""}:
+"${formatTranscriptForNotes(transcriptionText, segments)}"
+${additionalContext}${participantContext}
 
 Please provide the following outputs in JSON format (remember to write in ${languageName}):
 1. **summary**: A concise executive summary of the meeting (2-3 paragraphs) in ${languageName}.
 2. **keyTopics**: A list of the main topics or themes discussed in the meeting in ${languageName}.
-3. **actionItems**: A list of actionable tasks assigned to specific people (include the assignee if known) in ${languageName}.
+3. **actionItems**: A list of actionable tasks in ${languageName}. Each one is an object with:
+   - "description": the task itself, without the assignee or date
+   - "assignee": the person responsible as named in the meeting, or null
+   - "dueDate": the deadline as YYYY-MM-DD if a specific date is stated, otherwise null
+   - "priority": "high", "medium" or "low", judged from how urgent the meeting made it sound
+   - "sourceSegment": the [number] of the segment where the task was agreed, or null
 4. **decisions**: A list of key decisions made during the meeting in ${languageName}.
 5. **assumptions**: A list of explicit or implicit assumptions made during the discussion in ${languageName}.
 6. **qa**: A list of important questions asked and their answers in ${languageName}.
@@ -522,7 +817,9 @@ Format:
 {
     "summary": "...",
     "keyTopics": ["Topic 1", "Topic 2"],
-    "actionItems": ["Task 1 (Assignee)", "Task 2"],
+    "actionItems": [
+        { "description": "Task 1", "assignee": "Name", "dueDate": null, "priority": "medium", "sourceSegment": 3 }
+    ],
     "decisions": ["Decision 1", "Decision 2"],
     "assumptions": ["Assumption 1", "Assumption 2"],
     "qa": [
@@ -532,39 +829,19 @@ Format:
 
 Return ONLY the JSON object.`;
 
-    const response = await retryWithBackoff(async () => {
-        return await genAI.models.generateContent({
-            model: ANALYSIS_MODEL,
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            config: {
-                temperature: 1.0,
-            },
-        });
-    });
-
-    const responseText = response.text || "";
-
-    try {
-        let jsonStr = responseText;
-        const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (jsonMatch) {
-            jsonStr = jsonMatch[1].trim();
-        }
-        const parsed = JSON.parse(jsonStr);
-        return {
-            ...parsed,
-            language: targetLanguage
-        };
-    } catch (e) {
-        console.error("Failed to parse meeting notes JSON", e);
-        return {
-            summary: "Failed to generate summary.",
-            keyTopics: [],
-            actionItems: [],
-            decisions: [],
-            assumptions: [],
-            qa: [],
-            language: targetLanguage
-        };
-    }
+    const { value } = await generateValidated(
+        "meeting_notes",
+        () => llm.generate({
+            operation: "extract_notes",
+            messages: [{ role: "user", text: prompt }],
+            responseSchema: MEETING_NOTES_RESPONSE_SCHEMA,
+            temperature: 1.0,
+        }),
+        (text) => validateMeetingNotesOutput(text, segments?.length || 0)
+    );
+
+    return {
+        ...value,
+        language: targetLanguage
+    };
 }
@@ -0,0 +1,115 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Envelope encryption for secrets stored in the database (user Gemini API keys).
+// Every secret is encrypted with its own random data key; the data key is then
+// encrypted ("wrapped") with a master key that only exists in the server's env.
+// Rotating the master key only re-wraps data keys, the secrets stay untouched.
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface MasterKey {
+    id: string;
+    key: Buffer;
+}
+
+export interface EncryptedSecret {
+    ciphertext: string;
+    wrappedDataKey: string;
+    masterKeyId: string;
+}
+
+/**
+ * Parse `REMEMBRY_MASTER_KEYS`: a comma separated list of `<id>:<base64 32-byte key>`.
+ * The first entry encrypts new secrets; later entries are only used to decrypt
+ * secrets written before a rotation.
+ */
+export function parseMasterKeys(value: string | undefined): MasterKey[] {
+    if (!value || !value.trim()) {
+        return [];
+    }
+
+    return value.split(",").map((entry) => {
+        const separator = entry.indexOf(":");
+        const id = entry.slice(0, separator).trim();
+        const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+
+        if (separator <= 0 || !id) {
+            throw new Error("REMEMBRY_MASTER_KEYS entries must look like <id>:<base64 key>");
+        }
+        if (key.length !== KEY_BYTES) {
+            throw new Error(`Master key "${id}" must be ${KEY_BYTES} bytes (base64 encoded)`);
+        }
+
+        return { id, key };
+    });
+}
+
+export function getMasterKeys(): MasterKey[] {
+    const keys = parseMasterKeys(process.env.REMEMBRY_MASTER_KEYS);
+    if (keys.length === 0) {
+        throw new Error("REMEMBRY_MASTER_KEYS must be set to encrypt stored API keys");
+    }
+    return keys;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+    const data = Buffer.from(sealed, "base64");
+    const iv = data.subarray(0, IV_BYTES);
+    const tag = data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function findMasterKey(masterKeys: MasterKey[], id: string): MasterKey {
+    const masterKey = masterKeys.find((candidate) => candidate.id === id);
+    if (!masterKey) {
+        throw new Error(`Master key "${id}" is not configured in REMEMBRY_MASTER_KEYS`);
+    }
+    return masterKey;
+}
+
+export function encryptSecret(plaintext: string, masterKeys: MasterKey[] = getMasterKeys()): EncryptedSecret {
+    const [activeKey] = masterKeys;
+    const dataKey = randomBytes(KEY_BYTES);
+
+    return {
+        ciphertext: seal(dataKey, Buffer.from(plaintext, "utf8")),
+        wrappedDataKey: seal(activeKey.key, dataKey),
+        masterKeyId: activeKey.id,
+    };
+}
+
+export function decryptSecret(secret: EncryptedSecret, masterKeys: MasterKey[] = getMasterKeys()): string {
+    const masterKey = findMasterKey(masterKeys, secret.masterKeyId);
+    const dataKey = unseal(masterKey.key, secret.wrappedDataKey);
+    return unseal(dataKey, secret.ciphertext).toString("utf8");
+}
+
+/**
+ * Re-wrap the data key of `secret` with the active master key. The ciphertext
+ * itself is unchanged. Secrets already on the active key are returned as is.
+ */
+export function rewrapSecret(secret: EncryptedSecret, masterKeys: MasterKey[] = getMasterKeys()): EncryptedSecret {
+    const [activeKey] = masterKeys;
+    if (secret.masterKeyId === activeKey.id) {
+        return secret;
+    }
+
+    const dataKey = unseal(findMasterKey(masterKeys, secret.masterKeyId).key, secret.wrappedDataKey);
+    return {
+        ciphertext: secret.ciphertext,
+        wrappedDataKey: seal(activeKey.key, dataKey),
+        masterKeyId: activeKey.id,
+    };
+}
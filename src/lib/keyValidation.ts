@@ -0,0 +1,112 @@
+import { GoogleGenAI, type ApiError } from "@google/genai";
+
+export type GeminiKeyValidationStatus = "valid" | "invalid" | "quota_exhausted" | "not_found" | "rejected" | "unreachable";
+
+export interface GeminiKeyValidationResult {
+    status: GeminiKeyValidationStatus;
+    message: string;
+    checkedAt: string;
+}
+
+export interface GeminiKeyValidator {
+    validate(apiKey: string): Promise<GeminiKeyValidationResult>;
+}
+
+const VALIDATION_TIMEOUT_MS = 10000;
+
+const VALIDATION_MESSAGES: Record<GeminiKeyValidationStatus, string> = {
+    valid: "The API key works.",
+    invalid: "Gemini rejected this API key. Check that it was copied correctly and has not been revoked.",
+    quota_exhausted: "The API key is valid but its quota is exhausted. Requests will fail until the quota resets.",
+    not_found: "Gemini could not find the endpoint used to check the API key. The key may be fine; the server's Gemini SDK may need an update.",
+    rejected: "Gemini refused the request for a reason other than the key, for example because the server's region is not supported.",
+    unreachable: "Could not reach Gemini to check the API key. Check the server's network connection and try again.",
+};
+
+function result(status: GeminiKeyValidationStatus): GeminiKeyValidationResult {
+    return {
+        status,
+        message: VALIDATION_MESSAGES[status],
+        checkedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Map an error from a Gemini call onto a validation status. Only errors that
+ * name the key count as `invalid`; other 400s and 404s say nothing about it.
+ */
+export function classifyGeminiKeyError(error: unknown): GeminiKeyValidationStatus {
+    const message = error instanceof Error ? error.message.toLowerCase() : "";
+    const mentionsKey = message.includes("api key") || message.includes("api_key_invalid");
+
+    // Checked by shape rather than instanceof ApiError: the SDK ships separate
+    // CJS and ESM builds, and an error from one is not an instance of the other.
+    const status = (error as Partial<ApiError> | null)?.status;
+    if (typeof status === "number") {
+        if (status === 429) return "quota_exhausted";
+        if (status === 401 || status === 403) return "invalid";
+        if (status === 400) return mentionsKey ? "invalid" : "rejected";
+        if (status === 404) return "not_found";
+        return "unreachable";
+    }
+
+    if (mentionsKey) {
+        return "invalid";
+    }
+    if (message.includes("quota") || message.includes("resource_exhausted")) {
+        return "quota_exhausted";
+    }
+    if (message.includes("not found") || message.includes("not_found")) {
+        return "not_found";
+    }
+    return "unreachable";
+}
+
+/**
+ * Validator that lists one model: it needs a working key, does not consume
+ * generation quota and does not depend on any model staying available.
+ */
+export function createGeminiKeyValidator(): GeminiKeyValidator {
+    return {
+        async validate(apiKey) {
+            try {
+                const genAI = new GoogleGenAI({ apiKey });
+                await genAI.models.list({
+                    config: { pageSize: 1, httpOptions: { timeout: VALIDATION_TIMEOUT_MS } },
+                });
+                return result("valid");
+            } catch (error) {
+                return result(classifyGeminiKeyError(error));
+            }
+        },
+    };
+}
+
+/**
+ * Offline validator for tests and local development. Keys listed in `statuses`
+ * get that status; every other key is reported valid.
+ */
+export function createFakeGeminiKeyValidator(statuses: Record<string, GeminiKeyValidationStatus> = {}): GeminiKeyValidator {
+    return {
+        async validate(apiKey) {
+            return result(statuses[apiKey] || "valid");
+        },
+    };
+}
+
+let validator: GeminiKeyValidator | null = null;
+
+export function getGeminiKeyValidator(): GeminiKeyValidator {
+    if (!validator) {
+        validator = createGeminiKeyValidator();
+    }
+    return validator;
+}
+
+/**
+ * Replace the validator used by the settings routes (pass null to restore the
+ * default). Tests use this to run against createFakeGeminiKeyValidator.
+ */
+export function setGeminiKeyValidator(next: GeminiKeyValidator | null): void {
+    validator = next;
+}
@@ -0,0 +1,336 @@
+import { Type, type Schema } from "@google/genai";
+import type { ActionItemPriority, ExtractedActionItem, MeetingNotes, TranscriptionResult, TranscriptionSegment } from "@/lib/gemini";
+
+export type LlmOutputKind = "transcription" | "meeting_notes";
+
+export type ValidationResult<T> = { value: T } | { issues: string[] };
+
+// A response that fails validation is asked for again this many times in total.
+export const MAX_OUTPUT_ATTEMPTS = 3;
+
+const ACTION_ITEM_PRIORITIES: ActionItemPriority[] = ["low", "medium", "high"];
+
+const OUTPUT_LABELS: Record<LlmOutputKind, string> = {
+    transcription: "transcription",
+    meeting_notes: "meeting notes",
+};
+
+/**
+ * Thrown when the model keeps returning output that does not have the
+ * expected shape. Nothing from such a response is stored; processing jobs
+ * fail and can be retried.
+ */
+export class LlmOutputValidationError extends Error {
+    constructor(
+        readonly kind: LlmOutputKind,
+        readonly issues: string[],
+        readonly attempts: number
+    ) {
+        super(`The AI returned invalid ${OUTPUT_LABELS[kind]} ${attempts} times in a row: ${issues.slice(0, 3).join("; ")}`);
+        this.name = "LlmOutputValidationError";
+    }
+}
+
+// Response schemas passed to the model as `responseSchema`. The validators
+// below check the same shape, since a schema is a strong hint, not a guarantee.
+
+export const TRANSCRIPTION_RESPONSE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        text: { type: Type.STRING },
+        segments: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    speaker: { type: Type.STRING },
+                    text: { type: Type.STRING },
+                    startTime: { type: Type.NUMBER },
+                    endTime: { type: Type.NUMBER },
+                },
+                required: ["speaker", "text", "startTime", "endTime"],
+                propertyOrdering: ["speaker", "text", "startTime", "endTime"],
+            },
+        },
+        speakers: { type: Type.ARRAY, items: { type: Type.STRING } },
+        language: { type: Type.STRING },
+    },
+    required: ["text", "segments", "speakers", "language"],
+    propertyOrdering: ["text", "segments", "speakers", "language"],
+};
+
+const STRING_LIST_SCHEMA: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+export const MEETING_NOTES_RESPONSE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING },
+        keyTopics: STRING_LIST_SCHEMA,
+        actionItems: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    description: { type: Type.STRING },
+                    assignee: { type: Type.STRING, nullable: true },
+                    dueDate: { type: Type.STRING, nullable: true },
+                    priority: { type: Type.STRING, format: "enum", enum: ["high", "medium", "low"] },
+                    sourceSegment: { type: Type.INTEGER, nullable: true },
+                },
+                required: ["description", "assignee", "dueDate", "priority", "sourceSegment"],
+                propertyOrdering: ["description", "assignee", "dueDate", "priority", "sourceSegment"],
+            },
+        },
+        decisions: STRING_LIST_SCHEMA,
+        assumptions: STRING_LIST_SCHEMA,
+        qa: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    question: { type: Type.STRING },
+                    answer: { type: Type.STRING },
+                },
+                required: ["question", "answer"],
+                propertyOrdering: ["question", "answer"],
+            },
+        },
+    },
+    required: ["summary", "keyTopics", "actionItems", "decisions", "assumptions", "qa"],
+    propertyOrdering: ["summary", "keyTopics", "actionItems", "decisions", "assumptions", "qa"],
+};
+
+/**
+ * Turn the action items returned by the model into ExtractedActionItem values.
+ * Plain strings (the older response format) are accepted; fields that are
+ * missing or malformed become null, and segment numbers outside the
+ * transcript are dropped.
+ */
+export function normalizeExtractedActionItems(raw: unknown, segmentCount: number = 0): ExtractedActionItem[] {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+
+    const items: ExtractedActionItem[] = [];
+    for (const entry of raw) {
+        const item = typeof entry === "string" ? { description: entry } : entry;
+        if (!item || typeof item !== "object" || typeof item.description !== "string" || !item.description.trim()) {
+            continue;
+        }
+
+        const segment = Number(item.sourceSegment ?? item.sourceSegmentIndex);
+        items.push({
+            description: item.description.trim(),
+            assignee: typeof item.assignee === "string" && item.assignee.trim() ? item.assignee.trim() : null,
+            dueDate: typeof item.dueDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate) ? item.dueDate : null,
+            priority: ACTION_ITEM_PRIORITIES.includes(item.priority) ? item.priority : "medium",
+            sourceSegmentIndex: Number.isInteger(segment) && segment >= 0 && segment < segmentCount ? segment : null,
+        });
+    }
+
+    return items;
+}
+
+/**
+ * Display text for an action item, e.g. "Send the report (Alice, due 2025-03-01)".
+ */
+export function formatActionItem(item: ExtractedActionItem): string {
+    const details = [item.assignee, item.dueDate ? `due ${item.dueDate}` : null].filter(Boolean);
+    return details.length > 0 ? `${item.description} (${details.join(", ")})` : item.description;
+}
+
+function parseJsonObject(text: string): { value: Record<string, unknown> } | { issues: string[] } {
+    // Structured output is plain JSON, but tolerate a stray code fence.
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const json = (fenced ? fenced[1] : text).trim();
+    if (!json) {
+        return { issues: ["response is empty"] };
+    }
+
+    try {
+        const value = JSON.parse(json);
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+            return { issues: ["response is not a JSON object"] };
+        }
+        return { value: value as Record<string, unknown> };
+    } catch (error) {
+        return { issues: [`response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+    }
+}
+
+function readStringList(value: unknown, field: string, issues: string[]): string[] {
+    if (!Array.isArray(value)) {
+        issues.push(`${field} must be an array of strings`);
+        return [];
+    }
+    if (value.some((entry) => typeof entry !== "string")) {
+        issues.push(`${field} must only contain strings`);
+        return [];
+    }
+    return (value as string[]).map((entry) => entry.trim()).filter(Boolean);
+}
+
+function isTime(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check a transcription response. The full text is rebuilt from the segments
+ * when the model left it out, and so is the speaker list.
+ */
+export function validateTranscriptionOutput(text: string): ValidationResult<Omit<TranscriptionResult, "duration" | "debug">> {
+    const parsed = parseJsonObject(text);
+    if ("issues" in parsed) {
+        return parsed;
+    }
+
+    const raw = parsed.value;
+    const issues: string[] = [];
+
+    if (!Array.isArray(raw.segments)) {
+        return { issues: ["segments must be an array"] };
+    }
+
+    const segments: TranscriptionSegment[] = [];
+    for (const [index, entry] of raw.segments.entries()) {
+        if (!entry || typeof entry !== "object") {
+            issues.push(`segments[${index}] must be an object`);
+            continue;
+        }
+
+        const segment = entry as Record<string, unknown>;
+        if (typeof segment.speaker !== "string" || !segment.speaker.trim()) {
+            issues.push(`segments[${index}].speaker must be a non-empty string`);
+        }
+        if (typeof segment.text !== "string") {
+            issues.push(`segments[${index}].text must be a string`);
+        }
+        for (const key of ["startTime", "endTime"] as const) {
+            if (segment[key] !== undefined && segment[key] !== null && !isTime(segment[key])) {
+                issues.push(`segments[${index}].${key} must be a number of seconds`);
+            }
+        }
+        if (isTime(segment.startTime) && isTime(segment.endTime) && segment.endTime < segment.startTime) {
+            issues.push(`segments[${index}] ends before it starts`);
+        }
+
+        if (issues.length === 0) {
+            segments.push({
+                speaker: (segment.speaker as string).trim(),
+                text: (segment.text as string).trim(),
+                ...(isTime(segment.startTime) ? { startTime: segment.startTime } : {}),
+                ...(isTime(segment.endTime) ? { endTime: segment.endTime } : {}),
+            });
+        }
+    }
+
+    if (raw.text !== undefined && typeof raw.text !== "string") {
+        issues.push("text must be a string");
+    }
+    if (raw.language !== undefined && raw.language !== null && typeof raw.language !== "string") {
+        issues.push("language must be a string");
+    }
+    const speakers = raw.speakers === undefined ? [] : readStringList(raw.speakers, "speakers", issues);
+
+    if (issues.length > 0) {
+        return { issues };
+    }
+
+    const fullText = (typeof raw.text === "string" ? raw.text.trim() : "") || segments.map((segment) => segment.text).join("\n");
+    if (!fullText) {
+        return { issues: ["transcript is empty"] };
+    }
+
+    return {
+        value: {
+            text: fullText,
+            segments,
+            speakers: speakers.length > 0 ? speakers : Array.from(new Set(segments.map((segment) => segment.speaker))),
+            language: typeof raw.language === "string" && raw.language.trim() ? raw.language.trim() : undefined,
+        },
+    };
+}
+
+/**
+ * Check a meeting notes response. Action items are normalized and linked to
+ * the transcript's `segmentCount` segments; the caller sets the language.
+ */
+export function validateMeetingNotesOutput(text: string, segmentCount: number = 0): ValidationResult<MeetingNotes> {
+    const parsed = parseJsonObject(text);
+    if ("issues" in parsed) {
+        return parsed;
+    }
+
+    const raw = parsed.value;
+    const issues: string[] = [];
+
+    if (typeof raw.summary !== "string" || !raw.summary.trim()) {
+        issues.push("summary must be a non-empty string");
+    }
+
+    const keyTopics = readStringList(raw.keyTopics, "keyTopics", issues);
+    const decisions = readStringList(raw.decisions, "decisions", issues);
+    const assumptions = readStringList(raw.assumptions, "assumptions", issues);
+
+    if (!Array.isArray(raw.actionItems)) {
+        issues.push("actionItems must be an array");
+    } else if (raw.actionItems.some((item) => typeof item !== "string" && (!item || typeof item !== "object" || typeof item.description !== "string"))) {
+        issues.push("every action item must have a description");
+    }
+
+    const qa: MeetingNotes["qa"] = [];
+    if (!Array.isArray(raw.qa)) {
+        issues.push("qa must be an array");
+    } else {
+        for (const [index, entry] of raw.qa.entries()) {
+            if (!entry || typeof entry !== "object" || typeof entry.question !== "string" || typeof entry.answer !== "string") {
+                issues.push(`qa[${index}] must have a question and an answer`);
+                continue;
+            }
+            qa.push({ question: entry.question.trim(), answer: entry.answer.trim() });
+        }
+    }
+
+    if (issues.length > 0) {
+        return { issues };
+    }
+
+    const actionItemDetails = normalizeExtractedActionItems(raw.actionItems, segmentCount);
+    return {
+        value: {
+            summary: (raw.summary as string).trim(),
+            keyTopics,
+            actionItems: actionItemDetails.map(formatActionItem),
+            actionItemDetails,
+            decisions,
+            assumptions,
+            qa,
+        },
+    };
+}
+
+/**
+ * Ask the model for output until it passes `validate`, at most `attempts`
+ * times. Throws LlmOutputValidationError with the issues of the last response.
+ */
+export async function generateValidated<T>(
+    kind: LlmOutputKind,
+    generate: () => Promise<string>,
+    validate: (text: string) => ValidationResult<T>,
+    attempts: number = MAX_OUTPUT_ATTEMPTS
+): Promise<{ value: T; text: string }> {
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        const text = await generate();
+        const result = validate(text);
+        if ("value" in result) {
+            return { value: result.value, text };
+        }
+
+        issues = result.issues;
+        console.warn(`Invalid ${OUTPUT_LABELS[kind]} from the model (attempt ${attempt}/${attempts}): ${issues.join("; ")}`);
+    }
+
+    throw new LlmOutputValidationError(kind, issues, attempts);
+}
@@ -0,0 +1,332 @@
+import type { MeetingNotes, TranscriptionSegment } from "@/lib/meetingStorage";
+import { NOTES_SECTION_LABELS } from "@/lib/notesDiff";
+import { renderDocx } from "@/lib/docxDocument";
+import { renderPdf } from "@/lib/pdfDocument";
+
+export type ExportFormat = "md" | "docx" | "pdf" | "txt" | "srt" | "vtt";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "docx", "pdf", "txt", "srt", "vtt"];
+
+// Formats that only contain the timed transcript.
+export const SUBTITLE_FORMATS: ExportFormat[] = ["srt", "vtt"];
+
+/**
+ * A document as a flat list of blocks, so every format renders the same
+ * content in the same order.
+ */
+export type ExportBlock =
+    | { type: "title"; text: string }
+    | { type: "meta"; text: string }
+    | { type: "heading"; text: string }
+    | { type: "paragraph"; text: string }
+    | { type: "bullet"; text: string }
+    | { type: "utterance"; speaker: string; time: string | null; text: string };
+
+export interface MeetingExportInput {
+    title: string;
+    createdAt: string;
+    languageName: string | null; // Name of the notes language; null leaves it out
+    notes: MeetingNotes | null;
+    segments: TranscriptionSegment[];
+    transcriptText: string;
+}
+
+export interface ExportedFile {
+    body: Buffer;
+    contentType: string;
+    extension: string;
+}
+
+export interface SubtitleCue {
+    start: number;
+    end: number;
+    speaker: string;
+    text: string;
+}
+
+// Subtitle lines longer than this are split; two lines of ~42 characters fit on screen.
+const MAX_CUE_CHARS = 84;
+// Reading speed used to time a segment that has a start but no end.
+const CHARS_PER_SECOND = 15;
+const MIN_CUE_SECONDS = 1;
+
+function formatClock(seconds: number): string {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const mins = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    const clock = `${mins.toString().padStart(hours > 0 ? 2 : 1, "0")}:${secs.toString().padStart(2, "0")}`;
+    return hours > 0 ? `${hours}:${clock}` : clock;
+}
+
+function formatExportDate(dateString: string): string {
+    return new Date(dateString).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        timeZone: "UTC",
+    });
+}
+
+/**
+ * Lay out a meeting as export blocks: title, date, the notes section by
+ * section, then the transcript.
+ */
+export function buildExportBlocks(input: MeetingExportInput): ExportBlock[] {
+    const blocks: ExportBlock[] = [
+        { type: "title", text: input.title },
+        { type: "meta", text: formatExportDate(input.createdAt) },
+    ];
+    const { notes } = input;
+
+    if (notes) {
+        if (input.languageName) {
+            blocks.push({ type: "meta", text: `Notes language: ${input.languageName}` });
+        }
+
+        if (notes.summary?.trim()) {
+            blocks.push({ type: "heading", text: NOTES_SECTION_LABELS.summary });
+            for (const paragraph of notes.summary.split(/\n\s*\n/)) {
+                if (paragraph.trim()) blocks.push({ type: "paragraph", text: paragraph.trim() });
+            }
+        }
+
+        for (const section of ["keyTopics", "actionItems", "decisions", "assumptions"] as const) {
+            const items = (notes[section] || []).filter((item) => item.trim());
+            if (items.length === 0) continue;
+
+            blocks.push({ type: "heading", text: NOTES_SECTION_LABELS[section] });
+            blocks.push(...items.map((item): ExportBlock => ({ type: "bullet", text: item.trim() })));
+        }
+
+        if (notes.qa?.length) {
+            blocks.push({ type: "heading", text: NOTES_SECTION_LABELS.qa });
+            for (const item of notes.qa) {
+                blocks.push({ type: "paragraph", text: `Q: ${item.question.trim()}` });
+                blocks.push({ type: "paragraph", text: `A: ${item.answer.trim()}` });
+            }
+        }
+    }
+
+    blocks.push({ type: "heading", text: "Transcript" });
+    if (input.segments.length > 0) {
+        for (const segment of input.segments) {
+            blocks.push({
+                type: "utterance",
+                speaker: segment.speaker,
+                time: segment.startTime !== undefined ? formatClock(segment.startTime) : null,
+                text: segment.text.trim(),
+            });
+        }
+    } else if (input.transcriptText.trim()) {
+        blocks.push({ type: "paragraph", text: input.transcriptText.trim() });
+    }
+
+    return blocks;
+}
+
+export function renderMarkdown(blocks: ExportBlock[]): string {
+    const lines: string[] = [];
+    for (const block of blocks) {
+        switch (block.type) {
+            case "title":
+                lines.push(`# ${block.text}`, "");
+                break;
+            case "meta":
+                lines.push(`_${block.text}_`, "");
+                break;
+            case "heading":
+                lines.push(`## ${block.text}`, "");
+                break;
+            case "paragraph":
+                lines.push(block.text, "");
+                break;
+            case "bullet":
+                lines.push(`- ${block.text}`);
+                break;
+            case "utterance":
+                lines.push(`**${block.time ? `[${block.time}] ` : ""}${block.speaker}:** ${block.text}`, "");
+                break;
+        }
+    }
+
+    // Close bullet lists with a blank line and never end on several.
+    return `${lines.join("\n").replace(/^(- .*)\n(?!- |\n)/gm, "$1\n\n").trimEnd()}\n`;
+}
+
+export function renderPlainText(blocks: ExportBlock[]): string {
+    const lines: string[] = [];
+    for (const block of blocks) {
+        switch (block.type) {
+            case "title":
+                lines.push(block.text, "=".repeat(block.text.length), "");
+                break;
+            case "meta":
+                lines.push(block.text, "");
+                break;
+            case "heading":
+                lines.push(block.text, "-".repeat(block.text.length), "");
+                break;
+            case "paragraph":
+                lines.push(block.text, "");
+                break;
+            case "bullet":
+                lines.push(`* ${block.text}`);
+                break;
+            case "utterance":
+                lines.push(`${block.time ? `[${block.time}] ` : ""}${block.speaker}: ${block.text}`, "");
+                break;
+        }
+    }
+
+    return `${lines.join("\n").replace(/^(\* .*)\n(?!\* |\n)/gm, "$1\n\n").trimEnd()}\n`;
+}
+
+/**
+ * Split text into pieces of at most `maxChars`, preferring sentence breaks and
+ * then word breaks.
+ */
+function splitCueText(text: string, maxChars: number): string[] {
+    const sentences = text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [text];
+    const pieces: string[] = [];
+
+    for (const sentence of sentences.map((item) => item.trim()).filter(Boolean)) {
+        if (sentence.length <= maxChars) {
+            pieces.push(sentence);
+            continue;
+        }
+        let line = "";
+        for (const word of sentence.split(/\s+/)) {
+            if (line && line.length + word.length + 1 > maxChars) {
+                pieces.push(line);
+                line = "";
+            }
+            line = line ? `${line} ${word}` : word;
+        }
+        if (line) pieces.push(line);
+    }
+
+    // Merge short neighbours back together.
+    const merged: string[] = [];
+    for (const piece of pieces) {
+        const last = merged[merged.length - 1];
+        if (last !== undefined && last.length + piece.length + 1 <= maxChars) {
+            merged[merged.length - 1] = `${last} ${piece}`;
+        } else {
+            merged.push(piece);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Turn timed transcript segments into subtitle cues. Segments without a start
+ * time are skipped. A segment runs until its end time, else for as long as it
+ * takes to read but no later than the next segment's start. Long segments are
+ * split into several cues with the time shared out by length.
+ */
+export function buildSubtitleCues(segments: TranscriptionSegment[]): SubtitleCue[] {
+    const timed = segments.filter((segment) => segment.startTime !== undefined && segment.text.trim());
+    const cues: SubtitleCue[] = [];
+
+    timed.forEach((segment, index) => {
+        const start = segment.startTime as number;
+        const nextStart = timed[index + 1]?.startTime;
+        const text = segment.text.trim();
+        const readingEnd = start + Math.max(MIN_CUE_SECONDS, text.length / CHARS_PER_SECOND);
+        const end = segment.endTime !== undefined && segment.endTime > start
+            ? segment.endTime
+            : nextStart !== undefined && nextStart > start
+                ? Math.min(nextStart, readingEnd)
+                : readingEnd;
+
+        const pieces = splitCueText(text, MAX_CUE_CHARS);
+        const totalChars = pieces.reduce((sum, piece) => sum + piece.length, 0);
+        let cursor = start;
+
+        pieces.forEach((piece, pieceIndex) => {
+            const pieceEnd = pieceIndex === pieces.length - 1
+                ? end
+                : cursor + ((end - start) * piece.length) / totalChars;
+            cues.push({ start: cursor, end: pieceEnd, speaker: segment.speaker, text: piece });
+            cursor = pieceEnd;
+        });
+    });
+
+    return cues;
+}
+
+function formatCueTime(seconds: number, separator: "," | "."): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3_600_000);
+    const mins = Math.floor((totalMs % 3_600_000) / 60_000);
+    const secs = Math.floor((totalMs % 60_000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length: number = 2) => value.toString().padStart(length, "0");
+    return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function renderSrt(cues: SubtitleCue[]): string {
+    return cues
+        .map((cue, index) =>
+            `${index + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.speaker}: ${cue.text}\n`
+        )
+        .join("\n");
+}
+
+function escapeVtt(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function renderVtt(cues: SubtitleCue[]): string {
+    const body = cues
+        .map((cue) =>
+            `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`
+        )
+        .join("\n");
+    return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Render a meeting in one of the export formats.
+ */
+export function exportMeeting(input: MeetingExportInput, format: ExportFormat): ExportedFile {
+    switch (format) {
+        case "srt":
+            return {
+                body: Buffer.from(renderSrt(buildSubtitleCues(input.segments)), "utf-8"),
+                contentType: "application/x-subrip; charset=utf-8",
+                extension: "srt",
+            };
+        case "vtt":
+            return {
+                body: Buffer.from(renderVtt(buildSubtitleCues(input.segments)), "utf-8"),
+                contentType: "text/vtt; charset=utf-8",
+                extension: "vtt",
+            };
+        case "md":
+            return {
+                body: Buffer.from(renderMarkdown(buildExportBlocks(input)), "utf-8"),
+                contentType: "text/markdown; charset=utf-8",
+                extension: "md",
+            };
+        case "txt":
+            return {
+                body: Buffer.from(renderPlainText(buildExportBlocks(input)), "utf-8"),
+                contentType: "text/plain; charset=utf-8",
+                extension: "txt",
+            };
+        case "docx":
+            return {
+                body: renderDocx(buildExportBlocks(input), input.title),
+                contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+                extension: "docx",
+            };
+        case "pdf":
+            return {
+                body: renderPdf(buildExportBlocks(input), input.title),
+                contentType: "application/pdf",
+                extension: "pdf",
+            };
+    }
+}
@@ -0,0 +1,175 @@
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { resolveSpeakerName, type SpeakerNames } from "@/lib/speakerNames";
+
+// A snippet split into plain and highlighted runs, so clients can mark up
+// matches without rendering HTML from the database.
+export type HighlightedText = Array<{ text: string; highlight: boolean }>;
+
+export interface SearchFilters {
+    projectId?: string;
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    speaker?: string;
+}
+
+export interface SegmentMatch {
+    index: number;
+    speaker: string;
+    startTime: number | null;
+    snippet: HighlightedText;
+    href: string;
+}
+
+export interface MeetingSearchResult {
+    meetingId: string;
+    title: string;
+    projectId: string;
+    projectDisplayName: string;
+    createdAt: string;
+    rank: number;
+    titleSnippet: HighlightedText | null;
+    notesSnippet: HighlightedText | null;
+    segmentMatchCount: number;
+    segments: SegmentMatch[];
+    href: string;
+}
+
+type SearchRow = {
+    meeting_id: string;
+    title: string;
+    project_id: string;
+    project_display_name: string;
+    created_at: string;
+    speaker_names: SpeakerNames | null;
+    rank: number;
+    title_snippet: string | null;
+    notes_snippet: string | null;
+    segment_match_count: number;
+    segment_matches: Array<{ index: number; speaker: string | null; startTime: number | null; snippet: string }>;
+};
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Highlight markers set by search_meetings (supabase/migrations/016_meeting_search.sql).
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+/**
+ * Split a ts_headline snippet into plain and highlighted runs.
+ */
+export function parseHighlightedSnippet(snippet: string): HighlightedText {
+    const parts: HighlightedText = [];
+    for (const [index, piece] of snippet.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`)).entries()) {
+        if (piece) {
+            // Pieces alternate plain, highlighted, plain, ...
+            parts.push({ text: piece, highlight: index % 2 === 1 });
+        }
+    }
+    return parts;
+}
+
+/**
+ * Validate search parameters from a query string.
+ */
+export function parseSearchParams(
+    params: URLSearchParams
+): { query: string; filters: SearchFilters; limit: number } | { error: string } {
+    const query = (params.get("q") || "").trim();
+    if (!query) {
+        return { error: "q is required" };
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+        return { error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+    }
+
+    const filters: SearchFilters = {};
+    for (const key of ["from", "to"] as const) {
+        const value = params.get(key);
+        if (!value) continue;
+        if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+            return { error: `${key} must be a YYYY-MM-DD date` };
+        }
+        filters[key] = value;
+    }
+
+    const projectId = params.get("projectId")?.trim();
+    if (projectId) filters.projectId = projectId;
+
+    const speaker = params.get("speaker")?.trim();
+    if (speaker) filters.speaker = speaker;
+
+    const limitParam = params.get("limit");
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` };
+    }
+
+    return { query, filters, limit };
+}
+
+function meetingHref(row: SearchRow): string {
+    return `/meetings/${encodeURIComponent(row.meeting_id)}?projectName=${encodeURIComponent(row.project_id)}&displayName=${encodeURIComponent(row.project_display_name || "")}`;
+}
+
+function rowToSearchResult(row: SearchRow): MeetingSearchResult {
+    const href = meetingHref(row);
+
+    return {
+        meetingId: row.meeting_id,
+        title: row.title,
+        projectId: row.project_id,
+        projectDisplayName: row.project_display_name,
+        createdAt: row.created_at,
+        rank: row.rank,
+        titleSnippet: row.title_snippet ? parseHighlightedSnippet(row.title_snippet) : null,
+        notesSnippet: row.notes_snippet ? parseHighlightedSnippet(row.notes_snippet) : null,
+        segmentMatchCount: row.segment_match_count,
+        segments: (row.segment_matches || []).map((match) => {
+            const startTime = typeof match.startTime === "number" ? match.startTime : null;
+            return {
+                index: match.index,
+                speaker: resolveSpeakerName(match.speaker || "Unknown", row.speaker_names),
+                startTime,
+                snippet: parseHighlightedSnippet(match.snippet),
+                // The meeting page seeks the recording to `t` and scrolls to the segment.
+                href: `${href}&tab=transcript${startTime !== null ? `&t=${Math.floor(startTime)}` : ""}#segment-${match.index}`,
+            };
+        }),
+        href,
+    };
+}
+
+/**
+ * Full-text search over the titles, notes and transcripts of an owner's
+ * meetings, best matches first.
+ */
+export async function searchMeetings(
+    ownerId: string,
+    query: string,
+    filters: SearchFilters = {},
+    limit: number = DEFAULT_LIMIT
+): Promise<MeetingSearchResult[]> {
+    const supabase = getSupabaseServerClient();
+
+    // `to` is inclusive, so search up to the start of the following day.
+    const to = filters.to ? new Date(Date.parse(filters.to) + 24 * 60 * 60 * 1000).toISOString() : null;
+
+    const { data, error } = await supabase.rpc("search_meetings", {
+        p_owner_id: ownerId,
+        p_query: query,
+        p_project_id: filters.projectId || null,
+        p_from: filters.from ? new Date(filters.from).toISOString() : null,
+        p_to: to,
+        p_speaker: filters.speaker || null,
+        p_limit: limit,
+    });
+
+    if (error) {
+        throw new Error(`Failed to search meetings: ${error.message}`);
+    }
+
+    return ((data || []) as SearchRow[]).map(rowToSearchResult);
+}
@@ -0,0 +1,204 @@
+import { randomBytes, randomUUID } from "crypto";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from "@/lib/auth";
+import { getMeetingById, type StoredMeeting } from "@/lib/meetingStorage";
+
+export interface MeetingShare {
+    id: string;
+    meetingId: string;
+    token: string;
+    includeTranscript: boolean;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    createdAt: string;
+}
+
+export interface MeetingShareFields {
+    includeTranscript: boolean;
+    password: string | null;
+    expiresAt: string | null;
+}
+
+type MeetingShareRow = {
+    id: string;
+    owner_id: string;
+    meeting_id: string;
+    token: string;
+    include_transcript: boolean;
+    password_hash: string | null;
+    expires_at: string | null;
+    created_at: string;
+};
+
+const SHARE_COLUMNS = "id, owner_id, meeting_id, token, include_transcript, password_hash, expires_at, created_at";
+const SHARE_TOKEN_BYTES = 24;
+const MAX_EXPIRY_DAYS = 365;
+
+function rowToMeetingShare(row: MeetingShareRow): MeetingShare {
+    return {
+        id: row.id,
+        meetingId: row.meeting_id,
+        token: row.token,
+        includeTranscript: row.include_transcript,
+        hasPassword: Boolean(row.password_hash),
+        expiresAt: row.expires_at,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * Cookie that remembers an entered share password (see createShareAccessToken).
+ */
+export function shareAccessCookieName(shareId: string): string {
+    return `remembry_share_${shareId}`;
+}
+
+export function isShareExpired(share: { expiresAt: string | null }, now: number = Date.now()): boolean {
+    return share.expiresAt !== null && new Date(share.expiresAt).getTime() <= now;
+}
+
+/**
+ * Validate the options for a new share link sent by a client. `expiresInDays`
+ * is optional; without it the link does not expire.
+ */
+export function parseMeetingShareFields(body: unknown, now: number = Date.now()): { fields: MeetingShareFields } | { error: string } {
+    const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+
+    if (input.includeTranscript !== undefined && typeof input.includeTranscript !== "boolean") {
+        return { error: "includeTranscript must be a boolean" };
+    }
+
+    let password: string | null = null;
+    if (input.password !== undefined && input.password !== null && input.password !== "") {
+        if (typeof input.password !== "string" || input.password.length < MIN_PASSWORD_LENGTH) {
+            return { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+        }
+        password = input.password;
+    }
+
+    let expiresAt: string | null = null;
+    if (input.expiresInDays !== undefined && input.expiresInDays !== null) {
+        const days = input.expiresInDays;
+        if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+            return { error: `expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}` };
+        }
+        expiresAt = new Date(now + days * 24 * 60 * 60 * 1000).toISOString();
+    }
+
+    return {
+        fields: {
+            includeTranscript: input.includeTranscript === true,
+            password,
+            expiresAt,
+        },
+    };
+}
+
+/**
+ * Share links of a meeting, newest first, including expired ones.
+ */
+export async function listMeetingShares(meetingId: string, ownerId: string): Promise<MeetingShare[]> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("meeting_shares")
+        .select(SHARE_COLUMNS)
+        .eq("meeting_id", meetingId)
+        .eq("owner_id", ownerId)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to fetch share links: ${error.message}`);
+    }
+
+    return ((data || []) as MeetingShareRow[]).map(rowToMeetingShare);
+}
+
+export async function createMeetingShare(meetingId: string, ownerId: string, fields: MeetingShareFields): Promise<MeetingShare> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("meeting_shares")
+        .insert({
+            id: randomUUID(),
+            owner_id: ownerId,
+            meeting_id: meetingId,
+            token: randomBytes(SHARE_TOKEN_BYTES).toString("base64url"),
+            include_transcript: fields.includeTranscript,
+            password_hash: fields.password ? await hashPassword(fields.password) : null,
+            expires_at: fields.expiresAt,
+        })
+        .select(SHARE_COLUMNS)
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to create share link: ${error.message}`);
+    }
+
+    return rowToMeetingShare(data as MeetingShareRow);
+}
+
+/**
+ * Revoke a share link. Returns false when the link does not exist or belongs
+ * to another meeting or user.
+ */
+export async function deleteMeetingShare(shareId: string, meetingId: string, ownerId: string): Promise<boolean> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("meeting_shares")
+        .delete()
+        .eq("id", shareId)
+        .eq("meeting_id", meetingId)
+        .eq("owner_id", ownerId)
+        .select("id");
+
+    if (error) {
+        throw new Error(`Failed to revoke share link: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+}
+
+async function getShareRowByToken(token: string): Promise<MeetingShareRow | null> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("meeting_shares")
+        .select(SHARE_COLUMNS)
+        .eq("token", token)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load share link: ${error.message}`);
+    }
+
+    return data as MeetingShareRow | null;
+}
+
+/**
+ * The meeting behind an active share link, or null when the token does not
+ * exist, was revoked, or has expired. This is the only meeting lookup that
+ * does not take an owner: the token itself is the credential.
+ */
+export async function getSharedMeeting(token: string): Promise<{ share: MeetingShare; meeting: StoredMeeting } | null> {
+    const row = await getShareRowByToken(token);
+    if (!row || isShareExpired(rowToMeetingShare(row))) {
+        return null;
+    }
+
+    const meeting = await getMeetingById(row.meeting_id, row.owner_id);
+    return meeting ? { share: rowToMeetingShare(row), meeting } : null;
+}
+
+/**
+ * Check the password of an active share link.
+ */
+export async function verifySharePassword(token: string, password: string): Promise<MeetingShare | null> {
+    const row = await getShareRowByToken(token);
+    if (!row || !row.password_hash || isShareExpired(rowToMeetingShare(row))) {
+        return null;
+    }
+
+    return (await verifyPassword(password, row.password_hash)) ? rowToMeetingShare(row) : null;
+}
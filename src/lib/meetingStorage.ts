@@ -1,4 +1,8 @@
 import { getSupabaseServerClient } from "@/lib/supabase";
+import type { ExtractedActionItem } from "@/lib/gemini";
+import type { TranscriptQualityReport } from "@/lib/transcriptQuality";
+import { getBlobStore, meetingBlobKeys } from "@/lib/blobStore";
+import { deleteMeetingDocuments, updateMeetingDocuments } from "@/lib/fileSearch";
 
 export interface TranscriptionSegment {
     speaker: string;
@@ -11,6 +15,7 @@ export interface MeetingNotes {
     summary: string;
     keyTopics: string[];
     actionItems: string[];
+    actionItemDetails?: ExtractedActionItem[];
     decisions: string[];
     assumptions: string[];
     qa: Array<{ question: string; answer: string }>;
@@ -20,6 +25,7 @@ export interface MeetingNotes {
 export interface StoredMeeting {
     id: string;
     project_id: string;
+    owner_id: string | null;
     title: string;
     context: string | null;
     file_name: string;
@@ -37,8 +43,23 @@ export interface StoredMeeting {
     notes_by_language: Record<string, MeetingNotes>;
     default_language: string;
     available_languages: string[];
+    speaker_names?: Record<string, string>;
+    audio_path?: string | null;
+    transcript_path?: string | null;
+    duration_seconds?: number | null; // From the audio container; null for text uploads
+    transcript_coverage?: number | null; // Share of the recording covered by timed segments
+    quality_report?: TranscriptQualityReport | null; // Checks run after transcription; null for text uploads
 }
 
+export interface MeetingFields {
+    title: string;
+    context: string | null;
+    projectId: string;
+}
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_CONTEXT_LENGTH = 2000;
+
 export async function upsertMeeting(meeting: StoredMeeting): Promise<void> {
     const supabase = getSupabaseServerClient();
 
@@ -51,13 +72,18 @@ export async function upsertMeeting(meeting: StoredMeeting): Promise<void> {
     }
 }
 
-export async function getMeetingById(meetingId: string): Promise<StoredMeeting | null> {
+/**
+ * Load a meeting owned by `ownerId`. Meetings that belong to someone else are
+ * reported as missing.
+ */
+export async function getMeetingById(meetingId: string, ownerId: string): Promise<StoredMeeting | null> {
     const supabase = getSupabaseServerClient();
 
     const { data, error } = await supabase
         .from("meetings")
-        .select("id, project_id, title, context, file_name, file_size, mime_type, file_type, created_at, transcription, notes_by_language, default_language, available_languages")
+        .select("id, project_id, owner_id, title, context, file_name, file_size, mime_type, file_type, created_at, transcription, notes_by_language, default_language, available_languages, speaker_names, audio_path, transcript_path, duration_seconds, transcript_coverage, quality_report")
         .eq("id", meetingId)
+        .eq("owner_id", ownerId)
         .maybeSingle();
 
     if (error) {
@@ -67,8 +93,8 @@ export async function getMeetingById(meetingId: string): Promise<StoredMeeting |
     return (data as StoredMeeting | null) || null;
 }
 
-export async function getMeetingMetadata(meetingId: string): Promise<{ availableLanguages: string[]; defaultLanguage: string; createdAt: string | null } | null> {
-    const meeting = await getMeetingById(meetingId);
+export async function getMeetingMetadata(meetingId: string, ownerId: string): Promise<{ availableLanguages: string[]; defaultLanguage: string; createdAt: string | null } | null> {
+    const meeting = await getMeetingById(meetingId, ownerId);
     if (!meeting) {
         return null;
     }
@@ -80,8 +106,8 @@ export async function getMeetingMetadata(meetingId: string): Promise<{ available
     };
 }
 
-export async function getMeetingNotes(meetingId: string, language: string): Promise<{ notes: MeetingNotes | null; needsRegeneration: boolean }> {
-    const meeting = await getMeetingById(meetingId);
+export async function getMeetingNotes(meetingId: string, ownerId: string, language: string): Promise<{ notes: MeetingNotes | null; needsRegeneration: boolean }> {
+    const meeting = await getMeetingById(meetingId, ownerId);
     if (!meeting) {
         throw new Error("Meeting not found");
     }
@@ -95,8 +121,8 @@ export async function getMeetingNotes(meetingId: string, language: string): Prom
     };
 }
 
-export async function updateMeetingNotesLanguage(meetingId: string, language: string, notes: MeetingNotes): Promise<void> {
-    const meeting = await getMeetingById(meetingId);
+export async function updateMeetingNotesLanguage(meetingId: string, ownerId: string, language: string, notes: MeetingNotes): Promise<void> {
+    const meeting = await getMeetingById(meetingId, ownerId);
     if (!meeting) {
         throw new Error("Meeting not found");
     }
@@ -118,9 +144,147 @@ export async function updateMeetingNotesLanguage(meetingId: string, language: st
             notes_by_language: notesByLanguage,
             available_languages: availableLanguages,
         })
-        .eq("id", meetingId);
+        .eq("id", meetingId)
+        .eq("owner_id", ownerId);
 
     if (error) {
         throw new Error(`Failed to update meeting notes: ${error.message}`);
     }
 }
+
+export async function updateMeetingSpeakerNames(meetingId: string, ownerId: string, speakerNames: Record<string, string>): Promise<void> {
+    const supabase = getSupabaseServerClient();
+    const { error } = await supabase
+        .from("meetings")
+        .update({ speaker_names: speakerNames })
+        .eq("id", meetingId)
+        .eq("owner_id", ownerId);
+
+    if (error) {
+        throw new Error(`Failed to update speaker names: ${error.message}`);
+    }
+}
+
+/**
+ * Validate a meeting update sent by a client. Fields that are absent are left
+ * out of the result.
+ */
+export function parseMeetingFields(body: unknown): { fields: Partial<MeetingFields> } | { error: string } {
+    const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+    const fields: Partial<MeetingFields> = {};
+
+    if (input.title !== undefined) {
+        if (typeof input.title !== "string" || !input.title.trim()) {
+            return { error: "title must be a non-empty string" };
+        }
+        if (input.title.trim().length > MAX_TITLE_LENGTH) {
+            return { error: `title must be at most ${MAX_TITLE_LENGTH} characters` };
+        }
+        fields.title = input.title.trim();
+    }
+
+    if (input.context !== undefined) {
+        if (input.context !== null && typeof input.context !== "string") {
+            return { error: "context must be a string or null" };
+        }
+        if (typeof input.context === "string" && input.context.length > MAX_CONTEXT_LENGTH) {
+            return { error: `context must be at most ${MAX_CONTEXT_LENGTH} characters` };
+        }
+        fields.context = input.context?.trim() || null;
+    }
+
+    if (input.projectId !== undefined) {
+        if (typeof input.projectId !== "string" || !input.projectId.trim()) {
+            return { error: "projectId must be a non-empty string" };
+        }
+        fields.projectId = input.projectId.trim();
+    }
+
+    if (Object.keys(fields).length === 0) {
+        return { error: "Nothing to update: send title, context or projectId" };
+    }
+
+    return { fields };
+}
+
+/**
+ * Rename a meeting, change its context or move it to another project. The
+ * meeting's transcript document is renamed and moved with it, so project
+ * chat keeps citing it under the right title and project. The caller checks
+ * that a new project belongs to `ownerId`. Returns null when the meeting does
+ * not exist.
+ */
+export async function updateMeeting(
+    meetingId: string,
+    ownerId: string,
+    fields: Partial<MeetingFields>
+): Promise<StoredMeeting | null> {
+    const meeting = await getMeetingById(meetingId, ownerId);
+    if (!meeting) {
+        return null;
+    }
+
+    const changes: Record<string, unknown> = {};
+    if (fields.title !== undefined) changes.title = fields.title;
+    if (fields.context !== undefined) changes.context = fields.context;
+    if (fields.projectId !== undefined) changes.project_id = fields.projectId;
+
+    const supabase = getSupabaseServerClient();
+    const { error } = await supabase
+        .from("meetings")
+        .update(changes)
+        .eq("id", meetingId)
+        .eq("owner_id", ownerId);
+
+    if (error) {
+        throw new Error(`Failed to update meeting: ${error.message}`);
+    }
+
+    const titleChanged = fields.title !== undefined && fields.title !== meeting.title;
+    const projectChanged = fields.projectId !== undefined && fields.projectId !== meeting.project_id;
+    if (titleChanged || projectChanged) {
+        await updateMeetingDocuments(meeting.project_id, meeting.id, {
+            title: titleChanged ? fields.title : undefined,
+            projectId: projectChanged ? fields.projectId : undefined,
+        });
+    }
+
+    return {
+        ...meeting,
+        title: fields.title ?? meeting.title,
+        context: fields.context !== undefined ? fields.context : meeting.context,
+        project_id: fields.projectId ?? meeting.project_id,
+    };
+}
+
+/**
+ * Delete a meeting row, its transcript document in the project's search index
+ * and its stored recording and transcript. Rows that reference the meeting
+ * (revisions, action items, participants, share links) go with it through
+ * their foreign keys. Returns false when the meeting does not exist.
+ */
+export async function deleteMeeting(meetingId: string, ownerId: string): Promise<boolean> {
+    const meeting = await getMeetingById(meetingId, ownerId);
+    if (!meeting) {
+        return false;
+    }
+
+    // Remove the document first, so project chat never cites a deleted meeting.
+    await deleteMeetingDocuments(meeting.project_id, meeting.id);
+
+    const supabase = getSupabaseServerClient();
+    const { error } = await supabase
+        .from("meetings")
+        .delete()
+        .eq("id", meetingId)
+        .eq("owner_id", ownerId);
+
+    if (error) {
+        throw new Error(`Failed to delete meeting: ${error.message}`);
+    }
+
+    // Blobs go last: a blob left behind by a failure is harmless, a row
+    // pointing at a missing blob is not.
+    await getBlobStore().delete(meetingBlobKeys(meeting));
+    return true;
+}
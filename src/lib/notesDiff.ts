@@ -0,0 +1,73 @@
+import type { MeetingNotes } from "@/lib/meetingStorage";
+
+export type NotesSection = "summary" | "keyTopics" | "actionItems" | "decisions" | "assumptions" | "qa";
+
+export interface NotesSectionDiff {
+    section: NotesSection;
+    label: string;
+    added: string[];
+    removed: string[];
+}
+
+export const NOTES_SECTION_LABELS: Record<NotesSection, string> = {
+    summary: "Executive Summary",
+    keyTopics: "Key Topics",
+    actionItems: "Action Items",
+    decisions: "Key Decisions",
+    assumptions: "Assumptions",
+    qa: "Q&A",
+};
+
+function sectionItems(notes: MeetingNotes | null, section: NotesSection): string[] {
+    if (!notes) {
+        return [];
+    }
+    if (section === "summary") {
+        return notes.summary?.trim() ? [notes.summary.trim()] : [];
+    }
+    if (section === "qa") {
+        return (notes.qa || []).map((item) => `Q: ${item.question.trim()}\nA: ${item.answer.trim()}`);
+    }
+    return (notes[section] || []).map((item) => item.trim());
+}
+
+/**
+ * Items in `items` that are not matched one-for-one in `other`.
+ */
+function subtract(items: string[], other: string[]): string[] {
+    const remaining = new Map<string, number>();
+    for (const item of other) {
+        remaining.set(item, (remaining.get(item) || 0) + 1);
+    }
+
+    return items.filter((item) => {
+        const count = remaining.get(item) || 0;
+        if (count === 0) {
+            return true;
+        }
+        remaining.set(item, count - 1);
+        return false;
+    });
+}
+
+/**
+ * Compare two versions of meeting notes section by section. Items are compared
+ * as whole lines, so an edited item shows up as one removal and one addition.
+ * Only sections that changed are returned.
+ */
+export function diffMeetingNotes(before: MeetingNotes | null, after: MeetingNotes): NotesSectionDiff[] {
+    const diffs: NotesSectionDiff[] = [];
+
+    for (const section of Object.keys(NOTES_SECTION_LABELS) as NotesSection[]) {
+        const previous = sectionItems(before, section);
+        const next = sectionItems(after, section);
+        const added = subtract(next, previous);
+        const removed = subtract(previous, next);
+
+        if (added.length > 0 || removed.length > 0) {
+            diffs.push({ section, label: NOTES_SECTION_LABELS[section], added, removed });
+        }
+    }
+
+    return diffs;
+}
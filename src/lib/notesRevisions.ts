@@ -0,0 +1,293 @@
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { getMeetingById, updateMeetingNotesLanguage, MeetingNotes } from "@/lib/meetingStorage";
+import { formatActionItem, normalizeExtractedActionItems } from "@/lib/llmOutput";
+import type { ExtractedActionItem } from "@/lib/gemini";
+
+export type NotesRevisionSource = "generated" | "manual" | "restore";
+
+export interface NotesRevision {
+    id: number;
+    meetingId: string;
+    language: string;
+    notes: MeetingNotes;
+    source: NotesRevisionSource;
+    author: { id: string; email: string; displayName: string | null } | null;
+    restoredFrom: number | null;
+    createdAt: string;
+}
+
+type NotesRevisionRow = {
+    id: number;
+    meeting_id: string;
+    language: string;
+    notes: MeetingNotes;
+    source: NotesRevisionSource;
+    author_id: string | null;
+    restored_from: number | null;
+    created_at: string;
+    author: { email: string; display_name: string | null } | null;
+};
+
+const REVISION_COLUMNS = "id, meeting_id, language, notes, source, author_id, restored_from, created_at, author:app_users(email, display_name)";
+
+function rowToRevision(row: NotesRevisionRow): NotesRevision {
+    return {
+        id: row.id,
+        meetingId: row.meeting_id,
+        language: row.language,
+        notes: row.notes,
+        source: row.source,
+        author: row.author_id && row.author
+            ? { id: row.author_id, email: row.author.email, displayName: row.author.display_name }
+            : null,
+        restoredFrom: row.restored_from,
+        createdAt: row.created_at,
+    };
+}
+
+function toStringList(value: unknown): string[] | null {
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        return null;
+    }
+    return value.map((item: string) => item.trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * Line the structured action items up with `actionItems` again after an edit.
+ * An item whose text is unchanged keeps its assignee, due date, priority and
+ * source segment; an edited or new item gets plain details, as if the model
+ * had returned it as text. Returns undefined when there were no details.
+ */
+function reconcileActionItemDetails(
+    actionItems: string[],
+    details: ExtractedActionItem[] | undefined
+): ExtractedActionItem[] | undefined {
+    if (!details) {
+        return undefined;
+    }
+
+    const unused = [...details];
+    return actionItems.map((text) => {
+        const index = unused.findIndex((detail) => formatActionItem(detail) === text || detail.description === text);
+        if (index === -1) {
+            return normalizeExtractedActionItems([text])[0];
+        }
+        return unused.splice(index, 1)[0];
+    });
+}
+
+/**
+ * Check the shape of notes sent by a client and trim empty entries. Returns
+ * null when a section is missing or has the wrong type. Structured action
+ * item details are not taken from the client; saveMeetingNotes carries them
+ * over from the stored notes.
+ */
+export function normalizeMeetingNotes(input: unknown): MeetingNotes | null {
+    if (!input || typeof input !== "object") {
+        return null;
+    }
+
+    const notes = input as Record<string, unknown>;
+    const keyTopics = toStringList(notes.keyTopics);
+    const actionItems = toStringList(notes.actionItems);
+    const decisions = toStringList(notes.decisions);
+    const assumptions = toStringList(notes.assumptions);
+
+    if (typeof notes.summary !== "string" || !keyTopics || !actionItems || !decisions || !assumptions || !Array.isArray(notes.qa)) {
+        return null;
+    }
+
+    const qa: MeetingNotes["qa"] = [];
+    for (const item of notes.qa) {
+        if (!item || typeof item.question !== "string" || typeof item.answer !== "string") {
+            return null;
+        }
+        if (item.question.trim() || item.answer.trim()) {
+            qa.push({ question: item.question.trim(), answer: item.answer.trim() });
+        }
+    }
+
+    return {
+        summary: notes.summary.trim(),
+        keyTopics,
+        actionItems,
+        decisions,
+        assumptions,
+        qa,
+    };
+}
+
+async function insertRevision(values: {
+    meetingId: string;
+    language: string;
+    notes: MeetingNotes;
+    source: NotesRevisionSource;
+    authorId: string | null;
+    restoredFrom?: number | null;
+    createdAt?: string;
+}): Promise<NotesRevision> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("meeting_notes_revisions")
+        .insert({
+            meeting_id: values.meetingId,
+            language: values.language,
+            notes: values.notes,
+            source: values.source,
+            author_id: values.authorId,
+            restored_from: values.restoredFrom ?? null,
+            ...(values.createdAt ? { created_at: values.createdAt } : {}),
+        })
+        .select(REVISION_COLUMNS)
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to save notes revision: ${error.message}`);
+    }
+
+    return rowToRevision(data as unknown as NotesRevisionRow);
+}
+
+async function getLatestRevisionSource(meetingId: string, language: string): Promise<NotesRevisionSource | null> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("meeting_notes_revisions")
+        .select("source")
+        .eq("meeting_id", meetingId)
+        .eq("language", language)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load notes revisions: ${error.message}`);
+    }
+
+    return data ? (data.source as NotesRevisionSource) : null;
+}
+
+/**
+ * Whether the current notes in `language` were written or restored by a user
+ * rather than generated. Regenerating such notes needs explicit confirmation.
+ */
+export async function hasManualNotesEdits(meetingId: string, language: string): Promise<boolean> {
+    const source = await getLatestRevisionSource(meetingId, language);
+    return source !== null && source !== "generated";
+}
+
+/**
+ * Store notes for a meeting in one language and add a revision for them.
+ * Notes saved before revisions existed are kept as the first revision the first
+ * time they are replaced, so they can still be restored.
+ */
+export async function saveMeetingNotes(
+    meetingId: string,
+    ownerId: string,
+    language: string,
+    notes: MeetingNotes,
+    options: { source: NotesRevisionSource; authorId: string | null; restoredFrom?: number }
+): Promise<NotesRevision> {
+    const meeting = await getMeetingById(meetingId, ownerId);
+    if (!meeting) {
+        throw new Error("Meeting not found");
+    }
+
+    const previous = meeting.notes_by_language?.[language];
+    if (previous && (await getLatestRevisionSource(meetingId, language)) === null) {
+        await insertRevision({
+            meetingId,
+            language,
+            notes: previous,
+            source: "generated",
+            authorId: null,
+            createdAt: meeting.created_at,
+        });
+    }
+
+    const stored: MeetingNotes = {
+        ...notes,
+        actionItemDetails: reconcileActionItemDetails(
+            notes.actionItems,
+            notes.actionItemDetails ?? previous?.actionItemDetails
+        ),
+        language,
+    };
+    await updateMeetingNotesLanguage(meetingId, ownerId, language, stored);
+
+    return insertRevision({
+        meetingId,
+        language,
+        notes: stored,
+        source: options.source,
+        authorId: options.authorId,
+        restoredFrom: options.restoredFrom,
+    });
+}
+
+/**
+ * Revisions of a meeting's notes in one language, newest first. Returns null
+ * when the meeting does not belong to `ownerId`.
+ */
+export async function listNotesRevisions(meetingId: string, ownerId: string, language: string): Promise<NotesRevision[] | null> {
+    const meeting = await getMeetingById(meetingId, ownerId);
+    if (!meeting) {
+        return null;
+    }
+
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("meeting_notes_revisions")
+        .select(REVISION_COLUMNS)
+        .eq("meeting_id", meetingId)
+        .eq("language", language)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to load notes revisions: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as NotesRevisionRow[]).map(rowToRevision);
+}
+
+/**
+ * Make an older revision the current notes again. The restore is itself added
+ * as a new revision, so it can be undone. Returns null when the meeting or
+ * revision does not exist for `ownerId`.
+ */
+export async function restoreNotesRevision(
+    meetingId: string,
+    ownerId: string,
+    revisionId: number,
+    authorId: string
+): Promise<NotesRevision | null> {
+    const meeting = await getMeetingById(meetingId, ownerId);
+    if (!meeting) {
+        return null;
+    }
+
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("meeting_notes_revisions")
+        .select(REVISION_COLUMNS)
+        .eq("id", revisionId)
+        .eq("meeting_id", meetingId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load notes revision: ${error.message}`);
+    }
+    if (!data) {
+        return null;
+    }
+
+    const revision = rowToRevision(data as unknown as NotesRevisionRow);
+    return saveMeetingNotes(meetingId, ownerId, revision.language, revision.notes, {
+        source: "restore",
+        authorId,
+        restoredFrom: revision.id,
+    });
+}
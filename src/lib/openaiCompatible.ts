@@ -0,0 +1,262 @@
+import { readFile } from "fs/promises";
+import * as path from "path";
+import { Type, type Schema } from "@google/genai";
+import { retryWithBackoff } from "@/lib/gemini";
+import { LlmOutputValidationError } from "@/lib/llmOutput";
+import type { LlmProvider, LlmRequest, TranscriptionProvider } from "@/lib/aiProviders";
+import { EMBEDDING_BATCH_SIZE, EMBEDDING_DIMENSIONS, normalizeEmbedding, type Embedder } from "@/lib/embeddings";
+
+// Servers that speak the OpenAI HTTP API (Ollama, llama.cpp, vLLM, LM Studio,
+// faster-whisper-server, ...). Configured once for the whole installation.
+const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+const LLM_TIMEOUT_MS = 5 * 60 * 1000;
+const TRANSCRIPTION_TIMEOUT_MS = 15 * 60 * 1000;
+// Whisper only reads the last ~224 tokens of its prompt.
+const MAX_TRANSCRIPTION_PROMPT_CHARS = 800;
+
+const JSON_SCHEMA_TYPES: Partial<Record<Type, string>> = {
+    [Type.STRING]: "string",
+    [Type.NUMBER]: "number",
+    [Type.INTEGER]: "integer",
+    [Type.BOOLEAN]: "boolean",
+    [Type.ARRAY]: "array",
+    [Type.OBJECT]: "object",
+};
+
+export interface OpenAiCompatibleConfig {
+    baseUrl: string;
+    apiKey: string | null;
+    llmModel: string | null;
+    transcriptionModel: string;
+    embeddingModel: string | null; // Null leaves project search to keyword matching
+}
+
+interface EmbeddingsResponse {
+    data?: Array<{ index?: number; embedding?: number[] }>;
+}
+
+interface VerboseTranscription {
+    text?: string;
+    language?: string;
+    duration?: number;
+    segments?: Array<{ start?: number; end?: number; text?: string }>;
+}
+
+/**
+ * Server settings from the environment, or null when OPENAI_COMPATIBLE_BASE_URL
+ * is not set.
+ */
+export function getOpenAiCompatibleConfig(): OpenAiCompatibleConfig | null {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL?.trim();
+    if (!baseUrl) {
+        return null;
+    }
+
+    return {
+        baseUrl: baseUrl.replace(/\/+$/, ""),
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY?.trim() || null,
+        llmModel: process.env.OPENAI_COMPATIBLE_LLM_MODEL?.trim() || null,
+        transcriptionModel: process.env.OPENAI_COMPATIBLE_TRANSCRIPTION_MODEL?.trim() || DEFAULT_TRANSCRIPTION_MODEL,
+        embeddingModel: process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL?.trim() || null,
+    };
+}
+
+function requireConfig(): OpenAiCompatibleConfig {
+    const config = getOpenAiCompatibleConfig();
+    if (!config) {
+        throw new Error("OpenAI-compatible server is not configured (set OPENAI_COMPATIBLE_BASE_URL)");
+    }
+    return config;
+}
+
+/**
+ * Convert a Gemini response schema into the JSON Schema used by
+ * `response_format`. Nullable fields become a union with null.
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+    const jsonSchema: Record<string, unknown> = {};
+
+    const type = schema.type ? JSON_SCHEMA_TYPES[schema.type] : undefined;
+    if (type) {
+        jsonSchema.type = schema.nullable ? [type, "null"] : type;
+    }
+    if (schema.enum) {
+        jsonSchema.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+    }
+    if (schema.description) {
+        jsonSchema.description = schema.description;
+    }
+    if (schema.items) {
+        jsonSchema.items = toJsonSchema(schema.items);
+    }
+    if (schema.properties) {
+        jsonSchema.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)])
+        );
+        jsonSchema.required = schema.required || [];
+        jsonSchema.additionalProperties = false;
+    }
+
+    return jsonSchema;
+}
+
+async function postToServer(config: OpenAiCompatibleConfig, endpoint: string, body: BodyInit, timeoutMs: number, json: boolean): Promise<unknown> {
+    const headers: Record<string, string> = {};
+    if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+    if (json) {
+        headers["Content-Type"] = "application/json";
+    }
+
+    // The status is part of the message so retryWithBackoff can spot 429 and 5xx.
+    return retryWithBackoff(async () => {
+        const response = await fetch(`${config.baseUrl}${endpoint}`, {
+            method: "POST",
+            headers,
+            body,
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => "");
+            throw new Error(`OpenAI-compatible server returned ${response.status} for ${endpoint}: ${detail.slice(0, 300)}`);
+        }
+        return response.json();
+    }, 3, 2000);
+}
+
+/**
+ * Text model served at `/chat/completions`. Requests with a response schema
+ * ask for JSON through `response_format`. Calls are not metered.
+ */
+export function createOpenAiCompatibleLlmProvider(model?: string): LlmProvider {
+    const config = requireConfig();
+    const resolvedModel = model || config.llmModel;
+    if (!resolvedModel) {
+        throw new Error("No model set for the OpenAI-compatible server (set OPENAI_COMPATIBLE_LLM_MODEL or choose one in Settings)");
+    }
+
+    return {
+        kind: "openai_compatible",
+        model: resolvedModel,
+        async generate(request: LlmRequest) {
+            const messages = [
+                ...(request.systemInstruction ? [{ role: "system", content: request.systemInstruction }] : []),
+                ...request.messages.map((message) => ({
+                    role: message.role === "model" ? "assistant" : "user",
+                    content: message.text,
+                })),
+            ];
+
+            const data = await postToServer(config, "/chat/completions", JSON.stringify({
+                model: resolvedModel,
+                messages,
+                ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+                ...(request.responseSchema
+                    ? {
+                        response_format: {
+                            type: "json_schema",
+                            json_schema: { name: "response", schema: toJsonSchema(request.responseSchema), strict: true },
+                        },
+                    }
+                    : {}),
+            }), LLM_TIMEOUT_MS, true) as { choices?: Array<{ message?: { content?: string | null } }> };
+
+            return data.choices?.[0]?.message?.content || "";
+        },
+    };
+}
+
+/**
+ * Speech-to-text served at `/audio/transcriptions` (Whisper API). There is no
+ * diarization, so every segment is attributed to a single "Speaker"; the
+ * meeting context is passed as the prompt to help with names and terms.
+ */
+export function createOpenAiCompatibleTranscriptionProvider(model?: string): TranscriptionProvider {
+    const config = requireConfig();
+    const resolvedModel = model || config.transcriptionModel;
+
+    return {
+        kind: "openai_compatible",
+        model: resolvedModel,
+        async transcribe(request) {
+            const audio = await readFile(request.filePath);
+            const prompt = request.context?.slice(-MAX_TRANSCRIPTION_PROMPT_CHARS);
+
+            const form = new FormData();
+            form.append("file", new Blob([audio], { type: request.mimeType }), path.basename(request.filePath));
+            form.append("model", resolvedModel);
+            form.append("response_format", "verbose_json");
+            form.append("timestamp_granularities[]", "segment");
+            if (prompt) {
+                form.append("prompt", prompt);
+            }
+
+            const data = await postToServer(config, "/audio/transcriptions", form, TRANSCRIPTION_TIMEOUT_MS, false) as VerboseTranscription;
+
+            const segments = (data.segments || [])
+                .filter((segment) => typeof segment.text === "string" && segment.text.trim())
+                .map((segment) => ({
+                    speaker: "Speaker",
+                    text: (segment.text as string).trim(),
+                    ...(typeof segment.start === "number" ? { startTime: segment.start } : {}),
+                    ...(typeof segment.end === "number" ? { endTime: segment.end } : {}),
+                }));
+
+            const text = data.text?.trim() || segments.map((segment) => segment.text).join("\n");
+            if (!text) {
+                throw new LlmOutputValidationError("transcription", ["transcript is empty"], 1);
+            }
+
+            return {
+                text,
+                segments: segments.length > 0 ? segments : [{ speaker: "Speaker", text }],
+                speakers: ["Speaker"],
+                duration: 0,
+                language: data.language || undefined,
+            };
+        },
+    };
+}
+
+/**
+ * Embedder served at `/embeddings`. Vectors are requested at the size of the
+ * chunk table's column; a model that cannot produce that size is rejected, so
+ * the caller falls back to keyword search.
+ */
+export function createOpenAiCompatibleEmbedder(model?: string): Embedder {
+    const config = requireConfig();
+    const resolvedModel = model || config.embeddingModel;
+    if (!resolvedModel) {
+        throw new Error("No embedding model set for the OpenAI-compatible server (set OPENAI_COMPATIBLE_EMBEDDING_MODEL)");
+    }
+
+    return {
+        async embed(texts) {
+            const vectors: number[][] = [];
+
+            for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+                const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+                const data = await postToServer(config, "/embeddings", JSON.stringify({
+                    model: resolvedModel,
+                    input: batch,
+                    dimensions: EMBEDDING_DIMENSIONS,
+                }), LLM_TIMEOUT_MS, true) as EmbeddingsResponse;
+
+                const embeddings = [...(data.data || [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+                if (embeddings.length !== batch.length) {
+                    throw new Error(`Expected ${batch.length} embeddings but received ${embeddings.length}`);
+                }
+
+                for (const { embedding } of embeddings) {
+                    if (!embedding || embedding.length !== EMBEDDING_DIMENSIONS) {
+                        throw new Error(`${resolvedModel} returned ${embedding?.length ?? 0}-dimensional embeddings; ${EMBEDDING_DIMENSIONS} are required`);
+                    }
+                    vectors.push(normalizeEmbedding(embedding));
+                }
+            }
+
+            return vectors;
+        },
+    };
+}
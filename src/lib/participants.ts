@@ -0,0 +1,463 @@
+import { randomUUID } from "crypto";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import type { TranscriptionSegment } from "@/lib/meetingStorage";
+import { listActionItems, ActionItem } from "@/lib/actionItems";
+import { parseSpeakerLabel, speakerLabelSimilarity, SPEAKER_MATCH_THRESHOLD } from "@/lib/transcriptStitching";
+import type { SpeakerNames } from "@/lib/speakerNames";
+
+export interface Participant {
+    id: string;
+    projectId: string;
+    projectDisplayName: string | null;
+    name: string;
+    role: string | null;
+    aliases: string[];
+    voiceLabels: string[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ParticipantFields {
+    name: string;
+    role: string | null;
+    aliases: string[];
+}
+
+export interface SpeakerMatchSuggestion {
+    participantId: string;
+    name: string;
+    score: number;
+}
+
+export interface ParticipantMeeting {
+    id: string;
+    title: string;
+    createdAt: string;
+    speakerLabel: string;
+    segments: Array<{ index: number; text: string; startTime?: number }>;
+}
+
+export interface ParticipantActivity {
+    participant: Participant;
+    meetings: ParticipantMeeting[];
+    actionItems: ActionItem[];
+}
+
+type ParticipantRow = {
+    id: string;
+    project_id: string;
+    name: string;
+    role: string | null;
+    aliases: string[] | null;
+    voice_labels: string[] | null;
+    created_at: string;
+    updated_at: string;
+    project: { display_name: string } | null;
+};
+
+type MeetingParticipantRow = {
+    speaker_label: string;
+    meeting: {
+        id: string;
+        title: string;
+        created_at: string;
+        transcription: { segments?: TranscriptionSegment[] } | null;
+    } | null;
+};
+
+const PARTICIPANT_COLUMNS = "id, project_id, name, role, aliases, voice_labels, created_at, updated_at, project:projects(display_name)";
+const MAX_NAME_LENGTH = 100;
+const MAX_ALIASES = 20;
+
+function rowToParticipant(row: ParticipantRow): Participant {
+    return {
+        id: row.id,
+        projectId: row.project_id,
+        projectDisplayName: row.project?.display_name || null,
+        name: row.name,
+        role: row.role,
+        aliases: row.aliases || [],
+        voiceLabels: row.voice_labels || [],
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+function sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Whether `name` is the participant's name or one of their aliases.
+ */
+export function participantHasName(participant: Participant, name: string): boolean {
+    return sameName(participant.name, name) || participant.aliases.some((alias) => sameName(alias, name));
+}
+
+/**
+ * Validate participant fields sent by a client. With `partial`, fields that
+ * are absent are left out of the result instead of being required.
+ */
+export function parseParticipantFields(
+    body: unknown,
+    partial: boolean
+): { fields: Partial<ParticipantFields> } | { error: string } {
+    const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+    const fields: Partial<ParticipantFields> = {};
+
+    if (input.name !== undefined || !partial) {
+        if (typeof input.name !== "string" || !input.name.trim()) {
+            return { error: "name is required" };
+        }
+        if (input.name.trim().length > MAX_NAME_LENGTH) {
+            return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+        }
+        fields.name = input.name.trim();
+    }
+
+    if (input.role !== undefined) {
+        if (input.role !== null && typeof input.role !== "string") {
+            return { error: "role must be a string or null" };
+        }
+        fields.role = input.role?.trim() || null;
+    }
+
+    if (input.aliases !== undefined) {
+        if (!Array.isArray(input.aliases) || input.aliases.some((alias) => typeof alias !== "string")) {
+            return { error: "aliases must be a list of strings" };
+        }
+        const aliases = Array.from(new Set(input.aliases.map((alias: string) => alias.trim()).filter(Boolean)));
+        if (aliases.length > MAX_ALIASES || aliases.some((alias) => alias.length > MAX_NAME_LENGTH)) {
+            return { error: `At most ${MAX_ALIASES} aliases of up to ${MAX_NAME_LENGTH} characters are allowed` };
+        }
+        fields.aliases = aliases;
+    }
+
+    return { fields };
+}
+
+export async function listParticipants(ownerId: string, projectId: string): Promise<Participant[]> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("participants")
+        .select(PARTICIPANT_COLUMNS)
+        .eq("owner_id", ownerId)
+        .eq("project_id", projectId)
+        .order("name", { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to load participants: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as ParticipantRow[]).map(rowToParticipant);
+}
+
+export async function getParticipant(ownerId: string, participantId: string): Promise<Participant | null> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("participants")
+        .select(PARTICIPANT_COLUMNS)
+        .eq("id", participantId)
+        .eq("owner_id", ownerId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load participant: ${error.message}`);
+    }
+
+    return data ? rowToParticipant(data as unknown as ParticipantRow) : null;
+}
+
+/**
+ * Add a participant to a project. The caller checks that the project belongs
+ * to `ownerId`. Names are unique per project, ignoring case.
+ */
+export async function createParticipant(
+    ownerId: string,
+    projectId: string,
+    fields: Partial<ParticipantFields> & { name: string },
+    voiceLabels: string[] = []
+): Promise<Participant> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("participants")
+        .insert({
+            id: `participant_${randomUUID()}`,
+            owner_id: ownerId,
+            project_id: projectId,
+            name: fields.name,
+            role: fields.role ?? null,
+            aliases: fields.aliases || [],
+            voice_labels: voiceLabels,
+        })
+        .select(PARTICIPANT_COLUMNS)
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to create participant: ${error.message}`);
+    }
+
+    return rowToParticipant(data as unknown as ParticipantRow);
+}
+
+/**
+ * Keep the speaker names of linked meetings in step with a renamed participant.
+ */
+async function renameLinkedSpeakers(ownerId: string, participantId: string, name: string): Promise<void> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("meeting_participants")
+        .select("speaker_label, meeting:meetings(id, speaker_names)")
+        .eq("participant_id", participantId);
+
+    if (error) {
+        throw new Error(`Failed to load participant meetings: ${error.message}`);
+    }
+
+    const meetings = new Map<string, SpeakerNames>();
+    for (const row of (data || []) as unknown as Array<{ speaker_label: string; meeting: { id: string; speaker_names: SpeakerNames | null } | null }>) {
+        if (!row.meeting) continue;
+        const names = meetings.get(row.meeting.id) || { ...(row.meeting.speaker_names || {}) };
+        names[row.speaker_label] = name;
+        meetings.set(row.meeting.id, names);
+    }
+
+    for (const [meetingId, speakerNames] of meetings) {
+        const { error: updateError } = await supabase
+            .from("meetings")
+            .update({ speaker_names: speakerNames })
+            .eq("id", meetingId)
+            .eq("owner_id", ownerId);
+
+        if (updateError) {
+            throw new Error(`Failed to update speaker names: ${updateError.message}`);
+        }
+    }
+}
+
+/**
+ * Update a participant. Renaming also renames their speakers in every linked
+ * meeting. Returns null when the participant does not exist.
+ */
+export async function updateParticipant(
+    ownerId: string,
+    participantId: string,
+    fields: Partial<ParticipantFields>
+): Promise<Participant | null> {
+    const supabase = getSupabaseServerClient();
+    const changes: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (fields.name !== undefined) changes.name = fields.name;
+    if (fields.role !== undefined) changes.role = fields.role;
+    if (fields.aliases !== undefined) changes.aliases = fields.aliases;
+
+    const { data, error } = await supabase
+        .from("participants")
+        .update(changes)
+        .eq("id", participantId)
+        .eq("owner_id", ownerId)
+        .select(PARTICIPANT_COLUMNS)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to update participant: ${error.message}`);
+    }
+    if (!data) {
+        return null;
+    }
+
+    if (fields.name !== undefined) {
+        await renameLinkedSpeakers(ownerId, participantId, fields.name);
+    }
+
+    return rowToParticipant(data as unknown as ParticipantRow);
+}
+
+export async function deleteParticipant(ownerId: string, participantId: string): Promise<boolean> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("participants")
+        .delete()
+        .eq("id", participantId)
+        .eq("owner_id", ownerId)
+        .select("id");
+
+    if (error) {
+        throw new Error(`Failed to delete participant: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+}
+
+/**
+ * Suggest a known participant for each speaker label that has no name yet.
+ * A label matches when its tag is a participant's name or alias (transcription
+ * may use names it was given as context), or when it sounds like a voice label
+ * the participant was given in an earlier meeting.
+ */
+export function suggestSpeakerMatches(
+    participants: Participant[],
+    labels: string[],
+    speakerNames: SpeakerNames = {}
+): Record<string, SpeakerMatchSuggestion> {
+    const suggestions: Record<string, SpeakerMatchSuggestion> = {};
+
+    for (const label of labels) {
+        if (speakerNames[label]) continue;
+
+        const { tag } = parseSpeakerLabel(label);
+        let best: SpeakerMatchSuggestion | null = null;
+
+        for (const participant of participants) {
+            const score = participantHasName(participant, tag)
+                ? 1
+                : Math.max(0, ...participant.voiceLabels.map((voiceLabel) => speakerLabelSimilarity(label, voiceLabel)));
+
+            if (score >= SPEAKER_MATCH_THRESHOLD && (!best || score > best.score)) {
+                best = { participantId: participant.id, name: participant.name, score };
+            }
+        }
+
+        if (best) {
+            suggestions[label] = best;
+        }
+    }
+
+    return suggestions;
+}
+
+/**
+ * Describe the known participants of a project for the transcription prompt,
+ * so speakers who were named before can be recognised again.
+ */
+export function formatParticipantsForTranscription(participants: Participant[]): string {
+    if (participants.length === 0) {
+        return "";
+    }
+
+    const lines = participants.map((participant) => {
+        const details = [
+            participant.role,
+            participant.aliases.length > 0 ? `also called ${participant.aliases.join(", ")}` : null,
+            participant.voiceLabels.length > 0 ? `previously labelled ${participant.voiceLabels.map((label) => `"${label}"`).join(", ")}` : null,
+        ].filter(Boolean);
+        return `- ${participant.name}${details.length > 0 ? ` (${details.join("; ")})` : ""}`;
+    });
+
+    return [
+        "Known participants from earlier meetings of this project:",
+        ...lines,
+        'When a speaker is clearly one of these people (for example they are addressed by name), use their name as the label tag, e.g. "Alice (calm female voice)". Otherwise keep the "Person X (voice description)" format.',
+    ].join("\n");
+}
+
+/**
+ * Record which participant each named speaker of a meeting is. Names that do
+ * not match an existing participant (by name or alias) create one, and the
+ * speaker label is remembered as a voice label for matching later meetings.
+ */
+export async function linkMeetingSpeakers(
+    meeting: { id: string; projectId: string; ownerId: string },
+    speakerNames: SpeakerNames
+): Promise<void> {
+    const supabase = getSupabaseServerClient();
+    const participants = await listParticipants(meeting.ownerId, meeting.projectId);
+    const links: Array<{ meeting_id: string; speaker_label: string; participant_id: string }> = [];
+
+    for (const [label, name] of Object.entries(speakerNames)) {
+        let participant = participants.find((candidate) => participantHasName(candidate, name));
+
+        if (!participant) {
+            participant = await createParticipant(meeting.ownerId, meeting.projectId, { name }, [label]);
+            participants.push(participant);
+        } else if (!participant.voiceLabels.includes(label)) {
+            participant.voiceLabels = [...participant.voiceLabels, label];
+            const { error } = await supabase
+                .from("participants")
+                .update({ voice_labels: participant.voiceLabels, updated_at: new Date().toISOString() })
+                .eq("id", participant.id)
+                .eq("owner_id", meeting.ownerId);
+
+            if (error) {
+                throw new Error(`Failed to update participant: ${error.message}`);
+            }
+        }
+
+        links.push({ meeting_id: meeting.id, speaker_label: label, participant_id: participant.id });
+    }
+
+    const { error: deleteError } = await supabase
+        .from("meeting_participants")
+        .delete()
+        .eq("meeting_id", meeting.id);
+
+    if (deleteError) {
+        throw new Error(`Failed to update meeting participants: ${deleteError.message}`);
+    }
+
+    if (links.length === 0) {
+        return;
+    }
+
+    const { error } = await supabase.from("meeting_participants").insert(links);
+    if (error) {
+        throw new Error(`Failed to update meeting participants: ${error.message}`);
+    }
+}
+
+/**
+ * Everything linked to a participant: the meetings they spoke in with their
+ * segments, and the project's action items assigned to their name or an
+ * alias. Returns null when the participant does not belong to `ownerId`.
+ */
+export async function getParticipantActivity(ownerId: string, participantId: string): Promise<ParticipantActivity | null> {
+    const participant = await getParticipant(ownerId, participantId);
+    if (!participant) {
+        return null;
+    }
+
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("meeting_participants")
+        .select("speaker_label, meeting:meetings(id, title, created_at, transcription)")
+        .eq("participant_id", participantId);
+
+    if (error) {
+        throw new Error(`Failed to load participant meetings: ${error.message}`);
+    }
+
+    // One person can have several labels in the same meeting; group them.
+    const byMeeting = new Map<string, ParticipantMeeting>();
+    for (const row of (data || []) as unknown as MeetingParticipantRow[]) {
+        if (!row.meeting) continue;
+
+        const entry = byMeeting.get(row.meeting.id) || {
+            id: row.meeting.id,
+            title: row.meeting.title,
+            createdAt: row.meeting.created_at,
+            speakerLabel: row.speaker_label,
+            segments: [],
+        };
+
+        (row.meeting.transcription?.segments || []).forEach((segment, index) => {
+            if (segment.speaker === row.speaker_label) {
+                entry.segments.push({ index, text: segment.text, startTime: segment.startTime });
+            }
+        });
+        entry.segments.sort((a, b) => a.index - b.index);
+        byMeeting.set(row.meeting.id, entry);
+    }
+
+    const meetings = Array.from(byMeeting.values())
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    const actionItems = (await listActionItems(ownerId, { projectId: participant.projectId }))
+        .filter((item) => item.assignee && participantHasName(participant, item.assignee));
+
+    return { participant, meetings, actionItems };
+}
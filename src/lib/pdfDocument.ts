@@ -0,0 +1,275 @@
+import { deflateSync } from "zlib";
+import type { ExportBlock } from "@/lib/meetingExport";
+
+/**
+ * Minimal PDF writer for meeting exports. It lays out export blocks on A4
+ * pages with the standard Helvetica fonts, which every viewer ships, so no
+ * font has to be embedded. Those fonts only cover the WinAnsi character set;
+ * other characters are printed as "?".
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BULLET_INDENT = 14;
+const LINE_HEIGHT = 1.4;
+
+type FontName = "F1" | "F2" | "F3"; // Regular, bold, oblique
+
+interface TextStyle {
+    font: FontName;
+    size: number;
+    gray: number;
+    spaceBefore: number;
+    spaceAfter: number;
+}
+
+const STYLES: Record<ExportBlock["type"], TextStyle> = {
+    title: { font: "F2", size: 20, gray: 0, spaceBefore: 0, spaceAfter: 6 },
+    meta: { font: "F3", size: 10, gray: 0.4, spaceBefore: 0, spaceAfter: 4 },
+    heading: { font: "F2", size: 14, gray: 0, spaceBefore: 14, spaceAfter: 4 },
+    paragraph: { font: "F1", size: 11, gray: 0, spaceBefore: 0, spaceAfter: 6 },
+    bullet: { font: "F1", size: 11, gray: 0, spaceBefore: 0, spaceAfter: 2 },
+    utterance: { font: "F1", size: 11, gray: 0, spaceBefore: 0, spaceAfter: 6 },
+};
+
+// Helvetica advance widths (1/1000 em) for character codes 32-126, from the
+// standard font metrics. Other codes use AVERAGE_WIDTH.
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const AVERAGE_WIDTH = 556;
+// Helvetica-Bold runs slightly wider; scaling keeps bold lines inside the margin.
+const BOLD_WIDTH_FACTOR = 1.08;
+
+// Unicode characters outside Latin-1 that WinAnsi places in 0x80-0x9f.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87,
+    "ˆ": 0x88, "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91,
+    "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98,
+    "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+/**
+ * Map text to WinAnsi character codes, one per character.
+ */
+function toWinAnsi(text: string): number[] {
+    const codes: number[] = [];
+    for (const char of text.normalize("NFC")) {
+        const code = char.codePointAt(0) as number;
+        if (char === "\t") {
+            codes.push(32);
+        } else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+            codes.push(code);
+        } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+            codes.push(WIN_ANSI_EXTRAS[char]);
+        } else if (code >= 32) {
+            codes.push(63); // "?"
+        }
+    }
+    return codes;
+}
+
+function textWidth(codes: number[], style: TextStyle): number {
+    const units = codes.reduce(
+        (sum, code) => sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : AVERAGE_WIDTH),
+        0
+    );
+    return (units * style.size * (style.font === "F2" ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/**
+ * Break text into lines that fit `maxWidth`. Words longer than a line are
+ * split wherever they overflow.
+ */
+function wrapText(text: string, style: TextStyle, maxWidth: number): number[][] {
+    const lines: number[][] = [];
+
+    for (const rawLine of text.split("\n")) {
+        let line: number[] = [];
+        for (const word of rawLine.split(/\s+/).filter(Boolean)) {
+            let codes = toWinAnsi(word);
+            const candidate = line.length > 0 ? [...line, 32, ...codes] : codes;
+            if (textWidth(candidate, style) <= maxWidth) {
+                line = candidate;
+                continue;
+            }
+
+            if (line.length > 0) lines.push(line);
+            while (textWidth(codes, style) > maxWidth && codes.length > 1) {
+                let fit = codes.length - 1;
+                while (fit > 1 && textWidth(codes.slice(0, fit), style) > maxWidth) fit--;
+                lines.push(codes.slice(0, fit));
+                codes = codes.slice(fit);
+            }
+            line = codes;
+        }
+        lines.push(line);
+    }
+
+    return lines;
+}
+
+function pdfString(codes: number[]): string {
+    let result = "(";
+    for (const code of codes) {
+        if (code === 0x28 || code === 0x29 || code === 0x5c) {
+            result += `\\${String.fromCharCode(code)}`;
+        } else if (code < 32 || code > 126) {
+            result += `\\${code.toString(8).padStart(3, "0")}`;
+        } else {
+            result += String.fromCharCode(code);
+        }
+    }
+    return `${result})`;
+}
+
+/**
+ * Lays out lines top to bottom, starting a new page whenever the next line
+ * would run into the bottom margin.
+ */
+function createPageWriter() {
+    const pages: string[][] = [[]];
+    let y = PAGE_HEIGHT - MARGIN;
+
+    return {
+        pages,
+
+        space(points: number) {
+            // Spacing at the top of a page is dropped.
+            if (y < PAGE_HEIGHT - MARGIN) {
+                y -= points;
+            }
+        },
+
+        // Each piece of text is placed at its own x position on the same baseline.
+        line(pieces: Array<{ codes: number[]; style: TextStyle; x: number }>) {
+            const size = Math.max(...pieces.map((piece) => piece.style.size));
+            const height = size * LINE_HEIGHT;
+            if (y - height < MARGIN) {
+                pages.push([]);
+                y = PAGE_HEIGHT - MARGIN;
+            }
+            y -= height;
+
+            const page = pages[pages.length - 1];
+            const baseline = (y + size * 0.3).toFixed(2);
+            for (const { codes, style, x } of pieces) {
+                if (codes.length === 0) continue;
+                page.push(`BT ${style.gray} g /${style.font} ${style.size} Tf ${x.toFixed(2)} ${baseline} Td ${pdfString(codes)} Tj ET`);
+            }
+        },
+    };
+}
+
+function layoutBlocks(blocks: ExportBlock[]): string[][] {
+    const writer = createPageWriter();
+
+    for (const block of blocks) {
+        const style = STYLES[block.type];
+        writer.space(style.spaceBefore);
+
+        if (block.type === "bullet") {
+            const lines = wrapText(block.text, style, CONTENT_WIDTH - BULLET_INDENT);
+            lines.forEach((line, index) => {
+                const bullet = index === 0 ? [{ codes: [0x95], style, x: MARGIN }] : [];
+                writer.line([...bullet, { codes: line, style, x: MARGIN + BULLET_INDENT }]);
+            });
+        } else if (block.type === "utterance") {
+            // The speaker goes on its own bold line, like the transcript view.
+            const label = `${block.time ? `[${block.time}] ` : ""}${block.speaker}`;
+            const labelStyle: TextStyle = { ...style, font: "F2" };
+            for (const line of wrapText(label, labelStyle, CONTENT_WIDTH)) {
+                writer.line([{ codes: line, style: labelStyle, x: MARGIN }]);
+            }
+            for (const line of wrapText(block.text, style, CONTENT_WIDTH)) {
+                writer.line([{ codes: line, style, x: MARGIN }]);
+            }
+        } else {
+            for (const line of wrapText(block.text, style, CONTENT_WIDTH)) {
+                writer.line([{ codes: line, style, x: MARGIN }]);
+            }
+        }
+
+        writer.space(style.spaceAfter);
+    }
+
+    return writer.pages;
+}
+
+/**
+ * Render export blocks as a PDF file.
+ */
+export function renderPdf(blocks: ExportBlock[], title: string): Buffer {
+    const pages = layoutBlocks(blocks);
+    const objects: Buffer[] = [];
+    const addObject = (body: string | Buffer) => {
+        objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+        return objects.length;
+    };
+
+    // Object numbers are fixed up front so the page tree can reference them.
+    const catalogId = addObject("");
+    const pagesId = addObject("");
+    const infoId = addObject(`<< /Title ${pdfString(toWinAnsi(title))} /Producer (Remembry) >>`);
+    const fontIds = (["Helvetica", "Helvetica-Bold", "Helvetica-Oblique"] as const).map((font) =>
+        addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)
+    );
+    const resources = `<< /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R /F3 ${fontIds[2]} 0 R >> >>`;
+
+    const pageIds = pages.map((operations) => {
+        const content = deflateSync(Buffer.from(operations.join("\n"), "latin1"));
+        const contentId = addObject(Buffer.concat([
+            Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+            content,
+            Buffer.from("\nendstream", "latin1"),
+        ]));
+        return addObject(
+            `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`
+        );
+    });
+
+    objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, "latin1");
+    objects[pagesId - 1] = Buffer.from(
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+        "latin1"
+    );
+
+    // Header with a binary comment so transfer tools treat the file as binary.
+    const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+
+    objects.forEach((body, index) => {
+        offsets.push(offset);
+        const object = Buffer.concat([
+            Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+            body,
+            Buffer.from("\nendobj\n", "latin1"),
+        ]);
+        parts.push(object);
+        offset += object.length;
+    });
+
+    const xref = [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map((value) => `${value.toString().padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+        "startxref",
+        String(offset),
+        "%%EOF",
+        "",
+    ].join("\n");
+    parts.push(Buffer.from(xref, "latin1"));
+
+    return Buffer.concat(parts);
+}
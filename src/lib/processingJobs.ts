@@ -0,0 +1,503 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { transcribeAudio, extractMeetingNotes, withProjectGoals, TranscriptionResult } from "@/lib/gemini";
+import { upsertMeeting, MeetingNotes } from "@/lib/meetingStorage";
+import { deleteMeetingDocuments, getProjectGoals, getProjectTranscriptionProvider, uploadToRagStore } from "@/lib/fileSearch";
+import { replaceExtractedActionItems } from "@/lib/actionItems";
+import { getBlobStore, recordingKey, transcriptKey } from "@/lib/blobStore";
+import { formatParticipantsForTranscription, listParticipants } from "@/lib/participants";
+import { assertWithinUsageLimits, UsageContext, UsageLimitExceededError } from "@/lib/usage";
+import { LlmOutputValidationError } from "@/lib/llmOutput";
+import { resolveAiProviders } from "@/lib/aiProviders";
+import { measureTranscriptCoverage } from "@/lib/audioDuration";
+import type { TranscriptQualityReport } from "@/lib/transcriptQuality";
+
+export type ProcessingStage = "transcribe" | "notes" | "save" | "index" | "done";
+export type ProcessingJobStatus = "queued" | "running" | "failed" | "completed";
+
+export interface ProcessingJobInput {
+    title: string;
+    context: string;
+    projectName: string;
+    displayName?: string;
+    fileType: "audio" | "text";
+    fileName: string;
+    fileSize: number;
+    mimeType: string;
+    sourcePath: string;
+    notesLanguages: string[];
+    uploadedAt: string;
+    duration?: number | null; // Seconds, read from the audio container on upload
+}
+
+export interface ProcessingJobOutput {
+    transcription?: TranscriptionResult;
+    qualityReport?: TranscriptQualityReport; // Audio only; stored on the meeting, not in its transcript
+    notesByLanguage?: Record<string, MeetingNotes>;
+}
+
+export interface ProcessingJob {
+    id: string;
+    userId: string | null;
+    meetingId: string;
+    projectId: string;
+    status: ProcessingJobStatus;
+    stage: ProcessingStage;
+    progress: number;
+    error: string | null;
+    attempts: number;
+    input: ProcessingJobInput;
+    output: ProcessingJobOutput;
+    createdAt: string;
+    updatedAt: string;
+}
+
+type ProcessingJobRow = {
+    id: string;
+    user_id: string | null;
+    meeting_id: string;
+    project_id: string;
+    status: ProcessingJobStatus;
+    stage: ProcessingStage;
+    progress: number;
+    error: string | null;
+    attempts: number;
+    input: ProcessingJobInput;
+    output: ProcessingJobOutput | null;
+    created_at: string;
+    updated_at: string;
+};
+
+const JOB_COLUMNS = "id, user_id, meeting_id, project_id, status, stage, progress, error, attempts, input, output, created_at, updated_at";
+
+const NEXT_STAGE: Record<ProcessingStage, ProcessingStage> = {
+    transcribe: "notes",
+    notes: "save",
+    save: "index",
+    index: "done",
+    done: "done",
+};
+
+// Progress reported when a stage starts; notes generation fills the gap per language.
+const STAGE_PROGRESS: Record<ProcessingStage, number> = {
+    transcribe: 5,
+    notes: 50,
+    save: 80,
+    index: 90,
+    done: 100,
+};
+
+function rowToJob(row: ProcessingJobRow): ProcessingJob {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        meetingId: row.meeting_id,
+        projectId: row.project_id,
+        status: row.status,
+        stage: row.stage,
+        progress: row.progress,
+        error: row.error,
+        attempts: row.attempts,
+        input: row.input,
+        output: row.output || {},
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+/**
+ * Directory that keeps uploaded files until their processing job completes.
+ */
+export function getUploadsDir(): string {
+    return process.env.REMEMBRY_UPLOADS_DIR || path.join(process.cwd(), "uploads");
+}
+
+export function getJobDir(meetingId: string): string {
+    return path.join(getUploadsDir(), meetingId);
+}
+
+export async function createProcessingJob(params: {
+    meetingId: string;
+    userId: string | null;
+    input: ProcessingJobInput;
+}): Promise<ProcessingJob> {
+    const supabase = getSupabaseServerClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+        .from("processing_jobs")
+        .insert({
+            id: `job_${params.meetingId}`,
+            user_id: params.userId,
+            meeting_id: params.meetingId,
+            project_id: params.input.projectName,
+            status: "queued",
+            stage: "transcribe",
+            progress: 0,
+            input: params.input,
+            output: {},
+            created_at: now,
+            updated_at: now,
+        })
+        .select(JOB_COLUMNS)
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to create processing job: ${error.message}`);
+    }
+
+    return rowToJob(data as ProcessingJobRow);
+}
+
+export async function getProcessingJob(jobId: string): Promise<ProcessingJob | null> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("processing_jobs")
+        .select(JOB_COLUMNS)
+        .eq("id", jobId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to fetch processing job: ${error.message}`);
+    }
+
+    return data ? rowToJob(data as ProcessingJobRow) : null;
+}
+
+async function updateProcessingJob(jobId: string, changes: Record<string, unknown>): Promise<void> {
+    const supabase = getSupabaseServerClient();
+
+    const { error } = await supabase
+        .from("processing_jobs")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", jobId);
+
+    if (error) {
+        throw new Error(`Failed to update processing job: ${error.message}`);
+    }
+}
+
+/**
+ * Atomically move a queued or failed job to running so two workers never
+ * process the same job. Returns null when the job was already claimed.
+ */
+async function claimProcessingJob(jobId: string): Promise<ProcessingJob | null> {
+    const job = await getProcessingJob(jobId);
+    if (!job || (job.status !== "queued" && job.status !== "failed")) {
+        return null;
+    }
+
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+        .from("processing_jobs")
+        .update({
+            status: "running",
+            error: null,
+            attempts: job.attempts + 1,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", jobId)
+        .in("status", ["queued", "failed"])
+        .select(JOB_COLUMNS)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to claim processing job: ${error.message}`);
+    }
+
+    return data ? rowToJob(data as ProcessingJobRow) : null;
+}
+
+/**
+ * Turn a processing failure into a message that is safe to show to the user.
+ */
+export function describeProcessingError(error: unknown): string {
+    if (!(error instanceof Error)) {
+        return "Failed to process meeting";
+    }
+    if (error instanceof UsageLimitExceededError || error instanceof LlmOutputValidationError) {
+        return error.message;
+    }
+
+    const msg = error.message.toLowerCase();
+    if (msg.includes("fetch failed") || msg.includes("network")) {
+        return "Network error: Unable to connect to Gemini API. Please check your internet connection and try again.";
+    }
+    if (msg.includes("api key") || msg.includes("unauthorized")) {
+        return "API authentication error. Please check your API key configuration.";
+    }
+    if (msg.includes("rate limit") || msg.includes("quota")) {
+        return "API rate limit exceeded. Please try again later.";
+    }
+    if (msg.includes("timeout")) {
+        return "Request timed out. Please try again.";
+    }
+    return `Failed to process meeting: ${error.message}`;
+}
+
+function normalizeAudioMimeType(mimeType: string): string {
+    if (mimeType === "video/webm") return "audio/webm";
+    if (mimeType === "video/mp4") return "audio/mp4";
+    return mimeType || "audio/webm";
+}
+
+function getUsageContext(job: ProcessingJob): UsageContext | undefined {
+    return job.userId
+        ? { userId: job.userId, meetingId: job.meetingId, projectId: job.projectId }
+        : undefined;
+}
+
+async function runTranscribeStage(job: ProcessingJob, apiKey: string | undefined): Promise<ProcessingJobOutput> {
+    const { input } = job;
+
+    if (input.fileType === "text") {
+        const transcriptText = await readFile(input.sourcePath, "utf-8");
+        return {
+            ...job.output,
+            transcription: {
+                text: transcriptText,
+                segments: [
+                    {
+                        startTime: 0,
+                        endTime: 0,
+                        text: transcriptText,
+                        speaker: "Unknown",
+                    },
+                ],
+                speakers: ["Unknown"],
+                duration: 0,
+                language: "en",
+            },
+        };
+    }
+
+    const participants = job.userId ? await listParticipants(job.userId, job.projectId) : [];
+    const providers = await resolveAiProviders(
+        job.userId,
+        apiKey,
+        getUsageContext(job),
+        await getProjectTranscriptionProvider(job.projectId)
+    );
+    const { quality, ...transcription } = await transcribeAudio(
+        input.sourcePath,
+        normalizeAudioMimeType(input.mimeType),
+        providers.transcription,
+        withProjectGoals(input.context, await getProjectGoals(job.projectId)),
+        formatParticipantsForTranscription(participants) || undefined,
+        input.duration
+    );
+
+    return {
+        ...job.output,
+        transcription,
+        qualityReport: quality,
+    };
+}
+
+async function runNotesStage(job: ProcessingJob, apiKey: string | undefined): Promise<ProcessingJobOutput> {
+    const transcriptText = job.output.transcription?.text || "";
+    const notesByLanguage: Record<string, MeetingNotes> = { ...(job.output.notesByLanguage || {}) };
+    // Text transcripts only get English notes; audio gets every requested language.
+    const languages = job.input.fileType === "text"
+        ? ["en"]
+        : Array.from(new Set([...job.input.notesLanguages, "en"]));
+
+    const context = withProjectGoals(job.input.context, await getProjectGoals(job.projectId));
+    const { llm } = await resolveAiProviders(job.userId, apiKey, getUsageContext(job));
+
+    for (const [index, lang] of languages.entries()) {
+        if (notesByLanguage[lang]) continue;
+
+        notesByLanguage[lang] = await extractMeetingNotes(transcriptText, llm, context, lang, job.output.transcription?.segments);
+
+        // Persist after every language so a retry does not redo finished ones.
+        const progress = STAGE_PROGRESS.notes + Math.round(((index + 1) / languages.length) * (STAGE_PROGRESS.save - STAGE_PROGRESS.notes));
+        await updateProcessingJob(job.id, {
+            output: { ...job.output, notesByLanguage },
+            progress,
+        });
+    }
+
+    return { ...job.output, notesByLanguage };
+}
+
+async function runSaveStage(job: ProcessingJob): Promise<ProcessingJobOutput> {
+    const { input, output } = job;
+    if (!output.transcription || !output.notesByLanguage) {
+        throw new Error("Transcription and notes must be generated before saving");
+    }
+
+    // Keep the uploaded file (recording or transcript); the job directory is
+    // removed once the job completes.
+    let audioPath: string | null = null;
+    let transcriptPath: string | null = null;
+    if (input.fileType === "audio") {
+        audioPath = recordingKey(job.meetingId, input.fileName);
+        await getBlobStore().put(audioPath, await readFile(input.sourcePath), input.mimeType || "audio/webm");
+    } else {
+        transcriptPath = transcriptKey(job.meetingId);
+        await getBlobStore().put(transcriptPath, await readFile(input.sourcePath), "text/plain; charset=utf-8");
+    }
+
+    const durationSeconds = input.fileType === "audio" && output.transcription.duration > 0 ? output.transcription.duration : null;
+    const coverage = measureTranscriptCoverage(output.transcription.segments, durationSeconds);
+    if (coverage?.flagged) {
+        console.warn(
+            `Transcript of meeting ${job.meetingId} covers ${Math.round(coverage.ratio * 100)}% of the ${Math.round(durationSeconds || 0)}s recording`
+        );
+    }
+
+    await upsertMeeting({
+        id: job.meetingId,
+        project_id: input.projectName,
+        owner_id: job.userId,
+        title: input.title,
+        context: input.context,
+        file_name: input.fileName,
+        file_size: input.fileSize,
+        mime_type: input.mimeType,
+        file_type: input.fileType,
+        created_at: input.uploadedAt,
+        transcription: output.transcription,
+        notes_by_language: output.notesByLanguage,
+        default_language: input.notesLanguages[0] || "en",
+        available_languages: Array.from(new Set(Object.keys(output.notesByLanguage))),
+        audio_path: audioPath,
+        transcript_path: transcriptPath,
+        duration_seconds: durationSeconds,
+        transcript_coverage: coverage ? coverage.ratio : null,
+        quality_report: output.qualityReport ?? null,
+    });
+
+    // Tasks come from the notes in the meeting's default language only, so
+    // generating several languages does not create duplicates.
+    const defaultNotes = output.notesByLanguage[input.notesLanguages[0] || "en"];
+    if (job.userId && defaultNotes?.actionItemDetails) {
+        await replaceExtractedActionItems(
+            { id: job.meetingId, projectId: input.projectName, ownerId: job.userId },
+            defaultNotes.actionItemDetails
+        );
+    }
+
+    return output;
+}
+
+async function runIndexStage(job: ProcessingJob, apiKey: string | undefined): Promise<ProcessingJobOutput> {
+    const { input, output } = job;
+    const transcriptText = output.transcription?.text || "";
+
+    const transcriptPath = path.join(path.dirname(input.sourcePath), "transcript.txt");
+    const transcriptContent = `Title: ${input.title}\nDate: ${input.uploadedAt}\n\n${transcriptText}`;
+    await writeFile(transcriptPath, transcriptContent);
+
+    const customMetadata = [
+        ...(input.displayName ? [{ key: "displayName", stringValue: input.displayName }] : []),
+        { key: "projectName", stringValue: input.projectName },
+        { key: "meetingId", stringValue: job.meetingId },
+        { key: "title", stringValue: input.title },
+        { key: "date", stringValue: input.uploadedAt },
+    ];
+
+    const { embedder } = await resolveAiProviders(job.userId, apiKey, getUsageContext(job));
+
+    // A retried index stage must not leave a duplicate transcript document behind.
+    await deleteMeetingDocuments(input.projectName, job.meetingId);
+    await uploadToRagStore(input.projectName, transcriptPath, "text/plain", `${input.title} - Transcript`, customMetadata, {
+        segments: output.transcription?.segments,
+        ownerId: job.userId,
+        embedder,
+    });
+
+    return output;
+}
+
+async function runStage(job: ProcessingJob, apiKey: string | undefined): Promise<ProcessingJobOutput> {
+    switch (job.stage) {
+        case "transcribe":
+            return runTranscribeStage(job, apiKey);
+        case "notes":
+            return runNotesStage(job, apiKey);
+        case "save":
+            return runSaveStage(job);
+        case "index":
+            return runIndexStage(job, apiKey);
+        default:
+            return job.output;
+    }
+}
+
+/**
+ * Run a job from its current stage to the end. Each finished stage is persisted
+ * before the next one starts; on failure the job keeps its stage so
+ * `retryProcessingJob` resumes from there without re-uploading. `apiKey` is
+ * only needed when the user's providers include Gemini.
+ */
+export async function runProcessingJob(jobId: string, apiKey?: string): Promise<void> {
+    let job: ProcessingJob | null;
+    try {
+        job = await claimProcessingJob(jobId);
+    } catch (error) {
+        // Until the claim succeeds the job may belong to another worker, so
+        // its row is left as it is.
+        console.error(`Failed to claim processing job ${jobId}:`, error);
+        return;
+    }
+    if (!job) {
+        return;
+    }
+
+    try {
+        while (job.stage !== "done") {
+            // Checked per stage so a long job stops once the user reaches a limit;
+            // the job fails at this stage and can be retried later.
+            if (job.userId && job.stage !== "save") {
+                await assertWithinUsageLimits(job.userId);
+            }
+
+            await updateProcessingJob(job.id, { progress: Math.max(job.progress, STAGE_PROGRESS[job.stage]) });
+
+            const output = await runStage(job, apiKey);
+            const stage: ProcessingStage = NEXT_STAGE[job.stage];
+            const progress: number = STAGE_PROGRESS[stage];
+
+            await updateProcessingJob(job.id, { output, stage, progress });
+            job = { ...job, output, stage, progress };
+        }
+
+        await updateProcessingJob(job.id, { status: "completed", progress: 100, error: null });
+        await rm(getJobDir(job.meetingId), { recursive: true, force: true }).catch(() => undefined);
+    } catch (error) {
+        console.error(`Processing job ${jobId} failed at stage ${job.stage}:`, error);
+        await updateProcessingJob(jobId, {
+            status: "failed",
+            error: describeProcessingError(error),
+        }).catch((updateError) => {
+            console.error(`Failed to record failure for job ${jobId}:`, updateError);
+        });
+    }
+}
+
+/**
+ * Queue a failed job again. The caller is responsible for running it.
+ */
+export async function retryProcessingJob(jobId: string): Promise<ProcessingJob> {
+    const job = await getProcessingJob(jobId);
+    if (!job) {
+        throw new Error("Processing job not found");
+    }
+
+    if (job.status !== "failed") {
+        throw new Error(`Only failed jobs can be retried (job is ${job.status})`);
+    }
+
+    await updateProcessingJob(jobId, { status: "queued", error: null });
+    return { ...job, status: "queued", error: null };
+}
+
+export async function ensureJobDir(meetingId: string): Promise<string> {
+    const dir = getJobDir(meetingId);
+    await mkdir(dir, { recursive: true });
+    return dir;
+}
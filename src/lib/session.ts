@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Signed session cookies. This module has no database access so it can also be
+// used from src/proxy.ts to check a cookie before a page renders.
+
+export const SESSION_COOKIE_NAME = "remembry_session";
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+export const SHARE_ACCESS_MAX_AGE_SECONDS = 60 * 60 * 24;
+
+const MIN_SECRET_LENGTH = 32;
+
+export interface SessionPayload {
+    sub: string;
+    exp: number;
+}
+
+function getSessionSecret(): string {
+    const secret = process.env.REMEMBRY_SESSION_SECRET;
+    if (!secret || secret.length < MIN_SECRET_LENGTH) {
+        throw new Error(`REMEMBRY_SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    return secret;
+}
+
+function sign(value: string): string {
+    return createHmac("sha256", getSessionSecret()).update(value).digest("base64url");
+}
+
+/**
+ * Create a cookie value of the form `<base64url payload>.<base64url HMAC>`.
+ */
+export function createSessionToken(userId: string, now: number = Date.now()): string {
+    const payload: SessionPayload = {
+        sub: userId,
+        exp: Math.floor(now / 1000) + SESSION_MAX_AGE_SECONDS,
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Check the signature and expiry of a session token. Returns null for anything
+ * that is malformed, tampered with, or expired.
+ */
+export function verifySessionToken(token: string | undefined | null, now: number = Date.now()): SessionPayload | null {
+    if (!token) {
+        return null;
+    }
+
+    const [encoded, signature, ...rest] = token.split(".");
+    if (!encoded || !signature || rest.length > 0) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")) as SessionPayload;
+        if (typeof payload.sub !== "string" || typeof payload.exp !== "number") {
+            return null;
+        }
+        if (payload.exp * 1000 <= now) {
+            return null;
+        }
+        return payload;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cookie value proving that the password of a share link was entered, of the
+ * form `<expiry>.<base64url HMAC>`. The share id is part of the signed value,
+ * so the token is useless for other shares and never passes as a session.
+ */
+export function createShareAccessToken(shareId: string, now: number = Date.now()): string {
+    const exp = Math.floor(now / 1000) + SHARE_ACCESS_MAX_AGE_SECONDS;
+    return `${exp}.${sign(`share:${shareId}:${exp}`)}`;
+}
+
+export function verifyShareAccessToken(token: string | undefined | null, shareId: string, now: number = Date.now()): boolean {
+    const [exp, signature, ...rest] = (token || "").split(".");
+    if (!/^\d+$/.test(exp || "") || !signature || rest.length > 0) {
+        return false;
+    }
+
+    const expected = Buffer.from(sign(`share:${shareId}:${exp}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return false;
+    }
+    return Number(exp) * 1000 > now;
+}
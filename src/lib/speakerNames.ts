@@ -0,0 +1,120 @@
+import type { TranscriptionSegment } from "@/lib/meetingStorage";
+
+/**
+ * Real names chosen by the user, keyed by the speaker label the transcription
+ * produced (e.g. "Person A (deep male voice, slow speaker)").
+ */
+export type SpeakerNames = Record<string, string>;
+
+const MAX_SPEAKER_NAME_LENGTH = 100;
+
+interface SpeakerTranscription {
+    text: string;
+    segments: TranscriptionSegment[];
+    speakers: string[];
+}
+
+export function resolveSpeakerName(label: string, names: SpeakerNames | null | undefined): string {
+    return names?.[label]?.trim() || label;
+}
+
+/**
+ * Names of the people who spoke, in transcript order. Labels without a name
+ * are left out, so the list only contains real participants.
+ */
+export function namedSpeakers(speakers: string[], names: SpeakerNames | null | undefined): string[] {
+    const result: string[] = [];
+    for (const label of speakers) {
+        const name = names?.[label]?.trim();
+        if (name && !result.includes(name)) {
+            result.push(name);
+        }
+    }
+    return result;
+}
+
+/**
+ * Replace speaker labels with the names mapped to them, in the segments, the
+ * speaker list and the full text. The stored transcription keeps the original
+ * labels so the mapping can be changed later. Two labels mapped to the same
+ * name become one speaker.
+ */
+export function applySpeakerNames<T extends SpeakerTranscription>(
+    transcription: T,
+    names: SpeakerNames | null | undefined
+): T {
+    const mapped = Object.entries(names || {}).filter(([label, name]) => name.trim() && name.trim() !== label);
+    if (mapped.length === 0) {
+        return transcription;
+    }
+
+    const speakers: string[] = [];
+    for (const label of transcription.speakers || []) {
+        const name = resolveSpeakerName(label, names);
+        if (!speakers.includes(name)) {
+            speakers.push(name);
+        }
+    }
+
+    // Replace longer labels first so "Person A (calm)" is not half-replaced by "Person A".
+    let text = transcription.text || "";
+    for (const [label, name] of mapped.sort(([a], [b]) => b.length - a.length)) {
+        text = text.split(label).join(name.trim());
+    }
+
+    return {
+        ...transcription,
+        text,
+        speakers,
+        segments: (transcription.segments || []).map((segment) => ({
+            ...segment,
+            speaker: resolveSpeakerName(segment.speaker, names),
+        })),
+    };
+}
+
+/**
+ * Validate a speaker mapping sent by a client. Only labels that occur in the
+ * transcription are accepted; empty names remove the mapping for a label.
+ */
+export function parseSpeakerNames(
+    input: unknown,
+    knownLabels: string[]
+): { speakerNames: SpeakerNames } | { error: string } {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+        return { error: "speakerNames must be an object of speaker label to name" };
+    }
+
+    const speakerNames: SpeakerNames = {};
+    for (const [label, name] of Object.entries(input as Record<string, unknown>)) {
+        if (!knownLabels.includes(label)) {
+            return { error: `Unknown speaker: ${label}` };
+        }
+        if (name !== null && typeof name !== "string") {
+            return { error: "Speaker names must be strings" };
+        }
+        const trimmed = name?.trim() || "";
+        if (trimmed.length > MAX_SPEAKER_NAME_LENGTH) {
+            return { error: `Speaker names must be at most ${MAX_SPEAKER_NAME_LENGTH} characters` };
+        }
+        if (trimmed && trimmed !== label) {
+            speakerNames[label] = trimmed;
+        }
+    }
+
+    return { speakerNames };
+}
+
+/**
+ * Every speaker label in a transcription, including labels that only appear
+ * on segments.
+ */
+export function speakerLabels(transcription: { segments?: TranscriptionSegment[]; speakers?: string[] } | null | undefined): string[] {
+    const labels: string[] = [];
+    for (const label of [...(transcription?.speakers || []), ...(transcription?.segments || []).map((segment) => segment.speaker)]) {
+        if (label && !labels.includes(label)) {
+            labels.push(label);
+        }
+    }
+    return labels;
+}
@@ -8,10 +8,12 @@ export function getSupabaseServerClient(): SupabaseClient {
     }
 
     const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+    // Row level security only lets a user see their own rows, so the server needs the
+    // service role key and scopes every query by owner itself.
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
     if (!supabaseUrl || !supabaseServiceKey) {
-        throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY) are required");
+        throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
     }
 
     supabase = createClient(supabaseUrl, supabaseServiceKey, {
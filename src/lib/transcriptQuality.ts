@@ -0,0 +1,372 @@
+import type { TranscriptionResult, TranscriptionSegment } from "@/lib/gemini";
+import { reconcileSpeakers, tokenize, trigrams, type ChunkWindow } from "@/lib/transcriptStitching";
+
+export type TranscriptIssueKind =
+    | "empty_segment"
+    | "repeated_segment"
+    | "repeated_sentence"
+    | "out_of_order"
+    | "overlap"
+    | "gap";
+
+export interface TranscriptIssue {
+    kind: TranscriptIssueKind;
+    segmentIndex: number | null; // Null for gaps before the first or after the last segment
+    start?: number;
+    end?: number;
+    detail: string;
+}
+
+export interface RetranscriptionWindow extends ChunkWindow {
+    gapStart: number; // The uncovered part the window is meant to fill
+    gapEnd: number;
+}
+
+export interface RetranscribedWindow {
+    start: number;
+    end: number;
+    resolved: boolean; // The gap is covered after re-transcribing
+    error?: string;
+}
+
+export interface TranscriptQualityReport {
+    checkedAt: string;
+    passed: boolean; // No issues left after cleanup and re-transcription
+    fixes: Partial<Record<TranscriptIssueKind, number>>; // Issues cleaned up automatically
+    issues: TranscriptIssue[]; // Issues still present in the saved transcript
+    retranscribed: RetranscribedWindow[];
+}
+
+// Silence between segments longer than this is treated as missing speech.
+export const MAX_TRANSCRIPT_GAP_SECONDS = 30;
+// Timestamps are rounded by the model; smaller overlaps are not reported.
+const OVERLAP_TOLERANCE_SECONDS = 1;
+// Short replies ("Yes.", "Okay, thanks.") legitimately recur in a meeting.
+const MIN_REPEATED_SEGMENT_TOKENS = 5;
+const MIN_REPEATED_SENTENCE_TOKENS = 4;
+// How much earlier text a segment is compared against, and the share of its
+// trigrams that must already be there to count as a repeat.
+const REPEAT_TAIL_TOKENS = 400;
+const REPEATED_SEGMENT_RATIO = 0.8;
+// Audio added on each side of a gap when it is re-transcribed, so words cut
+// at its edges are heard whole.
+const RETRANSCRIPTION_PADDING_SECONDS = 5;
+
+function isTimed(segment: TranscriptionSegment): segment is TranscriptionSegment & { startTime: number; endTime: number } {
+    return typeof segment.startTime === "number" && typeof segment.endTime === "number";
+}
+
+function normalizedTokens(text: string): string[] {
+    return tokenize(text).map((token) => token.value);
+}
+
+function splitSentences(text: string): string[] {
+    return text.match(/[^.!?。！？]+(?:[.!?。！？]+["')\]」』]*|$)\s*/gu) || [];
+}
+
+function formatTime(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Tracks the text seen so far to spot segments that repeat it, as models do
+ * when they loop back over audio they already transcribed.
+ */
+function createRepeatDetector() {
+    const seen = new Set<string>();
+    let tailTokens: string[] = [];
+
+    return {
+        isRepeat(text: string): boolean {
+            const tokens = normalizedTokens(text);
+            if (tokens.length < MIN_REPEATED_SEGMENT_TOKENS) {
+                return false;
+            }
+            if (seen.has(tokens.join(" "))) {
+                return true;
+            }
+
+            const grams = trigrams(tokens);
+            const tailGrams = trigrams(tailTokens);
+            let contained = 0;
+            for (const gram of grams) {
+                if (tailGrams.has(gram)) contained++;
+            }
+            return grams.size > 0 && contained / grams.size >= REPEATED_SEGMENT_RATIO;
+        },
+        add(text: string) {
+            const tokens = normalizedTokens(text);
+            seen.add(tokens.join(" "));
+            tailTokens = [...tailTokens, ...tokens].slice(-REPEAT_TAIL_TOKENS);
+        },
+    };
+}
+
+/**
+ * Drop the sentences of `text` that repeat an earlier sentence of the same
+ * text. Returns what is left and how many sentences were dropped.
+ */
+function findRepeatedSentences(text: string): { kept: string; repeated: number } {
+    const seen = new Set<string>();
+    let repeated = 0;
+    const kept = splitSentences(text).filter((sentence) => {
+        const tokens = normalizedTokens(sentence);
+        const key = tokens.join(" ");
+        if (tokens.length >= MIN_REPEATED_SENTENCE_TOKENS && seen.has(key)) {
+            repeated++;
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+
+    return { kept: kept.join("").trim(), repeated };
+}
+
+/**
+ * List what is wrong with a transcript: empty segments, segments or sentences
+ * that repeat earlier text, timestamps that go backwards or overlap, and
+ * stretches longer than MAX_TRANSCRIPT_GAP_SECONDS with no segment. A gap at
+ * the end is only found when `duration` is known.
+ */
+export function checkTranscriptQuality(segments: TranscriptionSegment[], duration?: number | null): TranscriptIssue[] {
+    const issues: TranscriptIssue[] = [];
+    const repeats = createRepeatDetector();
+    let previous: (TranscriptionSegment & { startTime: number; endTime: number }) | null = null;
+
+    for (const [index, segment] of segments.entries()) {
+        const times = isTimed(segment) ? { start: segment.startTime, end: segment.endTime } : {};
+
+        if (normalizedTokens(segment.text).length === 0) {
+            issues.push({ kind: "empty_segment", segmentIndex: index, ...times, detail: `Segment ${index + 1} has no text` });
+            continue;
+        }
+
+        if (repeats.isRepeat(segment.text)) {
+            issues.push({ kind: "repeated_segment", segmentIndex: index, ...times, detail: `Segment ${index + 1} repeats earlier text` });
+        } else {
+            const { repeated } = findRepeatedSentences(segment.text);
+            if (repeated > 0) {
+                issues.push({
+                    kind: "repeated_sentence",
+                    segmentIndex: index,
+                    ...times,
+                    detail: `Segment ${index + 1} repeats ${repeated === 1 ? "a sentence" : `${repeated} sentences`}`,
+                });
+            }
+        }
+        repeats.add(segment.text);
+
+        if (!isTimed(segment)) {
+            continue;
+        }
+
+        if (segment.endTime < segment.startTime || (previous && segment.startTime < previous.startTime)) {
+            issues.push({ kind: "out_of_order", segmentIndex: index, ...times, detail: `Segment ${index + 1} starts before the one it follows or ends before it starts` });
+        } else if (previous && segment.startTime < previous.endTime - OVERLAP_TOLERANCE_SECONDS) {
+            issues.push({
+                kind: "overlap",
+                segmentIndex: index,
+                start: segment.startTime,
+                end: previous.endTime,
+                detail: `Segment ${index + 1} overlaps the previous one by ${Math.round(previous.endTime - segment.startTime)}s`,
+            });
+        }
+
+        const gapStart = previous ? previous.endTime : 0;
+        if (segment.startTime - gapStart > MAX_TRANSCRIPT_GAP_SECONDS) {
+            issues.push({
+                kind: "gap",
+                segmentIndex: previous ? index : null,
+                start: gapStart,
+                end: segment.startTime,
+                detail: `Nothing transcribed from ${formatTime(gapStart)} to ${formatTime(segment.startTime)}`,
+            });
+        }
+
+        if (!previous || segment.endTime >= previous.endTime) {
+            previous = segment;
+        }
+    }
+
+    if (duration && previous && duration - previous.endTime > MAX_TRANSCRIPT_GAP_SECONDS) {
+        issues.push({
+            kind: "gap",
+            segmentIndex: null,
+            start: previous.endTime,
+            end: duration,
+            detail: `Nothing transcribed from ${formatTime(previous.endTime)} to the end (${formatTime(duration)})`,
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Fix what can be fixed without the audio: drop empty and repeated segments
+ * and repeated sentences, put timed segments back in order and trim overlaps.
+ * Returns the cleaned transcript and how many issues of each kind were fixed.
+ */
+export function cleanTranscript(result: TranscriptionResult): {
+    result: TranscriptionResult;
+    fixes: Partial<Record<TranscriptIssueKind, number>>;
+} {
+    const fixes: Partial<Record<TranscriptIssueKind, number>> = {};
+    const count = (kind: TranscriptIssueKind) => {
+        fixes[kind] = (fixes[kind] || 0) + 1;
+    };
+
+    const repeats = createRepeatDetector();
+    let segments: TranscriptionSegment[] = [];
+    for (const segment of result.segments) {
+        if (normalizedTokens(segment.text).length === 0) {
+            count("empty_segment");
+            continue;
+        }
+        if (repeats.isRepeat(segment.text)) {
+            count("repeated_segment");
+            continue;
+        }
+
+        const { kept, repeated } = findRepeatedSentences(segment.text);
+        if (repeated > 0) count("repeated_sentence");
+        repeats.add(kept);
+
+        let cleaned: TranscriptionSegment = repeated > 0 ? { ...segment, text: kept } : segment;
+        if (isTimed(cleaned) && cleaned.endTime < cleaned.startTime) {
+            // Keep the start, which the player seeks to; the end is unknown.
+            cleaned = { ...cleaned, endTime: undefined };
+            count("out_of_order");
+        }
+        segments.push(cleaned);
+    }
+
+    // Only reorder when every segment is timed; otherwise the order is all there is.
+    if (segments.every((segment) => typeof segment.startTime === "number")) {
+        const starts = segments.map((segment) => segment.startTime as number);
+        const outOfOrder = starts.filter((start, index) => index > 0 && start < starts[index - 1]).length;
+        if (outOfOrder > 0) {
+            fixes.out_of_order = (fixes.out_of_order || 0) + outOfOrder;
+            segments = [...segments].sort((a, b) => (a.startTime as number) - (b.startTime as number));
+        }
+    }
+
+    let previousEnd: number | null = null;
+    segments = segments.map((segment) => {
+        let adjusted = segment;
+        if (
+            previousEnd !== null &&
+            typeof segment.startTime === "number" &&
+            segment.startTime < previousEnd - OVERLAP_TOLERANCE_SECONDS
+        ) {
+            const startTime: number = previousEnd;
+            adjusted = {
+                ...segment,
+                startTime,
+                ...(typeof segment.endTime === "number" ? { endTime: Math.max(segment.endTime, startTime) } : {}),
+            };
+            count("overlap");
+        }
+        if (typeof adjusted.endTime === "number") {
+            previousEnd = Math.max(previousEnd ?? 0, adjusted.endTime);
+        }
+        return adjusted;
+    });
+
+    if (Object.keys(fixes).length === 0) {
+        return { result, fixes };
+    }
+
+    return {
+        result: {
+            ...result,
+            text: segments.map((segment) => segment.text).join("\n"),
+            segments,
+            speakers: result.speakers.filter((speaker) => segments.some((segment) => segment.speaker === speaker)),
+        },
+        fixes,
+    };
+}
+
+/**
+ * Windows of audio to transcribe again for the gaps in `issues`, at most
+ * `maxWindows`, largest gaps first. Gaps longer than `maxWindowSeconds` are
+ * split into several windows.
+ */
+export function planRetranscriptionWindows(
+    issues: TranscriptIssue[],
+    duration: number | null | undefined,
+    maxWindows: number,
+    maxWindowSeconds: number
+): RetranscriptionWindow[] {
+    const gaps = issues
+        .filter((issue): issue is TranscriptIssue & { start: number; end: number } =>
+            issue.kind === "gap" && typeof issue.start === "number" && typeof issue.end === "number"
+        )
+        .sort((a, b) => (b.end - b.start) - (a.end - a.start));
+
+    const windows: RetranscriptionWindow[] = [];
+    for (const gap of gaps) {
+        for (let gapStart = gap.start; gapStart < gap.end && windows.length < maxWindows; gapStart += maxWindowSeconds) {
+            const gapEnd = Math.min(gap.end, gapStart + maxWindowSeconds);
+            windows.push({
+                index: windows.length,
+                start: Math.max(0, gapStart - RETRANSCRIPTION_PADDING_SECONDS),
+                end: duration ? Math.min(duration, gapEnd + RETRANSCRIPTION_PADDING_SECONDS) : gapEnd + RETRANSCRIPTION_PADDING_SECONDS,
+                gapStart,
+                gapEnd,
+            });
+        }
+    }
+
+    return windows;
+}
+
+/**
+ * Insert the transcript of a re-transcribed window (with window-relative
+ * timestamps) into `result`. Only segments centred inside the gap are taken,
+ * so the padding around it does not duplicate neighbouring text; speaker
+ * labels are mapped onto the ones already in the transcript.
+ */
+export function mergeRetranscribedWindow(
+    result: TranscriptionResult,
+    window: RetranscriptionWindow,
+    windowResult: TranscriptionResult
+): TranscriptionResult {
+    const labels = Array.from(new Set([...windowResult.speakers, ...windowResult.segments.map((segment) => segment.speaker)]));
+    const speakerMap = reconcileSpeakers(result.speakers, labels);
+
+    const added = windowResult.segments
+        .filter(isTimed)
+        .map((segment) => ({
+            ...segment,
+            speaker: speakerMap.get(segment.speaker) || segment.speaker,
+            startTime: segment.startTime + window.start,
+            endTime: segment.endTime + window.start,
+        }))
+        .filter((segment) => {
+            const middle = (segment.startTime + segment.endTime) / 2;
+            return middle >= window.gapStart && middle <= window.gapEnd;
+        });
+    if (added.length === 0) {
+        return result;
+    }
+
+    const insertAt = result.segments.findIndex((segment) => typeof segment.startTime === "number" && segment.startTime >= window.gapEnd);
+    const segments = insertAt === -1
+        ? [...result.segments, ...added]
+        : [...result.segments.slice(0, insertAt), ...added, ...result.segments.slice(insertAt)];
+    const speakers = [...result.speakers];
+    for (const segment of added) {
+        if (!speakers.includes(segment.speaker)) speakers.push(segment.speaker);
+    }
+
+    return {
+        ...result,
+        text: segments.map((segment) => segment.text).join("\n"),
+        segments,
+        speakers,
+    };
+}
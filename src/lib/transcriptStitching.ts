@@ -0,0 +1,295 @@
+import type { TranscriptionResult, TranscriptionSegment } from "@/lib/gemini";
+
+export interface ChunkWindow {
+    index: number;
+    start: number;
+    end: number;
+}
+
+export interface TranscribedChunk {
+    window: ChunkWindow;
+    result: TranscriptionResult;
+}
+
+// Minimum number of matching tokens before a chunk prefix is treated as a repeat
+// of the previous chunk's tail.
+const MIN_OVERLAP_TOKENS = 3;
+// How much of the already-stitched transcript is compared against a new chunk.
+const TAIL_TOKEN_WINDOW = 400;
+// Share of a segment's trigrams that must already be in the tail to drop it.
+const CONTAINED_SEGMENT_RATIO = 0.8;
+export const SPEAKER_MATCH_THRESHOLD = 0.5;
+
+/**
+ * Split a recording of `duration` seconds into windows of `chunkSeconds` that
+ * overlap by `overlapSeconds`, so words cut at a boundary appear whole in one chunk.
+ */
+export function planChunkWindows(duration: number, chunkSeconds: number, overlapSeconds: number): ChunkWindow[] {
+    if (chunkSeconds <= overlapSeconds) {
+        throw new Error("chunkSeconds must be larger than overlapSeconds");
+    }
+
+    const windows: ChunkWindow[] = [];
+    let start = 0;
+
+    while (start < duration) {
+        const end = Math.min(start + chunkSeconds, duration);
+        windows.push({ index: windows.length, start, end });
+        if (end >= duration) break;
+        start = end - overlapSeconds;
+    }
+
+    return windows;
+}
+
+interface Token {
+    value: string;
+    end: number;
+}
+
+// CJK scripts are not space separated, so each character counts as a token.
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): Token[] {
+    return Array.from(text.matchAll(TOKEN_PATTERN)).map((match) => ({
+        value: match[0].toLowerCase(),
+        end: (match.index ?? 0) + match[0].length,
+    }));
+}
+
+export function trigrams(tokens: string[]): Set<string> {
+    const grams = new Set<string>();
+    for (let i = 0; i + 2 < tokens.length; i++) {
+        grams.add(`${tokens[i]} ${tokens[i + 1]} ${tokens[i + 2]}`);
+    }
+    return grams;
+}
+
+/**
+ * Remove the leading part of `text` that repeats the end of `tailTokens`.
+ */
+export function trimOverlappingPrefix(tailTokens: string[], text: string): string {
+    const tokens = tokenize(text);
+    const maxOverlap = Math.min(tailTokens.length, tokens.length);
+
+    for (let size = maxOverlap; size >= MIN_OVERLAP_TOKENS; size--) {
+        let matches = true;
+        for (let i = 0; i < size; i++) {
+            if (tailTokens[tailTokens.length - size + i] !== tokens[i].value) {
+                matches = false;
+                break;
+            }
+        }
+
+        if (matches) {
+            return text.slice(tokens[size - 1].end).replace(/^[\s,.;:!?，。；：！？、]+/u, "");
+        }
+    }
+
+    return text;
+}
+
+function isContainedIn(tailGrams: Set<string>, text: string): boolean {
+    const grams = trigrams(tokenize(text).map((token) => token.value));
+    if (grams.size === 0) {
+        return false;
+    }
+
+    let contained = 0;
+    for (const gram of grams) {
+        if (tailGrams.has(gram)) contained++;
+    }
+
+    return contained / grams.size >= CONTAINED_SEGMENT_RATIO;
+}
+
+export function parseSpeakerLabel(label: string): { tag: string; traits: Set<string> } {
+    const match = label.match(/^\s*([^(]*?)\s*(?:\((.*)\))?\s*$/);
+    const tag = (match?.[1] || label).trim().toLowerCase();
+    const traits = new Set(
+        (match?.[2] || "")
+            .toLowerCase()
+            .split(/[,;/]|\s+/)
+            .map((trait) => trait.trim())
+            .filter((trait) => trait.length > 2)
+    );
+    return { tag, traits };
+}
+
+/**
+ * Similarity between two speaker labels such as "Person A (deep male voice, slow speaker)".
+ * Voice traits are compared with Jaccard similarity; a matching tag adds a small bonus.
+ */
+export function speakerLabelSimilarity(a: string, b: string): number {
+    if (a.trim().toLowerCase() === b.trim().toLowerCase()) {
+        return 1;
+    }
+
+    const left = parseSpeakerLabel(a);
+    const right = parseSpeakerLabel(b);
+    const sameTag = left.tag.length > 0 && left.tag === right.tag;
+
+    // Without a voice description the tag is all there is to go on.
+    if (left.traits.size === 0 || right.traits.size === 0) {
+        return sameTag ? 0.6 : 0;
+    }
+
+    let intersection = 0;
+    for (const trait of left.traits) {
+        if (right.traits.has(trait)) intersection++;
+    }
+    const union = left.traits.size + right.traits.size - intersection;
+    const traitScore = union > 0 ? intersection / union : 0;
+    const tagBonus = sameTag ? 0.25 : 0;
+
+    return Math.min(1, traitScore + tagBonus);
+}
+
+function nextFreeTag(used: Set<string>): string {
+    for (let code = 65; code <= 90; code++) {
+        const tag = `Person ${String.fromCharCode(code)}`;
+        if (!used.has(tag.toLowerCase())) return tag;
+    }
+    return `Person ${used.size + 1}`;
+}
+
+/**
+ * Map the speaker labels of a new chunk onto speakers already seen in earlier chunks.
+ * Unmatched labels are kept as new speakers, renamed if their tag is already taken.
+ */
+export function reconcileSpeakers(known: string[], incoming: string[]): Map<string, string> {
+    const mapping = new Map<string, string>();
+    const claimed = new Set<string>();
+    const usedTags = new Set(known.map((label) => parseSpeakerLabel(label).tag));
+
+    for (const label of incoming) {
+        if (mapping.has(label)) continue;
+
+        let best: string | null = null;
+        let bestScore = SPEAKER_MATCH_THRESHOLD;
+        for (const candidate of known) {
+            if (claimed.has(candidate)) continue;
+            const score = speakerLabelSimilarity(label, candidate);
+            if (score >= bestScore) {
+                best = candidate;
+                bestScore = score;
+            }
+        }
+
+        if (best) {
+            mapping.set(label, best);
+            claimed.add(best);
+            continue;
+        }
+
+        const { tag } = parseSpeakerLabel(label);
+        let resolved = label;
+        if (usedTags.has(tag)) {
+            const freeTag = nextFreeTag(usedTags);
+            resolved = label.replace(/^\s*[^(]*?(\s*\(|\s*$)/, `${freeTag}$1`);
+        }
+        usedTags.add(parseSpeakerLabel(resolved).tag);
+        mapping.set(label, resolved);
+    }
+
+    return mapping;
+}
+
+function mostCommon(values: Array<string | undefined>): string | undefined {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    let best: string | undefined;
+    let bestCount = 0;
+    for (const [value, count] of counts) {
+        if (count > bestCount) {
+            best = value;
+            bestCount = count;
+        }
+    }
+    return best;
+}
+
+/**
+ * Combine per-chunk transcriptions (with chunk-relative timestamps) into one result:
+ * timestamps are shifted by each chunk's start, speaker labels are reconciled
+ * across chunks, and text repeated inside the overlap between chunks is dropped.
+ */
+export function stitchTranscriptionChunks(chunks: TranscribedChunk[], duration: number): TranscriptionResult {
+    const ordered = [...chunks].sort((a, b) => a.window.start - b.window.start);
+    const knownSpeakers: string[] = [];
+    const segments: TranscriptionSegment[] = [];
+    let tailTokens: string[] = [];
+
+    const pushSegment = (segment: TranscriptionSegment) => {
+        segments.push(segment);
+        tailTokens = [...tailTokens, ...tokenize(segment.text).map((token) => token.value)].slice(-TAIL_TOKEN_WINDOW);
+    };
+
+    ordered.forEach((chunk, chunkIndex) => {
+        const { window, result } = chunk;
+        const labels = Array.from(new Set([...result.speakers, ...result.segments.map((segment) => segment.speaker)]));
+        const speakerMap = reconcileSpeakers(knownSpeakers, labels);
+        for (const resolved of speakerMap.values()) {
+            if (!knownSpeakers.includes(resolved)) knownSpeakers.push(resolved);
+        }
+
+        const previousEnd = chunkIndex > 0 ? ordered[chunkIndex - 1].window.end : window.start;
+        const tailGrams = trigrams(tailTokens);
+
+        for (const segment of result.segments) {
+            const shifted: TranscriptionSegment = {
+                ...segment,
+                speaker: speakerMap.get(segment.speaker) || segment.speaker,
+                startTime: segment.startTime !== undefined ? segment.startTime + window.start : undefined,
+                endTime: segment.endTime !== undefined ? segment.endTime + window.start : undefined,
+            };
+
+            if (chunkIndex === 0) {
+                pushSegment(shifted);
+                continue;
+            }
+
+            const insideOverlap = shifted.endTime !== undefined && shifted.endTime <= previousEnd;
+            if (insideOverlap && isContainedIn(tailGrams, shifted.text)) {
+                continue;
+            }
+
+            const text = trimOverlappingPrefix(tailTokens, shifted.text).trim();
+            if (!text) {
+                continue;
+            }
+
+            const last = segments[segments.length - 1];
+            const startTime = shifted.startTime !== undefined && last?.endTime !== undefined
+                ? Math.max(shifted.startTime, last.endTime)
+                : shifted.startTime;
+            // A segment that ended before the previous one gets a zero-length
+            // span at the clamped start rather than ending before it begins.
+            const endTime = shifted.endTime !== undefined && startTime !== undefined
+                ? Math.max(shifted.endTime, startTime)
+                : shifted.endTime;
+
+            pushSegment({ ...shifted, text, startTime, endTime });
+        }
+    });
+
+    const usedSpeakers = knownSpeakers.filter((speaker) => segments.some((segment) => segment.speaker === speaker));
+
+    return {
+        text: segments.map((segment) => segment.text).join("\n"),
+        segments,
+        speakers: usedSpeakers,
+        duration,
+        language: mostCommon(ordered.map((chunk) => chunk.result.language)),
+        debug: ordered[0]?.result.debug
+            ? {
+                prompt: ordered[0].result.debug.prompt,
+                response: ordered
+                    .map((chunk) => `--- chunk ${chunk.window.index + 1} (${chunk.window.start}s-${chunk.window.end}s) ---\n${chunk.result.debug?.response || ""}`)
+                    .join("\n\n"),
+            }
+            : undefined,
+    };
+}
@@ -0,0 +1,249 @@
+import { NextResponse } from "next/server";
+import type { GenerateContentResponseUsageMetadata } from "@google/genai";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { incrementGeminiKeyUsageCount } from "@/lib/userKey";
+
+/**
+ * Who a Gemini call is made for. Passed down to every function that calls the
+ * API so the call can be metered against the user's usage.
+ */
+export interface UsageContext {
+    userId: string;
+    meetingId?: string;
+    projectId?: string;
+}
+
+export type GeminiOperation =
+    | "transcribe"
+    | "analyze_audio"
+    | "extract_notes"
+    | "embed_documents"
+    | "embed_query"
+    | "chat"
+    | "analyze_meeting";
+
+export type UsagePeriod = "daily" | "monthly";
+export type UsageMeasure = "requests" | "tokens";
+
+export interface UsageLimits {
+    dailyRequestLimit: number | null;
+    monthlyRequestLimit: number | null;
+    dailyTokenLimit: number | null;
+    monthlyTokenLimit: number | null;
+}
+
+export interface UsageTotals {
+    requests: number;
+    tokens: number;
+}
+
+export interface UsageSummary {
+    today: UsageTotals;
+    thisMonth: UsageTotals;
+    limits: UsageLimits;
+}
+
+interface UsageLimitsRow {
+    daily_request_limit: number | null;
+    monthly_request_limit: number | null;
+    daily_token_limit: number | null;
+    monthly_token_limit: number | null;
+}
+
+const NO_LIMITS: UsageLimits = {
+    dailyRequestLimit: null,
+    monthlyRequestLimit: null,
+    dailyTokenLimit: null,
+    monthlyTokenLimit: null,
+};
+
+/**
+ * Thrown when a user has reached one of their usage limits. API routes turn it
+ * into a 429 response with usageLimitExceededResponse.
+ */
+export class UsageLimitExceededError extends Error {
+    constructor(
+        readonly period: UsagePeriod,
+        readonly measure: UsageMeasure,
+        readonly limit: number,
+        readonly used: number,
+        readonly resetsAt: Date
+    ) {
+        super(
+            `${period === "daily" ? "Daily" : "Monthly"} Gemini ${measure === "requests" ? "request" : "token"} limit reached ` +
+            `(${used.toLocaleString("en-US")} of ${limit.toLocaleString("en-US")}). ` +
+            `Raise the limit in Settings or wait until ${resetsAt.toISOString()}.`
+        );
+        this.name = "UsageLimitExceededError";
+    }
+}
+
+export function usageLimitExceededResponse(error: UsageLimitExceededError): NextResponse {
+    const retryAfterSeconds = Math.max(1, Math.ceil((error.resetsAt.getTime() - Date.now()) / 1000));
+
+    return NextResponse.json(
+        {
+            error: error.message,
+            usageLimit: {
+                period: error.period,
+                measure: error.measure,
+                limit: error.limit,
+                used: error.used,
+                resetsAt: error.resetsAt.toISOString(),
+            },
+        },
+        { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+    );
+}
+
+function startOfUtcDay(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Store one Gemini call. Metering must never break the feature that made the
+ * call, so failures are logged and swallowed.
+ */
+export async function recordGeminiUsage(
+    usage: UsageContext | undefined,
+    model: string,
+    operation: GeminiOperation,
+    usageMetadata?: GenerateContentResponseUsageMetadata
+): Promise<void> {
+    if (!usage) {
+        return;
+    }
+
+    try {
+        const supabase = getSupabaseServerClient();
+        const outputTokens = usageMetadata
+            ? (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0)
+            : null;
+
+        const { error } = await supabase.from("gemini_usage_events").insert({
+            user_id: usage.userId,
+            model,
+            operation,
+            prompt_tokens: usageMetadata?.promptTokenCount ?? null,
+            output_tokens: outputTokens,
+            total_tokens: usageMetadata?.totalTokenCount ?? null,
+            meeting_id: usage.meetingId || null,
+            project_id: usage.projectId || null,
+        });
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        await incrementGeminiKeyUsageCount(usage.userId);
+    } catch (error) {
+        console.error(`Failed to record Gemini usage (${operation}):`, error);
+    }
+}
+
+export async function getUsageLimits(userId: string): Promise<UsageLimits> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .from("user_usage_limits")
+        .select("daily_request_limit, monthly_request_limit, daily_token_limit, monthly_token_limit")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load usage limits: ${error.message}`);
+    }
+
+    const row = data as UsageLimitsRow | null;
+    if (!row) {
+        return NO_LIMITS;
+    }
+
+    return {
+        dailyRequestLimit: row.daily_request_limit,
+        monthlyRequestLimit: row.monthly_request_limit,
+        dailyTokenLimit: row.daily_token_limit,
+        monthlyTokenLimit: row.monthly_token_limit,
+    };
+}
+
+export async function saveUsageLimits(userId: string, limits: UsageLimits): Promise<void> {
+    const supabase = getSupabaseServerClient();
+
+    const { error } = await supabase.from("user_usage_limits").upsert({
+        user_id: userId,
+        daily_request_limit: limits.dailyRequestLimit,
+        monthly_request_limit: limits.monthlyRequestLimit,
+        daily_token_limit: limits.dailyTokenLimit,
+        monthly_token_limit: limits.monthlyTokenLimit,
+        updated_at: new Date().toISOString(),
+    }, { onConflict: "user_id" });
+
+    if (error) {
+        throw new Error(`Failed to save usage limits: ${error.message}`);
+    }
+}
+
+async function getUsageTotals(userId: string, since: Date): Promise<UsageTotals> {
+    const supabase = getSupabaseServerClient();
+
+    const { data, error } = await supabase
+        .rpc("gemini_usage_totals", { p_user_id: userId, p_since: since.toISOString() })
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to load usage totals: ${error.message}`);
+    }
+
+    const row = data as { request_count: number; token_count: number } | null;
+    return {
+        requests: Number(row?.request_count || 0),
+        tokens: Number(row?.token_count || 0),
+    };
+}
+
+export async function getUsageSummary(userId: string, now: Date = new Date()): Promise<UsageSummary> {
+    const [today, thisMonth, limits] = await Promise.all([
+        getUsageTotals(userId, startOfUtcDay(now)),
+        getUsageTotals(userId, startOfUtcMonth(now)),
+        getUsageLimits(userId),
+    ]);
+
+    return { today, thisMonth, limits };
+}
+
+/**
+ * Throw UsageLimitExceededError when the user has used up any of their limits.
+ * Called before starting work that calls Gemini.
+ */
+export async function assertWithinUsageLimits(userId: string, now: Date = new Date()): Promise<void> {
+    const limits = await getUsageLimits(userId);
+
+    if (limits.dailyRequestLimit !== null || limits.dailyTokenLimit !== null) {
+        const today = await getUsageTotals(userId, startOfUtcDay(now));
+        const resetsAt = new Date(startOfUtcDay(now).getTime() + 24 * 60 * 60 * 1000);
+
+        if (limits.dailyRequestLimit !== null && today.requests >= limits.dailyRequestLimit) {
+            throw new UsageLimitExceededError("daily", "requests", limits.dailyRequestLimit, today.requests, resetsAt);
+        }
+        if (limits.dailyTokenLimit !== null && today.tokens >= limits.dailyTokenLimit) {
+            throw new UsageLimitExceededError("daily", "tokens", limits.dailyTokenLimit, today.tokens, resetsAt);
+        }
+    }
+
+    if (limits.monthlyRequestLimit !== null || limits.monthlyTokenLimit !== null) {
+        const thisMonth = await getUsageTotals(userId, startOfUtcMonth(now));
+        const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+        if (limits.monthlyRequestLimit !== null && thisMonth.requests >= limits.monthlyRequestLimit) {
+            throw new UsageLimitExceededError("monthly", "requests", limits.monthlyRequestLimit, thisMonth.requests, resetsAt);
+        }
+        if (limits.monthlyTokenLimit !== null && thisMonth.tokens >= limits.monthlyTokenLimit) {
+            throw new UsageLimitExceededError("monthly", "tokens", limits.monthlyTokenLimit, thisMonth.tokens, resetsAt);
+        }
+    }
+}
@@ -1,14 +1,23 @@
 import { NextRequest } from "next/server";
 import { getSupabaseServerClient } from "@/lib/supabase";
-
-export const REMEMBRY_USER_ID_HEADER = "x-remembry-user-id";
+import { getSessionUser } from "@/lib/auth";
+import { EncryptedSecret, decryptSecret, encryptSecret, getMasterKeys, rewrapSecret } from "@/lib/keyEncryption";
+import type { GeminiKeyValidationResult, GeminiKeyValidationStatus } from "@/lib/keyValidation";
 
 interface UserGeminiKeyRow {
     user_id: string;
-    gemini_api_key: string;
+    // Plaintext column from before keys were encrypted; null once re-encrypted.
+    gemini_api_key: string | null;
+    encrypted_api_key: string | null;
+    encrypted_data_key: string | null;
+    master_key_id: string | null;
+    key_prefix: string | null;
+    key_suffix: string | null;
     created_at: string;
     last_used: string | null;
     usage_count: number;
+    last_validated_at: string | null;
+    last_validation_status: GeminiKeyValidationStatus | null;
 }
 
 interface ApiKeyStatusResponse {
@@ -19,39 +28,47 @@ interface ApiKeyStatusResponse {
     createdAt: string | null;
     lastUsed: string | null;
     usageCount: number;
+    lastValidatedAt: string | null;
+    validationStatus: GeminiKeyValidationStatus | null;
 }
 
-export function getUserIdFromRequest(request: NextRequest): string | null {
-    const userId = request.headers.get(REMEMBRY_USER_ID_HEADER)?.trim();
-    if (!userId) {
-        return null;
-    }
-    return userId;
+export interface ReencryptionSummary {
+    encrypted: number;
+    rewrapped: number;
+    unchanged: number;
 }
 
-export async function getStoredGeminiApiKey(userId: string): Promise<string | null> {
-    const supabase = getSupabaseServerClient();
-
-    const { data, error } = await supabase
-        .from("user_gemini_keys")
-        .select("user_id, gemini_api_key, created_at, last_used, usage_count")
-        .eq("user_id", userId)
-        .maybeSingle();
+const KEY_COLUMNS = "user_id, gemini_api_key, encrypted_api_key, encrypted_data_key, master_key_id, key_prefix, key_suffix, created_at, last_used, usage_count, last_validated_at, last_validation_status";
 
-    if (error) {
-        throw new Error(`Failed to load Gemini API key: ${error.message}`);
+function getEncryptedSecret(row: UserGeminiKeyRow): EncryptedSecret | null {
+    if (!row.encrypted_api_key || !row.encrypted_data_key || !row.master_key_id) {
+        return null;
     }
+    return {
+        ciphertext: row.encrypted_api_key,
+        wrappedDataKey: row.encrypted_data_key,
+        masterKeyId: row.master_key_id,
+    };
+}
 
-    const row = data as UserGeminiKeyRow | null;
-    return row?.gemini_api_key?.trim() || null;
+function toEncryptedColumns(apiKey: string) {
+    const secret = encryptSecret(apiKey);
+    return {
+        gemini_api_key: null,
+        encrypted_api_key: secret.ciphertext,
+        encrypted_data_key: secret.wrappedDataKey,
+        master_key_id: secret.masterKeyId,
+        key_prefix: apiKey.slice(0, 6),
+        key_suffix: apiKey.slice(-4),
+    };
 }
 
-export async function getStoredGeminiKeyStatus(userId: string): Promise<ApiKeyStatusResponse> {
+async function getGeminiKeyRow(userId: string): Promise<UserGeminiKeyRow | null> {
     const supabase = getSupabaseServerClient();
 
     const { data, error } = await supabase
         .from("user_gemini_keys")
-        .select("user_id, gemini_api_key, created_at, last_used, usage_count")
+        .select(KEY_COLUMNS)
         .eq("user_id", userId)
         .maybeSingle();
 
@@ -59,8 +76,12 @@ export async function getStoredGeminiKeyStatus(userId: string): Promise<ApiKeySt
         throw new Error(`Failed to load Gemini API key: ${error.message}`);
     }
 
-    const row = data as UserGeminiKeyRow | null;
-    const hasKey = Boolean(row?.gemini_api_key?.trim());
+    return data as UserGeminiKeyRow | null;
+}
+
+export async function getStoredGeminiKeyStatus(userId: string): Promise<ApiKeyStatusResponse> {
+    const row = await getGeminiKeyRow(userId);
+    const hasKey = Boolean(row && (getEncryptedSecret(row) || row.gemini_api_key?.trim()));
 
     if (!hasKey || !row) {
         return {
@@ -71,23 +92,28 @@ export async function getStoredGeminiKeyStatus(userId: string): Promise<ApiKeySt
             createdAt: null,
             lastUsed: null,
             usageCount: 0,
+            lastValidatedAt: null,
+            validationStatus: null,
         };
     }
 
-    const apiKey = row.gemini_api_key.trim();
+    // The status is built from the stored hint only; the key is never decrypted here.
     return {
         hasKey: true,
-        maskedKey: `${apiKey.slice(0, 6)}...${apiKey.slice(-4)}`,
-        keyPrefix: apiKey.slice(0, 6),
-        keySuffix: apiKey.slice(-4),
+        maskedKey: `${row.key_prefix || ""}...${row.key_suffix || ""}`,
+        keyPrefix: row.key_prefix,
+        keySuffix: row.key_suffix,
         createdAt: row.created_at,
         lastUsed: row.last_used,
         usageCount: row.usage_count || 0,
+        lastValidatedAt: row.last_validated_at,
+        validationStatus: row.last_validation_status,
     };
 }
 
 export async function saveGeminiApiKey(userId: string, geminiApiKey: string): Promise<void> {
     const supabase = getSupabaseServerClient();
+    const columns = toEncryptedColumns(geminiApiKey);
 
     // Check if key already exists
     const { data: existing } = await supabase
@@ -101,7 +127,7 @@ export async function saveGeminiApiKey(userId: string, geminiApiKey: string): Pr
         const { error } = await supabase
             .from("user_gemini_keys")
             .update({
-                gemini_api_key: geminiApiKey,
+                ...columns,
                 updated_at: new Date().toISOString(),
             })
             .eq("user_id", userId);
@@ -113,7 +139,7 @@ export async function saveGeminiApiKey(userId: string, geminiApiKey: string): Pr
         // Insert new
         const { error } = await supabase.from("user_gemini_keys").insert({
             user_id: userId,
-            gemini_api_key: geminiApiKey,
+            ...columns,
             updated_at: new Date().toISOString(),
         });
 
@@ -123,6 +149,22 @@ export async function saveGeminiApiKey(userId: string, geminiApiKey: string): Pr
     }
 }
 
+export async function recordGeminiKeyValidation(userId: string, validation: GeminiKeyValidationResult): Promise<void> {
+    const supabase = getSupabaseServerClient();
+
+    const { error } = await supabase
+        .from("user_gemini_keys")
+        .update({
+            last_validated_at: validation.checkedAt,
+            last_validation_status: validation.status,
+        })
+        .eq("user_id", userId);
+
+    if (error) {
+        throw new Error(`Failed to record Gemini API key validation: ${error.message}`);
+    }
+}
+
 export async function deleteGeminiApiKey(userId: string): Promise<void> {
     const supabase = getSupabaseServerClient();
 
@@ -139,22 +181,114 @@ export async function deleteGeminiApiKey(userId: string): Promise<void> {
 export async function incrementGeminiKeyUsageCount(userId: string): Promise<void> {
     const supabase = getSupabaseServerClient();
 
-    await supabase.rpc("increment_usage_count", { p_user_id: userId }).catch(() => {
-        // Fallback if RPC doesn't exist
-        // Just update last_used timestamp
-        supabase
+    const { error } = await supabase.rpc("increment_usage_count", { p_user_id: userId });
+    if (!error) {
+        return;
+    }
+
+    // Fallback if the RPC doesn't exist: read-modify-write, which can lose an
+    // increment under concurrent calls but keeps the counters moving.
+    const { data, error: selectError } = await supabase
+        .from("user_gemini_keys")
+        .select("usage_count")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (selectError) {
+        throw new Error(`Failed to load Gemini API key usage: ${selectError.message}`);
+    }
+    if (!data) {
+        return;
+    }
+
+    const { error: updateError } = await supabase
+        .from("user_gemini_keys")
+        .update({
+            usage_count: (data.usage_count || 0) + 1,
+            last_used: new Date().toISOString(),
+        })
+        .eq("user_id", userId);
+
+    if (updateError) {
+        throw new Error(`Failed to update Gemini API key usage: ${updateError.message}`);
+    }
+}
+
+/**
+ * Encrypt keys still stored in plaintext and re-wrap keys whose data key was
+ * wrapped with a retired master key. Safe to run repeatedly.
+ */
+export async function reencryptStoredGeminiKeys(): Promise<ReencryptionSummary> {
+    const supabase = getSupabaseServerClient();
+    const masterKeys = getMasterKeys();
+    const summary: ReencryptionSummary = { encrypted: 0, rewrapped: 0, unchanged: 0 };
+
+    const { data, error } = await supabase.from("user_gemini_keys").select(KEY_COLUMNS);
+    if (error) {
+        throw new Error(`Failed to load Gemini API keys: ${error.message}`);
+    }
+
+    for (const row of (data || []) as UserGeminiKeyRow[]) {
+        let update: Record<string, string | null> | null = null;
+        const current = getEncryptedSecret(row);
+
+        if (current) {
+            const rewrapped = rewrapSecret(current, masterKeys);
+            if (rewrapped !== current) {
+                update = {
+                    gemini_api_key: null,
+                    encrypted_data_key: rewrapped.wrappedDataKey,
+                    master_key_id: rewrapped.masterKeyId,
+                };
+                summary.rewrapped++;
+            } else if (row.gemini_api_key) {
+                update = { gemini_api_key: null };
+                summary.encrypted++;
+            }
+        } else if (row.gemini_api_key?.trim()) {
+            update = toEncryptedColumns(row.gemini_api_key.trim());
+            summary.encrypted++;
+        }
+
+        if (!update) {
+            summary.unchanged++;
+            continue;
+        }
+
+        const { error: updateError } = await supabase
             .from("user_gemini_keys")
-            .update({ last_used: new Date().toISOString() })
-            .eq("user_id", userId);
-    });
+            .update({ ...update, updated_at: new Date().toISOString() })
+            .eq("user_id", row.user_id);
+
+        if (updateError) {
+            throw new Error(`Failed to re-encrypt Gemini API key for ${row.user_id}: ${updateError.message}`);
+        }
+    }
+
+    return summary;
 }
 
+/**
+ * The Gemini API key of the signed-in user, decrypted. This is the only place a
+ * stored key is turned back into plaintext.
+ */
 export async function resolveGeminiApiKeyForRequest(request: NextRequest): Promise<string | null> {
-    const userId = getUserIdFromRequest(request);
+    const user = await getSessionUser(request);
+
+    if (!user) {
+        return null;
+    }
 
-    if (!userId) {
+    const row = await getGeminiKeyRow(user.id);
+    if (!row) {
         return null;
     }
 
-    return getStoredGeminiApiKey(userId);
+    const secret = getEncryptedSecret(row);
+    if (secret) {
+        return decryptSecret(secret);
+    }
+
+    // Rows saved before encryption until scripts/reencrypt-gemini-keys.ts has run.
+    return row.gemini_api_key?.trim() || null;
 }
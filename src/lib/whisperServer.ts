@@ -0,0 +1,197 @@
+import { readFile } from "fs/promises";
+import * as path from "path";
+import { retryWithBackoff, type TranscriptionResult, type TranscriptionSegment } from "@/lib/gemini";
+import { LlmOutputValidationError } from "@/lib/llmOutput";
+import type { TranscriptionProvider } from "@/lib/aiProviders";
+
+// A whisper.cpp server (`/inference`) or faster-whisper server
+// (`/v1/audio/transcriptions`) running on the local network. Audio sent to it
+// never leaves the building.
+const TRANSCRIPTION_TIMEOUT_MS = 30 * 60 * 1000;
+// Whisper only reads the last ~224 tokens of its prompt.
+const MAX_PROMPT_CHARS = 800;
+// When the server only returns words, they are grouped into segments that end
+// at a sentence, a pause or this length.
+const MAX_SEGMENT_SECONDS = 30;
+const SEGMENT_PAUSE_SECONDS = 1.5;
+const SENTENCE_END = /[.!?。！？]["')\]]*$/;
+
+export const WHISPER_SPEAKER = "Speaker";
+
+export interface WhisperServerConfig {
+    url: string;
+    model: string | null;
+}
+
+interface WhisperWord {
+    word?: string;
+    start?: number;
+    end?: number;
+}
+
+interface WhisperSegment {
+    text?: string;
+    start?: number;
+    end?: number;
+    words?: WhisperWord[];
+}
+
+export interface WhisperResponse {
+    text?: string;
+    language?: string;
+    segments?: WhisperSegment[];
+    words?: WhisperWord[];
+}
+
+/**
+ * Server settings from the environment, or null when WHISPER_SERVER_URL is not set.
+ */
+export function getWhisperServerConfig(): WhisperServerConfig | null {
+    const url = process.env.WHISPER_SERVER_URL?.trim();
+    if (!url) {
+        return null;
+    }
+
+    return {
+        url,
+        model: process.env.WHISPER_SERVER_MODEL?.trim() || null,
+    };
+}
+
+function isTime(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function timedWords(words: WhisperWord[] | undefined): Array<Required<WhisperWord>> {
+    return (words || []).filter((word): word is Required<WhisperWord> =>
+        typeof word.word === "string" && word.word.trim() !== "" && isTime(word.start) && isTime(word.end)
+    );
+}
+
+function joinWords(words: Array<Required<WhisperWord>>): string {
+    // Whisper words carry their own leading space.
+    return words.map((word) => word.word).join("").replace(/\s+/g, " ").trim();
+}
+
+function groupWords(words: Array<Required<WhisperWord>>): TranscriptionSegment[] {
+    const segments: TranscriptionSegment[] = [];
+    let current: Array<Required<WhisperWord>> = [];
+
+    const flush = () => {
+        if (current.length > 0) {
+            segments.push({
+                speaker: WHISPER_SPEAKER,
+                text: joinWords(current),
+                startTime: current[0].start,
+                endTime: current[current.length - 1].end,
+            });
+        }
+        current = [];
+    };
+
+    for (const [index, word] of words.entries()) {
+        current.push(word);
+        const next = words[index + 1];
+        if (
+            !next ||
+            SENTENCE_END.test(word.word.trim()) ||
+            next.start - word.end > SEGMENT_PAUSE_SECONDS ||
+            next.end - current[0].start > MAX_SEGMENT_SECONDS
+        ) {
+            flush();
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Turn a Whisper `verbose_json` response into transcript segments. Segment
+ * times are tightened to their first and last word when word timestamps are
+ * present; a response with words but no segments is split into sentences.
+ * Whisper does not tell speakers apart, so every segment gets one label.
+ */
+export function whisperResponseToTranscription(data: WhisperResponse): Omit<TranscriptionResult, "duration"> {
+    let segments: TranscriptionSegment[] = [];
+
+    for (const segment of data.segments || []) {
+        const words = timedWords(segment.words);
+        const text = segment.text?.trim() || joinWords(words);
+        if (!text) continue;
+
+        const startTime = words.length > 0 ? words[0].start : segment.start;
+        const endTime = words.length > 0 ? words[words.length - 1].end : segment.end;
+        segments.push({
+            speaker: WHISPER_SPEAKER,
+            text,
+            ...(isTime(startTime) ? { startTime } : {}),
+            ...(isTime(endTime) && (!isTime(startTime) || endTime >= startTime) ? { endTime } : {}),
+        });
+    }
+
+    if (segments.length === 0) {
+        segments = groupWords(timedWords(data.words));
+    }
+
+    const text = data.text?.trim() || segments.map((segment) => segment.text).join("\n");
+    if (!text) {
+        throw new LlmOutputValidationError("transcription", ["transcript is empty"], 1);
+    }
+
+    return {
+        text,
+        segments: segments.length > 0 ? segments : [{ speaker: WHISPER_SPEAKER, text }],
+        speakers: [WHISPER_SPEAKER],
+        language: data.language || undefined,
+    };
+}
+
+/**
+ * Transcription by a local Whisper server. Both whisper.cpp and
+ * faster-whisper accept the same multipart form; word timestamps are asked
+ * for and mapped by whisperResponseToTranscription.
+ */
+export function createWhisperServerTranscriptionProvider(model?: string): TranscriptionProvider {
+    const config = getWhisperServerConfig();
+    if (!config) {
+        throw new Error("Local Whisper server is not configured (set WHISPER_SERVER_URL)");
+    }
+    const requestedModel = model || config.model;
+
+    return {
+        kind: "whisper_server",
+        model: requestedModel || "server default",
+        async transcribe(request) {
+            const audio = await readFile(request.filePath);
+            const prompt = request.context?.slice(-MAX_PROMPT_CHARS);
+
+            const form = new FormData();
+            form.append("file", new Blob([audio], { type: request.mimeType }), path.basename(request.filePath));
+            form.append("response_format", "verbose_json");
+            form.append("timestamp_granularities[]", "segment");
+            form.append("timestamp_granularities[]", "word");
+            if (requestedModel) {
+                form.append("model", requestedModel);
+            }
+            if (prompt) {
+                form.append("prompt", prompt);
+            }
+
+            // The status is part of the message so retryWithBackoff can spot 5xx.
+            const data = await retryWithBackoff(async () => {
+                const response = await fetch(config.url, {
+                    method: "POST",
+                    body: form,
+                    signal: AbortSignal.timeout(TRANSCRIPTION_TIMEOUT_MS),
+                });
+                if (!response.ok) {
+                    const detail = await response.text().catch(() => "");
+                    throw new Error(`Whisper server returned ${response.status}: ${detail.slice(0, 300)}`);
+                }
+                return await response.json() as WhisperResponse;
+            }, 3, 2000);
+
+            return { ...whisperResponseToTranscription(data), duration: 0 };
+        },
+    };
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME, verifySessionToken } from "@/lib/session";
+
+// Pages require a valid session cookie. API routes check the session themselves
+// (see getSessionUser in src/lib/auth.ts) and answer with 401 instead of a redirect.
+// Shared meeting pages (/share/<token>) are public; the token is checked there.
+export function proxy(request: NextRequest) {
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    if (verifySessionToken(token)) {
+        return NextResponse.next();
+    }
+
+    const loginUrl = new URL("/login", request.url);
+    const next = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+    if (next !== "/") {
+        loginUrl.searchParams.set("next", next);
+    }
+
+    return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+    matcher: ["/((?!api|login|share|_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|svg|ico|webp)$).*)"],
+};
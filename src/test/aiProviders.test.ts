@@ -0,0 +1,178 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeSupabase } from "./fakeSupabase";
+
+const mocks = vi.hoisted(() => ({
+    fake: null as ReturnType<typeof createFakeSupabase> | null,
+    probedDuration: null as number | null,
+}));
+
+vi.mock("@/lib/supabase", () => ({
+    getSupabaseServerClient: () => mocks.fake!.client,
+}));
+vi.mock("@/lib/audioChunks", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("@/lib/audioChunks")>()),
+    probeAudioDuration: async () => mocks.probedDuration,
+    extractAudioWindow: async () => undefined,
+}));
+
+import {
+    createAiProviders,
+    createFakeLlmProvider,
+    createFakeTranscriptionProvider,
+    resolveAiProviderSettings,
+    usesGemini,
+} from "@/lib/aiProviders";
+import { createStubEmbedder } from "@/lib/embeddings";
+import { queryRagStore } from "@/lib/fileSearch";
+import { extractMeetingNotes, transcribeAudio } from "@/lib/gemini";
+
+mocks.fake = createFakeSupabase({
+    match_project_document_chunks: (params, tables) =>
+        (tables.project_document_chunks || [])
+            .filter((row) => row.project_id === params.p_project_id)
+            .map((row) => ({ ...row, similarity: 1 })),
+});
+const fake = mocks.fake;
+
+beforeEach(() => {
+    fake.reset();
+    mocks.probedDuration = null;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("fake transcription provider", () => {
+    it("transcribes a short recording in one request", async () => {
+        const result = await transcribeAudio("/uploads/standup.webm", "audio/webm", createFakeTranscriptionProvider());
+
+        expect(result.text).toBe("Fake transcript of standup.webm.");
+        expect(result.segments).toEqual([{ speaker: "Speaker 1", text: "Fake transcript of standup.webm.", startTime: 0, endTime: 0 }]);
+        expect(result.quality?.passed).toBe(true);
+    });
+
+    it("covers every chunk of a long recording", async () => {
+        mocks.probedDuration = 1500;
+
+        const result = await transcribeAudio("/uploads/all-hands.webm", "audio/webm", createFakeTranscriptionProvider("Status update."));
+
+        expect(result.duration).toBe(1500);
+        expect(result.speakers).toEqual(["Speaker 1"]);
+        expect(result.segments.at(-1)?.endTime).toBe(1500);
+        expect(result.quality?.issues).toEqual([]);
+    });
+});
+
+describe("fake LLM provider", () => {
+    it("produces notes of the requested shape", async () => {
+        const notes = await extractMeetingNotes(
+            "Alice: We ship on Friday.",
+            createFakeLlmProvider(),
+            undefined,
+            "en",
+            [{ speaker: "Alice", text: "We ship on Friday.", startTime: 0, endTime: 3 }]
+        );
+
+        expect(notes.summary).toBe("Fake summary");
+        expect(notes.keyTopics).toEqual(["Fake keyTopics"]);
+        expect(notes.actionItems).toHaveLength(1);
+        expect(notes.actionItemDetails?.[0].description).toBe("Fake description");
+        expect(notes.language).toBe("en");
+    });
+
+    it("answers project chat from the retrieved transcript chunks", async () => {
+        const embedder = createStubEmbedder();
+        const [embedding] = await embedder.embed(["Alice: We ship on Friday."], "RETRIEVAL_DOCUMENT");
+        fake.tables.project_document_chunks = [{
+            id: "documents/d/chunks/0",
+            document_id: "documents/d",
+            project_id: "project_1",
+            content: "Alice: We ship on Friday.",
+            metadata: { meetingId: "meeting_1", title: "Standup", segmentIndex: 0, startTime: 0 },
+            embedding,
+        }];
+
+        const result = await queryRagStore("project_1", "When do we ship?", [], {
+            embedder,
+            llm: createFakeLlmProvider(),
+        });
+
+        expect(result.text).toBe("Fake response to: Transcript excerpts:\n\n[1] Standup @ 0:00\nAlice: We ship on Friday.\n\nQuestion: When do we ship?");
+        expect(result.groundingChunks).toHaveLength(1);
+        expect(result.groundingChunks[0].retrievedContext?.uri).toBe("/meetings/meeting_1?tab=transcript#segment-0");
+    });
+});
+
+describe("provider settings", () => {
+    it("needs a Gemini key only for the uses that go to Gemini", async () => {
+        fake.tables.user_ai_settings = [{
+            user_id: "user_1",
+            llm_provider: "openai_compatible",
+            llm_model: "llama3",
+            transcription_provider: "whisper_server",
+            transcription_model: null,
+        }];
+
+        const settings = await resolveAiProviderSettings("user_1");
+        expect(usesGemini(settings)).toBe(false);
+
+        const projectSettings = await resolveAiProviderSettings("user_1", "gemini");
+        expect(projectSettings).toMatchObject({ llmProvider: "openai_compatible", transcriptionProvider: "gemini", transcriptionModel: null });
+        expect(usesGemini(projectSettings)).toBe(true);
+        expect(usesGemini(projectSettings, ["llm"])).toBe(false);
+    });
+
+    it("uses Gemini for everything without saved settings", async () => {
+        expect(usesGemini(await resolveAiProviderSettings("user_2"), ["llm"])).toBe(true);
+        expect(usesGemini(await resolveAiProviderSettings(null), ["transcription"])).toBe(true);
+    });
+});
+
+describe("createAiProviders", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    it("creates only the providers that are used", () => {
+        vi.stubEnv("GEMINI_API_KEY", "");
+        vi.stubEnv("API_KEY", "");
+        vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "http://localhost:11434/v1");
+        const providers = createAiProviders({
+            llmProvider: "openai_compatible",
+            llmModel: "llama3",
+            transcriptionProvider: "gemini",
+            transcriptionModel: null,
+        });
+
+        expect(providers.llm.kind).toBe("openai_compatible");
+        expect(() => providers.transcription).toThrow("Gemini API key is not set");
+    });
+
+    it("embeds with the notes and chat provider, or not at all", async () => {
+        vi.stubEnv("GEMINI_API_KEY", "");
+        vi.stubEnv("API_KEY", "");
+        vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "http://localhost:11434/v1");
+        const settings = {
+            llmProvider: "openai_compatible" as const,
+            llmModel: "llama3",
+            transcriptionProvider: "whisper_server" as const,
+            transcriptionModel: null,
+        };
+
+        expect(createAiProviders({ ...settings, llmProvider: "gemini" }).embedder).toBeNull();
+        expect(createAiProviders(settings).embedder).toBeNull();
+
+        vi.stubEnv("OPENAI_COMPATIBLE_EMBEDDING_MODEL", "nomic-embed-text");
+        const fetchMock = vi.fn(async () => Response.json({
+            // Out of order, as some servers return them.
+            data: [{ index: 1, embedding: new Array(768).fill(0).fill(2, 0, 1) }, { index: 0, embedding: new Array(768).fill(1) }],
+        }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        const vectors = await createAiProviders(settings).embedder!.embed(["a", "b"], "RETRIEVAL_DOCUMENT");
+
+        expect(vectors[0][0]).toBeCloseTo(1 / Math.sqrt(768));
+        expect(vectors[1].slice(0, 2)).toEqual([1, 0]);
+        expect(fetchMock).toHaveBeenCalledWith("http://localhost:11434/v1/embeddings", expect.objectContaining({ method: "POST" }));
+    });
+});
@@ -0,0 +1,234 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { detectAudioContainer, measureTranscriptCoverage, readAudioDuration } from "@/lib/audioDuration";
+
+// Minimal files of each container, with just the structures the reader looks at.
+
+function wav(seconds: number, dataSizeOverride?: number): Buffer {
+    const byteRate = 16000 * 2;
+    const dataSize = byteRate * seconds;
+    const file = Buffer.alloc(44 + dataSize);
+    file.write("RIFF", 0, "latin1");
+    file.writeUInt32LE(36 + dataSize, 4);
+    file.write("WAVEfmt ", 8, "latin1");
+    file.writeUInt32LE(16, 16);
+    file.writeUInt16LE(1, 20); // PCM
+    file.writeUInt16LE(1, 22); // mono
+    file.writeUInt32LE(16000, 24);
+    file.writeUInt32LE(byteRate, 28);
+    file.writeUInt16LE(2, 32);
+    file.writeUInt16LE(16, 34);
+    file.write("data", 36, "latin1");
+    file.writeUInt32LE(dataSizeOverride ?? dataSize, 40);
+    return file;
+}
+
+// MPEG 1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames.
+const MP3_FRAME_LENGTH = 417;
+
+function mp3(frames: number, options: { id3?: boolean; xingFrames?: number } = {}): Buffer {
+    const parts: Buffer[] = [];
+    if (options.id3) {
+        const tag = Buffer.alloc(10 + 100);
+        tag.write("ID3", 0, "latin1");
+        tag[3] = 4;
+        tag[9] = 100; // syncsafe size
+        parts.push(tag);
+    }
+    for (let index = 0; index < frames; index++) {
+        const frame = Buffer.alloc(MP3_FRAME_LENGTH);
+        frame.set([0xff, 0xfb, 0x90, 0x00]);
+        if (index === 0 && options.xingFrames !== undefined) {
+            frame.write("Xing", 36, "latin1");
+            frame.writeUInt32BE(1, 40); // frame count present
+            frame.writeUInt32BE(options.xingFrames, 44);
+        }
+        parts.push(frame);
+    }
+    return Buffer.concat(parts);
+}
+
+function mp4Box(type: string, body: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + body.length, 0);
+    header.write(type, 4, "latin1");
+    return Buffer.concat([header, body]);
+}
+
+function m4a(timescale: number, duration: number): Buffer {
+    const mvhd = Buffer.alloc(100);
+    mvhd.writeUInt32BE(timescale, 12);
+    mvhd.writeUInt32BE(duration, 16);
+    return Buffer.concat([
+        mp4Box("ftyp", Buffer.from("M4A \0\0\0\0", "latin1")),
+        mp4Box("mdat", Buffer.alloc(500)),
+        mp4Box("moov", mp4Box("mvhd", mvhd)),
+    ]);
+}
+
+function oggPage(granule: bigint, serial: number, packet: Buffer): Buffer {
+    const header = Buffer.alloc(28);
+    header.write("OggS", 0, "latin1");
+    header.writeBigInt64LE(granule, 6);
+    header.writeUInt32LE(serial, 14);
+    header[26] = 1; // one segment
+    header[27] = packet.length;
+    return Buffer.concat([header, packet]);
+}
+
+function opus(seconds: number): Buffer {
+    const head = Buffer.alloc(19);
+    head.write("OpusHead", 0, "latin1");
+    head[8] = 1;
+    head[9] = 1;
+    head.writeUInt16LE(312, 10); // pre-skip
+    head.writeUInt32LE(48000, 12);
+    return Buffer.concat([
+        oggPage(BigInt(0), 7, head),
+        oggPage(BigInt(-1), 7, Buffer.alloc(10)), // page without a finished packet
+        oggPage(BigInt(Math.round(seconds * 48000) + 312), 7, Buffer.alloc(50)),
+    ]);
+}
+
+function vorbis(seconds: number): Buffer {
+    const head = Buffer.alloc(30);
+    head[0] = 1;
+    head.write("vorbis", 1, "latin1");
+    head.writeUInt32LE(44100, 12);
+    return Buffer.concat([oggPage(BigInt(0), 3, head), oggPage(BigInt(seconds * 44100), 3, Buffer.alloc(50))]);
+}
+
+function ebml(id: number[], body: Buffer, unknownSize = false): Buffer {
+    const size = unknownSize
+        ? Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])
+        : Buffer.alloc(4);
+    if (!unknownSize) size.writeUInt32BE(0x10000000 | body.length, 0);
+    return Buffer.concat([Buffer.from(id), size, body]);
+}
+
+function webm(durationMs: number | null, clusters: Array<{ timecode: number; blocks: number[] }>): Buffer {
+    const header = ebml([0x1a, 0x45, 0xdf, 0xa3], Buffer.from([0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d]));
+    const infoChildren = [ebml([0x2a, 0xd7, 0xb1], Buffer.from([0x0f, 0x42, 0x40]))]; // 1 ms timecode scale
+    if (durationMs !== null) {
+        const duration = Buffer.alloc(8);
+        duration.writeDoubleBE(durationMs, 0);
+        infoChildren.push(ebml([0x44, 0x89], duration));
+    }
+    const info = ebml([0x15, 0x49, 0xa9, 0x66], Buffer.concat(infoChildren));
+
+    // MediaRecorder writes clusters of unknown size made of SimpleBlocks.
+    const clusterBuffers = clusters.map((cluster) => {
+        const timecode = Buffer.alloc(4);
+        timecode.writeUInt32BE(cluster.timecode, 0);
+        const blocks = cluster.blocks.map((relative) => {
+            const block = Buffer.alloc(8);
+            block[0] = 0x81; // track 1
+            block.writeInt16BE(relative, 1);
+            return ebml([0xa3], block);
+        });
+        return ebml([0x1f, 0x43, 0xb6, 0x75], Buffer.concat([ebml([0xe7], timecode), ...blocks]), true);
+    });
+
+    return Buffer.concat([header, ebml([0x18, 0x53, 0x80, 0x67], Buffer.concat([info, ...clusterBuffers]), true)]);
+}
+
+function flac(): Buffer {
+    const streamInfo = Buffer.alloc(38);
+    streamInfo[0] = 0x80; // last metadata block, STREAMINFO
+    streamInfo[3] = 34;
+    const frames = Buffer.alloc(4096, 0x5a);
+    for (let offset = 0; offset < frames.length; offset += 512) {
+        frames.set([0xff, 0xf8, 0x69, 0x08], offset); // FLAC frame header
+    }
+    // Compressed audio that happens to contain a valid MPEG frame header.
+    frames.set([0xff, 0xfb, 0x90, 0x00], 700);
+    return Buffer.concat([Buffer.from("fLaC", "latin1"), streamInfo, frames]);
+}
+
+beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("readAudioDuration", () => {
+    it("reads WAV, including streamed files with a placeholder data size", () => {
+        expect(detectAudioContainer(wav(3))).toBe("wav");
+        expect(readAudioDuration(wav(3))).toBeCloseTo(3);
+        expect(readAudioDuration(wav(2, 0xffffffff))).toBeCloseTo(2);
+    });
+
+    it("reads constant bitrate MP3, with or without an ID3 tag", () => {
+        const expected = (100 * MP3_FRAME_LENGTH * 8) / 128000;
+        expect(detectAudioContainer(mp3(100))).toBe("mp3");
+        expect(readAudioDuration(mp3(100))).toBeCloseTo(expected, 2);
+        expect(readAudioDuration(mp3(100, { id3: true }))).toBeCloseTo(expected, 2);
+    });
+
+    it("reads the frame count of a VBR MP3 from its Xing header", () => {
+        expect(readAudioDuration(mp3(5, { xingFrames: 1000 }))).toBeCloseTo((1000 * 1152) / 44100, 3);
+    });
+
+    it("reads M4A", () => {
+        expect(detectAudioContainer(m4a(44100, 44100 * 90))).toBe("mp4");
+        expect(readAudioDuration(m4a(44100, 44100 * 90))).toBeCloseTo(90);
+    });
+
+    it("reads Ogg Opus and Vorbis from the last granule position", () => {
+        expect(detectAudioContainer(opus(12.5))).toBe("ogg");
+        expect(readAudioDuration(opus(12.5))).toBeCloseTo(12.5, 3);
+        expect(readAudioDuration(vorbis(7))).toBeCloseTo(7);
+    });
+
+    it("reads the WebM Duration element", () => {
+        expect(detectAudioContainer(webm(65432, []))).toBe("webm");
+        expect(readAudioDuration(webm(65432, [{ timecode: 0, blocks: [0, 20] }]))).toBeCloseTo(65.432);
+    });
+
+    it("derives a MediaRecorder WebM duration from its clusters", () => {
+        const file = webm(null, [
+            { timecode: 0, blocks: [0, 20, 5000] },
+            { timecode: 30000, blocks: [0, 1500] },
+        ]);
+        expect(readAudioDuration(file)).toBeCloseTo(31.5);
+    });
+
+    it("returns null for unknown formats", () => {
+        expect(detectAudioContainer(flac())).toBeNull();
+        expect(readAudioDuration(flac())).toBeNull();
+        expect(readAudioDuration(Buffer.from("hello world"))).toBeNull();
+        expect(readAudioDuration(Buffer.alloc(0))).toBeNull();
+    });
+
+    it("does not take a lone MPEG sync word for an MP3 file", () => {
+        const file = Buffer.alloc(2048, 0x11);
+        file.set([0xff, 0xfb, 0x90, 0x00]);
+
+        expect(detectAudioContainer(file)).toBeNull();
+        expect(readAudioDuration(file)).toBeNull();
+    });
+
+    it("returns null for truncated files", () => {
+        expect(readAudioDuration(webm(null, []).subarray(0, 30))).toBeNull();
+        expect(readAudioDuration(m4a(1000, 5000).subarray(0, 40))).toBeNull();
+    });
+});
+
+describe("measureTranscriptCoverage", () => {
+    it("merges overlapping segments and flags low coverage", () => {
+        const coverage = measureTranscriptCoverage([
+            { speaker: "A", text: "a", startTime: 0, endTime: 10 },
+            { speaker: "A", text: "b", startTime: 5, endTime: 20 },
+            { speaker: "A", text: "c", startTime: 50, endTime: 60 },
+        ], 100);
+
+        expect(coverage).toEqual({ coveredSeconds: 30, ratio: 0.3, flagged: true });
+    });
+
+    it("passes a transcript that covers most of the recording", () => {
+        expect(measureTranscriptCoverage([{ speaker: "A", text: "x", startTime: 0, endTime: 95 }], 100)?.flagged).toBe(false);
+    });
+
+    it("returns null without timed segments or a duration", () => {
+        expect(measureTranscriptCoverage([{ speaker: "A", text: "x" }], 100)).toBeNull();
+        expect(measureTranscriptCoverage([], null)).toBeNull();
+    });
+});
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type FakeRow = Record<string, unknown>;
+export type FakeRpcHandler = (params: Record<string, unknown>, tables: Record<string, FakeRow[]>) => unknown;
+
+export interface FakeSupabase {
+    client: SupabaseClient;
+    tables: Record<string, FakeRow[]>;
+    // Every row passed to insert, update or upsert, in call order.
+    writes: Array<{ table: string; operation: "insert" | "update" | "upsert"; row: FakeRow }>;
+    reset(): void;
+}
+
+/**
+ * In-memory stand-in for the Supabase client, covering the query builder calls
+ * the lib modules make: select/insert/update/upsert/delete filtered by eq and
+ * in, ordered, and resolved as a list, a single row or a maybe-row. RPCs are
+ * answered by `rpc` handlers.
+ */
+export function createFakeSupabase(rpc: Record<string, FakeRpcHandler> = {}): FakeSupabase {
+    const tables: Record<string, FakeRow[]> = {};
+    const writes: FakeSupabase["writes"] = [];
+
+    const table = (name: string) => (tables[name] ||= []);
+
+    function query(name: string) {
+        const filters: Array<(row: FakeRow) => boolean> = [];
+        let run: (rows: FakeRow[]) => FakeRow[] | null = (rows) => rows;
+
+        const matching = () => table(name).filter((row) => filters.every((filter) => filter(row)));
+        const result = () => ({ data: run(matching()), error: null });
+
+        const builder = {
+            select: () => builder,
+            order: () => builder,
+            limit: () => builder,
+            eq(column: string, value: unknown) {
+                filters.push((row) => row[column] === value);
+                return builder;
+            },
+            in(column: string, values: unknown[]) {
+                filters.push((row) => values.includes(row[column]));
+                return builder;
+            },
+            insert(value: FakeRow | FakeRow[]) {
+                const rows = Array.isArray(value) ? value : [value];
+                for (const row of rows) {
+                    writes.push({ table: name, operation: "insert", row });
+                    table(name).push({ ...row });
+                }
+                run = () => rows;
+                return builder;
+            },
+            upsert(value: FakeRow | FakeRow[]) {
+                const rows = Array.isArray(value) ? value : [value];
+                for (const row of rows) {
+                    writes.push({ table: name, operation: "upsert", row });
+                    table(name).push({ ...row });
+                }
+                run = () => rows;
+                return builder;
+            },
+            update(changes: FakeRow) {
+                writes.push({ table: name, operation: "update", row: changes });
+                run = (rows) => {
+                    rows.forEach((row) => Object.assign(row, changes));
+                    return rows;
+                };
+                return builder;
+            },
+            delete() {
+                run = (rows) => {
+                    tables[name] = table(name).filter((row) => !rows.includes(row));
+                    return rows;
+                };
+                return builder;
+            },
+            async maybeSingle() {
+                const { data } = result();
+                return { data: data?.[0] ?? null, error: null };
+            },
+            async single() {
+                const { data } = result();
+                return data && data.length > 0
+                    ? { data: data[0], error: null }
+                    : { data: null, error: { message: "No rows found" } };
+            },
+            then<T>(resolve: (value: ReturnType<typeof result>) => T, reject?: (reason: unknown) => T) {
+                return Promise.resolve().then(result).then(resolve, reject);
+            },
+        };
+
+        return builder;
+    }
+
+    const client = {
+        from: query,
+        async rpc(name: string, params: Record<string, unknown>) {
+            const handler = rpc[name];
+            if (!handler) {
+                return { data: null, error: { message: `Unknown function ${name}` } };
+            }
+            return { data: handler(params, tables), error: null };
+        },
+    };
+
+    return {
+        client: client as unknown as SupabaseClient,
+        tables,
+        writes,
+        reset() {
+            for (const name of Object.keys(tables)) {
+                delete tables[name];
+            }
+            writes.length = 0;
+        },
+    };
+}
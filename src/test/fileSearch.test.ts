@@ -0,0 +1,188 @@
+// @vitest-environment node
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createStubEmbedder, type Embedder } from "@/lib/embeddings";
+import { createFakeSupabase, type FakeRow } from "./fakeSupabase";
+
+const supabase = vi.hoisted(() => ({ fake: null as ReturnType<typeof createFakeSupabase> | null }));
+
+vi.mock("@/lib/supabase", () => ({
+    getSupabaseServerClient: () => supabase.fake!.client,
+}));
+
+import { chunkTranscriptSegments, queryRagStore, searchRagStore, uploadToRagStore } from "@/lib/fileSearch";
+import { createFakeLlmProvider } from "@/lib/aiProviders";
+
+// Same ranking as match_project_document_chunks: inner product of the
+// normalized vectors, best first.
+supabase.fake = createFakeSupabase({
+    match_project_document_chunks: (params, tables) =>
+        (tables.project_document_chunks || [])
+            .filter((row) => row.project_id === params.p_project_id)
+            .filter((row) => !params.p_document_id || row.document_id === params.p_document_id)
+            .map((row) => ({
+                ...row,
+                similarity: (row.embedding as number[]).reduce(
+                    (sum, value, index) => sum + value * (params.p_query_embedding as number[])[index],
+                    0
+                ),
+            }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, params.p_match_count as number),
+});
+const fake = supabase.fake;
+
+const SEGMENTS = [
+    { speaker: "Alice", text: "The launch moves to the first of July.", startTime: 0, endTime: 5 },
+    { speaker: "Bob", text: "Then marketing needs the budget approved in June.", startTime: 5, endTime: 11 },
+    { speaker: "Alice", text: "Hiring the second designer waits until autumn.", startTime: 11, endTime: 16 },
+];
+
+const failingEmbedder: Embedder = {
+    async embed() {
+        throw new Error("429 RESOURCE_EXHAUSTED");
+    },
+};
+
+let dir: string;
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "file-search-"));
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    fake.reset();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+async function upload(projectId: string, meetingId: string, embedder: Embedder | null): Promise<string> {
+    const filePath = path.join(dir, `${meetingId}.txt`);
+    await writeFile(filePath, SEGMENTS.map((segment) => `${segment.speaker}: ${segment.text}`).join("\n\n"));
+    return uploadToRagStore(projectId, filePath, "text/plain", "Planning - Transcript", [
+        { key: "meetingId", stringValue: meetingId },
+        { key: "title", stringValue: "Planning" },
+    ], { segments: SEGMENTS, embedder });
+}
+
+describe("chunkTranscriptSegments", () => {
+    it("groups segments up to the size limit and keeps their times and speakers", () => {
+        const chunks = chunkTranscriptSegments(SEGMENTS, 120);
+
+        expect(chunks.map((chunk) => [chunk.segmentIndex, chunk.startTime, chunk.endTime, chunk.speakers])).toEqual([
+            [0, 0, 11, ["Alice", "Bob"]],
+            [2, 11, 16, ["Alice"]],
+        ]);
+        expect(chunks[0].content).toBe(
+            "Alice: The launch moves to the first of July.\nBob: Then marketing needs the budget approved in June."
+        );
+    });
+
+    it("splits a long segment on sentence boundaries and skips empty ones", () => {
+        const chunks = chunkTranscriptSegments([
+            { speaker: "", text: "   " },
+            { speaker: "Alice", text: "First point here. Second point there. Third point last.", startTime: 3, endTime: 9 },
+        ], 30);
+
+        expect(chunks.map((chunk) => chunk.content)).toEqual([
+            "Alice: First point here.",
+            "Second point there.",
+            "Third point last.",
+        ]);
+        expect(chunks.every((chunk) => chunk.segmentIndex === 1 && chunk.startTime === 3)).toBe(true);
+    });
+});
+
+describe("searchRagStore", () => {
+    it("ranks the chunks embedded at upload against the query", async () => {
+        const embedder = createStubEmbedder();
+        const documentId = await upload("project_1", "meeting_1", embedder);
+        await upload("project_2", "meeting_2", embedder);
+
+        const results = await searchRagStore("project_1", "when is the designer hiring", 5, { embedder });
+
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.every((result) => result.documentId === documentId)).toBe(true);
+        expect(results[0].metadata).toMatchObject({ meetingId: "meeting_1", title: "Planning", segmentIndex: 0 });
+        expect(results[0].content).toContain("designer");
+    });
+
+    it("puts the closest chunk first", async () => {
+        const embedder = createStubEmbedder();
+        const texts = ["Marketing budget approval in June", "Designer hiring waits until autumn"];
+        const embeddings = await embedder.embed(texts, "RETRIEVAL_DOCUMENT");
+        fake.tables.project_document_chunks = texts.map((content, index) => ({
+            id: `documents/d/chunks/${index}`,
+            document_id: "documents/d",
+            project_id: "project_1",
+            content,
+            metadata: { segmentIndex: index },
+            embedding: embeddings[index],
+        }));
+
+        const results = await searchRagStore("project_1", "designer hiring", 5, { embedder });
+
+        expect(results.map((result) => result.metadata.segmentIndex)).toEqual([1, 0]);
+        expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+});
+
+describe("without an embedder", () => {
+    it("saves the document without chunks", async () => {
+        const documentId = await upload("project_1", "meeting_1", null);
+
+        expect(fake.tables.project_documents.map((row: FakeRow) => row.id)).toEqual([documentId]);
+        expect(fake.tables.project_document_chunks || []).toEqual([]);
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it("answers chat from keyword search", async () => {
+        await upload("project_1", "meeting_1", null);
+        fake.tables.meetings = [{ id: "meeting_1", title: "Planning", transcription: { segments: SEGMENTS } }];
+
+        const result = await queryRagStore("project_1", "When does hiring the designer happen?", [], {
+            llm: createFakeLlmProvider(() => "Autumn [1]"),
+        });
+
+        expect(result.text).toBe("Autumn [1]");
+        expect(result.groundingChunks[0].retrievedContext).toMatchObject({ meetingId: "meeting_1", segmentIndex: 2 });
+    });
+});
+
+describe("embedding failures", () => {
+    it("keeps an upload without chunks when the embedder fails", async () => {
+        const documentId = await upload("project_1", "meeting_1", failingEmbedder);
+
+        expect(fake.tables.project_documents.map((row: FakeRow) => row.id)).toEqual([documentId]);
+        expect(fake.tables.project_document_chunks || []).toEqual([]);
+        expect(console.warn).toHaveBeenCalled();
+    });
+
+    it("answers chat from keyword search when the query cannot be embedded", async () => {
+        await upload("project_1", "meeting_1", createStubEmbedder());
+        fake.tables.meetings = [{ id: "meeting_1", title: "Planning", transcription: { segments: SEGMENTS } }];
+        const prompts: string[] = [];
+        const llm = createFakeLlmProvider((request) => {
+            prompts.push(request.messages[request.messages.length - 1].text);
+            return "Answer [1]";
+        });
+
+        const result = await queryRagStore("project_1", "Who approves the marketing budget?", [], {
+            embedder: failingEmbedder,
+            llm,
+        });
+
+        expect(result.text).toBe("Answer [1]");
+        expect(result.groundingChunks[0].retrievedContext).toMatchObject({
+            meetingId: "meeting_1",
+            segmentIndex: 1,
+            text: SEGMENTS[1].text,
+        });
+        expect(prompts[0]).toContain("[1] Planning @ 0:05 - Bob");
+    });
+});
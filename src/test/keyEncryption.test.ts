@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { randomBytes } from "crypto";
+import { describe, expect, it } from "vitest";
+import { decryptSecret, encryptSecret, parseMasterKeys, rewrapSecret, type MasterKey } from "@/lib/keyEncryption";
+
+const OLD_KEY: MasterKey = { id: "2025", key: randomBytes(32) };
+const NEW_KEY: MasterKey = { id: "2026", key: randomBytes(32) };
+const API_KEY = "AIzaSyExampleKey-0123456789abcdefghij";
+
+describe("encryptSecret", () => {
+    it("round-trips through decryptSecret", () => {
+        const secret = encryptSecret(API_KEY, [OLD_KEY]);
+
+        expect(secret.masterKeyId).toBe("2025");
+        expect(decryptSecret(secret, [OLD_KEY])).toBe(API_KEY);
+    });
+
+    it("never contains the plaintext and uses a fresh data key each time", () => {
+        const first = encryptSecret(API_KEY, [OLD_KEY]);
+        const second = encryptSecret(API_KEY, [OLD_KEY]);
+
+        for (const value of [first.ciphertext, first.wrappedDataKey]) {
+            expect(value).not.toContain(API_KEY);
+            expect(Buffer.from(value, "base64").toString("latin1")).not.toContain(API_KEY);
+        }
+        expect(second.ciphertext).not.toBe(first.ciphertext);
+        expect(second.wrappedDataKey).not.toBe(first.wrappedDataKey);
+    });
+
+    it("rejects a tampered ciphertext or an unknown master key", () => {
+        const secret = encryptSecret(API_KEY, [OLD_KEY]);
+        const tampered = Buffer.from(secret.ciphertext, "base64");
+        tampered[tampered.length - 1] ^= 1;
+
+        expect(() => decryptSecret({ ...secret, ciphertext: tampered.toString("base64") }, [OLD_KEY])).toThrow();
+        expect(() => decryptSecret(secret, [NEW_KEY])).toThrow('Master key "2025" is not configured');
+    });
+});
+
+describe("rewrapSecret", () => {
+    it("moves a secret to the active master key without touching the ciphertext", () => {
+        const secret = encryptSecret(API_KEY, [OLD_KEY]);
+        const rewrapped = rewrapSecret(secret, [NEW_KEY, OLD_KEY]);
+
+        expect(rewrapped.masterKeyId).toBe("2026");
+        expect(rewrapped.ciphertext).toBe(secret.ciphertext);
+        expect(rewrapped.wrappedDataKey).not.toBe(secret.wrappedDataKey);
+        // The retired key can be dropped once everything is re-wrapped.
+        expect(decryptSecret(rewrapped, [NEW_KEY])).toBe(API_KEY);
+    });
+
+    it("returns a secret already on the active key as is", () => {
+        const secret = encryptSecret(API_KEY, [NEW_KEY, OLD_KEY]);
+
+        expect(rewrapSecret(secret, [NEW_KEY, OLD_KEY])).toBe(secret);
+    });
+});
+
+describe("parseMasterKeys", () => {
+    it("reads id:base64 entries in order", () => {
+        const keys = parseMasterKeys(`2026:${NEW_KEY.key.toString("base64")}, 2025:${OLD_KEY.key.toString("base64")}`);
+
+        expect(keys.map((key) => key.id)).toEqual(["2026", "2025"]);
+        expect(keys[1].key.equals(OLD_KEY.key)).toBe(true);
+        expect(parseMasterKeys(" ")).toEqual([]);
+    });
+
+    it("rejects entries without an id or of the wrong length", () => {
+        expect(() => parseMasterKeys(NEW_KEY.key.toString("base64"))).toThrow("<id>:<base64 key>");
+        expect(() => parseMasterKeys(`short:${randomBytes(16).toString("base64")}`)).toThrow("must be 32 bytes");
+    });
+});
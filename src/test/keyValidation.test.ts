@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { randomBytes } from "crypto";
+import { NextRequest } from "next/server";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeSupabase } from "./fakeSupabase";
+
+const mocks = vi.hoisted(() => ({ fake: null as ReturnType<typeof createFakeSupabase> | null }));
+
+vi.mock("@/lib/supabase", () => ({
+    getSupabaseServerClient: () => mocks.fake!.client,
+}));
+vi.mock("@/lib/auth", () => ({
+    getSessionUser: async () => ({ id: "user_1" }),
+}));
+
+import { classifyGeminiKeyError, createFakeGeminiKeyValidator, setGeminiKeyValidator } from "@/lib/keyValidation";
+import { POST as saveKey } from "@/app/api/settings/gemini-key/route";
+import { POST as checkKey } from "@/app/api/settings/gemini-key/check/route";
+
+mocks.fake = createFakeSupabase();
+const fake = mocks.fake;
+
+const VALID_KEY = "AIzaSyValidKey-0000000000000000000000";
+const INVALID_KEY = "AIzaSyRevokedKey-111111111111111111111";
+const EXHAUSTED_KEY = "AIzaSyNoQuotaKey-22222222222222222222";
+const OFFLINE_KEY = "AIzaSyOfflineKey-333333333333333333333";
+
+function apiError(status: number, message: string): Error {
+    return Object.assign(new Error(message), { status });
+}
+
+function post(url: string, body?: unknown): NextRequest {
+    return new NextRequest(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+}
+
+describe("classifyGeminiKeyError", () => {
+    it("reports key errors as invalid", () => {
+        expect(classifyGeminiKeyError(apiError(400, "API key not valid. Please pass a valid API key. [API_KEY_INVALID]"))).toBe("invalid");
+        expect(classifyGeminiKeyError(apiError(403, "Permission denied"))).toBe("invalid");
+        expect(classifyGeminiKeyError(new Error("API_KEY_INVALID"))).toBe("invalid");
+    });
+
+    it("keeps other 400s and 404s apart from invalid keys", () => {
+        expect(classifyGeminiKeyError(apiError(400, "User location is not supported for the API use."))).toBe("rejected");
+        expect(classifyGeminiKeyError(apiError(404, "models/gemini-x-preview is not found for API version v1beta"))).toBe("not_found");
+    });
+
+    it("reports quota and network failures", () => {
+        expect(classifyGeminiKeyError(apiError(429, "Resource has been exhausted"))).toBe("quota_exhausted");
+        expect(classifyGeminiKeyError(new Error("RESOURCE_EXHAUSTED"))).toBe("quota_exhausted");
+        expect(classifyGeminiKeyError(apiError(503, "Service unavailable"))).toBe("unreachable");
+        expect(classifyGeminiKeyError(new TypeError("fetch failed"))).toBe("unreachable");
+    });
+});
+
+describe("Gemini key settings routes", () => {
+    beforeEach(() => {
+        fake.reset();
+        vi.stubEnv("REMEMBRY_MASTER_KEYS", `test:${randomBytes(32).toString("base64")}`);
+        setGeminiKeyValidator(createFakeGeminiKeyValidator({
+            [INVALID_KEY]: "invalid",
+            [EXHAUSTED_KEY]: "quota_exhausted",
+            [OFFLINE_KEY]: "unreachable",
+        }));
+    });
+
+    afterAll(() => {
+        setGeminiKeyValidator(null);
+        vi.unstubAllEnvs();
+    });
+
+    it("saves a valid key with its validation result", async () => {
+        const response = await saveKey(post("http://localhost/api/settings/gemini-key", { apiKey: VALID_KEY }));
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).validation.status).toBe("valid");
+        expect(fake.tables.user_gemini_keys).toHaveLength(1);
+        expect(fake.tables.user_gemini_keys[0].last_validation_status).toBe("valid");
+    });
+
+    it("refuses an invalid key with 400 and saves nothing", async () => {
+        const response = await saveKey(post("http://localhost/api/settings/gemini-key", { apiKey: INVALID_KEY }));
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).validation.status).toBe("invalid");
+        expect(fake.tables.user_gemini_keys || []).toHaveLength(0);
+    });
+
+    it("saves a key that is only out of quota", async () => {
+        const response = await saveKey(post("http://localhost/api/settings/gemini-key", { apiKey: EXHAUSTED_KEY }));
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).validation.status).toBe("quota_exhausted");
+        expect(fake.tables.user_gemini_keys[0].last_validation_status).toBe("quota_exhausted");
+    });
+
+    it("answers 503 and saves nothing when Gemini cannot be reached", async () => {
+        const response = await saveKey(post("http://localhost/api/settings/gemini-key", { apiKey: OFFLINE_KEY }));
+
+        expect(response.status).toBe(503);
+        expect((await response.json()).validation.status).toBe("unreachable");
+        expect(fake.tables.user_gemini_keys || []).toHaveLength(0);
+    });
+
+    it("rechecks the saved key and records every result", async () => {
+        await saveKey(post("http://localhost/api/settings/gemini-key", { apiKey: VALID_KEY }));
+
+        for (const status of ["valid", "invalid", "quota_exhausted", "unreachable"] as const) {
+            setGeminiKeyValidator(createFakeGeminiKeyValidator({ [VALID_KEY]: status }));
+            const response = await checkKey(post("http://localhost/api/settings/gemini-key/check"));
+
+            expect(response.status).toBe(200);
+            expect((await response.json()).validation.status).toBe(status);
+            expect(fake.tables.user_gemini_keys[0].last_validation_status).toBe(status);
+        }
+    });
+});
@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { inflateRawSync, inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { exportMeeting, type ExportFormat, type MeetingExportInput } from "@/lib/meetingExport";
+
+// Golden files live in ./golden. After an intended change to an exporter,
+// regenerate them with `npx vitest run -u src/test/meetingExport.test.ts`
+// and review the diff.
+
+const MEETING: MeetingExportInput = {
+    title: "Weekly sync: Q3 plans & “budget”",
+    createdAt: "2026-03-05T10:00:00Z",
+    languageName: "English",
+    notes: {
+        summary: "We agreed on the Q3 roadmap.\n\nHiring moves to Q4 because of the budget (€40k).",
+        keyTopics: ["Roadmap", "Hiring"],
+        actionItems: ["Alice to send the report by Friday"],
+        decisions: ["Ship the beta on 1 July"],
+        assumptions: [],
+        qa: [{ question: "Who owns the launch?", answer: "Bob" }],
+    },
+    segments: [
+        { speaker: "Alice", text: "Hello everyone, thanks for joining. Let's start with the roadmap for the third quarter, which has changed since last week.", startTime: 0, endTime: 12.5 },
+        { speaker: "Bob <PM>", text: "Sounds good & I have the numbers.", startTime: 12.5 },
+        { speaker: "Alice", text: "Great. 日本 team joins later.", startTime: 3725.25, endTime: 3730 },
+    ],
+    transcriptText: "",
+};
+
+/**
+ * The entries of a .docx (zip) file as text, so the golden file does not
+ * depend on the zlib version that compressed them.
+ */
+function unzipToText(zip: Buffer): string {
+    const entries: string[] = [];
+    let offset = 0;
+    while (zip.readUInt32LE(offset) === 0x04034b50) {
+        const compressedSize = zip.readUInt32LE(offset + 18);
+        const nameLength = zip.readUInt16LE(offset + 26);
+        const extraLength = zip.readUInt16LE(offset + 28);
+        const name = zip.toString("utf-8", offset + 30, offset + 30 + nameLength);
+        const dataStart = offset + 30 + nameLength + extraLength;
+        const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+        entries.push(`=== ${name} ===\n${data.toString("utf-8")}`);
+        offset = dataStart + compressedSize;
+    }
+    return entries.join("\n");
+}
+
+/**
+ * A PDF with its content streams inflated and the byte offsets left out,
+ * for the same reason.
+ */
+function pdfToText(pdf: Buffer): string {
+    const parts: string[] = [];
+    let offset = 0;
+    for (;;) {
+        const dictionaryEnd = pdf.indexOf(">>\nstream\n", offset, "latin1");
+        if (dictionaryEnd === -1) break;
+        const start = dictionaryEnd + 3;
+        const end = pdf.indexOf("\nendstream", start, "latin1");
+        parts.push(pdf.toString("latin1", offset, start).replace(/\/Length \d+/, "/Length _"));
+        parts.push(`stream\n${inflateSync(pdf.subarray(start + 7, end)).toString("latin1")}`);
+        offset = end;
+    }
+    parts.push(pdf.toString("latin1", offset).replace(/xref[\s\S]*$/, "xref ..."));
+    return parts.join("");
+}
+
+describe("exportMeeting", () => {
+    const textFormats: ExportFormat[] = ["md", "txt", "srt", "vtt"];
+
+    for (const format of textFormats) {
+        it(`matches the golden ${format} file`, async () => {
+            const file = exportMeeting(MEETING, format);
+            await expect(file.body.toString("utf-8")).toMatchFileSnapshot(`./golden/meeting.${format}`);
+        });
+    }
+
+    it("matches the golden docx contents", async () => {
+        const file = exportMeeting(MEETING, "docx");
+        expect(file.body.subarray(0, 2).toString("latin1")).toBe("PK");
+        await expect(unzipToText(file.body)).toMatchFileSnapshot("./golden/meeting.docx.txt");
+    });
+
+    it("matches the golden pdf contents", async () => {
+        const file = exportMeeting(MEETING, "pdf");
+        const text = file.body.toString("latin1");
+        expect(text.startsWith("%PDF-1.4")).toBe(true);
+        expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+        await expect(pdfToText(file.body)).toMatchFileSnapshot("./golden/meeting.pdf.txt");
+    });
+
+    it("renders the same bytes for the same meeting", () => {
+        for (const format of ["docx", "pdf"] as const) {
+            expect(exportMeeting(MEETING, format).body.equals(exportMeeting(MEETING, format).body)).toBe(true);
+        }
+    });
+
+    it("exports subtitles without notes", () => {
+        const srt = exportMeeting({ ...MEETING, notes: null }, "srt").body.toString("utf-8");
+        expect(srt).toBe(exportMeeting(MEETING, "srt").body.toString("utf-8"));
+    });
+});
@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ExtractedActionItem, MeetingNotes } from "@/lib/gemini";
+import { createFakeSupabase } from "./fakeSupabase";
+
+const mocks = vi.hoisted(() => ({ fake: null as ReturnType<typeof createFakeSupabase> | null }));
+
+vi.mock("@/lib/supabase", () => ({
+    getSupabaseServerClient: () => mocks.fake!.client,
+}));
+
+import { normalizeMeetingNotes, saveMeetingNotes } from "@/lib/notesRevisions";
+
+mocks.fake = createFakeSupabase();
+const fake = mocks.fake;
+
+const DETAILS: ExtractedActionItem[] = [
+    { description: "Send the report", assignee: "Alice", dueDate: "2026-03-06", priority: "high", sourceSegmentIndex: 4 },
+    { description: "Book the venue", assignee: null, dueDate: null, priority: "low", sourceSegmentIndex: 9 },
+];
+
+const GENERATED: MeetingNotes = {
+    summary: "Planning",
+    keyTopics: ["Launch"],
+    actionItems: ["Send the report (Alice, due 2026-03-06)", "Book the venue"],
+    actionItemDetails: DETAILS,
+    decisions: [],
+    assumptions: [],
+    qa: [],
+    language: "en",
+};
+
+function storedNotes(): MeetingNotes {
+    const meeting = fake.tables.meetings[0] as { notes_by_language: Record<string, MeetingNotes> };
+    return meeting.notes_by_language.en;
+}
+
+beforeEach(() => {
+    fake.reset();
+    fake.tables.meetings = [{ id: "meeting_1", owner_id: "user_1", created_at: "2026-03-05T10:00:00Z", notes_by_language: { en: GENERATED }, available_languages: ["en"] }];
+});
+
+describe("normalizeMeetingNotes", () => {
+    it("trims entries and ignores action item details sent by the client", () => {
+        const normalized = normalizeMeetingNotes({
+            ...GENERATED,
+            summary: "  Planning  ",
+            keyTopics: ["Launch", "  "],
+            actionItemDetails: [{ description: "forged", priority: "high" }],
+        });
+
+        expect(normalized).toEqual({
+            summary: "Planning",
+            keyTopics: ["Launch"],
+            actionItems: GENERATED.actionItems,
+            decisions: [],
+            assumptions: [],
+            qa: [],
+        });
+    });
+
+    it("rejects notes with a missing section", () => {
+        expect(normalizeMeetingNotes({ ...GENERATED, qa: undefined })).toBeNull();
+    });
+});
+
+describe("saveMeetingNotes", () => {
+    it("keeps the details of unchanged action items after a manual edit", async () => {
+        const edited = normalizeMeetingNotes({
+            ...GENERATED,
+            actionItems: ["Book the venue", "Order the catering"],
+        })!;
+
+        await saveMeetingNotes("meeting_1", "user_1", "en", edited, { source: "manual", authorId: "user_1" });
+
+        expect(storedNotes().actionItemDetails).toEqual([
+            DETAILS[1],
+            { description: "Order the catering", assignee: null, dueDate: null, priority: "medium", sourceSegmentIndex: null },
+        ]);
+        // The generated notes are kept as the first revision, details included.
+        expect(fake.tables.meeting_notes_revisions.map((row) => row.source)).toEqual(["generated", "manual"]);
+        expect((fake.tables.meeting_notes_revisions[0].notes as MeetingNotes).actionItemDetails).toEqual(DETAILS);
+    });
+
+    it("leaves notes without details alone", async () => {
+        fake.tables.meetings[0].notes_by_language = { en: { ...GENERATED, actionItemDetails: undefined } };
+
+        await saveMeetingNotes("meeting_1", "user_1", "en", normalizeMeetingNotes(GENERATED)!, { source: "manual", authorId: "user_1" });
+
+        expect(storedNotes().actionItemDetails).toBeUndefined();
+    });
+});
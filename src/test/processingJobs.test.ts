@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeSupabase } from "./fakeSupabase";
+
+const supabase = vi.hoisted(() => ({ fake: null as ReturnType<typeof createFakeSupabase> | null }));
+
+vi.mock("@/lib/supabase", () => ({
+    getSupabaseServerClient: () => supabase.fake!.client,
+}));
+
+import { runProcessingJob } from "@/lib/processingJobs";
+
+supabase.fake = createFakeSupabase();
+const fake = supabase.fake;
+
+function jobRow(status: string) {
+    return {
+        id: "job_1",
+        user_id: null,
+        meeting_id: "meeting_1",
+        project_id: "project_1",
+        status,
+        stage: "transcribe",
+        progress: 0,
+        error: null,
+        attempts: 0,
+        input: {
+            title: "Standup",
+            context: "",
+            projectName: "project_1",
+            fileType: "text",
+            fileName: "meeting_1.txt",
+            fileSize: 10,
+            mimeType: "text/plain",
+            sourcePath: "/nonexistent/meeting_1/source.txt",
+            notesLanguages: ["en"],
+            uploadedAt: "2026-01-01T00:00:00.000Z",
+        },
+        output: {},
+        created_at: "2026-01-01T00:00:00.000Z",
+        updated_at: "2026-01-01T00:00:00.000Z",
+    };
+}
+
+beforeEach(() => {
+    fake.reset();
+    vi.restoreAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("runProcessingJob", () => {
+    it("leaves a job claimed by another worker alone", async () => {
+        fake.tables.processing_jobs = [jobRow("running")];
+
+        await runProcessingJob("job_1");
+
+        expect(fake.writes).toEqual([]);
+        expect(fake.tables.processing_jobs[0]).toMatchObject({ status: "running", error: null });
+    });
+
+    it("does not mark the job failed when the claim itself fails", async () => {
+        fake.tables.processing_jobs = [jobRow("queued")];
+        const from = fake.client.from.bind(fake.client);
+        vi.spyOn(fake.client, "from")
+            .mockImplementationOnce(from)
+            .mockImplementationOnce(() => {
+                throw new Error("connection reset");
+            });
+
+        await runProcessingJob("job_1");
+
+        expect(fake.writes).toEqual([]);
+        expect(fake.tables.processing_jobs[0]).toMatchObject({ status: "queued", error: null });
+    });
+
+    it("marks a claimed job failed when a stage throws", async () => {
+        fake.tables.processing_jobs = [jobRow("queued")];
+
+        await runProcessingJob("job_1");
+
+        expect(fake.tables.processing_jobs[0]).toMatchObject({ status: "failed", stage: "transcribe", attempts: 1 });
+        expect(fake.tables.processing_jobs[0].error).toEqual(expect.any(String));
+    });
+});
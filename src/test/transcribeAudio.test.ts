@@ -0,0 +1,101 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TranscriptionProvider, TranscriptionRequest } from "@/lib/aiProviders";
+
+// ffprobe and ffmpeg are stubbed: probing always fails, as it does when
+// ffprobe is not installed, and cutting a window is a no-op.
+vi.mock("@/lib/audioChunks", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("@/lib/audioChunks")>()),
+    probeAudioDuration: vi.fn(async () => null),
+    extractAudioWindow: vi.fn(async () => undefined),
+}));
+
+import { extractAudioWindow, FfmpegNotFoundError } from "@/lib/audioChunks";
+import { transcribeAudio, TRANSCRIPTION_CHUNK_THRESHOLD_SECONDS } from "@/lib/gemini";
+
+/**
+ * Records every request and answers each with one segment covering the first
+ * `coveredSeconds` of the file (or of the chunk window).
+ */
+function recordingProvider(coveredSeconds: number): TranscriptionProvider & { requests: TranscriptionRequest[] } {
+    const requests: TranscriptionRequest[] = [];
+    return {
+        kind: "fake",
+        model: "fake",
+        requests,
+        async transcribe(request) {
+            requests.push(request);
+            const end = request.chunk ? request.chunk.window.end - request.chunk.window.start : coveredSeconds;
+            const text = `Words spoken in request ${requests.length}.`;
+            return { text, segments: [{ speaker: "Speaker 1", text, startTime: 0, endTime: end }], speakers: ["Speaker 1"], duration: 0 };
+        },
+    };
+}
+
+beforeEach(() => {
+    vi.mocked(extractAudioWindow).mockReset().mockResolvedValue(undefined);
+});
+
+describe("transcribeAudio without ffprobe", () => {
+    it("uses the known duration for the tail-gap check", async () => {
+        const provider = recordingProvider(100);
+        const transcribe = provider.transcribe;
+        provider.transcribe = async (request) => {
+            // Only the re-transcription of the gap is sent as a chunk.
+            if (request.chunk) throw new Error("outage");
+            return transcribe(request);
+        };
+
+        const result = await transcribeAudio("/uploads/meeting.webm", "audio/webm", provider, undefined, undefined, 200);
+
+        expect(result.duration).toBe(200);
+        expect(result.quality?.retranscribed).toEqual([{ start: 100, end: 200, resolved: false, error: "outage" }]);
+        expect(result.quality?.issues).toMatchObject([{ kind: "gap", start: 100, end: 200 }]);
+    });
+
+    it("splits a long recording into chunks using the known duration", async () => {
+        const provider = recordingProvider(0);
+        const duration = TRANSCRIPTION_CHUNK_THRESHOLD_SECONDS + 300;
+
+        const result = await transcribeAudio("/uploads/meeting.webm", "audio/webm", provider, undefined, undefined, duration);
+
+        expect(provider.requests.length).toBeGreaterThan(1);
+        expect(provider.requests.every((request) => request.chunk !== undefined)).toBe(true);
+        expect(vi.mocked(extractAudioWindow)).toHaveBeenCalledTimes(provider.requests.length);
+        expect(result.duration).toBe(duration);
+        expect(result.quality?.passed).toBe(true);
+    });
+
+    it("sends a long recording in a single request when ffmpeg is missing too", async () => {
+        vi.mocked(extractAudioWindow).mockRejectedValue(new FfmpegNotFoundError());
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const duration = TRANSCRIPTION_CHUNK_THRESHOLD_SECONDS + 300;
+        const provider = recordingProvider(duration);
+
+        const result = await transcribeAudio("/uploads/meeting.webm", "audio/webm", provider, undefined, undefined, duration);
+
+        expect(provider.requests).toHaveLength(1);
+        expect(provider.requests[0]).toMatchObject({ filePath: "/uploads/meeting.webm", mimeType: "audio/webm" });
+        expect(provider.requests[0].chunk).toBeUndefined();
+        expect(result.duration).toBe(duration);
+        expect(result.quality?.passed).toBe(true);
+    });
+
+    it("still fails on other chunking errors", async () => {
+        vi.mocked(extractAudioWindow).mockRejectedValue(new Error("Invalid data found when processing input"));
+
+        await expect(transcribeAudio(
+            "/uploads/meeting.webm", "audio/webm", recordingProvider(0), undefined, undefined, TRANSCRIPTION_CHUNK_THRESHOLD_SECONDS + 300
+        )).rejects.toThrow("Invalid data found");
+    });
+
+    it("sends a single request when the duration is unknown", async () => {
+        const provider = recordingProvider(30);
+
+        const result = await transcribeAudio("/uploads/meeting.webm", "audio/webm", provider);
+
+        expect(provider.requests).toHaveLength(1);
+        expect(provider.requests[0].chunk).toBeUndefined();
+        expect(result.quality?.passed).toBe(true);
+    });
+});
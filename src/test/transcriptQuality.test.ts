@@ -0,0 +1,200 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import type { TranscriptionResult, TranscriptionSegment } from "@/lib/gemini";
+import {
+    checkTranscriptQuality,
+    cleanTranscript,
+    mergeRetranscribedWindow,
+    planRetranscriptionWindows,
+    MAX_TRANSCRIPT_GAP_SECONDS,
+} from "@/lib/transcriptQuality";
+
+function segment(speaker: string, text: string, startTime?: number, endTime?: number): TranscriptionSegment {
+    return { speaker, text, startTime, endTime };
+}
+
+function result(segments: TranscriptionSegment[], duration = 0): TranscriptionResult {
+    return {
+        text: segments.map((item) => item.text).join("\n"),
+        segments,
+        speakers: Array.from(new Set(segments.map((item) => item.speaker))),
+        duration,
+    };
+}
+
+describe("checkTranscriptQuality", () => {
+    it("reports empty, repeated, out of order and overlapping segments", () => {
+        const issues = checkTranscriptQuality([
+            segment("A", "We should ship the release on Friday afternoon.", 0, 20),
+            segment("A", "  ", 20, 21),
+            segment("B", "The budget is fine for now. The budget is fine for now.", 21, 30),
+            segment("A", "We should ship the release on Friday afternoon.", 30, 40),
+            segment("B", "Then QA needs the build earlier than that.", 35, 50),
+            segment("B", "Something said at the very start.", 10, 15),
+            segment("A", "A remark that ends before it starts.", 52, 51),
+        ]);
+
+        expect(issues.map((issue) => [issue.kind, issue.segmentIndex])).toEqual([
+            ["empty_segment", 1],
+            ["repeated_sentence", 2],
+            ["repeated_segment", 3],
+            ["overlap", 4],
+            ["out_of_order", 5],
+            ["out_of_order", 6],
+        ]);
+        expect(issues[3]).toMatchObject({ start: 35, end: 40 });
+    });
+
+    it("reports gaps longer than the threshold, including one at the end", () => {
+        const limit = MAX_TRANSCRIPT_GAP_SECONDS;
+        const segments = [
+            segment("A", "Opening remarks.", limit + 1, limit + 5),
+            segment("B", "Right after a pause of exactly the limit.", 2 * limit + 5, 2 * limit + 10),
+        ];
+
+        expect(checkTranscriptQuality(segments).map((issue) => [issue.kind, issue.segmentIndex, issue.start, issue.end])).toEqual([
+            ["gap", null, 0, limit + 1],
+        ]);
+        expect(checkTranscriptQuality(segments, 2 * limit + 10 + limit).filter((issue) => issue.kind === "gap")).toHaveLength(1);
+        expect(checkTranscriptQuality(segments, 2 * limit + 11 + limit).at(-1)).toMatchObject({
+            kind: "gap",
+            segmentIndex: null,
+            start: 2 * limit + 10,
+            end: 3 * limit + 11,
+        });
+    });
+
+    it("passes a clean transcript with short repeated replies", () => {
+        expect(checkTranscriptQuality([
+            segment("A", "Yes.", 0, 1),
+            segment("B", "Shall we start with the roadmap?", 1, 5),
+            segment("A", "Yes.", 5, 6),
+        ], 10)).toEqual([]);
+    });
+});
+
+describe("cleanTranscript", () => {
+    it("drops repeats and empty segments, restores the order and trims overlaps", () => {
+        const { result: cleaned, fixes } = cleanTranscript(result([
+            segment("A", "We should ship the release on Friday afternoon.", 0, 20),
+            segment("C", "", 20, 21),
+            segment("B", "The budget is fine. The budget is fine.", 30, 40),
+            segment("A", "We should ship the release on Friday afternoon.", 40, 50),
+            segment("B", "Earlier remark that came out late in the list.", 21, 29),
+            segment("A", "Overlapping remark here.", 35, 45),
+        ]));
+
+        expect(fixes).toEqual({ empty_segment: 1, repeated_segment: 1, repeated_sentence: 1, out_of_order: 1, overlap: 1 });
+        expect(cleaned.segments.map((item) => [item.text, item.startTime, item.endTime])).toEqual([
+            ["We should ship the release on Friday afternoon.", 0, 20],
+            ["Earlier remark that came out late in the list.", 21, 29],
+            ["The budget is fine.", 30, 40],
+            ["Overlapping remark here.", 40, 45],
+        ]);
+        expect(cleaned.speakers).toEqual(["A", "B"]);
+        expect(cleaned.text).toBe(cleaned.segments.map((item) => item.text).join("\n"));
+        expect(checkTranscriptQuality(cleaned.segments)).toEqual([]);
+    });
+
+    it("keeps the order of a transcript with untimed segments and only trims overlaps", () => {
+        const { result: cleaned, fixes } = cleanTranscript(result([
+            segment("A", "Second point about the roadmap.", 30, 40),
+            segment("B", "An aside without a timestamp."),
+            segment("A", "First point about hiring plans.", 0, 10),
+        ]));
+
+        expect(fixes).toEqual({ overlap: 1 });
+        expect(cleaned.segments.map((item) => item.text)).toEqual([
+            "Second point about the roadmap.",
+            "An aside without a timestamp.",
+            "First point about hiring plans.",
+        ]);
+        expect(cleaned.segments.map((item) => item.startTime)).toEqual([30, undefined, 40]);
+    });
+
+    it("returns the transcript unchanged when there is nothing to fix", () => {
+        const transcript = result([segment("A", "Hello there everyone.", 0, 3)]);
+
+        expect(cleanTranscript(transcript)).toEqual({ result: transcript, fixes: {} });
+        expect(cleanTranscript(transcript).result).toBe(transcript);
+    });
+});
+
+describe("planRetranscriptionWindows", () => {
+    const gap = (start: number, end: number) => ({ kind: "gap" as const, segmentIndex: null, start, end, detail: "" });
+
+    it("pads each gap within the recording, largest gap first", () => {
+        const windows = planRetranscriptionWindows([
+            gap(2, 40),
+            { kind: "overlap", segmentIndex: 3, start: 50, end: 52, detail: "" },
+            gap(100, 198),
+        ], 200, 3, 600);
+
+        expect(windows).toEqual([
+            { index: 0, start: 95, end: 200, gapStart: 100, gapEnd: 198 },
+            { index: 1, start: 0, end: 45, gapStart: 2, gapEnd: 40 },
+        ]);
+    });
+
+    it("pads past the end when the duration is unknown", () => {
+        expect(planRetranscriptionWindows([gap(60, 120)], null, 3, 600)).toEqual([
+            { index: 0, start: 55, end: 125, gapStart: 60, gapEnd: 120 },
+        ]);
+    });
+
+    it("splits long gaps into windows and stops at the limit", () => {
+        const windows = planRetranscriptionWindows([gap(1, 3000)], 3000, 3, 600);
+
+        expect(windows.map((window) => [window.gapStart, window.gapEnd])).toEqual([[1, 601], [601, 1201], [1201, 1801]]);
+        expect(windows.map((window) => window.index)).toEqual([0, 1, 2]);
+    });
+});
+
+describe("mergeRetranscribedWindow", () => {
+    const transcript = result([
+        segment("Person A (deep voice)", "Intro to the call.", 0, 10),
+        segment("Person A (deep voice)", "Wrap up.", 100, 110),
+        segment("Person A (deep voice)", "Goodbye.", 150, 152),
+    ], 160);
+    const [window] = planRetranscriptionWindows(checkTranscriptQuality(transcript.segments, 160), 160, 1, 600);
+
+    it("inserts only the segments inside the gap, in order", () => {
+        const merged = mergeRetranscribedWindow(transcript, window, result([
+            segment("Person A (deep voice)", "Intro to the call.", 0, 5),
+            segment("Person B (high voice)", "The missing middle part.", 10, 85),
+            segment("Person A (deep voice)", "Wrap up.", 95, 100),
+        ]));
+
+        expect(window).toMatchObject({ start: 5, end: 105, gapStart: 10, gapEnd: 100 });
+        expect(merged.segments.map((item) => [item.speaker, item.text, item.startTime])).toEqual([
+            ["Person A (deep voice)", "Intro to the call.", 0],
+            ["Person B (high voice)", "The missing middle part.", 15],
+            ["Person A (deep voice)", "Wrap up.", 100],
+            ["Person A (deep voice)", "Goodbye.", 150],
+        ]);
+        expect(merged.segments[0]).toBe(transcript.segments[0]);
+        expect(merged.segments.slice(2)).toEqual(transcript.segments.slice(1));
+        expect(merged.speakers).toEqual(["Person A (deep voice)", "Person B (high voice)"]);
+        // The smaller gap was not part of this window.
+        expect(checkTranscriptQuality(merged.segments, 160).map((issue) => [issue.kind, issue.start, issue.end])).toEqual([
+            ["gap", 110, 150],
+        ]);
+    });
+
+    it("maps the window's speaker labels onto the transcript's", () => {
+        const merged = mergeRetranscribedWindow(transcript, window, result([
+            segment("Person 1 (deep voice)", "Still talking about the plan.", 20, 60),
+        ]));
+
+        expect(merged.segments[1].speaker).toBe("Person A (deep voice)");
+        expect(merged.speakers).toEqual(["Person A (deep voice)"]);
+    });
+
+    it("returns the transcript unchanged when nothing falls in the gap", () => {
+        const merged = mergeRetranscribedWindow(transcript, window, result([
+            segment("Person A (deep voice)", "Only the padding.", 0, 4),
+        ]));
+
+        expect(merged).toBe(transcript);
+    });
+});
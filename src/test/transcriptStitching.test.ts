@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import type { TranscriptionResult, TranscriptionSegment } from "@/lib/gemini";
+import { planChunkWindows, stitchTranscriptionChunks } from "@/lib/transcriptStitching";
+
+function result(segments: TranscriptionSegment[]): TranscriptionResult {
+    return {
+        text: segments.map((segment) => segment.text).join("\n"),
+        segments,
+        speakers: Array.from(new Set(segments.map((segment) => segment.speaker))),
+        duration: 0,
+    };
+}
+
+describe("stitchTranscriptionChunks", () => {
+    const [first, second] = planChunkWindows(1200, 600, 20);
+
+    it("drops the repeated overlap and keeps speakers across chunks", () => {
+        const stitched = stitchTranscriptionChunks([
+            { window: first, result: result([
+                { speaker: "Person A (deep voice)", text: "Welcome everyone, today we discuss the launch plan", startTime: 0, endTime: 600 },
+            ]) },
+            { window: second, result: result([
+                { speaker: "Person A (deep voice)", text: "we discuss the launch plan. First item is marketing.", startTime: 0, endTime: 30 },
+            ]) },
+        ], 1200);
+
+        expect(stitched.segments.map((segment) => segment.text)).toEqual([
+            "Welcome everyone, today we discuss the launch plan",
+            "First item is marketing.",
+        ]);
+        expect(stitched.speakers).toEqual(["Person A (deep voice)"]);
+    });
+
+    it("never lets a segment end before it starts", () => {
+        const stitched = stitchTranscriptionChunks([
+            { window: first, result: result([
+                { speaker: "A", text: "The budget review runs until the end of the first chunk", startTime: 0, endTime: 600 },
+            ]) },
+            { window: second, result: result([
+                { speaker: "B", text: "A side remark inside the overlap.", startTime: 2, endTime: 8 },
+                { speaker: "B", text: "Then the next topic.", startTime: 25, endTime: 40 },
+            ]) },
+        ], 1200);
+
+        for (const segment of stitched.segments) {
+            expect(segment.endTime).toBeGreaterThanOrEqual(segment.startTime!);
+        }
+        expect(stitched.segments[1]).toMatchObject({ startTime: 600, endTime: 600 });
+        expect(stitched.segments[2]).toMatchObject({ startTime: second.start + 25, endTime: second.start + 40 });
+    });
+});
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { randomBytes } from "crypto";
+import type { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeSupabase } from "./fakeSupabase";
+
+const mocks = vi.hoisted(() => ({
+    fake: null as ReturnType<typeof createFakeSupabase> | null,
+    userId: "user_1",
+}));
+
+vi.mock("@/lib/supabase", () => ({
+    getSupabaseServerClient: () => mocks.fake!.client,
+}));
+vi.mock("@/lib/auth", () => ({
+    getSessionUser: async () => ({ id: mocks.userId }),
+}));
+
+import { getStoredGeminiKeyStatus, reencryptStoredGeminiKeys, resolveGeminiApiKeyForRequest, saveGeminiApiKey } from "@/lib/userKey";
+
+mocks.fake = createFakeSupabase();
+const fake = mocks.fake;
+
+const OLD_MASTER_KEY = `2025:${randomBytes(32).toString("base64")}`;
+const NEW_MASTER_KEY = `2026:${randomBytes(32).toString("base64")}`;
+const API_KEY = "AIzaSyExampleKey-0123456789abcdefghij";
+const LEGACY_KEY = "AIzaSyLegacyPlaintext-9876543210zyxw";
+const request = {} as NextRequest;
+
+function keyRow(userId: string) {
+    return fake.tables.user_gemini_keys.find((row) => row.user_id === userId)!;
+}
+
+beforeEach(() => {
+    fake.reset();
+    mocks.userId = "user_1";
+    vi.stubEnv("REMEMBRY_MASTER_KEYS", OLD_MASTER_KEY);
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe("saveGeminiApiKey", () => {
+    it("stores only the encrypted key and a masked hint", async () => {
+        await saveGeminiApiKey("user_1", API_KEY);
+        await saveGeminiApiKey("user_1", `${API_KEY}-replaced`);
+
+        expect(fake.writes.map((write) => write.operation)).toEqual(["insert", "update"]);
+        for (const { row } of fake.writes) {
+            expect(JSON.stringify(row)).not.toContain(API_KEY);
+            expect(row.gemini_api_key).toBeNull();
+        }
+        expect(keyRow("user_1")).toMatchObject({ master_key_id: "2025", key_prefix: "AIzaSy", key_suffix: "aced" });
+    });
+
+    it("decrypts the stored key for the signed-in user", async () => {
+        await saveGeminiApiKey("user_1", API_KEY);
+
+        expect(await resolveGeminiApiKeyForRequest(request)).toBe(API_KEY);
+        expect((await getStoredGeminiKeyStatus("user_1")).maskedKey).toBe("AIzaSy...ghij");
+    });
+});
+
+describe("reencryptStoredGeminiKeys", () => {
+    it("encrypts plaintext rows and re-wraps rows of a retired master key", async () => {
+        await saveGeminiApiKey("user_1", API_KEY);
+        fake.tables.user_gemini_keys.push({ user_id: "user_2", gemini_api_key: LEGACY_KEY, usage_count: 0 });
+        const ciphertext = keyRow("user_1").encrypted_api_key;
+        fake.writes.length = 0;
+
+        vi.stubEnv("REMEMBRY_MASTER_KEYS", `${NEW_MASTER_KEY},${OLD_MASTER_KEY}`);
+        expect(await reencryptStoredGeminiKeys()).toEqual({ encrypted: 1, rewrapped: 1, unchanged: 0 });
+
+        for (const { row } of fake.writes) {
+            expect(JSON.stringify(row)).not.toContain(API_KEY);
+            expect(JSON.stringify(row)).not.toContain(LEGACY_KEY);
+        }
+        expect(keyRow("user_1")).toMatchObject({ master_key_id: "2026", encrypted_api_key: ciphertext });
+        expect(keyRow("user_2")).toMatchObject({ gemini_api_key: null, master_key_id: "2026" });
+
+        // Both keys still decrypt once the retired master key is removed.
+        vi.stubEnv("REMEMBRY_MASTER_KEYS", NEW_MASTER_KEY);
+        expect(await resolveGeminiApiKeyForRequest(request)).toBe(API_KEY);
+        mocks.userId = "user_2";
+        expect(await resolveGeminiApiKeyForRequest(request)).toBe(LEGACY_KEY);
+
+        expect(await reencryptStoredGeminiKeys()).toEqual({ encrypted: 0, rewrapped: 0, unchanged: 2 });
+    });
+});
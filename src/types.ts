@@ -27,6 +27,9 @@ export interface GroundingChunk {
         uri?: string;
         title?: string;
         documentName?: string;
+        meetingId?: string;
+        segmentIndex?: number;
+        startTime?: number;
     };
 }
 
@@ -0,0 +1,71 @@
+-- Remembry Database Schema: semantic retrieval for project documents
+-- Run after 001_initial_schema.sql
+
+-- =============================================================================
+-- EXTENSIONS
+-- =============================================================================
+create extension if not exists vector;
+
+-- =============================================================================
+-- PROJECT DOCUMENT CHUNKS TABLE
+-- =============================================================================
+-- Transcripts are split on segment boundaries; each chunk keeps the meeting id,
+-- title and time range of the segments it covers in metadata.
+create table if not exists public.project_document_chunks (
+  id text primary key,
+  document_id text not null references public.project_documents(id) on delete cascade,
+  project_id text not null references public.projects(id) on delete cascade,
+  chunk_index integer not null,
+  content text not null,
+  metadata jsonb not null default '{}'::jsonb,
+  embedding vector(768) not null,
+  created_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_project_document_chunks_project_id on public.project_document_chunks(project_id);
+create index if not exists idx_project_document_chunks_document_id on public.project_document_chunks(document_id);
+create index if not exists idx_project_document_chunks_embedding
+  on public.project_document_chunks using hnsw (embedding vector_cosine_ops);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (permissive for development)
+-- =============================================================================
+alter table public.project_document_chunks enable row level security;
+
+create policy "project_document_chunks_all" on public.project_document_chunks for all using (true) with check (true);
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Rank the chunks of a project (optionally a single document) by cosine similarity
+create or replace function public.match_project_document_chunks(
+  p_project_id text,
+  p_query_embedding vector(768),
+  p_match_count integer default 5,
+  p_document_id text default null
+)
+returns table (
+  id text,
+  document_id text,
+  chunk_index integer,
+  content text,
+  metadata jsonb,
+  similarity double precision
+) as $$
+  select
+    c.id,
+    c.document_id,
+    c.chunk_index,
+    c.content,
+    c.metadata,
+    1 - (c.embedding <=> p_query_embedding) as similarity
+  from public.project_document_chunks c
+  where c.project_id = p_project_id
+    and (p_document_id is null or c.document_id = p_document_id)
+  order by c.embedding <=> p_query_embedding
+  limit p_match_count;
+$$ language sql stable;
@@ -0,0 +1,38 @@
+-- Remembry Database Schema: background processing of uploaded meetings
+-- Run after 002_document_chunks.sql
+
+-- =============================================================================
+-- PROCESSING JOBS TABLE
+-- =============================================================================
+-- One row per upload. `stage` is the next stage to run; completed stages keep
+-- their results in `output` so a failed job resumes where it stopped.
+create table if not exists public.processing_jobs (
+  id text primary key,
+  user_id text,
+  meeting_id text not null,
+  project_id text not null references public.projects(id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'failed', 'completed')),
+  stage text not null default 'transcribe'
+    check (stage in ('transcribe', 'notes', 'save', 'index', 'done')),
+  progress integer not null default 0,
+  error text,
+  attempts integer not null default 0,
+  input jsonb not null,
+  output jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_processing_jobs_meeting_id on public.processing_jobs(meeting_id);
+create index if not exists idx_processing_jobs_status on public.processing_jobs(status);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (permissive for development)
+-- =============================================================================
+alter table public.processing_jobs enable row level security;
+
+create policy "processing_jobs_all" on public.processing_jobs for all using (true) with check (true);
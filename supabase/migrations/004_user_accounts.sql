@@ -0,0 +1,42 @@
+-- Remembry Database Schema: user accounts and sessions
+-- Run after 003_processing_jobs.sql
+
+-- =============================================================================
+-- APP USERS TABLE
+-- =============================================================================
+-- Email/password accounts. Sessions are stateless signed cookies, so there is
+-- no session table; deleting a user invalidates their cookies on the next request.
+create table if not exists public.app_users (
+  id text primary key,
+  email text not null unique,
+  password_hash text not null,
+  display_name text,
+  created_at timestamptz not null default now(),
+  last_login_at timestamptz
+);
+
+-- =============================================================================
+-- LEGACY USER CLAIMS TABLE
+-- =============================================================================
+-- Before accounts existed, each browser generated an anonymous id that was sent
+-- as the x-remembry-user-id header. An anonymous id can be claimed by exactly one
+-- account; the primary key makes the claim atomic.
+create table if not exists public.legacy_user_claims (
+  legacy_user_id text primary key,
+  user_id text not null references public.app_users(id) on delete cascade,
+  claimed_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_legacy_user_claims_user_id on public.legacy_user_claims(user_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (permissive for development)
+-- =============================================================================
+alter table public.app_users enable row level security;
+alter table public.legacy_user_claims enable row level security;
+
+create policy "app_users_all" on public.app_users for all using (true) with check (true);
+create policy "legacy_user_claims_all" on public.legacy_user_claims for all using (true) with check (true);
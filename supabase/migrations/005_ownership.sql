@@ -0,0 +1,74 @@
+-- Remembry Database Schema: per-user ownership
+-- Run after 004_user_accounts.sql
+--
+-- The app talks to Postgres with the service role key and scopes every query by
+-- owner itself. The policies below replace the permissive development policies so
+-- a client holding the anon key (or a JWT minted for a user) only sees that
+-- user's rows. Owner ids are app_users ids and are matched against the JWT `sub`.
+
+-- =============================================================================
+-- OWNER COLUMNS
+-- =============================================================================
+alter table public.projects
+  add column if not exists owner_id text references public.app_users(id) on delete cascade;
+alter table public.project_documents
+  add column if not exists owner_id text references public.app_users(id) on delete cascade;
+alter table public.meetings
+  add column if not exists owner_id text references public.app_users(id) on delete cascade;
+
+-- Rows created before accounts existed have no owner and are hidden from everyone.
+-- On a single-user install they can be handed to your account with:
+--
+--   update public.projects set owner_id = '<app_users.id>' where owner_id is null;
+--   update public.project_documents set owner_id = '<app_users.id>' where owner_id is null;
+--   update public.meetings set owner_id = '<app_users.id>' where owner_id is null;
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_projects_owner_id on public.projects(owner_id);
+create index if not exists idx_project_documents_owner_id on public.project_documents(owner_id);
+create index if not exists idx_meetings_owner_id on public.meetings(owner_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (ownership)
+-- =============================================================================
+drop policy if exists "projects_all" on public.projects;
+drop policy if exists "project_documents_all" on public.project_documents;
+drop policy if exists "meetings_all" on public.meetings;
+drop policy if exists "project_document_chunks_all" on public.project_document_chunks;
+drop policy if exists "user_gemini_keys_all" on public.user_gemini_keys;
+drop policy if exists "processing_jobs_all" on public.processing_jobs;
+-- Accounts hold password hashes and are only reachable with the service role.
+drop policy if exists "app_users_all" on public.app_users;
+drop policy if exists "legacy_user_claims_all" on public.legacy_user_claims;
+
+create policy "projects_owner" on public.projects for all
+  using (owner_id = auth.jwt() ->> 'sub')
+  with check (owner_id = auth.jwt() ->> 'sub');
+
+create policy "project_documents_owner" on public.project_documents for all
+  using (owner_id = auth.jwt() ->> 'sub')
+  with check (owner_id = auth.jwt() ->> 'sub');
+
+create policy "meetings_owner" on public.meetings for all
+  using (owner_id = auth.jwt() ->> 'sub')
+  with check (owner_id = auth.jwt() ->> 'sub');
+
+create policy "project_document_chunks_owner" on public.project_document_chunks for all
+  using (exists (
+    select 1 from public.projects p
+    where p.id = project_document_chunks.project_id and p.owner_id = auth.jwt() ->> 'sub'
+  ))
+  with check (exists (
+    select 1 from public.projects p
+    where p.id = project_document_chunks.project_id and p.owner_id = auth.jwt() ->> 'sub'
+  ));
+
+create policy "user_gemini_keys_owner" on public.user_gemini_keys for all
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
+
+create policy "processing_jobs_owner" on public.processing_jobs for all
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
@@ -0,0 +1,31 @@
+-- Remembry Database Schema: encrypted Gemini API keys
+-- Run after 005_ownership.sql
+--
+-- API keys are stored with envelope encryption (see src/lib/keyEncryption.ts).
+-- `gemini_api_key` only holds keys saved before this migration; run
+-- `npx tsx scripts/reencrypt-gemini-keys.ts` once to encrypt them and clear it.
+
+-- =============================================================================
+-- ENCRYPTED KEY COLUMNS
+-- =============================================================================
+alter table public.user_gemini_keys alter column gemini_api_key drop not null;
+
+alter table public.user_gemini_keys
+  add column if not exists encrypted_api_key text,
+  add column if not exists encrypted_data_key text,
+  add column if not exists master_key_id text,
+  add column if not exists key_prefix text,
+  add column if not exists key_suffix text;
+
+-- The masked hint shown in Settings is kept in the clear so showing it never
+-- requires decrypting the key.
+update public.user_gemini_keys
+set key_prefix = left(gemini_api_key, 6),
+    key_suffix = right(gemini_api_key, 4)
+where gemini_api_key is not null and key_prefix is null;
+
+alter table public.user_gemini_keys
+  add constraint user_gemini_keys_has_key
+  check (gemini_api_key is not null or (encrypted_api_key is not null and encrypted_data_key is not null and master_key_id is not null));
+
+create index if not exists idx_user_gemini_keys_master_key_id on public.user_gemini_keys(master_key_id);
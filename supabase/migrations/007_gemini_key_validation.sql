@@ -0,0 +1,11 @@
+-- Remembry Database Schema: Gemini API key validation results
+-- Run after 006_encrypted_gemini_keys.sql
+
+-- =============================================================================
+-- VALIDATION COLUMNS
+-- =============================================================================
+-- Result of the last test call made with the key (on save or from Settings).
+alter table public.user_gemini_keys
+  add column if not exists last_validated_at timestamptz,
+  add column if not exists last_validation_status text
+    check (last_validation_status in ('valid', 'invalid', 'quota_exhausted', 'unreachable'));
@@ -0,0 +1,65 @@
+-- Remembry Database Schema: Gemini usage metering and per-user limits
+-- Run after 007_gemini_key_validation.sql
+
+-- =============================================================================
+-- GEMINI USAGE EVENTS TABLE
+-- =============================================================================
+-- One row per Gemini API call. Token counts come from the response's usage
+-- metadata and are null when the API does not report them (e.g. embeddings).
+create table if not exists public.gemini_usage_events (
+  id bigint generated always as identity primary key,
+  user_id text not null references public.app_users(id) on delete cascade,
+  model text not null,
+  operation text not null,
+  prompt_tokens integer,
+  output_tokens integer,
+  total_tokens integer,
+  meeting_id text,
+  project_id text,
+  created_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- USER USAGE LIMITS TABLE
+-- =============================================================================
+-- Optional caps chosen by the user. Null means unlimited. Days and months are UTC.
+create table if not exists public.user_usage_limits (
+  user_id text primary key references public.app_users(id) on delete cascade,
+  daily_request_limit integer check (daily_request_limit > 0),
+  monthly_request_limit integer check (monthly_request_limit > 0),
+  daily_token_limit bigint check (daily_token_limit > 0),
+  monthly_token_limit bigint check (monthly_token_limit > 0),
+  updated_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_gemini_usage_events_user_created
+  on public.gemini_usage_events(user_id, created_at desc);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (ownership)
+-- =============================================================================
+alter table public.gemini_usage_events enable row level security;
+alter table public.user_usage_limits enable row level security;
+
+create policy "gemini_usage_events_owner" on public.gemini_usage_events for all
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
+
+create policy "user_usage_limits_owner" on public.user_usage_limits for all
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Requests and tokens used by a user since a point in time
+create or replace function public.gemini_usage_totals(p_user_id text, p_since timestamptz)
+returns table (request_count bigint, token_count bigint) as $$
+  select count(*)::bigint, coalesce(sum(total_tokens), 0)::bigint
+  from public.gemini_usage_events
+  where user_id = p_user_id and created_at >= p_since;
+$$ language sql stable;
@@ -0,0 +1,40 @@
+-- Remembry Database Schema: revision history for meeting notes
+-- Run after 008_usage_metering.sql
+
+-- =============================================================================
+-- MEETING NOTES REVISIONS TABLE
+-- =============================================================================
+-- One row per saved version of the notes of a meeting in one language.
+-- `source` tells generated notes apart from manual edits and restores, so
+-- regenerating can refuse to overwrite notes a user edited by hand.
+create table if not exists public.meeting_notes_revisions (
+  id bigint generated always as identity primary key,
+  meeting_id text not null references public.meetings(id) on delete cascade,
+  language text not null,
+  notes jsonb not null,
+  source text not null check (source in ('generated', 'manual', 'restore')),
+  author_id text references public.app_users(id) on delete set null,
+  restored_from bigint references public.meeting_notes_revisions(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_meeting_notes_revisions_meeting_language
+  on public.meeting_notes_revisions(meeting_id, language, created_at desc);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (ownership)
+-- =============================================================================
+alter table public.meeting_notes_revisions enable row level security;
+
+create policy "meeting_notes_revisions_owner" on public.meeting_notes_revisions for all
+  using (exists (
+    select 1 from public.meetings m
+    where m.id = meeting_notes_revisions.meeting_id and m.owner_id = auth.jwt() ->> 'sub'
+  ))
+  with check (exists (
+    select 1 from public.meetings m
+    where m.id = meeting_notes_revisions.meeting_id and m.owner_id = auth.jwt() ->> 'sub'
+  ));
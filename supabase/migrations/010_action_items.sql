@@ -0,0 +1,41 @@
+-- Remembry Database Schema: action items as tasks
+-- Run after 009_meeting_notes_revisions.sql
+
+-- =============================================================================
+-- ACTION ITEMS TABLE
+-- =============================================================================
+-- Tasks extracted from meeting notes or added by hand. Extracted items that a
+-- user has not edited are replaced when the notes are regenerated; edited and
+-- manual items are kept.
+create table if not exists public.action_items (
+  id text primary key,
+  owner_id text not null references public.app_users(id) on delete cascade,
+  meeting_id text not null references public.meetings(id) on delete cascade,
+  project_id text not null references public.projects(id) on delete cascade,
+  description text not null,
+  assignee text,
+  due_date date,
+  priority text not null default 'medium' check (priority in ('low', 'medium', 'high')),
+  status text not null default 'open' check (status in ('open', 'in_progress', 'done')),
+  source_segment_index integer,
+  origin text not null default 'manual' check (origin in ('extracted', 'manual')),
+  edited boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_action_items_owner_status on public.action_items(owner_id, status);
+create index if not exists idx_action_items_meeting_id on public.action_items(meeting_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (ownership)
+-- =============================================================================
+alter table public.action_items enable row level security;
+
+create policy "action_items_owner" on public.action_items for all
+  using (owner_id = auth.jwt() ->> 'sub')
+  with check (owner_id = auth.jwt() ->> 'sub');
@@ -0,0 +1,11 @@
+-- Remembry Database Schema: speaker names
+-- Run after 010_action_items.sql
+
+-- =============================================================================
+-- SPEAKER NAMES COLUMN
+-- =============================================================================
+-- Maps the speaker labels of a meeting's transcription (e.g. "Person A (deep
+-- male voice)") to the real names chosen by the user. The transcription keeps
+-- the original labels; names are applied when the meeting is read.
+alter table public.meetings
+  add column if not exists speaker_names jsonb not null default '{}'::jsonb;
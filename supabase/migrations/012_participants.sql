@@ -0,0 +1,57 @@
+-- Remembry Database Schema: participant directory
+-- Run after 011_speaker_names.sql
+
+-- =============================================================================
+-- PARTICIPANTS TABLE
+-- =============================================================================
+-- People who take part in the meetings of a project. `voice_labels` collects
+-- the speaker labels (e.g. "Person A (deep male voice)") the person was given
+-- in earlier transcriptions, so new speakers can be matched against them.
+create table if not exists public.participants (
+  id text primary key,
+  owner_id text not null references public.app_users(id) on delete cascade,
+  project_id text not null references public.projects(id) on delete cascade,
+  name text not null,
+  role text,
+  aliases text[] not null default '{}',
+  voice_labels text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- MEETING PARTICIPANTS TABLE
+-- =============================================================================
+-- Which participant each speaker label of a meeting was named as.
+create table if not exists public.meeting_participants (
+  meeting_id text not null references public.meetings(id) on delete cascade,
+  speaker_label text not null,
+  participant_id text not null references public.participants(id) on delete cascade,
+  primary key (meeting_id, speaker_label)
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create unique index if not exists idx_participants_project_name on public.participants(project_id, lower(name));
+create index if not exists idx_meeting_participants_participant_id on public.meeting_participants(participant_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (ownership)
+-- =============================================================================
+alter table public.participants enable row level security;
+alter table public.meeting_participants enable row level security;
+
+create policy "participants_owner" on public.participants for all
+  using (owner_id = auth.jwt() ->> 'sub')
+  with check (owner_id = auth.jwt() ->> 'sub');
+
+create policy "meeting_participants_owner" on public.meeting_participants for all
+  using (exists (
+    select 1 from public.participants p
+    where p.id = participant_id and p.owner_id = auth.jwt() ->> 'sub'
+  ))
+  with check (exists (
+    select 1 from public.participants p
+    where p.id = participant_id and p.owner_id = auth.jwt() ->> 'sub'
+  ));
@@ -0,0 +1,19 @@
+-- Remembry Database Schema: stored recordings
+-- Run after 012_participants.sql
+
+-- =============================================================================
+-- RECORDING COLUMN
+-- =============================================================================
+-- Key of the original recording in the blob store (see src/lib/blobStore.ts),
+-- or null for text transcripts and meetings uploaded before recordings were kept.
+alter table public.meetings
+  add column if not exists audio_path text;
+
+-- =============================================================================
+-- STORAGE BUCKET
+-- =============================================================================
+-- Private bucket for recordings. The app reads and writes it with the service
+-- role key and hands out short-lived signed URLs for playback.
+insert into storage.buckets (id, name, public)
+values ('recordings', 'recordings', false)
+on conflict (id) do nothing;
@@ -0,0 +1,10 @@
+-- Remembry Database Schema: stored transcripts
+-- Run after 013_recordings.sql
+
+-- =============================================================================
+-- TRANSCRIPT COLUMN
+-- =============================================================================
+-- Key of the transcript file a text meeting was uploaded as, in the same blob
+-- store as recordings (`audio_path`). Both are removed with the meeting.
+alter table public.meetings
+  add column if not exists transcript_path text;
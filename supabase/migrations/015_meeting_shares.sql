@@ -0,0 +1,34 @@
+-- Remembry Database Schema: shareable meeting links
+-- Run after 014_transcript_blobs.sql
+
+-- =============================================================================
+-- MEETING SHARES TABLE
+-- =============================================================================
+-- Read-only links to a meeting at /share/<token>. Anyone with the token can
+-- open the link until it expires or is revoked (deleted); a password, when
+-- set, is stored as an scrypt hash like account passwords.
+create table if not exists public.meeting_shares (
+  id text primary key,
+  owner_id text not null references public.app_users(id) on delete cascade,
+  meeting_id text not null references public.meetings(id) on delete cascade,
+  token text not null unique,
+  include_transcript boolean not null default false,
+  password_hash text,
+  expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_meeting_shares_meeting_id on public.meeting_shares(meeting_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (ownership)
+-- =============================================================================
+-- Public share pages read through the service role, never through this policy.
+alter table public.meeting_shares enable row level security;
+
+create policy "meeting_shares_owner" on public.meeting_shares for all
+  using (owner_id = auth.jwt() ->> 'sub')
+  with check (owner_id = auth.jwt() ->> 'sub');
@@ -0,0 +1,143 @@
+-- Remembry Database Schema: full-text search over meetings
+-- Run after 015_meeting_shares.sql
+
+-- =============================================================================
+-- SEARCH VECTOR
+-- =============================================================================
+-- Titles rank above notes, and notes above the transcript. The 'simple'
+-- configuration does no stemming, but works the same for every language a
+-- transcript or its notes can be in. Only string values of the notes JSON are
+-- indexed, so section names such as "keyTopics" never match.
+alter table public.meetings
+  add column if not exists search_vector tsvector generated always as (
+    setweight(to_tsvector('simple'::regconfig, coalesce(title, '')), 'A')
+    || setweight(jsonb_to_tsvector('simple'::regconfig, coalesce(notes_by_language, '{}'::jsonb), '["string"]'), 'B')
+    || setweight(to_tsvector('simple'::regconfig, coalesce(transcription ->> 'text', '')), 'C')
+  ) stored;
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+create index if not exists idx_meetings_search_vector on public.meetings using gin (search_vector);
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Search the meetings of an owner. `p_query` uses web search syntax ("quoted
+-- phrases", or, -excluded). Each result carries highlighted snippets of the
+-- title and notes and up to three matching transcript segments. Highlights
+-- are wrapped in chr(2) ... chr(3) so the caller can mark them up safely.
+-- With `p_speaker`, only meetings where that speaker (label or mapped name,
+-- partial and case-insensitive) said something matching are returned.
+create or replace function public.search_meetings(
+  p_owner_id text,
+  p_query text,
+  p_project_id text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_speaker text default null,
+  p_limit integer default 20
+)
+returns table (
+  meeting_id text,
+  title text,
+  project_id text,
+  project_display_name text,
+  created_at timestamptz,
+  speaker_names jsonb,
+  rank real,
+  title_snippet text,
+  notes_snippet text,
+  segment_match_count integer,
+  segment_matches jsonb
+) as $$
+  with query as (
+    select
+      websearch_to_tsquery('simple', p_query) as q,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "' as options
+  ),
+  candidates as (
+    select m.*, ts_rank(m.search_vector, query.q) as match_rank, query.q, query.options
+    from public.meetings m, query
+    where m.owner_id = p_owner_id
+      and m.search_vector @@ query.q
+      and (p_project_id is null or m.project_id = p_project_id)
+      and (p_from is null or m.created_at >= p_from)
+      and (p_to is null or m.created_at < p_to)
+  ),
+  segment_hits as (
+    select
+      c.id as meeting_id,
+      (s.ordinality - 1)::integer as segment_index,
+      s.value as segment,
+      ts_rank(to_tsvector('simple', coalesce(s.value ->> 'text', '')), c.q) as segment_rank,
+      c.q,
+      c.options
+    from candidates c
+    cross join lateral jsonb_array_elements(
+      case when jsonb_typeof(c.transcription -> 'segments') = 'array' then c.transcription -> 'segments' else '[]'::jsonb end
+    ) with ordinality as s(value, ordinality)
+    where to_tsvector('simple', coalesce(s.value ->> 'text', '')) @@ c.q
+      and (
+        p_speaker is null
+        or position(lower(p_speaker) in lower(coalesce(s.value ->> 'speaker', ''))) > 0
+        or position(lower(p_speaker) in lower(coalesce(c.speaker_names ->> (s.value ->> 'speaker'), ''))) > 0
+      )
+  ),
+  ranked_segments as (
+    select
+      h.*,
+      row_number() over (partition by h.meeting_id order by h.segment_rank desc, h.segment_index) as hit_position,
+      count(*) over (partition by h.meeting_id) as hit_count
+    from segment_hits h
+  ),
+  segment_summary as (
+    select
+      r.meeting_id,
+      max(r.hit_count)::integer as hit_count,
+      jsonb_agg(
+        jsonb_build_object(
+          'index', r.segment_index,
+          'speaker', r.segment ->> 'speaker',
+          'startTime', r.segment -> 'startTime',
+          'snippet', ts_headline('simple', coalesce(r.segment ->> 'text', ''), r.q, r.options)
+        )
+        order by r.segment_index
+      ) as matches
+    from ranked_segments r
+    where r.hit_position <= 3
+    group by r.meeting_id
+  )
+  select
+    c.id,
+    c.title,
+    c.project_id,
+    p.display_name,
+    c.created_at,
+    c.speaker_names,
+    c.match_rank,
+    case when to_tsvector('simple', c.title) @@ c.q
+      then ts_headline('simple', c.title, c.q, c.options || ', HighlightAll=true')
+    end,
+    case when jsonb_to_tsvector('simple', coalesce(c.notes_by_language, '{}'::jsonb), '["string"]') @@ c.q
+      then ts_headline(
+        'simple',
+        (
+          select string_agg(v #>> '{}', ' ')
+          from jsonb_path_query(coalesce(c.notes_by_language, '{}'::jsonb), 'strict $.**') as v
+          where jsonb_typeof(v) = 'string'
+        ),
+        c.q,
+        c.options
+      )
+    end,
+    coalesce(ss.hit_count, 0),
+    coalesce(ss.matches, '[]'::jsonb)
+  from candidates c
+  join public.projects p on p.id = c.project_id
+  left join segment_summary ss on ss.meeting_id = c.id
+  where p_speaker is null or ss.meeting_id is not null
+  order by c.match_rank desc, c.created_at desc
+  limit p_limit;
+$$ language sql stable;
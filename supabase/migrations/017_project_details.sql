@@ -0,0 +1,12 @@
+-- Remembry Database Schema: project description and goals
+-- Run after 016_meeting_search.sql
+
+-- =============================================================================
+-- PROJECT DETAILS COLUMNS
+-- =============================================================================
+-- Entered when a project is created and editable afterwards. The goals are
+-- given to the model as context when meetings of the project are transcribed
+-- and their notes are generated.
+alter table public.projects
+  add column if not exists description text not null default '',
+  add column if not exists goals text not null default '';
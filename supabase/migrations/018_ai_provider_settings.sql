@@ -0,0 +1,28 @@
+-- Remembry Database Schema: per-user choice of AI providers and models
+-- Run after 017_project_details.sql
+
+-- =============================================================================
+-- USER AI SETTINGS TABLE
+-- =============================================================================
+-- Which backend generates notes and chat answers (llm_*) and which one
+-- transcribes recordings (transcription_*). A null model means the provider's
+-- default. Users without a row use Gemini for both.
+create table if not exists public.user_ai_settings (
+  user_id text primary key references public.app_users(id) on delete cascade,
+  llm_provider text not null default 'gemini'
+    check (llm_provider in ('gemini', 'openai_compatible')),
+  llm_model text,
+  transcription_provider text not null default 'gemini'
+    check (transcription_provider in ('gemini', 'openai_compatible')),
+  transcription_model text,
+  updated_at timestamptz not null default now()
+);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (ownership)
+-- =============================================================================
+alter table public.user_ai_settings enable row level security;
+
+create policy "user_ai_settings_owner" on public.user_ai_settings for all
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
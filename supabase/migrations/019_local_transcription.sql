@@ -0,0 +1,22 @@
+-- Remembry Database Schema: local Whisper transcription, chosen per user or per project
+-- Run after 018_ai_provider_settings.sql
+
+-- =============================================================================
+-- USER AI SETTINGS
+-- =============================================================================
+alter table public.user_ai_settings
+  drop constraint if exists user_ai_settings_transcription_provider_check;
+
+alter table public.user_ai_settings
+  add constraint user_ai_settings_transcription_provider_check
+  check (transcription_provider in ('gemini', 'openai_compatible', 'whisper_server'));
+
+-- =============================================================================
+-- PROJECTS
+-- =============================================================================
+-- Transcription provider for every meeting in the project, overriding the
+-- owner's setting. Null means the owner's setting is used. Confidential
+-- projects set 'whisper_server' so their audio is never sent to Google.
+alter table public.projects
+  add column if not exists transcription_provider text
+  check (transcription_provider in ('gemini', 'openai_compatible', 'whisper_server'));
@@ -0,0 +1,17 @@
+-- Remembry Database Schema: recording duration and transcript coverage
+-- Run after 019_local_transcription.sql
+
+-- =============================================================================
+-- MEETINGS
+-- =============================================================================
+-- Length of the recording in seconds, read from the audio container on upload.
+-- Null for text uploads and for recordings whose container gives no duration.
+alter table public.meetings
+  add column if not exists duration_seconds double precision
+  check (duration_seconds is null or duration_seconds > 0);
+
+-- Share of the recording (0-1) covered by timed transcript segments. A low
+-- value means the transcriber probably skipped parts of the audio.
+alter table public.meetings
+  add column if not exists transcript_coverage double precision
+  check (transcript_coverage is null or (transcript_coverage >= 0 and transcript_coverage <= 1));
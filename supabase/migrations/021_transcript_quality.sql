@@ -0,0 +1,12 @@
+-- Remembry Database Schema: transcript quality report
+-- Run after 020_meeting_duration.sql
+
+-- =============================================================================
+-- MEETINGS
+-- =============================================================================
+-- Result of the checks run after transcription: what was cleaned up
+-- automatically (repeats, empty segments, overlapping or out-of-order
+-- timestamps), which gaps were transcribed again and the issues left.
+-- Null for text uploads and meetings transcribed before the checks existed.
+alter table public.meetings
+  add column if not exists quality_report jsonb;
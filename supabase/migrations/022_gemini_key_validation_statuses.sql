@@ -0,0 +1,15 @@
+-- Remembry Database Schema: more specific Gemini API key validation results
+-- Run after 021_transcript_quality.sql
+
+-- =============================================================================
+-- VALIDATION COLUMNS
+-- =============================================================================
+-- 'not_found': Gemini answered 404, so the check itself was misaddressed and
+-- says nothing about the key. 'rejected': a 400 that is not about the key,
+-- such as an unsupported region.
+alter table public.user_gemini_keys
+  drop constraint if exists user_gemini_keys_last_validation_status_check;
+
+alter table public.user_gemini_keys
+  add constraint user_gemini_keys_last_validation_status_check
+  check (last_validation_status in ('valid', 'invalid', 'quota_exhausted', 'not_found', 'rejected', 'unreachable'));